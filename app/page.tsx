@@ -1,43 +1,71 @@
 'use client'
 
-import React, { useState } from 'react'
+import React, { useEffect, useRef, useState } from 'react'
 import { ConnectionProvider } from '@/components/connection-manager'
+import { DspLoadProvider } from '@/components/dsp-load-context'
+import { HistoryProvider } from '@/components/history-context'
+import { MacroLibraryProvider } from '@/components/macro-library-context'
+import { MidiProvider } from '@/components/midi-context'
+import { MidiLearnProvider } from '@/components/midi-learn-context'
+import { ModulePresetsProvider } from '@/components/module-presets-context'
 import { PatchProvider } from '@/components/patch-manager'
 import { Racks } from '@/components/rack/racks'
 import { SettingsProvider } from '@/components/settings-context'
 import { SettingsDialog } from '@/components/settings-dialog'
+import { toHp } from '@/lib/layout/pack'
+import { findFreeSlot, nextModuleId } from '@/lib/module-clipboard'
 import type { ModuleInstance, ModuleType } from '@/lib/module-registry'
 import { availableModules } from '@/lib/module-registry'
+import type { PatchMacro } from '@/lib/patch-schema'
+import { decodePatch, readShareHash } from '@/lib/share-link'
+
+// Patch JSON from a share link in the URL hash. The hash is cleared so a
+// reload does not throw away edits made since.
+const readSharedPatch = async (): Promise<string | null> => {
+  const encoded = readShareHash(window.location.hash)
+  if (!encoded) return null
+  const { pathname, search } = window.location
+  window.history.replaceState(null, '', `${pathname}${search}`)
+  return decodePatch(encoded)
+}
 
 export default function RacksContainer() {
   const [modules, setModules] = useState<ModuleInstance[]>([])
+  // Every module id used this session. Removed modules keep theirs, so undo
+  // can bring them back and their cables never reach a newer module.
+  const usedModuleIds = useRef(new Set<string>())
+  useEffect(() => {
+    for (const m of modules) usedModuleIds.current.add(m.id)
+  }, [modules])
 
-  const addModule = (type: ModuleType) => {
+  const addModule = (
+    type: ModuleType,
+    at: { rack: number; xHp: number } = { rack: 1, xHp: 0 },
+  ): ModuleInstance => {
     console.log('addModule', type)
-    const existingCount = modules.filter((m) => m.type === type).length
-    const newId = `${type}-${existingCount + 1}`
-    const rack = 1
-    // Place new module at the first free HP slot in the target rack
-    const HP_PX = 20
+    for (const m of modules) usedModuleIds.current.add(m.id)
+    const newId = nextModuleId(type, usedModuleIds.current)
+    usedModuleIds.current.add(newId)
+    const { rack } = at
+    // Place new module at the first free HP slot from `at` in the target rack
     const getModuleHp = (t: ModuleType) =>
       availableModules.find((m) => m.type === t)?.hp ?? 9
-    const rackModules = modules
-      .filter((m) => (m.rack ?? 1) === rack)
-      .map((m) => ({
-        xHp: m.xHp ?? Math.round((m.x ?? 0) / HP_PX),
-        hp: m.hp ?? getModuleHp(m.type as ModuleType),
-      }))
-      .sort((a, b) => (a.xHp ?? 0) - (b.xHp ?? 0))
+    const occupied = modules.map((m) => ({
+      rack: m.rack ?? 1,
+      xHp: m.xHp ?? toHp(m.x ?? 0),
+      hp: m.hp ?? getModuleHp(m.type as ModuleType),
+    }))
     const widthHp = getModuleHp(type)
-    let cursor = 0
-    for (const { xHp, hp } of rackModules) {
-      if (cursor + widthHp <= (xHp ?? 0)) break
-      cursor = Math.max(cursor, (xHp ?? 0) + (hp ?? 0))
+    const cursor = findFreeSlot(occupied, rack, at.xHp, widthHp)
+    const instance: ModuleInstance = {
+      id: newId,
+      type,
+      rack,
+      xHp: cursor,
+      hp: widthHp,
     }
-    setModules((prev) => [
-      ...prev,
-      { id: newId, type, rack, xHp: cursor, hp: widthHp },
-    ])
+    setModules((prev) => [...prev, instance])
+    return instance
   }
 
   const removeModule = (moduleId: string) => {
@@ -61,42 +89,58 @@ export default function RacksContainer() {
 
   return (
     <SettingsProvider>
-      <ConnectionProvider>
-        <PatchProvider
-          modules={modules}
-          onModulesChange={(
-            m: Array<{
-              id: string
-              type: string
-              rack?: number
-              x?: number
-              xHp?: number
-              hp?: number
-            }>,
-          ) => {
-            console.log('modules changed', m)
-            setModules(
-              m.map((x) => ({
-                id: x.id,
-                type: x.type as ModuleType,
-                rack: x.rack !== undefined ? x.rack : 1,
-                ...(x.x !== undefined && { x: x.x }),
-                ...(x.xHp !== undefined && { xHp: x.xHp }),
-                ...(x.hp !== undefined && { hp: x.hp }),
-              })),
-            )
-          }}
-          onParameterChange={handleParameterChange}
-        >
-          <Racks
-            modules={modules}
-            setModules={setModules}
-            addModule={addModule}
-            removeModule={removeModule}
-          />
-          <SettingsDialog />
-        </PatchProvider>
-      </ConnectionProvider>
+      <DspLoadProvider>
+        <MidiProvider>
+          <HistoryProvider>
+            <ConnectionProvider>
+              <MidiLearnProvider>
+                <ModulePresetsProvider>
+                  <MacroLibraryProvider>
+                    <PatchProvider
+                      modules={modules}
+                      onModulesChange={(
+                        m: Array<{
+                          id: string
+                          type: string
+                          rack?: number
+                          x?: number
+                          xHp?: number
+                          hp?: number
+                          macro?: PatchMacro
+                        }>,
+                      ) => {
+                        console.log('modules changed', m)
+                        setModules(
+                          m.map((x) => ({
+                            id: x.id,
+                            type: x.type as ModuleType,
+                            rack: x.rack !== undefined ? x.rack : 1,
+                            ...(x.x !== undefined && { x: x.x }),
+                            ...(x.xHp !== undefined && { xHp: x.xHp }),
+                            ...(x.hp !== undefined && { hp: x.hp }),
+                            ...(x.macro && { macro: x.macro }),
+                          })),
+                        )
+                      }}
+                      onParameterChange={handleParameterChange}
+                    >
+                      <Racks
+                        modules={modules}
+                        setModules={setModules}
+                        addModule={addModule}
+                        removeModule={removeModule}
+                        usedModuleIds={usedModuleIds.current}
+                        getStartupPatch={readSharedPatch}
+                      />
+                      <SettingsDialog />
+                    </PatchProvider>
+                  </MacroLibraryProvider>
+                </ModulePresetsProvider>
+              </MidiLearnProvider>
+            </ConnectionProvider>
+          </HistoryProvider>
+        </MidiProvider>
+      </DspLoadProvider>
     </SettingsProvider>
   )
 }
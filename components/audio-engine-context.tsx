@@ -0,0 +1,53 @@
+'use client'
+
+import type React from 'react'
+import { createContext, useContext, useMemo } from 'react'
+import { getAudioContext } from '@/lib/helpers'
+
+interface AudioEngineContextValue {
+  // Returns the context modules should build their graph on
+  getContext: () => AudioContext
+  // True when rendering faster than realtime (OfflineAudioContext)
+  offline: boolean
+  // Lets the host wait for every module's async init to settle
+  trackInit?: (init: Promise<void>) => void
+}
+
+// Default: the shared realtime context, no provider required
+const AudioEngineContext = createContext<AudioEngineContextValue>({
+  getContext: getAudioContext,
+  offline: false,
+})
+
+export function AudioEngineProvider({
+  context,
+  offline = false,
+  onInit,
+  children,
+}: {
+  context: BaseAudioContext
+  offline?: boolean
+  onInit?: (init: Promise<void>) => void
+  children: React.ReactNode
+}) {
+  const value = useMemo<AudioEngineContextValue>(
+    () => ({
+      // Modules type their refs as AudioContext; an OfflineAudioContext
+      // supports every node/worklet API they use.
+      getContext: () => context as AudioContext,
+      offline,
+      trackInit: onInit,
+    }),
+    [context, offline, onInit],
+  )
+
+  return (
+    <AudioEngineContext.Provider value={value}>
+      {children}
+    </AudioEngineContext.Provider>
+  )
+}
+
+export function useAudioEngine(): AudioEngineContextValue {
+  return useContext(AudioEngineContext)
+}
@@ -0,0 +1,211 @@
+'use client'
+
+import { RotateCw } from 'lucide-react'
+import { type ReactNode, useEffect, useState } from 'react'
+import { usePatchManager } from '@/components/patch-manager'
+import { Button } from '@/components/ui/button'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { toast } from '@/hooks/use-toast'
+import {
+  type AudioSettings,
+  LATENCY_HINTS,
+  loadAudioSettings,
+  SAMPLE_RATES,
+  type SinkableAudioContext,
+  saveAudioSettings,
+  supportsOutputDevice,
+} from '@/lib/audio-settings'
+import { getAudioContext, getEngineSettings } from '@/lib/helpers'
+
+// Select items cannot be empty; stand for "device rate" / "system default"
+const DEVICE_RATE = 'device'
+const DEFAULT_OUTPUT = 'default'
+
+const LATENCY_LABELS: Record<AudioContextLatencyCategory, string> = {
+  interactive: 'Interactive (lowest)',
+  balanced: 'Balanced',
+  playback: 'Playback (fewest dropouts)',
+}
+
+// What the running context ended up with, which may differ from the request
+const describeEngine = (ac: AudioContext) =>
+  `Running at ${ac.sampleRate} Hz, ${Math.round(
+    (ac.baseLatency + (ac.outputLatency || 0)) * 1000,
+  )} ms output latency`
+
+function SettingRow({
+  label,
+  children,
+}: {
+  label: string
+  children: ReactNode
+}) {
+  return (
+    <div className="flex items-center justify-between gap-3 mt-3">
+      <div className="text-xs text-muted-foreground w-28">{label}</div>
+      <div className="flex-1">{children}</div>
+    </div>
+  )
+}
+
+/**
+ * Sample rate, latency and output device of the audio engine. The device
+ * switches live; the others only apply when the engine restarts, which
+ * reloads the patch on a new AudioContext.
+ */
+export function AudioSettingsSection() {
+  const { restartAudioEngine } = usePatchManager()
+  const [settings, setSettings] = useState(loadAudioSettings)
+  // Settings of the running context, and what it actually runs at
+  const [applied, setApplied] = useState<AudioSettings | null>(null)
+  const [engine, setEngine] = useState('')
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([])
+  const [restarting, setRestarting] = useState(false)
+  const canPickDevice = supportsOutputDevice()
+
+  const readEngine = () => {
+    setEngine(describeEngine(getAudioContext()))
+    setApplied(getEngineSettings())
+  }
+  useEffect(readEngine, [])
+
+  useEffect(() => {
+    if (!canPickDevice || !navigator.mediaDevices?.enumerateDevices) return
+    navigator.mediaDevices
+      .enumerateDevices()
+      .then((all) => setDevices(all.filter((d) => d.kind === 'audiooutput')))
+      .catch((err) => console.warn('[audio] Cannot list outputs:', err))
+  }, [canPickDevice])
+
+  const update = (patch: Partial<AudioSettings>) => {
+    const next = { ...settings, ...patch }
+    setSettings(next)
+    saveAudioSettings(next)
+  }
+
+  const changeOutput = (sinkId: string) => {
+    update({ sinkId })
+    const ac = getAudioContext() as SinkableAudioContext
+    ac.setSinkId?.(sinkId).catch((err) =>
+      toast({
+        title: 'Cannot switch output',
+        description: err instanceof Error ? err.message : String(err),
+        variant: 'destructive',
+      }),
+    )
+  }
+
+  const restart = async () => {
+    setRestarting(true)
+    try {
+      await restartAudioEngine()
+      readEngine()
+      toast({ title: 'Audio engine restarted' })
+    } finally {
+      setRestarting(false)
+    }
+  }
+
+  const pending =
+    !!applied &&
+    (settings.sampleRate !== applied.sampleRate ||
+      settings.latencyHint !== applied.latencyHint)
+
+  return (
+    <div>
+      <div className="text-foreground font-medium mb-2">Audio</div>
+      <div className="text-xs">{engine}</div>
+
+      <SettingRow label="Sample Rate">
+        <Select
+          value={
+            settings.sampleRate === null
+              ? DEVICE_RATE
+              : String(settings.sampleRate)
+          }
+          onValueChange={(v) =>
+            update({ sampleRate: v === DEVICE_RATE ? null : Number(v) })
+          }
+        >
+          <SelectTrigger className="w-full">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={DEVICE_RATE}>Device rate</SelectItem>
+            {SAMPLE_RATES.map((rate) => (
+              <SelectItem key={rate} value={String(rate)}>
+                {rate} Hz
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </SettingRow>
+
+      <SettingRow label="Latency">
+        <Select
+          value={settings.latencyHint}
+          onValueChange={(v) =>
+            update({ latencyHint: v as AudioContextLatencyCategory })
+          }
+        >
+          <SelectTrigger className="w-full">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {LATENCY_HINTS.map((hint) => (
+              <SelectItem key={hint} value={hint}>
+                {LATENCY_LABELS[hint]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </SettingRow>
+
+      <SettingRow label="Output Device">
+        {canPickDevice ? (
+          <Select
+            value={settings.sinkId || DEFAULT_OUTPUT}
+            onValueChange={(v) => changeOutput(v === DEFAULT_OUTPUT ? '' : v)}
+          >
+            <SelectTrigger className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={DEFAULT_OUTPUT}>System default</SelectItem>
+              {devices
+                .filter((d) => d.deviceId && d.deviceId !== 'default')
+                .map((d, i) => (
+                  <SelectItem key={d.deviceId} value={d.deviceId}>
+                    {d.label || `Output ${i + 1}`}
+                  </SelectItem>
+                ))}
+            </SelectContent>
+          </Select>
+        ) : (
+          <div className="text-xs">Not supported by this browser</div>
+        )}
+      </SettingRow>
+
+      <div className="flex items-center justify-between gap-3 mt-3">
+        <div className="text-xs">
+          {pending && 'Restart the engine to apply the new settings.'}
+        </div>
+        <Button
+          size="sm"
+          variant={pending ? 'default' : 'outline'}
+          disabled={restarting}
+          onClick={restart}
+        >
+          <RotateCw className="w-3 h-3" />
+          Restart Engine
+        </Button>
+      </div>
+    </div>
+  )
+}
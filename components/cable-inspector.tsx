@@ -0,0 +1,199 @@
+'use client'
+
+import { X } from 'lucide-react'
+import { useEffect, useRef, useState } from 'react'
+import { useConnections } from '@/components/connection-manager'
+import { type ConnectionEdge, portIdOf } from '@/lib/connection-types'
+
+const PANEL_WIDTH = 220
+const SCOPE_HEIGHT = 56
+// Offset from the pointer so the panel does not sit under it
+const POINTER_GAP = 14
+
+// Where a cable end is plugged in, as shown to the user
+export interface CableEnd {
+  moduleId?: string
+  moduleName: string
+  portName: string
+}
+
+const formatValue = (v: number) =>
+  Number.isFinite(v) ? `${v >= 0 ? '+' : ''}${v.toFixed(3)}` : '–'
+
+// Index of the first rising zero crossing, so periodic audio holds still
+const triggerIndex = (data: Float32Array) => {
+  for (let i = 1; i < data.length / 2; i++)
+    if (data[i - 1] < 0 && data[i] >= 0) return i
+  return 0
+}
+
+/**
+ * Floating readout of the signal on one cable: both ends, the current value,
+ * min/max since it opened and a small live trace. Audio cables show the
+ * waveform; CV cables show a scrolling history, one point per frame.
+ */
+export function CableInspector({
+  edge,
+  from,
+  to,
+  x,
+  y,
+  pinned,
+  onCloseAction,
+}: {
+  edge: ConnectionEdge
+  from: CableEnd
+  to: CableEnd
+  // Client position the panel is placed next to
+  x: number
+  y: number
+  pinned: boolean
+  onCloseAction: () => void
+}) {
+  const { tapPort } = useConnections()
+  const canvasRef = useRef<HTMLCanvasElement | null>(null)
+  const [stats, setStats] = useState({ value: 0, min: 0, max: 0 })
+  const [tapped, setTapped] = useState(true)
+
+  const source = portIdOf(edge.from)
+  useEffect(() => {
+    const tap = tapPort(source)
+    setTapped(!!tap)
+    if (!tap) return
+    const { analyser } = tap
+    const data = new Float32Array(analyser.fftSize)
+    const history = new Float32Array(PANEL_WIDTH)
+    let min = Number.POSITIVE_INFINITY
+    let max = Number.NEGATIVE_INFINITY
+    let frame = 0
+
+    const draw = () => {
+      analyser.getFloatTimeDomainData(data)
+      const value = data[data.length - 1]
+      for (let i = 0; i < data.length; i++) {
+        if (data[i] < min) min = data[i]
+        if (data[i] > max) max = data[i]
+      }
+      setStats({ value, min, max })
+
+      const canvas = canvasRef.current
+      const ctx = canvas?.getContext('2d')
+      if (canvas && ctx) {
+        const { width, height } = canvas
+        // Symmetric range around 0 that fits everything seen so far
+        const range = Math.max(1, Math.abs(min), Math.abs(max))
+        const toY = (v: number) => height / 2 - (v / range) * (height / 2 - 2)
+        ctx.clearRect(0, 0, width, height)
+        ctx.strokeStyle = 'rgba(255,255,255,0.15)'
+        ctx.beginPath()
+        ctx.moveTo(0, height / 2)
+        ctx.lineTo(width, height / 2)
+        ctx.stroke()
+
+        ctx.strokeStyle = edge.color
+        ctx.lineWidth = 1.5
+        ctx.beginPath()
+        if (edge.kind === 'audio') {
+          const start = triggerIndex(data)
+          const span = data.length / 2
+          for (let px = 0; px < width; px++) {
+            const v = data[start + Math.floor((px / width) * span)]
+            if (px === 0) ctx.moveTo(px, toY(v))
+            else ctx.lineTo(px, toY(v))
+          }
+        } else {
+          history.copyWithin(0, 1)
+          history[history.length - 1] = value
+          for (let px = 0; px < width; px++) {
+            const v = history[Math.floor((px / width) * history.length)]
+            if (px === 0) ctx.moveTo(px, toY(v))
+            else ctx.lineTo(px, toY(v))
+          }
+        }
+        ctx.stroke()
+      }
+      frame = requestAnimationFrame(draw)
+    }
+    frame = requestAnimationFrame(draw)
+
+    return () => {
+      cancelAnimationFrame(frame)
+      tap.release()
+    }
+  }, [source, edge.kind, edge.color, tapPort])
+
+  useEffect(() => {
+    if (!pinned) return
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onCloseAction()
+    }
+    window.addEventListener('keydown', onKeyDown)
+    return () => window.removeEventListener('keydown', onKeyDown)
+  }, [pinned, onCloseAction])
+
+  // Keep the panel on screen
+  const left = Math.min(x + POINTER_GAP, window.innerWidth - PANEL_WIDTH - 8)
+  const top = Math.min(y + POINTER_GAP, window.innerHeight - 180)
+
+  return (
+    <div
+      className={`fixed z-50 rounded-md border border-white/20 bg-black/85 p-2 text-xs text-white shadow-lg ${pinned ? '' : 'pointer-events-none'}`}
+      style={{ left, top, width: PANEL_WIDTH + 16 }}
+    >
+      <div className="mb-1 flex items-start gap-2">
+        <span
+          className="mt-1 size-2 shrink-0 rounded-full"
+          style={{ backgroundColor: edge.color }}
+        />
+        <div className="min-w-0 flex-1 font-mono leading-4">
+          <div className="truncate" title={from.moduleId}>
+            {from.moduleName}{' '}
+            <span className="opacity-60">{from.portName}</span>
+          </div>
+          <div className="truncate" title={to.moduleId}>
+            → {to.moduleName} <span className="opacity-60">{to.portName}</span>
+          </div>
+          {edge.feedback && (
+            <div className="text-amber-400">feedback, delayed one block</div>
+          )}
+        </div>
+        {pinned && (
+          <button
+            type="button"
+            title="Close (Esc)"
+            className="rounded p-0.5 hover:bg-white/10"
+            onClick={onCloseAction}
+          >
+            <X className="size-3.5" />
+          </button>
+        )}
+      </div>
+      {tapped ? (
+        <>
+          <canvas
+            ref={canvasRef}
+            width={PANEL_WIDTH}
+            height={SCOPE_HEIGHT}
+            className="block rounded-sm bg-white/5"
+          />
+          <div className="mt-1 grid grid-cols-3 gap-1 font-mono tabular-nums">
+            <span>
+              <span className="opacity-60">val </span>
+              {formatValue(stats.value)}
+            </span>
+            <span>
+              <span className="opacity-60">min </span>
+              {formatValue(stats.min)}
+            </span>
+            <span>
+              <span className="opacity-60">max </span>
+              {formatValue(stats.max)}
+            </span>
+          </div>
+        </>
+      ) : (
+        <div className="opacity-60">no signal on this output yet</div>
+      )}
+    </div>
+  )
+}
@@ -11,12 +11,26 @@ import {
   useState,
 } from 'react'
 import { v4 as uuid } from 'uuid'
-import type {
-  AudioKind,
-  ConnectionEdge,
-  PatchJson,
-  PortDirection,
+import { useHistory } from '@/components/history-context'
+import { toast } from '@/hooks/use-toast'
+import {
+  type AudioKind,
+  type CableKind,
+  type ConnectionEdge,
+  cableKind,
+  compatibilityMessage,
+  type PatchJson,
+  type PortAddress,
+  type PortDirection,
+  portIdOf,
+  samePort,
+  signalCompatibility,
 } from '@/lib/connection-types'
+import {
+  closesFeedbackLoop,
+  markFeedbackEdges,
+  RENDER_QUANTUM,
+} from '@/lib/feedback-loops'
 
 // Re-export for components that import from here
 export type { AudioKind, ConnectionEdge, PatchJson }
@@ -62,12 +76,36 @@ const safeDisconnect = (outNode?: AudioNode, inNode?: AudioNode) => {
 // ---- Port registry
 type PortEntry = {
   el?: Element
-  meta: { direction: Direction; kind: AudioKind; moduleId?: string }
+  meta: {
+    direction: Direction
+    kind: AudioKind
+    // Module and name of the jack; cables can only be patched to addressed ports
+    address?: PortAddress
+    // Polyphonic channel count (1 = mono)
+    channels?: number
+    // Independent channel of its module; see lib/feedback-loops
+    section?: string
+  }
   audioNode?: AudioNode
 }
 type PortsMap = Map<string, PortEntry>
 type Geometry = { x: number; y: number }
 
+// A new cable let go over empty rack space
+export interface EmptyDrop {
+  port: PortAddress
+  direction: Direction
+  kind: AudioKind
+  clientX: number
+  clientY: number
+}
+
+// Analyser listening to a port's node; `release` unhooks it
+export interface PortTap {
+  analyser: AnalyserNode
+  release: () => void
+}
+
 // ---- Context API
 interface Ctx {
   connections: ConnectionEdge[]
@@ -75,14 +113,20 @@ interface Ctx {
   // Drag
   beginDrag: (fromPortId: string, clientX: number, clientY: number) => void
   updateDrag: (clientX: number, clientY: number) => void
-  endDrag: (maybeToPortId?: string) => void
+  // `emptyAt`: pointer position when the cable was dropped on empty space
+  endDrag: (
+    maybeToPortId?: string,
+    emptyAt?: { clientX: number; clientY: number },
+  ) => void
   cancelDrag: () => void
+  // Called when a new cable is dropped on empty space (null to stop)
+  registerEmptyDropHandler: (fn: ((drop: EmptyDrop) => void) | null) => void
 
   // Manage connections
   addConnection: (
-    fromPortId: string,
-    toPortId: string,
-    kind: Exclude<AudioKind, 'any'>,
+    from: PortAddress,
+    to: PortAddress,
+    kind: CableKind,
     color?: string,
   ) => void
   removeConnection: (id: string) => void
@@ -96,15 +140,24 @@ interface Ctx {
       el: Element | null
       direction: Direction
       kind: AudioKind
-      moduleId?: string
+      address?: PortAddress
+      section?: string
     },
   ) => void
   unregisterPort: (portId: string) => void
+  // Channel count of an output; cables from it follow (1 = mono)
+  setPortChannels: (portId: string, channels: number) => void
+  // Direction/kind of a mounted port, undefined if no such port is registered
+  getPortMeta: (portId: string) => PortEntry['meta'] | undefined
+  // `kind` defaults to the port's registered kind ("any" until it registers)
   registerAudioNode: (
     portId: string,
     node: AudioNode,
     direction: Direction,
+    kind?: AudioKind,
   ) => void
+  // Listen to the node registered for a port, null if it has none yet
+  tapPort: (portId: string) => PortTap | null
 
   // Styling/geometry
   getPortColor: (portId: string) => string
@@ -146,9 +199,12 @@ export function ConnectionProvider({
   // Registries
   const ports = useRef<PortsMap>(new Map())
   const portCenters = useRef<Map<string, Geometry>>(new Map())
+  const portChannels = useRef<Map<string, number>>(new Map())
   const needsMeasure = useRef(false)
 
   const connectionsRef = useRef<Map<string, ConnectionEdge>>(new Map())
+  // Delay each feedback cable is bound through, by edge id
+  const feedbackDelays = useRef<Map<string, DelayNode>>(new Map())
   const [connections, setConnections] = useState<ConnectionEdge[]>([])
 
   // Version to trigger overlay re-render when geometry changes
@@ -166,8 +222,15 @@ export function ConnectionProvider({
     fromDirection?: Direction
     tempColor?: string
     pt?: { x: number; y: number }
+    // Cable was pulled out of an input; its removal and re-plug undo together
+    detached?: boolean
   }>({ active: false })
 
+  // Callbacks below are stable ([] deps), so read history through a ref
+  const history = useHistory()
+  const historyRef = useRef(history)
+  historyRef.current = history
+
   // Temp wire updater (imperative)
   const tempWireUpdater = useRef<
     | null
@@ -191,6 +254,14 @@ export function ConnectionProvider({
     [],
   )
 
+  const emptyDropHandler = useRef<((drop: EmptyDrop) => void) | null>(null)
+  const registerEmptyDropHandler = useCallback(
+    (fn: ((drop: EmptyDrop) => void) | null) => {
+      emptyDropHandler.current = fn
+    },
+    [],
+  )
+
   const getPortCenter = useCallback((portId: string) => {
     return portCenters.current.get(portId) ?? { x: 0, y: 0 }
   }, [])
@@ -275,7 +346,7 @@ export function ConnectionProvider({
 
   // ---- Registration ----
   const registerPort: Ctx['registerPort'] = useCallback((portId, info) => {
-    const { el, direction, kind, moduleId } = info
+    const { el, direction, kind, address, section } = info
 
     // Disconnect previous element if replaced
     const prev = ports.current.get(portId)
@@ -288,7 +359,7 @@ export function ConnectionProvider({
     // Update / create entry
     const entry: PortEntry = {
       el: el && el instanceof Element ? el : prev?.el,
-      meta: { direction, kind, moduleId },
+      meta: { direction, kind, address, section },
       audioNode: prev?.audioNode,
     }
     ports.current.set(portId, entry)
@@ -329,18 +400,67 @@ export function ConnectionProvider({
     setGeometryVersion((v) => v + 1)
   }, [])
 
+  const setPortChannels: Ctx['setPortChannels'] = useCallback(
+    (portId, channels) => {
+      // Kept apart from the port entry so it survives re-registration
+      portChannels.current.set(portId, channels)
+
+      let changed = false
+      connectionsRef.current.forEach((edge, id) => {
+        if (portIdOf(edge.from) !== portId || edge.channels === channels) return
+        connectionsRef.current.set(id, { ...edge, channels })
+        changed = true
+      })
+      if (changed) setConnections(Array.from(connectionsRef.current.values()))
+    },
+    [],
+  )
+
+  const getPortMeta: Ctx['getPortMeta'] = useCallback((portId) => {
+    const meta = ports.current.get(portId)?.meta
+    return meta && { ...meta, channels: portChannels.current.get(portId) ?? 1 }
+  }, [])
+
+  const tapPort: Ctx['tapPort'] = useCallback((portId) => {
+    const node = ports.current.get(portId)?.audioNode
+    if (!node) return null
+    const analyser = node.context.createAnalyser()
+    analyser.fftSize = 2048
+    analyser.smoothingTimeConstant = 0
+    try {
+      node.connect(analyser)
+    } catch {
+      return null
+    }
+    return {
+      analyser,
+      release: () => {
+        try {
+          node.disconnect(analyser)
+        } catch {}
+      },
+    }
+  }, [])
+
   const registerAudioNode: Ctx['registerAudioNode'] = useCallback(
-    (portId, node, direction) => {
+    (portId, node, direction, kind) => {
       const prev = ports.current.get(portId)
-      const kind: AudioKind = /cv|gate|trig/i.test(portId) ? 'cv' : 'audio'
 
       const entry: PortEntry = prev
         ? {
             ...prev,
             audioNode: node,
-            meta: { ...prev.meta, direction: direction ?? prev.meta.direction },
+            meta: {
+              ...prev.meta,
+              direction: direction ?? prev.meta.direction,
+              kind: kind ?? prev.meta.kind,
+            },
+          }
+        : {
+            el: undefined,
+            audioNode: node,
+            meta: { direction, kind: kind ?? 'any' },
           }
-        : { el: undefined, audioNode: node, meta: { direction, kind } }
 
       ports.current.set(portId, entry)
 
@@ -356,7 +476,8 @@ export function ConnectionProvider({
 
       // Bind any edges that touch this port
       connectionsRef.current.forEach((edge) => {
-        if (edge.from === portId || edge.to === portId) tryBind(edge)
+        if (portIdOf(edge.from) === portId || portIdOf(edge.to) === portId)
+          tryBind(edge)
       })
     },
     [],
@@ -366,55 +487,106 @@ export function ConnectionProvider({
   const portsCompatible = (
     from?: PortEntry,
     to?: PortEntry,
-    kind?: Exclude<AudioKind, 'any'>,
+    kind?: CableKind,
   ): from is PortEntry & { audioNode: AudioNode } => {
     if (!from || !to) return false
     if (from.meta.direction !== 'output' || to.meta.direction !== 'input')
       return false
-    const k: Exclude<AudioKind, 'any'> =
-      kind ??
-      (from.meta.kind === 'cv' || to.meta.kind === 'cv' ? 'cv' : 'audio')
-    const outOk = from.meta.kind === k || from.meta.kind === 'any'
-    const inOk = to.meta.kind === k || to.meta.kind === 'any'
-    return !!(outOk && inOk)
+    const k = cableKind(from.meta.kind, to.meta.kind)
+    if (!k) return false
+    // "any" ports carry whatever the cable was patched as
+    return (
+      kind === undefined ||
+      kind === k ||
+      from.meta.kind === 'any' ||
+      to.meta.kind === 'any'
+    )
   }
 
   const tryBind = (edge: ConnectionEdge) => {
-    const A = ports.current.get(edge.from)
-    const B = ports.current.get(edge.to)
+    const A = ports.current.get(portIdOf(edge.from))
+    const B = ports.current.get(portIdOf(edge.to))
     if (!portsCompatible(A, B, edge.kind)) return false
-    return safeConnect(A?.audioNode, B?.audioNode)
+    if (!edge.feedback) return safeConnect(A.audioNode, B?.audioNode)
+    if (!B?.audioNode) return false
+    // Feedback cables go through an explicit one-block delay
+    const ctx = A.audioNode.context
+    let delay = feedbackDelays.current.get(edge.id)
+    if (!delay) {
+      delay = ctx.createDelay()
+      delay.delayTime.value = RENDER_QUANTUM / ctx.sampleRate
+      feedbackDelays.current.set(edge.id, delay)
+    }
+    return safeConnect(A.audioNode, delay) && safeConnect(delay, B.audioNode)
   }
 
   const tryUnbind = (edge: ConnectionEdge) => {
-    const A = ports.current.get(edge.from)
-    const B = ports.current.get(edge.to)
-    return safeDisconnect(A?.audioNode, B?.audioNode)
+    const A = ports.current.get(portIdOf(edge.from))
+    const B = ports.current.get(portIdOf(edge.to))
+    const delay = feedbackDelays.current.get(edge.id)
+    if (!delay) return safeDisconnect(A?.audioNode, B?.audioNode)
+    feedbackDelays.current.delete(edge.id)
+    try {
+      delay.disconnect()
+    } catch {}
+    return safeDisconnect(A?.audioNode, delay)
+  }
+
+  // Cables carry the current channel count of their source port
+  const sectionOf = (port: PortAddress) =>
+    ports.current.get(portIdOf(port))?.meta.section
+
+  const withChannels = (edge: ConnectionEdge): ConnectionEdge => ({
+    ...edge,
+    channels: portChannels.current.get(portIdOf(edge.from)) ?? 1,
+  })
+
+  // Re-insert edges exactly as they were (id and color preserved) for undo/redo
+  const restoreEdges = (edges: ConnectionEdge[]) => {
+    for (const edge of edges) {
+      connectionsRef.current.set(edge.id, withChannels(edge))
+      tryBind(edge)
+    }
+    setConnections(Array.from(connectionsRef.current.values()))
+    needsMeasure.current = true
+    setGeometryVersion((v) => v + 1)
+  }
+
+  const dropEdges = (ids: string[]) => {
+    for (const id of ids) {
+      const edge = connectionsRef.current.get(id)
+      if (!edge) continue
+      tryUnbind(edge)
+      connectionsRef.current.delete(id)
+    }
+    setConnections(Array.from(connectionsRef.current.values()))
+    setGeometryVersion((v) => v + 1)
   }
 
   const findConnectionIntoInput = (
     portId: string,
   ): { id: string; edge: ConnectionEdge } | null => {
     for (const [id, e] of connectionsRef.current) {
-      if (e.to === portId) return { id, edge: e }
+      if (portIdOf(e.to) === portId) return { id, edge: e }
     }
     return null
   }
 
   // ---- Public connection API ----
   const addConnection: Ctx['addConnection'] = useCallback(
-    (fromId, toId, kind, color) => {
+    (from, to, kind, color) => {
       // De-dupe identical edge
       for (const e of connectionsRef.current.values()) {
-        if (e.from === fromId && e.to === toId && e.kind === kind) return
+        if (samePort(e.from, from) && samePort(e.to, to) && e.kind === kind)
+          return
       }
 
-      const removedConnections: string[] = []
+      const removedConnections: ConnectionEdge[] = []
       for (const [id, e] of connectionsRef.current) {
-        if (e.to === toId) {
+        if (samePort(e.to, to)) {
           tryUnbind(e)
           connectionsRef.current.delete(id)
-          removedConnections.push(id)
+          removedConnections.push(e)
         }
       }
 
@@ -424,7 +596,7 @@ export function ConnectionProvider({
         // Check if output port already has connections
         const outputConnections = Array.from(
           connectionsRef.current.values(),
-        ).filter((e) => e.from === fromId)
+        ).filter((e) => samePort(e.from, from))
         if (outputConnections.length > 0) {
           wireColor = outputConnections[0].color
         } else {
@@ -434,13 +606,19 @@ export function ConnectionProvider({
 
       // Add the new connection
       const id = uuid()
-      const edge: ConnectionEdge = {
+      const edge: ConnectionEdge = withChannels({
         id,
-        from: fromId,
-        to: toId,
+        from,
+        to,
         kind,
         color: wireColor,
-      }
+        ...(closesFeedbackLoop(
+          connectionsRef.current.values(),
+          from,
+          to,
+          sectionOf,
+        ) && { feedback: true }),
+      })
       connectionsRef.current.set(id, edge)
 
       setConnections(Array.from(connectionsRef.current.values()))
@@ -450,6 +628,18 @@ export function ConnectionProvider({
       setGeometryVersion((v) => v + 1)
 
       tryBind(edge)
+
+      historyRef.current.push({
+        label: 'Add cable',
+        undo: () => {
+          dropEdges([id])
+          restoreEdges(removedConnections)
+        },
+        redo: () => {
+          dropEdges(removedConnections.map((e) => e.id))
+          restoreEdges([edge])
+        },
+      })
     },
     [],
   )
@@ -461,6 +651,12 @@ export function ConnectionProvider({
     connectionsRef.current.delete(id)
     setConnections((xs) => xs.filter((c) => c.id !== id))
     setGeometryVersion((v) => v + 1)
+
+    historyRef.current.push({
+      label: 'Remove cable',
+      undo: () => restoreEdges([edge]),
+      redo: () => dropEdges([id]),
+    })
   }, [])
 
   const clearAllConnections: Ctx['clearAllConnections'] = useCallback(() => {
@@ -472,9 +668,10 @@ export function ConnectionProvider({
 
   const removeAllConnectionsForModule = useCallback((moduleId: string) => {
     const connectionsToRemove: string[] = []
+    const removed: ConnectionEdge[] = []
 
     connectionsRef.current.forEach((edge, id) => {
-      if (edge.from.startsWith(moduleId) || edge.to.startsWith(moduleId)) {
+      if (edge.from.moduleId === moduleId || edge.to.moduleId === moduleId) {
         connectionsToRemove.push(id)
       }
     })
@@ -484,11 +681,20 @@ export function ConnectionProvider({
       if (edge) {
         tryUnbind(edge)
         connectionsRef.current.delete(id)
+        removed.push(edge)
       }
     })
 
     setConnections(Array.from(connectionsRef.current.values()))
     setGeometryVersion((v) => v + 1)
+
+    if (removed.length > 0) {
+      historyRef.current.push({
+        label: 'Remove cables',
+        undo: () => restoreEdges(removed),
+        redo: () => dropEdges(removed.map((e) => e.id)),
+      })
+    }
   }, [])
 
   // ---- Drag API ----
@@ -515,17 +721,27 @@ export function ConnectionProvider({
           connectionsRef.current.delete(id)
           setConnections((xs) => xs.filter((c) => c.id !== id))
 
+          // Record the detach so a mis-drag can be undone; endDrag closes the batch
+          historyRef.current.beginBatch('Move cable')
+          historyRef.current.push({
+            label: 'Remove cable',
+            undo: () => restoreEdges([edge]),
+            redo: () => dropEdges([id]),
+          })
+
+          const sourceId = portIdOf(edge.from)
           dragging.current = {
             active: true,
-            from: edge.from,
+            from: sourceId,
             fromDirection: 'output',
             tempColor: edge.color, // Use existing wire color
             pt: { x: clientX, y: clientY },
+            detached: true,
           }
           // Set active drag state with existing color
-          setActiveDrag({ from: edge.from, color: edge.color })
+          setActiveDrag({ from: sourceId, color: edge.color })
 
-          const fromCenter = portCenters.current.get(edge.from)
+          const fromCenter = portCenters.current.get(sourceId)
           if (fromCenter && tempWireUpdater.current) {
             tempWireUpdater.current(
               fromCenter,
@@ -552,7 +768,7 @@ export function ConnectionProvider({
         // Check if output has existing connections to inherit color
         const existingConnections = Array.from(
           connectionsRef.current.values(),
-        ).filter((e) => e.from === fromPortId)
+        ).filter((e) => portIdOf(e.from) === fromPortId)
         const tempColor =
           existingConnections.length > 0
             ? existingConnections[0].color
@@ -594,72 +810,128 @@ export function ConnectionProvider({
       )
   }, [])
 
+  // Resolve a drop target into an output→input connection (null if invalid)
+  const resolveDrop = (
+    from: string,
+    fromDirection: Direction | undefined,
+    tempColor: string | undefined,
+    toPortId: string,
+  ): {
+    from: PortAddress
+    to: PortAddress
+    kind: CableKind
+    color?: string
+    // Set when the kinds connect but probably not as intended
+    warning: string | null
+  } | null => {
+    const fromPort = ports.current.get(from)
+    const toPort = ports.current.get(toPortId)
+    if (!fromPort || !toPort) return null
+
+    // Support bidirectional dragging
+    let outputPortId: string
+    let inputPortId: string
+    let finalColor: string | undefined = tempColor
+
+    if (fromDirection === 'output') {
+      // Dragging from output to input (normal)
+      if (toPort.meta.direction !== 'input') return null
+      outputPortId = from
+      inputPortId = toPortId
+    } else {
+      // Dragging from input to output (reverse)
+      if (toPort.meta.direction !== 'output') return null
+      outputPortId = toPortId
+      inputPortId = from
+
+      // When connecting to an output, check if it has existing connections
+      const existingOutputConnections = Array.from(
+        connectionsRef.current.values(),
+      ).filter((e) => portIdOf(e.from) === outputPortId)
+      if (existingOutputConnections.length > 0) {
+        // Use existing output color
+        finalColor = existingOutputConnections[0].color
+      } else if (tempColor === GRAY_WIRE) {
+        // Pick new random color since we were dragging from unconnected input
+        finalColor = getRandomPaletteColor()
+      }
+    }
+
+    const outPort = ports.current.get(outputPortId)
+    const inPort = ports.current.get(inputPortId)
+    if (!outPort?.meta.address || !inPort?.meta.address) return null
+
+    const message = compatibilityMessage(outPort.meta.kind, inPort.meta.kind)
+    const kind = cableKind(outPort.meta.kind, inPort.meta.kind)
+    if (!kind) {
+      toast({
+        title: 'Cannot connect',
+        description: message,
+        variant: 'destructive',
+      })
+      return null
+    }
+
+    return {
+      from: outPort.meta.address,
+      to: inPort.meta.address,
+      kind,
+      color: finalColor,
+      warning:
+        signalCompatibility(outPort.meta.kind, inPort.meta.kind) === 'warn'
+          ? message
+          : null,
+    }
+  }
+
   const endDrag = useCallback(
-    (maybeToPortId?: string) => {
+    (
+      maybeToPortId?: string,
+      emptyAt?: { clientX: number; clientY: number },
+    ) => {
       const from = dragging.current.from
       const fromDirection = dragging.current.fromDirection
       const tempColor = dragging.current.tempColor
+      const detached = dragging.current.detached
       dragging.current = { active: false } as any
       setActiveDrag(null) // Clear active drag state
 
       // Always clear temp wire
       tempWireUpdater.current?.({ x: 0, y: 0 }, null)
 
-      if (!from || !maybeToPortId) return // dropped on empty space
-
-      const fromPort = ports.current.get(from)
-      const toPort = ports.current.get(maybeToPortId)
-      if (!fromPort || !toPort) return
-
-      // Support bidirectional dragging
-      let outputPortId: string
-      let inputPortId: string
-      let finalColor: string | undefined = tempColor
-
-      if (fromDirection === 'output') {
-        // Dragging from output to input (normal)
-        if (toPort.meta.direction !== 'input') return
-        outputPortId = from
-        inputPortId = maybeToPortId
-      } else {
-        // Dragging from input to output (reverse)
-        if (toPort.meta.direction !== 'output') return
-        outputPortId = maybeToPortId
-        inputPortId = from
-
-        // When connecting to an output, check if it has existing connections
-        const existingOutputConnections = Array.from(
-          connectionsRef.current.values(),
-        ).filter((e) => e.from === outputPortId)
-        if (existingOutputConnections.length > 0) {
-          // Use existing output color
-          finalColor = existingOutputConnections[0].color
-        } else if (tempColor === GRAY_WIRE) {
-          // Pick new random color since we were dragging from unconnected input
-          finalColor = getRandomPaletteColor()
-        }
+      // Dropped on empty space leaves the cable removed (undoable)
+      const drop =
+        from && maybeToPortId
+          ? resolveDrop(from, fromDirection, tempColor, maybeToPortId)
+          : null
+      if (drop) {
+        addConnection(drop.from, drop.to, drop.kind, drop.color)
+        if (drop.warning)
+          toast({ title: 'Unusual connection', description: drop.warning })
+      }
+      if (detached) historyRef.current.endBatch()
+
+      // A pulled-out cable dropped on empty space is just removed
+      const fromPort = from ? ports.current.get(from) : undefined
+      const address = fromPort?.meta.address
+      if (fromPort && address && !detached && emptyAt && !maybeToPortId) {
+        emptyDropHandler.current?.({
+          port: address,
+          direction: fromPort.meta.direction,
+          kind: fromPort.meta.kind,
+          ...emptyAt,
+        })
       }
-
-      const outPort = ports.current.get(outputPortId)
-      const inPort = ports.current.get(inputPortId)
-      if (!outPort || !inPort) return
-
-      const desired: Exclude<AudioKind, 'any'> =
-        outPort.meta.kind === 'cv' || inPort.meta.kind === 'cv' ? 'cv' : 'audio'
-
-      const outOk = outPort.meta.kind === desired || outPort.meta.kind === 'any'
-      const inOk = inPort.meta.kind === desired || inPort.meta.kind === 'any'
-      if (!outOk || !inOk) return
-
-      addConnection(outputPortId, inputPortId, desired, finalColor)
     },
     [addConnection],
   )
 
   const cancelDrag = useCallback(() => {
+    const detached = dragging.current.detached
     dragging.current = { active: false } as any
     setActiveDrag(null) // Clear active drag state
     tempWireUpdater.current?.({ x: 0, y: 0 }, null)
+    if (detached) historyRef.current.endBatch()
   }, [])
 
   // ---- Save / Load ----
@@ -685,8 +957,8 @@ export function ConnectionProvider({
       clearAllConnections()
       const expected = new Set<string>()
       for (const e of edges) {
-        expected.add(e.from)
-        expected.add(e.to)
+        expected.add(portIdOf(e.from))
+        expected.add(portIdOf(e.to))
       }
       patchBarrierRef.current = {
         expected,
@@ -719,24 +991,25 @@ export function ConnectionProvider({
       // Group connections by output port to assign consistent colors
       const outputGroups = new Map<string, string>()
 
-      patch.connections.forEach((edge) => {
+      markFeedbackEdges(patch.connections, sectionOf).forEach((edge) => {
         const id = edge.id || uuid()
 
         // If edge doesn't have a color, assign one based on output port
+        const source = portIdOf(edge.from)
         let color = edge.color
         if (!color) {
-          if (outputGroups.has(edge.from)) {
-            color = outputGroups.get(edge.from) || ''
+          if (outputGroups.has(source)) {
+            color = outputGroups.get(source) || ''
           } else {
             color = getRandomPaletteColor()
-            outputGroups.set(edge.from, color)
+            outputGroups.set(source, color)
           }
         } else {
           // Track the color for this output port
-          outputGroups.set(edge.from, color)
+          outputGroups.set(source, color)
         }
 
-        connectionsRef.current.set(id, { ...edge, id, color })
+        connectionsRef.current.set(id, withChannels({ ...edge, id, color }))
       })
       setConnections(Array.from(connectionsRef.current.values()))
       // Try immediate binds
@@ -755,6 +1028,7 @@ export function ConnectionProvider({
       updateDrag,
       endDrag,
       cancelDrag,
+      registerEmptyDropHandler,
 
       addConnection,
       removeConnection,
@@ -763,7 +1037,10 @@ export function ConnectionProvider({
 
       registerPort,
       unregisterPort,
+      setPortChannels,
+      getPortMeta,
       registerAudioNode,
+      tapPort,
 
       getPortColor: (portId) => {
         // Deprecated - not used anymore
@@ -772,7 +1049,7 @@ export function ConnectionProvider({
       getConnectedWireColor: (portId) => {
         // Find any connection that involves this port and return its color
         for (const edge of connections) {
-          if (edge.from === portId || edge.to === portId) {
+          if (portIdOf(edge.from) === portId || portIdOf(edge.to) === portId) {
             return edge.color
           }
         }
@@ -812,13 +1089,17 @@ export function ConnectionProvider({
       updateDrag,
       endDrag,
       cancelDrag,
+      registerEmptyDropHandler,
       addConnection,
       removeConnection,
       clearAllConnections,
       removeAllConnectionsForModule,
       registerPort,
       unregisterPort,
+      setPortChannels,
+      getPortMeta,
       registerAudioNode,
+      tapPort,
       registerTempWireUpdater,
       getPortCenter,
       beginPatchLoad,
@@ -0,0 +1,93 @@
+'use client'
+
+import type React from 'react'
+import { createContext, useContext, useEffect, useMemo, useState } from 'react'
+import {
+  type DspLoadReport,
+  moduleDspLoad,
+  subscribeDspLoad,
+} from '@/lib/dsp-telemetry'
+import { cn } from '@/lib/utils'
+
+// Loads at or above these are shown as a warning / as the likely culprit
+const MODULE_LOAD = { warn: 0.05, high: 0.15 }
+// The whole patch starts to crackle near the full budget
+const TOTAL_LOAD = { warn: 0.5, high: 0.8 }
+
+interface DspLoadContextValue {
+  // Latest report while the overlay is shown, null otherwise
+  report: DspLoadReport | null
+  visible: boolean
+  toggle: () => void
+}
+
+const DspLoadContext = createContext<DspLoadContextValue | undefined>(undefined)
+
+export function DspLoadProvider({ children }: { children: React.ReactNode }) {
+  const [visible, setVisible] = useState(false)
+  const [report, setReport] = useState<DspLoadReport | null>(null)
+
+  // Reports keep coming while hidden; they only re-render when shown
+  useEffect(() => {
+    if (!visible) {
+      setReport(null)
+      return
+    }
+    return subscribeDspLoad(setReport)
+  }, [visible])
+
+  const value = useMemo<DspLoadContextValue>(
+    () => ({ report, visible, toggle: () => setVisible((v) => !v) }),
+    [report, visible],
+  )
+
+  return (
+    <DspLoadContext.Provider value={value}>{children}</DspLoadContext.Provider>
+  )
+}
+
+export function useDspLoad(): DspLoadContextValue {
+  const ctx = useContext(DspLoadContext)
+  if (!ctx) throw new Error('useDspLoad must be used within a DspLoadProvider')
+  return ctx
+}
+
+// Imprecise loads are marked as approximate rather than shown as exact
+export const formatLoad = (load: number, precise = true) =>
+  `${precise ? '' : '≈'}${(load * 100).toFixed(load < 0.1 ? 1 : 0)}%`
+
+export const APPROXIMATE_LOAD_NOTE =
+  'Approximate: this browser gives the audio thread only a millisecond ' +
+  'clock, so loads are averaged over several seconds'
+
+const loadColor = (load: number, { warn, high }: typeof MODULE_LOAD) =>
+  load >= high
+    ? 'bg-red-600 text-white'
+    : load >= warn
+      ? 'bg-amber-500 text-black'
+      : 'bg-black/60 text-white/80'
+
+export const totalLoadColor = (load: number) => loadColor(load, TOTAL_LOAD)
+
+/** Load of one module while the overlay is shown */
+export function DspLoadBadge({ moduleId }: { moduleId: string }) {
+  const ctx = useContext(DspLoadContext)
+  if (!ctx?.report) return null
+  const { precise } = ctx.report
+  const load = moduleDspLoad(ctx.report, moduleId)
+  return (
+    <div
+      title={
+        precise
+          ? 'Share of the audio render budget this module used'
+          : APPROXIMATE_LOAD_NOTE
+      }
+      className={cn(
+        'absolute top-5 right-2 z-10 rounded px-1 font-mono text-[9px] tabular-nums leading-3',
+        loadColor(load, MODULE_LOAD),
+      )}
+    >
+      {formatLoad(load, precise)}
+    </div>
+  )
+}
@@ -0,0 +1,159 @@
+'use client'
+
+import type React from 'react'
+import { createContext, useCallback, useContext, useMemo, useRef } from 'react'
+
+export interface HistoryEntry {
+  label: string
+  undo: () => void
+  redo: () => void
+  // Consecutive pushes with the same key inside COALESCE_MS merge into one
+  // entry (e.g. a continuous knob drag)
+  coalesceKey?: string
+}
+
+interface HistoryContextValue {
+  push: (entry: HistoryEntry) => void
+  // Group every push until the matching endBatch into a single entry
+  beginBatch: (label: string) => void
+  endBatch: () => void
+  undo: () => void
+  redo: () => void
+  clear: () => void
+}
+
+type StackEntry = HistoryEntry & { at: number }
+
+const MAX_ENTRIES = 200
+const COALESCE_MS = 600
+
+// Default: no-op history, so providers mounted outside the live rack
+// (e.g. the offline renderer) can record unconditionally
+const noop = () => {}
+const HistoryContext = createContext<HistoryContextValue>({
+  push: noop,
+  beginBatch: noop,
+  endBatch: noop,
+  undo: noop,
+  redo: noop,
+  clear: noop,
+})
+
+export function HistoryProvider({ children }: { children: React.ReactNode }) {
+  const undoStack = useRef<StackEntry[]>([])
+  const redoStack = useRef<StackEntry[]>([])
+  const batch = useRef<{
+    label: string
+    depth: number
+    entries: HistoryEntry[]
+  } | null>(null)
+  // Changes made while undoing/redoing must not be recorded again
+  const applying = useRef(false)
+
+  const commit = useCallback((entry: HistoryEntry) => {
+    const now = performance.now()
+    const stack = undoStack.current
+    const last = stack[stack.length - 1]
+    redoStack.current = []
+
+    if (
+      entry.coalesceKey &&
+      last?.coalesceKey === entry.coalesceKey &&
+      now - last.at < COALESCE_MS
+    ) {
+      // Keep the original undo, take the latest redo
+      stack[stack.length - 1] = { ...last, redo: entry.redo, at: now }
+      return
+    }
+
+    stack.push({ ...entry, at: now })
+    if (stack.length > MAX_ENTRIES) stack.shift()
+  }, [])
+
+  const push = useCallback(
+    (entry: HistoryEntry) => {
+      if (applying.current) return
+      if (batch.current) {
+        batch.current.entries.push(entry)
+        return
+      }
+      commit(entry)
+    },
+    [commit],
+  )
+
+  const beginBatch = useCallback((label: string) => {
+    if (batch.current) {
+      batch.current.depth++
+      return
+    }
+    batch.current = { label, depth: 1, entries: [] }
+  }, [])
+
+  const endBatch = useCallback(() => {
+    const b = batch.current
+    if (!b) return
+    if (--b.depth > 0) return
+    batch.current = null
+    if (b.entries.length === 0) return
+    if (b.entries.length === 1) {
+      commit({ ...b.entries[0], label: b.label })
+      return
+    }
+    const entries = b.entries
+    commit({
+      label: b.label,
+      undo: () => {
+        for (let i = entries.length - 1; i >= 0; i--) entries[i].undo()
+      },
+      redo: () => {
+        for (const e of entries) e.redo()
+      },
+    })
+  }, [commit])
+
+  const run = useCallback((fn: () => void) => {
+    applying.current = true
+    try {
+      fn()
+    } catch (err) {
+      console.error('[history] failed to apply entry:', err)
+    } finally {
+      applying.current = false
+    }
+  }, [])
+
+  const undo = useCallback(() => {
+    const entry = undoStack.current.pop()
+    if (!entry) return
+    run(entry.undo)
+    // Never coalesce into an entry that has been undone and redone
+    redoStack.current.push({ ...entry, coalesceKey: undefined })
+  }, [run])
+
+  const redo = useCallback(() => {
+    const entry = redoStack.current.pop()
+    if (!entry) return
+    run(entry.redo)
+    undoStack.current.push(entry)
+  }, [run])
+
+  const clear = useCallback(() => {
+    undoStack.current = []
+    redoStack.current = []
+    batch.current = null
+  }, [])
+
+  const value = useMemo(
+    () => ({ push, beginBatch, endBatch, undo, redo, clear }),
+    [push, beginBatch, endBatch, undo, redo, clear],
+  )
+
+  return (
+    <HistoryContext.Provider value={value}>{children}</HistoryContext.Provider>
+  )
+}
+
+export function useHistory(): HistoryContextValue {
+  return useContext(HistoryContext)
+}
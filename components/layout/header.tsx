@@ -1,8 +1,15 @@
-import { Plus, Settings as SettingsIcon } from 'lucide-react'
+import { Gauge, Plus, Settings as SettingsIcon } from 'lucide-react'
+import {
+  APPROXIMATE_LOAD_NOTE,
+  formatLoad,
+  totalLoadColor,
+  useDspLoad,
+} from '@/components/dsp-load-context'
 import { PatchDropdown } from '@/components/patch-dropdown'
 import { usePatchManager } from '@/components/patch-manager'
 import { useSettings } from '@/components/settings-context'
 import { Button } from '@/components/ui/button'
+import { cn } from '@/lib/utils'
 
 export function Header({
   openAddModuleDialog,
@@ -11,6 +18,7 @@ export function Header({
 }) {
   const { currentPatch } = usePatchManager()
   const { open } = useSettings()
+  const dsp = useDspLoad()
 
   return (
     <header className="px-6 py-2 border-b border-border flex items-center justify-between">
@@ -28,6 +36,33 @@ export function Header({
 
         <PatchDropdown />
 
+        <Button
+          size="sm"
+          variant={dsp.visible ? 'secondary' : 'default'}
+          title="Show how much of the audio budget each module uses"
+          onClick={dsp.toggle}
+        >
+          <Gauge className="w-3 h-3" />
+          DSP
+          {dsp.visible && (
+            <span
+              title={
+                dsp.report && !dsp.report.precise
+                  ? APPROXIMATE_LOAD_NOTE
+                  : undefined
+              }
+              className={cn(
+                'rounded px-1 font-mono text-xs tabular-nums',
+                dsp.report && totalLoadColor(dsp.report.total),
+              )}
+            >
+              {dsp.report
+                ? formatLoad(dsp.report.total, dsp.report.precise)
+                : '–'}
+            </span>
+          )}
+        </Button>
+
         <Button size="sm" onClick={open}>
           <SettingsIcon className="w-3 h-3" />
           Settings
@@ -0,0 +1,299 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useConnections } from '@/components/connection-manager'
+import { usePatchManager } from '@/components/patch-manager'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  type PortAddress,
+  portAddressIn,
+  portIdOf,
+  type SignalKind,
+} from '@/lib/connection-types'
+import {
+  createMacro,
+  MACRO_TYPE,
+  MAX_MACRO_NAME_LENGTH,
+  type PatchMacro,
+} from '@/lib/macros'
+import { availableModules } from '@/lib/module-registry'
+import { MAX_MACRO_CONTROLS } from '@/lib/patch-schema'
+
+interface PortChoice {
+  // Jack id, as rendered
+  portId: string
+  port: PortAddress
+  direction: 'input' | 'output'
+  kind: SignalKind
+  label: string
+  checked: boolean
+}
+
+interface KnobChoice {
+  moduleId: string
+  parameter: string
+  label: string
+  checked: boolean
+}
+
+// Panel labels are short: the port name without its direction
+const portLabel = (portName: string) =>
+  portName.replace(/-(in|out)$/, '').slice(0, 6)
+
+export function MacroDialog({
+  moduleIds,
+  onClose,
+  onCreate,
+}: {
+  // Modules to collapse; null closes the dialog
+  moduleIds: string[] | null
+  onClose: () => void
+  onCreate: (macro: PatchMacro, saveToLibrary: boolean) => void
+}) {
+  const { getCurrentState } = usePatchManager()
+  const { getPortMeta } = useConnections()
+  const [name, setName] = useState('')
+  const [ports, setPorts] = useState<PortChoice[]>([])
+  const [knobs, setKnobs] = useState<KnobChoice[]>([])
+  const [saveToLibrary, setSaveToLibrary] = useState(true)
+
+  // Ports are read from the mounted modules; the ones cabled to the rest of
+  // the rack start exposed
+  useEffect(() => {
+    if (!moduleIds) return
+    const state = getCurrentState()
+    const isInner = (address: PortAddress) =>
+      moduleIds.includes(address.moduleId)
+    const external = new Set(
+      state.connections.flatMap((c) =>
+        isInner(c.from) === isInner(c.to)
+          ? []
+          : [portIdOf(isInner(c.from) ? c.from : c.to)],
+      ),
+    )
+
+    const nextPorts: PortChoice[] = []
+    const nextKnobs: KnobChoice[] = []
+    for (const moduleId of moduleIds) {
+      const wrapper = document.querySelector(
+        `[data-module-wrapper-id="${CSS.escape(moduleId)}"]`,
+      )
+      for (const el of wrapper?.querySelectorAll<HTMLElement>(
+        '[data-port-id]',
+      ) ?? []) {
+        const portId = el.dataset.portId
+        const meta = portId && getPortMeta(portId)
+        const port = portId && portAddressIn(moduleId, portId)
+        if (!portId || !meta || !port) continue
+        nextPorts.push({
+          portId,
+          port,
+          direction: meta.direction,
+          kind: meta.kind === 'any' ? 'cv' : meta.kind,
+          label: portLabel(port.portName),
+          checked: external.has(portId),
+        })
+      }
+      const type = state.modules.find((m) => m.id === moduleId)?.type
+      const entry = availableModules.find((m) => m.type === type)
+      for (const p of entry?.parameters ?? []) {
+        // Knobs stand for one value
+        if (p.kind === 'text' || ('count' in p && p.count !== undefined))
+          continue
+        nextKnobs.push({
+          moduleId,
+          parameter: p.id,
+          label: (p.label ?? p.id).slice(0, 8),
+          checked: false,
+        })
+      }
+    }
+    setName('')
+    setPorts(nextPorts)
+    setKnobs(nextKnobs)
+  }, [moduleIds, getCurrentState, getPortMeta])
+
+  const moduleName = (moduleId: string) => {
+    const type = getCurrentState().modules.find((m) => m.id === moduleId)?.type
+    return availableModules.find((m) => m.type === type)?.name ?? moduleId
+  }
+  const hasMacro = !!moduleIds?.some(
+    (id) =>
+      getCurrentState().modules.find((m) => m.id === id)?.type === MACRO_TYPE,
+  )
+  const portCount = ports.filter((p) => p.checked).length
+  const knobCount = knobs.filter((k) => k.checked).length
+  const tooMany =
+    portCount > MAX_MACRO_CONTROLS || knobCount > MAX_MACRO_CONTROLS
+
+  const handleCreate = () => {
+    if (!moduleIds) return
+    const count = { input: 0, output: 0 }
+    const macro = createMacro(
+      name || 'Macro',
+      moduleIds,
+      getCurrentState(),
+      ports
+        .filter((p) => p.checked)
+        .map((p) => ({
+          id: `${p.direction === 'input' ? 'in' : 'out'}-${++count[p.direction]}`,
+          label: p.label,
+          port: p.port,
+          direction: p.direction,
+          kind: p.kind,
+        })),
+      knobs
+        .filter((k) => k.checked)
+        .map((k) => ({
+          id: `${k.moduleId}.${k.parameter}`,
+          label: k.label,
+          moduleId: k.moduleId,
+          parameter: k.parameter,
+        })),
+    )
+    onCreate(macro, saveToLibrary)
+    onClose()
+  }
+
+  const updatePort = (portId: string, change: Partial<PortChoice>) =>
+    setPorts((prev) =>
+      prev.map((p) => (p.portId === portId ? { ...p, ...change } : p)),
+    )
+  const knobKey = (k: KnobChoice) => `${k.moduleId}.${k.parameter}`
+  const updateKnob = (key: string, change: Partial<KnobChoice>) =>
+    setKnobs((prev) =>
+      prev.map((k) => (knobKey(k) === key ? { ...k, ...change } : k)),
+    )
+
+  return (
+    <Dialog open={moduleIds !== null} onOpenChange={(o) => !o && onClose()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Collapse into macro</DialogTitle>
+          <DialogDescription>
+            {moduleIds?.length ?? 0} module
+            {moduleIds?.length === 1 ? '' : 's'} become one panel. Pick the
+            ports and knobs it shows; cables to ports left out are removed.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="macro-name">Name</Label>
+          <Input
+            id="macro-name"
+            value={name}
+            maxLength={MAX_MACRO_NAME_LENGTH}
+            placeholder="Macro"
+            onChange={(e) => setName(e.target.value)}
+          />
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <div className="mb-2 text-sm font-medium">Ports ({portCount})</div>
+            <div className="max-h-72 overflow-y-auto border rounded-md divide-y">
+              {ports.map((p) => (
+                <div
+                  key={p.portId}
+                  className="flex items-center gap-2 px-2 py-1 text-sm"
+                >
+                  <Checkbox
+                    checked={p.checked}
+                    onCheckedChange={(c) =>
+                      updatePort(p.portId, { checked: c === true })
+                    }
+                  />
+                  <span className="flex-1 truncate" title={p.portId}>
+                    {moduleName(p.port.moduleId)} {p.port.portName}
+                  </span>
+                  <Input
+                    className="h-7 w-20"
+                    value={p.label}
+                    maxLength={6}
+                    disabled={!p.checked}
+                    onChange={(e) =>
+                      updatePort(p.portId, { label: e.target.value })
+                    }
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+          <div>
+            <div className="mb-2 text-sm font-medium">Knobs ({knobCount})</div>
+            <div className="max-h-72 overflow-y-auto border rounded-md divide-y">
+              {knobs.map((k) => (
+                <div
+                  key={knobKey(k)}
+                  className="flex items-center gap-2 px-2 py-1 text-sm"
+                >
+                  <Checkbox
+                    checked={k.checked}
+                    onCheckedChange={(c) =>
+                      updateKnob(knobKey(k), { checked: c === true })
+                    }
+                  />
+                  <span className="flex-1 truncate">
+                    {moduleName(k.moduleId)} {k.parameter}
+                  </span>
+                  <Input
+                    className="h-7 w-20"
+                    value={k.label}
+                    maxLength={8}
+                    disabled={!k.checked}
+                    onChange={(e) =>
+                      updateKnob(knobKey(k), { label: e.target.value })
+                    }
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id="macro-save"
+            checked={saveToLibrary}
+            onCheckedChange={(c) => setSaveToLibrary(c === true)}
+          />
+          <Label htmlFor="macro-save">
+            Save to the macro library (add it again from "add module")
+          </Label>
+        </div>
+
+        {hasMacro && (
+          <p className="text-sm text-destructive">
+            Macros cannot contain other macros.
+          </p>
+        )}
+        {tooMany && (
+          <p className="text-sm text-destructive">
+            A macro shows at most {MAX_MACRO_CONTROLS} ports and{' '}
+            {MAX_MACRO_CONTROLS} knobs.
+          </p>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleCreate} disabled={hasMacro || tooMany}>
+            Collapse
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
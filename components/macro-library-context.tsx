@@ -0,0 +1,110 @@
+'use client'
+
+import type React from 'react'
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useState,
+} from 'react'
+import { toast } from '@/hooks/use-toast'
+import { type PatchMacro, readMacroLibrary } from '@/lib/macros'
+import { uniquePresetName } from '@/lib/module-presets'
+import { availableModules } from '@/lib/module-registry'
+import {
+  deleteStoredMacro,
+  loadLegacyMacros,
+  loadStoredMacros,
+  storeMacro,
+} from '@/lib/patch-storage'
+
+interface MacroLibraryContextValue {
+  macros: PatchMacro[]
+  // Stored under a free name; returns the name used
+  saveMacro: (macro: PatchMacro) => string
+  deleteMacro: (name: string) => void
+}
+
+// Macros hold whole sub-patches, so a full disk shows up here first
+const reportStorageError = (action: string, err: unknown) => {
+  console.error(`[macro-library] Could not ${action}:`, err)
+  toast({
+    title: `Could not ${action}`,
+    description: err instanceof Error ? err.message : String(err),
+    variant: 'destructive',
+  })
+}
+
+const MacroLibraryContext = createContext<MacroLibraryContextValue | undefined>(
+  undefined,
+)
+
+export function MacroLibraryProvider({
+  children,
+}: {
+  children: React.ReactNode
+}) {
+  const [macros, setMacros] = useState<PatchMacro[]>([])
+
+  // Storage is read after mount so server and client render the same
+  useEffect(() => {
+    loadStoredMacros()
+      .catch((err) => {
+        reportStorageError('open the macro library', err)
+        return loadLegacyMacros()
+      })
+      .then((raw) => {
+        const stored = readMacroLibrary(raw, availableModules)
+        // Keep anything saved while the library was still loading
+        setMacros((prev) => [
+          ...stored.filter((m) => !prev.some((p) => p.name === m.name)),
+          ...prev,
+        ])
+      })
+  }, [])
+
+  const saveMacro = useCallback(
+    (macro: PatchMacro) => {
+      const name = uniquePresetName(
+        macro.name,
+        macros.map((m) => m.name),
+      )
+      const named = { ...macro, name }
+      setMacros((prev) => [...prev, named])
+      storeMacro(named).catch((err) =>
+        reportStorageError(`save macro "${name}"`, err),
+      )
+      return name
+    },
+    [macros],
+  )
+
+  const deleteMacro = useCallback((name: string) => {
+    setMacros((prev) => prev.filter((m) => m.name !== name))
+    deleteStoredMacro(name).catch((err) =>
+      reportStorageError(`delete macro "${name}"`, err),
+    )
+  }, [])
+
+  const value = useMemo<MacroLibraryContextValue>(
+    () => ({ macros, saveMacro, deleteMacro }),
+    [macros, saveMacro, deleteMacro],
+  )
+
+  return (
+    <MacroLibraryContext.Provider value={value}>
+      {children}
+    </MacroLibraryContext.Provider>
+  )
+}
+
+export function useMacroLibrary(): MacroLibraryContextValue {
+  const ctx = useContext(MacroLibraryContext)
+  if (!ctx)
+    throw new Error(
+      'useMacroLibrary must be used within a MacroLibraryProvider',
+    )
+  return ctx
+}
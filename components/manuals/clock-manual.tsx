@@ -24,9 +24,30 @@ export default function ClockManual() {
             <strong>Div1..Div4 (knobs)</strong>: Select divisions for four
             outputs (1/32..8/1).
           </li>
+          <li>
+            <strong>Int / MIDI</strong>: Runs from the Tempo knob, or follows
+            the MIDI clock of the selected input.
+          </li>
+          <li>
+            <strong>in / out (selects)</strong>: MIDI input to follow and MIDI
+            output that receives clock, start/stop and song position.
+          </li>
         </ul>
       </section>
 
+      <section>
+        <h4 className="text-sm font-semibold">MIDI Sync</h4>
+        <p className="text-muted-foreground">
+          In MIDI mode the DAW or hardware drives the transport: start, stop and
+          continue (from its song position) follow the source, and run/stop and
+          Tempo are disabled. Incoming 24 PPQ clock is smoothed against USB
+          jitter and doubled to the 48 PPQ output; clk, the dividers and RST
+          stay phase-aligned with the source, with RST firing on start. The
+          display shows the detected tempo. MIDI clock out is sent in both
+          modes, timed to the audio output.
+        </p>
+      </section>
+
       <section>
         <h4 className="text-sm font-semibold">Ports</h4>
         <ul className="list-disc pl-5 space-y-2">
@@ -35,7 +56,10 @@ export default function ClockManual() {
           </li>
           <li>
             <strong>DIV1..DIV4 (outputs, CV)</strong>: Divider pulses per
-            selected ratio.
+            selected ratio, aligned with the reset.
+          </li>
+          <li>
+            <strong>RST (output, CV)</strong>: Pulse when the transport starts.
           </li>
         </ul>
       </section>
@@ -6,10 +6,36 @@ export default function KeyboardCVManual() {
       <section>
         <h3 className="text-base font-semibold">Keyboard CV</h3>
         <p className="text-muted-foreground">
-          Converts your computer keyboard and on-screen piano into
-          modular-friendly control signals. Outputs a 1V/Oct pitch CV and a 0/5V
-          gate. Press the on-screen keys or your computer keys (AWSEDFTGYHUJ) to
-          play.
+          Converts a MIDI keyboard, your computer keyboard and the on-screen
+          piano into modular-friendly control signals. Outputs a 1V/Oct pitch
+          CV, a 0/5V gate, velocity, mod wheel and pitch bend. Press the
+          on-screen keys or your computer keys (AWSEDFTGYHUJ) to play.
+        </p>
+      </section>
+
+      <section>
+        <h4 className="text-sm font-semibold">Voices</h4>
+        <p className="text-muted-foreground">
+          Mono plays one note at a time; the gate stays high while any key is
+          held. With 2, 4 or 8 voices the Gate, Pitch and Vel outputs become
+          polyphonic cables with one channel per voice: each new note takes a
+          free voice, or the oldest one when all are busy. Patch them into a
+          VCO, filter, ADSR and VCA to play chords.
+        </p>
+        <p className="text-muted-foreground">
+          Priority picks the mono note while several are held: Last (most
+          recent), Low (lowest) or High (highest).
+        </p>
+      </section>
+
+      <section>
+        <h4 className="text-sm font-semibold">MIDI</h4>
+        <p className="text-muted-foreground">
+          Choose a MIDI input (or All inputs) and a channel (Omni listens to all
+          16). The browser asks for MIDI access the first time. The sustain
+          pedal (CC 64) holds released notes until it is lifted; All Notes Off
+          (CC 123) closes every gate. Computer keys play the octave below middle
+          C.
         </p>
       </section>
 
@@ -25,11 +51,21 @@ export default function KeyboardCVManual() {
         <ul className="list-disc pl-5 space-y-2">
           <li>
             <strong>Gate (output, CV)</strong>: 0 V when idle, 5 V while a key
-            is held.
+            is held (per voice in poly mode).
+          </li>
+          <li>
+            <strong>Pitch (output, CV)</strong>: 1 V/Oct pitch CV, 0 V at middle
+            C.
+          </li>
+          <li>
+            <strong>Vel (output, CV)</strong>: Note velocity, 0..10 V (per voice
+            in poly mode). Computer keys play at full velocity.
+          </li>
+          <li>
+            <strong>Mod (output, CV)</strong>: Mod wheel (CC 1), 0..10 V.
           </li>
           <li>
-            <strong>Pitch (output, CV)</strong>: 1 V/Oct pitch CV. Middle C
-            range is centered around −1..+1 V span for the mapped octave.
+            <strong>Bend (output, CV)</strong>: Pitch bend, −5..+5 V.
           </li>
         </ul>
       </section>
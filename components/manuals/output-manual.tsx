@@ -23,6 +23,15 @@ export default function OutputManual() {
             <strong>Enable/Disable (button)</strong>: Soft-start/stop the master
             output.
           </li>
+          <li>
+            <strong>Record (button)</strong>: Captures the limited stereo bus
+            (before the master mute) and downloads a 24-bit WAV when stopped.
+          </li>
+          <li>
+            <strong>Sync (toggle)</strong>: Arms the recorder instead of
+            starting immediately; capture begins on the first rising edge at the
+            Clk input, sample-accurately.
+          </li>
         </ul>
       </section>
 
@@ -51,6 +60,11 @@ export default function OutputManual() {
           <li>
             <strong>R (input, audio)</strong>: Right input channel (±10 V safe).
           </li>
+          <li>
+            <strong>Clk (input, trigger)</strong>: Start trigger for armed
+            recordings. Patch the Clock RST output here to begin exactly on
+            transport start.
+          </li>
         </ul>
       </section>
     </div>
@@ -6,9 +6,10 @@ export default function VCAManual() {
       <section>
         <h3 className="text-base font-semibold">VCA</h3>
         <p className="text-muted-foreground">
-          Mono voltage‑controlled amplifier for shaping audio/CV amplitude.
-          Accepts a main CV and an additional CV level input. Internal slew and
-          DC blocking keep output stable when modulated.
+          Voltage‑controlled amplifier for shaping audio/CV amplitude. Accepts a
+          main CV and an additional CV level input. Internal slew and DC
+          blocking keep output stable when modulated. Polyphonic cables are
+          amplified per channel; a mono CV applies to every voice.
         </p>
       </section>
 
@@ -0,0 +1,234 @@
+'use client'
+
+import type React from 'react'
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from 'react'
+import {
+  type MidiAccessLike,
+  type MidiAccessProvider,
+  type MidiInputLike,
+  type MidiMessage,
+  type MidiMessageEventLike,
+  type MidiOutputLike,
+  midiPortName,
+  parseMidiMessage,
+  requestBrowserMidiAccess,
+} from '@/lib/midi'
+
+export interface MidiPortInfo {
+  id: string
+  name: string
+}
+
+export type MidiStatus = 'idle' | 'pending' | 'ready' | 'unavailable'
+
+export type MidiListener = (
+  message: MidiMessage,
+  source: { inputId: string; timeStamp: number },
+) => void
+
+interface MidiContextValue {
+  status: MidiStatus
+  // Why MIDI is unavailable (unsupported browser, permission denied)
+  error: string | null
+  inputs: MidiPortInfo[]
+  outputs: MidiPortInfo[]
+  // Requests MIDI access (once) without subscribing, e.g. to list outputs
+  connect: () => void
+  /**
+   * Listens to one input, or to every input when `inputId` is empty.
+   * MIDI access is requested on the first subscription.
+   * @returns unsubscribe
+   */
+  subscribe: (inputId: string, listener: MidiListener) => () => void
+  /**
+   * Sends to one output; dropped until access is ready or when the output
+   * is missing. `timestamp` is a performance.now() time.
+   */
+  send: (outputId: string, data: number[], timestamp?: number) => void
+}
+
+// Default: no MIDI (offline renders, trees without a provider)
+const MidiContext = createContext<MidiContextValue>({
+  status: 'unavailable',
+  error: null,
+  inputs: [],
+  outputs: [],
+  connect: () => {},
+  subscribe: () => () => {},
+  send: () => {},
+})
+
+export function MidiProvider({
+  requestAccess = requestBrowserMidiAccess,
+  children,
+}: {
+  // Swap in a fake MIDIAccess (tests) or another backend
+  requestAccess?: MidiAccessProvider
+  children: React.ReactNode
+}) {
+  const [status, setStatus] = useState<MidiStatus>('idle')
+  const [error, setError] = useState<string | null>(null)
+  const [inputs, setInputs] = useState<MidiPortInfo[]>([])
+  const [outputs, setOutputs] = useState<MidiPortInfo[]>([])
+
+  const statusRef = useRef<MidiStatus>('idle')
+  const accessRef = useRef<MidiAccessLike | null>(null)
+  const listenersRef = useRef(
+    new Set<{ inputId: string; listener: MidiListener }>(),
+  )
+  const outputsRef = useRef(new Map<string, MidiOutputLike>())
+  // Message handlers attached to each input, by input id
+  const attachedRef = useRef(
+    new Map<
+      string,
+      { input: MidiInputLike; handler: (e: MidiMessageEventLike) => void }
+    >(),
+  )
+
+  const dispatch = (inputId: string, e: MidiMessageEventLike) => {
+    const message = parseMidiMessage(e.data)
+    if (!message) return
+    const source = { inputId, timeStamp: e.timeStamp ?? performance.now() }
+    for (const l of listenersRef.current) {
+      if (!l.inputId || l.inputId === inputId) l.listener(message, source)
+    }
+  }
+
+  // Attach to new inputs, detach from removed ones, publish the lists
+  const refreshPorts = useCallback(() => {
+    const access = accessRef.current
+    if (!access) return
+    const present = new Map<string, MidiInputLike>()
+    access.inputs.forEach((input) => {
+      if (input.state !== 'disconnected') present.set(input.id, input)
+    })
+
+    for (const [id, { input, handler }] of attachedRef.current) {
+      if (present.get(id) === input) continue
+      input.removeEventListener('midimessage', handler)
+      attachedRef.current.delete(id)
+    }
+    for (const [id, input] of present) {
+      if (attachedRef.current.has(id)) continue
+      const handler = (e: MidiMessageEventLike) => dispatch(id, e)
+      input.addEventListener('midimessage', handler)
+      attachedRef.current.set(id, { input, handler })
+    }
+
+    const outs = outputsRef.current
+    outs.clear()
+    access.outputs?.forEach((output) => {
+      if (output.state !== 'disconnected') outs.set(output.id, output)
+    })
+
+    const info = (port: MidiInputLike | MidiOutputLike) => ({
+      id: port.id,
+      name: midiPortName(port),
+    })
+    setInputs(Array.from(present.values(), info))
+    setOutputs(Array.from(outs.values(), info))
+  }, [])
+
+  const ensureAccess = useCallback(() => {
+    if (statusRef.current !== 'idle') return
+    statusRef.current = 'pending'
+    setStatus('pending')
+    requestAccess()
+      .then((access) => {
+        accessRef.current = access
+        access.addEventListener('statechange', refreshPorts)
+        refreshPorts()
+        statusRef.current = 'ready'
+        setStatus('ready')
+      })
+      .catch((e) => {
+        console.warn('[midi] access unavailable:', e)
+        statusRef.current = 'unavailable'
+        setStatus('unavailable')
+        setError(e instanceof Error ? e.message : String(e))
+      })
+  }, [requestAccess, refreshPorts])
+
+  useEffect(() => {
+    const attached = attachedRef.current
+    return () => {
+      accessRef.current?.removeEventListener('statechange', refreshPorts)
+      for (const { input, handler } of attached.values())
+        input.removeEventListener('midimessage', handler)
+      attached.clear()
+    }
+  }, [refreshPorts])
+
+  const send = useCallback<MidiContextValue['send']>(
+    (outputId, data, timestamp) => {
+      const output = outputsRef.current.get(outputId)
+      if (!output) return
+      try {
+        output.send(data, timestamp)
+      } catch (e) {
+        console.warn('[midi] send failed:', e)
+      }
+    },
+    [],
+  )
+
+  const subscribe = useCallback<MidiContextValue['subscribe']>(
+    (inputId, listener) => {
+      const entry = { inputId, listener }
+      listenersRef.current.add(entry)
+      ensureAccess()
+      return () => {
+        listenersRef.current.delete(entry)
+      }
+    },
+    [ensureAccess],
+  )
+
+  const value = useMemo<MidiContextValue>(
+    () => ({
+      status,
+      error,
+      inputs,
+      outputs,
+      connect: ensureAccess,
+      subscribe,
+      send,
+    }),
+    [status, error, inputs, outputs, ensureAccess, subscribe, send],
+  )
+
+  return <MidiContext.Provider value={value}>{children}</MidiContext.Provider>
+}
+
+export function useMidi(): MidiContextValue {
+  return useContext(MidiContext)
+}
+
+/**
+ * Calls `listener` for every message from `inputId` (every input when
+ * empty). The latest listener is used without resubscribing.
+ */
+export function useMidiInput(
+  inputId: string,
+  listener: MidiListener,
+  enabled = true,
+) {
+  const { subscribe } = useMidi()
+  const listenerRef = useRef(listener)
+  listenerRef.current = listener
+
+  useEffect(() => {
+    if (!enabled) return
+    return subscribe(inputId, (message, source) =>
+      listenerRef.current(message, source),
+    )
+  }, [subscribe, inputId, enabled])
+}
@@ -0,0 +1,271 @@
+'use client'
+
+import type React from 'react'
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from 'react'
+import { useMidiInput } from '@/components/midi-context'
+import type { MidiMessage } from '@/lib/midi'
+import {
+  ccToPosition,
+  type MidiMapping,
+  midiMappingKey,
+  reachesKnob,
+} from '@/lib/midi-learn'
+
+// Knob positions within this distance count as equal (continuous knobs)
+const PICKUP_TOLERANCE = 0.02
+
+export interface LearnableControl {
+  label?: string
+  // Discrete positions, for quantized knobs
+  steps?: number
+  getValue: () => number
+  setValue: (position: number) => void
+}
+
+export interface MidiLearnTarget {
+  moduleId: string
+  controlId: string
+}
+
+interface MidiLearnContextValue {
+  mappings: MidiMapping[]
+  // Control waiting for its CC, if any
+  learning: MidiLearnTarget | null
+  startLearn: (target: MidiLearnTarget) => void
+  cancelLearn: () => void
+  /** Registers a knob so mapped CCs can move it; returns unregister */
+  registerControl: (
+    target: MidiLearnTarget,
+    control: LearnableControl,
+  ) => () => void
+  getControl: (target: MidiLearnTarget) => LearnableControl | undefined
+  getMapping: (target: MidiLearnTarget) => MidiMapping | undefined
+  updateMapping: (
+    target: MidiLearnTarget,
+    changes: Partial<MidiMapping>,
+  ) => void
+  removeMapping: (target: MidiLearnTarget) => void
+  // Replaces every mapping (patch load)
+  setMappings: (mappings: MidiMapping[]) => void
+  // Drops mappings of modules that are gone
+  retainModules: (moduleIds: string[]) => void
+}
+
+// Default: learning unavailable (offline renders, trees without a provider)
+const MidiLearnContext = createContext<MidiLearnContextValue>({
+  mappings: [],
+  learning: null,
+  startLearn: () => {},
+  cancelLearn: () => {},
+  registerControl: () => () => {},
+  getControl: () => undefined,
+  getMapping: () => undefined,
+  updateMapping: () => {},
+  removeMapping: () => {},
+  setMappings: () => {},
+  retainModules: () => {},
+})
+
+export function MidiLearnProvider({ children }: { children: React.ReactNode }) {
+  const [mappings, setMappingsState] = useState<MidiMapping[]>([])
+  const [learning, setLearning] = useState<MidiLearnTarget | null>(null)
+  const mappingsRef = useRef(mappings)
+  mappingsRef.current = mappings
+  const learningRef = useRef(learning)
+  learningRef.current = learning
+
+  const controlsRef = useRef(new Map<string, LearnableControl>())
+  // Soft-takeover state per mapping
+  const pickupRef = useRef(
+    new Map<
+      string,
+      { picked: boolean; lastTarget: number | null; lastSet: number | null }
+    >(),
+  )
+
+  const setMappings = useCallback((next: MidiMapping[]) => {
+    pickupRef.current.clear()
+    setMappingsState(next)
+  }, [])
+
+  const startLearn = useCallback(
+    (target: MidiLearnTarget) => setLearning(target),
+    [],
+  )
+  const cancelLearn = useCallback(() => setLearning(null), [])
+
+  const registerControl = useCallback(
+    (target: MidiLearnTarget, control: LearnableControl) => {
+      const key = midiMappingKey(target)
+      controlsRef.current.set(key, control)
+      return () => {
+        if (controlsRef.current.get(key) === control)
+          controlsRef.current.delete(key)
+      }
+    },
+    [],
+  )
+
+  const getControl = useCallback(
+    (target: MidiLearnTarget) =>
+      controlsRef.current.get(midiMappingKey(target)),
+    [],
+  )
+
+  const getMapping = useCallback(
+    (target: MidiLearnTarget) => {
+      const key = midiMappingKey(target)
+      return mappings.find((m) => midiMappingKey(m) === key)
+    },
+    [mappings],
+  )
+
+  const updateMapping = useCallback(
+    (target: MidiLearnTarget, changes: Partial<MidiMapping>) => {
+      const key = midiMappingKey(target)
+      pickupRef.current.delete(key)
+      setMappingsState((prev) =>
+        prev.map((m) => (midiMappingKey(m) === key ? { ...m, ...changes } : m)),
+      )
+    },
+    [],
+  )
+
+  const removeMapping = useCallback((target: MidiLearnTarget) => {
+    const key = midiMappingKey(target)
+    pickupRef.current.delete(key)
+    setMappingsState((prev) => prev.filter((m) => midiMappingKey(m) !== key))
+  }, [])
+
+  const retainModules = useCallback((moduleIds: string[]) => {
+    setMappingsState((prev) => {
+      const next = prev.filter((m) => moduleIds.includes(m.moduleId))
+      return next.length === prev.length ? prev : next
+    })
+  }, [])
+
+  // Escape cancels learning
+  useEffect(() => {
+    if (!learning) return
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') setLearning(null)
+    }
+    window.addEventListener('keydown', onKey)
+    return () => window.removeEventListener('keydown', onKey)
+  }, [learning])
+
+  const applyCC = (mapping: MidiMapping, value: number) => {
+    const key = midiMappingKey(mapping)
+    const control = controlsRef.current.get(key)
+    if (!control) return
+    const tolerance =
+      control.steps && control.steps > 1
+        ? 0.5 / (control.steps - 1)
+        : PICKUP_TOLERANCE
+
+    const target = ccToPosition(mapping, value)
+    const current = control.getValue()
+    const state = pickupRef.current.get(key) ?? {
+      picked: false,
+      lastTarget: null,
+      lastSet: null,
+    }
+    pickupRef.current.set(key, state)
+
+    // Moved by something else (mouse, undo, reset): take it over again
+    if (state.lastSet !== null && Math.abs(current - state.lastSet) > tolerance)
+      state.picked = false
+
+    if (
+      mapping.mode === 'jump' ||
+      state.picked ||
+      reachesKnob(current, target, state.lastTarget, tolerance)
+    ) {
+      control.setValue(target)
+      state.picked = true
+      state.lastSet = target
+    }
+    state.lastTarget = target
+  }
+
+  const handleMessage = (message: MidiMessage) => {
+    if (message.type !== 'cc') return
+
+    const target = learningRef.current
+    if (target) {
+      const mapping: MidiMapping = {
+        ...target,
+        channel: message.channel,
+        cc: message.controller,
+        min: 0,
+        max: 1,
+        mode: 'jump',
+      }
+      const key = midiMappingKey(target)
+      pickupRef.current.delete(key)
+      setMappingsState((prev) => [
+        ...prev.filter((m) => midiMappingKey(m) !== key),
+        mapping,
+      ])
+      setLearning(null)
+      applyCC(mapping, message.value)
+      return
+    }
+
+    for (const m of mappingsRef.current) {
+      if (m.cc !== message.controller) continue
+      if (m.channel !== 0 && m.channel !== message.channel) continue
+      applyCC(m, message.value)
+    }
+  }
+
+  // Listen to every input, only while there is something to do
+  useMidiInput('', handleMessage, !!learning || mappings.length > 0)
+
+  const value = useMemo<MidiLearnContextValue>(
+    () => ({
+      mappings,
+      learning,
+      startLearn,
+      cancelLearn,
+      registerControl,
+      getControl,
+      getMapping,
+      updateMapping,
+      removeMapping,
+      setMappings,
+      retainModules,
+    }),
+    [
+      mappings,
+      learning,
+      startLearn,
+      cancelLearn,
+      registerControl,
+      getControl,
+      getMapping,
+      updateMapping,
+      removeMapping,
+      setMappings,
+      retainModules,
+    ],
+  )
+
+  return (
+    <MidiLearnContext.Provider value={value}>
+      {children}
+    </MidiLearnContext.Provider>
+  )
+}
+
+export function useMidiLearn(): MidiLearnContextValue {
+  return useContext(MidiLearnContext)
+}
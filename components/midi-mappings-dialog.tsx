@@ -0,0 +1,123 @@
+'use client'
+
+import { Trash2 } from 'lucide-react'
+import { useMidiLearn } from '@/components/midi-learn-context'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { midiMappingKey } from '@/lib/midi-learn'
+
+// Range ends are edited in percent of the knob's travel
+const toPercent = (v: number) => Math.round(v * 100)
+const fromPercent = (s: string) =>
+  Math.max(0, Math.min(1, (Number.parseFloat(s) || 0) / 100))
+
+export function MidiMappingsDialog({
+  open,
+  onOpenChange,
+}: {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}) {
+  const { mappings, getControl, updateMapping, removeMapping } = useMidiLearn()
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>MIDI Mappings</DialogTitle>
+          <DialogDescription>
+            Right-click a knob and choose MIDI learn, then move a control on
+            your MIDI controller. Mappings are saved with the patch.
+          </DialogDescription>
+        </DialogHeader>
+
+        {mappings.length === 0 ? (
+          <div className="py-6 text-center text-sm text-muted-foreground">
+            No mappings yet
+          </div>
+        ) : (
+          <div className="grid grid-cols-[1fr_5rem_4.5rem_4.5rem_7rem_2rem] items-center gap-2 py-2 text-sm">
+            <div className="text-xs text-muted-foreground">Control</div>
+            <div className="text-xs text-muted-foreground">CC</div>
+            <div className="text-xs text-muted-foreground">Min %</div>
+            <div className="text-xs text-muted-foreground">Max %</div>
+            <div className="text-xs text-muted-foreground">Mode</div>
+            <div />
+            {mappings.map((m) => {
+              const label = getControl(m)?.label
+              return (
+                <div key={midiMappingKey(m)} className="contents">
+                  <div className="truncate font-mono text-xs">
+                    {m.moduleId} · {label ?? m.controlId}
+                  </div>
+                  <div className="text-xs tabular-nums">
+                    {m.cc} / {m.channel === 0 ? 'any' : `ch ${m.channel}`}
+                  </div>
+                  <Input
+                    type="number"
+                    min={0}
+                    max={100}
+                    value={toPercent(m.min)}
+                    onChange={(e) =>
+                      updateMapping(m, { min: fromPercent(e.target.value) })
+                    }
+                  />
+                  <Input
+                    type="number"
+                    min={0}
+                    max={100}
+                    value={toPercent(m.max)}
+                    onChange={(e) =>
+                      updateMapping(m, { max: fromPercent(e.target.value) })
+                    }
+                  />
+                  <Select
+                    value={m.mode}
+                    onValueChange={(mode) =>
+                      updateMapping(m, { mode: mode as typeof m.mode })
+                    }
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="jump">Jump</SelectItem>
+                      <SelectItem value="pickup">Pickup</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => removeMapping(m)}
+                    aria-label="Remove mapping"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              )
+            })}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button onClick={() => onOpenChange(false)}>Close</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,261 @@
+'use client'
+
+import { Star, X } from 'lucide-react'
+import { type KeyboardEvent, useEffect, useState } from 'react'
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandShortcut,
+} from '@/components/ui/command'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import type { AudioKind, PortDirection } from '@/lib/connection-types'
+import type { PatchMacro } from '@/lib/macros'
+import {
+  loadModuleBrowserHistory,
+  type ModuleBrowserHistory,
+  saveModuleBrowserHistory,
+  toggleFavouriteModule,
+  withRecentModule,
+} from '@/lib/module-browser'
+import { findMatchingPort } from '@/lib/module-ports'
+import {
+  availableModules,
+  type ModuleCatalogEntry,
+  type ModuleType,
+  moduleCategories,
+} from '@/lib/module-registry'
+import { cn } from '@/lib/utils'
+
+const browsable = availableModules.filter((m) => !m.hidden)
+
+// Item values are unique per list section; the module type follows the colon
+const itemValue = (section: string, type: string) => `${section}:${type}`
+const typeOfValue = (value: string) =>
+  value.slice(value.indexOf(':') + 1) as ModuleType
+
+/**
+ * Searchable module list. Enter adds the highlighted module at the centre
+ * of the view; Alt+F stars it.
+ */
+export function ModuleBrowser({
+  open,
+  onOpenChange,
+  connectFrom,
+  macros: allMacros,
+  onAddModule,
+  onAddMacro,
+  onDeleteMacro,
+}: {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  // Port of a cable waiting for a module; only modules it fits are listed
+  connectFrom?: { direction: PortDirection; kind: AudioKind } | null
+  macros: PatchMacro[]
+  onAddModule: (type: ModuleType) => void
+  onAddMacro: (macro: PatchMacro) => void
+  onDeleteMacro: (name: string) => void
+}) {
+  const [search, setSearch] = useState('')
+  const [highlighted, setHighlighted] = useState('')
+  const [history, setHistory] = useState<ModuleBrowserHistory>({
+    favourites: [],
+    recent: [],
+  })
+  const [isInitialized, setIsInitialized] = useState(false)
+
+  // Storage is read after mount so server and client render the same
+  useEffect(() => {
+    setHistory(loadModuleBrowserHistory(browsable.map((m) => m.type)))
+    setIsInitialized(true)
+  }, [])
+
+  useEffect(() => {
+    if (isInitialized) saveModuleBrowserHistory(history)
+  }, [history, isInitialized])
+
+  useEffect(() => {
+    if (open) setSearch('')
+  }, [open])
+
+  const addModule = (type: ModuleType) => {
+    setHistory((prev) => ({
+      ...prev,
+      recent: withRecentModule(prev.recent, type),
+    }))
+    onAddModule(type)
+    onOpenChange(false)
+  }
+
+  const toggleFavourite = (type: ModuleType) =>
+    setHistory((prev) => ({
+      ...prev,
+      favourites: toggleFavouriteModule(prev.favourites, type),
+    }))
+
+  const handleKeyDown = (event: KeyboardEvent) => {
+    if (event.altKey && event.code === 'KeyF' && highlighted) {
+      event.preventDefault()
+      if (!highlighted.startsWith('macro:'))
+        toggleFavourite(typeOfValue(highlighted))
+    }
+  }
+
+  const modules = connectFrom
+    ? browsable.filter((m) => findMatchingPort(m.ports, connectFrom))
+    : browsable
+  const macros = connectFrom
+    ? allMacros.filter((m) => findMatchingPort(m.ports, connectFrom))
+    : allMacros
+  const entriesOf = (types: readonly ModuleType[]) =>
+    types.flatMap((t) => modules.find((m) => m.type === t) ?? [])
+
+  const renderModule = (section: string, module: ModuleCatalogEntry) => {
+    const isFavourite = history.favourites.includes(module.type)
+    return (
+      <CommandItem
+        key={itemValue(section, module.type)}
+        value={itemValue(section, module.type)}
+        keywords={[
+          module.name,
+          module.description,
+          module.category,
+          ...(module.tags ?? []),
+        ]}
+        onSelect={() => addModule(module.type)}
+      >
+        <div className="flex min-w-0 flex-1 flex-col">
+          <span className="font-medium">{module.name}</span>
+          <span className="truncate text-xs text-muted-foreground">
+            {module.description}
+          </span>
+        </div>
+        <button
+          type="button"
+          title={isFavourite ? 'Remove from favourites' : 'Add to favourites'}
+          className="rounded p-1 hover:bg-white/10"
+          onClick={(e) => {
+            e.stopPropagation()
+            toggleFavourite(module.type)
+          }}
+        >
+          <Star
+            className={cn(
+              isFavourite ? 'fill-amber-400 text-amber-400' : 'opacity-40',
+            )}
+          />
+        </button>
+      </CommandItem>
+    )
+  }
+
+  // Shortcut sections would repeat every match, so they go while searching
+  const showShortcuts = search.trim() === ''
+  const favourites = entriesOf(history.favourites)
+  const recent = entriesOf(history.recent)
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="overflow-hidden p-0">
+        <DialogHeader className="sr-only">
+          <DialogTitle>add module</DialogTitle>
+          <DialogDescription>
+            search for a module to add to your rack.
+          </DialogDescription>
+        </DialogHeader>
+        <Command
+          value={highlighted}
+          onValueChange={setHighlighted}
+          onKeyDown={handleKeyDown}
+          className="[&_[cmdk-group-heading]]:text-muted-foreground [&_[cmdk-group-heading]]:px-2 [&_[cmdk-group-heading]]:font-medium [&_[cmdk-group]]:px-2 [&_[cmdk-input]]:h-12 [&_[cmdk-item]]:px-2 [&_[cmdk-item]]:py-2"
+        >
+          <CommandInput
+            placeholder={
+              connectFrom
+                ? `search modules with a matching ${connectFrom.direction === 'output' ? 'input' : 'output'}...`
+                : 'search modules...'
+            }
+            value={search}
+            onValueChange={setSearch}
+          />
+          <CommandList className="max-h-[60vh]">
+            <CommandEmpty>no modules found.</CommandEmpty>
+            {showShortcuts && favourites.length > 0 && (
+              <CommandGroup heading="favourites">
+                {favourites.map((m) => renderModule('favourite', m))}
+              </CommandGroup>
+            )}
+            {showShortcuts && recent.length > 0 && (
+              <CommandGroup heading="recently used">
+                {recent.map((m) => renderModule('recent', m))}
+              </CommandGroup>
+            )}
+            {moduleCategories.map((category) => {
+              const inCategory = modules.filter((m) => m.category === category)
+              return (
+                inCategory.length > 0 && (
+                  <CommandGroup key={category} heading={category}>
+                    {inCategory.map((m) => renderModule('module', m))}
+                  </CommandGroup>
+                )
+              )
+            })}
+            {macros.length > 0 && (
+              <CommandGroup heading="macros">
+                {macros.map((macro) => (
+                  <CommandItem
+                    key={macro.name}
+                    value={itemValue('macro', macro.name)}
+                    keywords={[macro.name, 'macro']}
+                    onSelect={() => {
+                      onAddMacro(macro)
+                      onOpenChange(false)
+                    }}
+                  >
+                    <div className="flex min-w-0 flex-1 flex-col">
+                      <span className="font-medium">{macro.name}</span>
+                      <span className="truncate text-xs text-muted-foreground">
+                        {macro.patch.modules.length} modules,{' '}
+                        {macro.ports.length} ports, {macro.knobs.length} knobs
+                      </span>
+                    </div>
+                    <button
+                      type="button"
+                      title="Remove from library"
+                      className="rounded p-1 hover:bg-white/10"
+                      onClick={(e) => {
+                        e.stopPropagation()
+                        onDeleteMacro(macro.name)
+                      }}
+                    >
+                      <X />
+                    </button>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            )}
+          </CommandList>
+          <div className="flex gap-4 border-t px-3 py-2 text-xs text-muted-foreground">
+            <span>
+              <CommandShortcut className="ml-0">↵</CommandShortcut> add at view
+              centre
+            </span>
+            <span>
+              <CommandShortcut className="ml-0">alt+f</CommandShortcut>{' '}
+              favourite
+            </span>
+          </div>
+        </Command>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -1,8 +1,14 @@
 import { GripVertical } from 'lucide-react'
-import { type ReactNode, useMemo } from 'react'
+import { createContext, type ReactNode, useContext, useMemo } from 'react'
+import { DspLoadBadge } from '@/components/dsp-load-context'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { cn } from '@/lib/utils'
 
+// Module whose panel is being rendered, so jacks know which module they are on
+const ModuleIdContext = createContext<string | null>(null)
+
+export const useModuleId = () => useContext(ModuleIdContext)
+
 interface ModuleContainerProps {
   moduleId: string
   title: string
@@ -18,33 +24,36 @@ export function ModuleContainer({
 }: ModuleContainerProps) {
   console.log('module container', title)
   return (
-    <div
-      className="h-full bg-gradient-to-b from-module-background-gradient to-module-background overflow-hidden text-module-foreground shadow-[inset_-0.5px_0_0_0_rgba(255,255,255,0.1),inset_0.5px_0_0_0_rgba(255,255,255,0.1)]"
-      data-module-id={moduleId}
-    >
-      <Card
-        className={cn(
-          'relative h-full flex flex-col bg-transparent pt-2 pb-2',
-          className,
-        )}
+    <ModuleIdContext.Provider value={moduleId}>
+      <div
+        className="h-full bg-gradient-to-b from-module-background-gradient to-module-background overflow-hidden text-module-foreground shadow-[inset_-0.5px_0_0_0_rgba(255,255,255,0.1),inset_0.5px_0_0_0_rgba(255,255,255,0.1)]"
+        data-module-id={moduleId}
       >
-        <Screw position="top" side="left" />
-        <Screw position="top" side="right" />
-        <Screw position="bottom" side="left" />
-        <Screw position="bottom" side="right" />
-        <CardHeader className="shrink-0 relative group cursor-grab active:cursor-grabbing module-header">
-          <div className="absolute left-2 top-1/2 -translate-y-1/2 opacity-0 group-hover:opacity-40 transition-opacity">
-            <GripVertical className="w-4 h-4" />
-          </div>
-          <CardTitle className="text-sm font-extrabold lowercase font-mono tracking-wide">
-            {title}
-          </CardTitle>
-        </CardHeader>
-        <CardContent className="flex-1 flex flex-col py-3 px-[10px] pt-0">
-          {children}
-        </CardContent>
-      </Card>
-    </div>
+        <Card
+          className={cn(
+            'relative h-full flex flex-col bg-transparent pt-2 pb-2',
+            className,
+          )}
+        >
+          <Screw position="top" side="left" />
+          <Screw position="top" side="right" />
+          <Screw position="bottom" side="left" />
+          <Screw position="bottom" side="right" />
+          <DspLoadBadge moduleId={moduleId} />
+          <CardHeader className="shrink-0 relative group cursor-grab active:cursor-grabbing module-header">
+            <div className="absolute left-2 top-1/2 -translate-y-1/2 opacity-0 group-hover:opacity-40 transition-opacity">
+              <GripVertical className="w-4 h-4" />
+            </div>
+            <CardTitle className="text-sm font-extrabold lowercase font-mono tracking-wide">
+              {title}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="flex-1 flex flex-col py-3 px-[10px] pt-0">
+            {children}
+          </CardContent>
+        </Card>
+      </div>
+    </ModuleIdContext.Provider>
   )
 }
 
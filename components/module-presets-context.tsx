@@ -0,0 +1,196 @@
+'use client'
+
+import type React from 'react'
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useState,
+} from 'react'
+import { getDefaultParameters } from '@/lib/module-parameters'
+import {
+  createPresetFile,
+  loadPresetLibrary,
+  type ModulePreset,
+  type ModulePresetFile,
+  type ModulePresetLibrary,
+  parsePresetFile,
+  savePresetLibrary,
+  uniquePresetName,
+} from '@/lib/module-presets'
+import { availableModules } from '@/lib/module-registry'
+
+interface ModulePresetsContextValue {
+  /** Factory presets first, then the user's, for one module type */
+  getPresets: (moduleType: string) => ModulePreset[]
+  // Replaces a user preset of the same name; returns the name used
+  savePreset: (
+    moduleType: string,
+    name: string,
+    parameters: Record<string, any>,
+  ) => string
+  renamePreset: (moduleType: string, from: string, to: string) => string
+  deletePreset: (moduleType: string, name: string) => void
+  // Throws on unreadable files; returns the names added
+  importPresets: (moduleType: string, json: string) => string[]
+  // All user presets of the type, or just the named ones
+  exportPresets: (moduleType: string, names?: string[]) => ModulePresetFile
+}
+
+const ModulePresetsContext = createContext<
+  ModulePresetsContextValue | undefined
+>(undefined)
+
+// Completed with defaults, so they load and export like saved presets
+const getFactoryPresets = (moduleType: string): ModulePreset[] => {
+  const entry = availableModules.find((m) => m.type === moduleType)
+  if (!entry?.presets) return []
+  const defaults = getDefaultParameters(entry.parameters)
+  return entry.presets.map((p) => ({
+    name: p.name,
+    parameters: { ...defaults, ...p.parameters },
+    factory: true,
+  }))
+}
+
+const factoryNames = (moduleType: string) =>
+  getFactoryPresets(moduleType).map((p) => p.name)
+
+export function ModulePresetsProvider({
+  children,
+}: {
+  children: React.ReactNode
+}) {
+  const [library, setLibrary] = useState<ModulePresetLibrary>({})
+  const [isInitialized, setIsInitialized] = useState(false)
+
+  // Storage is read after mount so server and client render the same
+  useEffect(() => {
+    setLibrary(loadPresetLibrary())
+    setIsInitialized(true)
+  }, [])
+
+  useEffect(() => {
+    if (isInitialized) savePresetLibrary(library)
+  }, [library, isInitialized])
+
+  const getPresets = useCallback(
+    (moduleType: string) => [
+      ...getFactoryPresets(moduleType),
+      ...(library[moduleType] ?? []),
+    ],
+    [library],
+  )
+
+  const savePreset = useCallback(
+    (moduleType: string, name: string, parameters: Record<string, any>) => {
+      const finalName = uniquePresetName(name, factoryNames(moduleType))
+      setLibrary((prev) => {
+        const list = prev[moduleType] ?? []
+        const preset = { name: finalName, parameters: { ...parameters } }
+        const exists = list.some((p) => p.name === finalName)
+        return {
+          ...prev,
+          [moduleType]: exists
+            ? list.map((p) => (p.name === finalName ? preset : p))
+            : [...list, preset],
+        }
+      })
+      return finalName
+    },
+    [],
+  )
+
+  const renamePreset = useCallback(
+    (moduleType: string, from: string, to: string) => {
+      const list = library[moduleType] ?? []
+      if (to.trim() === from) return from
+      const finalName = uniquePresetName(to, [
+        ...factoryNames(moduleType),
+        ...list.map((p) => p.name).filter((n) => n !== from),
+      ])
+      setLibrary((prev) => ({
+        ...prev,
+        [moduleType]: (prev[moduleType] ?? []).map((p) =>
+          p.name === from ? { ...p, name: finalName } : p,
+        ),
+      }))
+      return finalName
+    },
+    [library],
+  )
+
+  const deletePreset = useCallback((moduleType: string, name: string) => {
+    setLibrary((prev) => ({
+      ...prev,
+      [moduleType]: (prev[moduleType] ?? []).filter((p) => p.name !== name),
+    }))
+  }, [])
+
+  const importPresets = useCallback(
+    (moduleType: string, json: string) => {
+      const incoming = parsePresetFile(json, moduleType)
+      const taken = [
+        ...factoryNames(moduleType),
+        ...(library[moduleType] ?? []).map((p) => p.name),
+      ]
+      const added = incoming.map((p) => {
+        const name = uniquePresetName(p.name, taken)
+        taken.push(name)
+        return { name, parameters: p.parameters }
+      })
+      setLibrary((prev) => ({
+        ...prev,
+        [moduleType]: [...(prev[moduleType] ?? []), ...added],
+      }))
+      return added.map((p) => p.name)
+    },
+    [library],
+  )
+
+  const exportPresets = useCallback(
+    (moduleType: string, names?: string[]) => {
+      const presets = getPresets(moduleType).filter((p) =>
+        names ? names.includes(p.name) : !p.factory,
+      )
+      return createPresetFile(moduleType, presets)
+    },
+    [getPresets],
+  )
+
+  const value = useMemo<ModulePresetsContextValue>(
+    () => ({
+      getPresets,
+      savePreset,
+      renamePreset,
+      deletePreset,
+      importPresets,
+      exportPresets,
+    }),
+    [
+      getPresets,
+      savePreset,
+      renamePreset,
+      deletePreset,
+      importPresets,
+      exportPresets,
+    ],
+  )
+
+  return (
+    <ModulePresetsContext.Provider value={value}>
+      {children}
+    </ModulePresetsContext.Provider>
+  )
+}
+
+export function useModulePresets(): ModulePresetsContextValue {
+  const ctx = useContext(ModulePresetsContext)
+  if (!ctx)
+    throw new Error(
+      'useModulePresets must be used within a ModulePresetsProvider',
+    )
+  return ctx
+}
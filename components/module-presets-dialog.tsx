@@ -0,0 +1,260 @@
+'use client'
+
+import { Check, Download, Pencil, Trash2, Upload, X } from 'lucide-react'
+import { type ChangeEvent, useRef, useState } from 'react'
+import { useModulePresets } from '@/components/module-presets-context'
+import { usePatchManager } from '@/components/patch-manager'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import type { ModulePreset } from '@/lib/module-presets'
+import { downloadBlob } from '@/lib/wav'
+
+const presetFileName = (moduleType: string, name?: string) =>
+  `${[moduleType, name ?? 'presets']
+    .join('-')
+    .replace(/[^a-z0-9-]+/gi, '_')
+    .toLowerCase()}.json`
+
+export function ModulePresetsDialog({
+  open,
+  onOpenChange,
+  moduleId,
+  moduleType,
+  moduleName,
+  onLoad,
+}: {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  moduleId: string
+  moduleType: string
+  moduleName: string
+  onLoad: (preset: ModulePreset) => void
+}) {
+  const { getModuleParameters } = usePatchManager()
+  const {
+    getPresets,
+    savePreset,
+    renamePreset,
+    deletePreset,
+    importPresets,
+    exportPresets,
+  } = useModulePresets()
+  const presets = getPresets(moduleType)
+  const userPresets = presets.filter((p) => !p.factory)
+
+  const [name, setName] = useState('')
+  const [renaming, setRenaming] = useState<string | null>(null)
+  const [renameTo, setRenameTo] = useState('')
+  const [message, setMessage] = useState<string | null>(null)
+  const fileRef = useRef<HTMLInputElement | null>(null)
+
+  const handleSave = () => {
+    const parameters = getModuleParameters(moduleId)
+    if (!parameters || !name.trim()) return
+    const saved = savePreset(moduleType, name, parameters)
+    setMessage(`Saved "${saved}"`)
+    setName('')
+  }
+
+  const handleRename = (from: string) => {
+    if (renameTo.trim()) renamePreset(moduleType, from, renameTo)
+    setRenaming(null)
+  }
+
+  const handleExport = (preset?: ModulePreset) => {
+    const file = exportPresets(moduleType, preset ? [preset.name] : undefined)
+    downloadBlob(
+      new Blob([JSON.stringify(file, null, 2)], { type: 'application/json' }),
+      presetFileName(moduleType, preset?.name),
+    )
+  }
+
+  const handleImport = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+    try {
+      const added = importPresets(moduleType, await file.text())
+      setMessage(
+        `Imported ${added.length} preset${added.length === 1 ? '' : 's'}`,
+      )
+    } catch (err) {
+      setMessage(err instanceof Error ? err.message : String(err))
+    }
+  }
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(o) => {
+        if (!o) {
+          setMessage(null)
+          setRenaming(null)
+        }
+        onOpenChange(o)
+      }}
+    >
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{moduleName} Presets</DialogTitle>
+          <DialogDescription>
+            Presets are shared by every {moduleName} module and kept in this
+            browser.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-2">
+          <Label htmlFor="preset-name">Save current settings as</Label>
+          <div className="flex gap-2">
+            <Input
+              id="preset-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+              placeholder="Preset name..."
+              autoFocus
+            />
+            <Button onClick={handleSave} disabled={!name.trim()}>
+              Save
+            </Button>
+          </div>
+          {userPresets.some((p) => p.name === name.trim()) && (
+            <p className="text-xs text-muted-foreground">
+              Replaces the preset with this name
+            </p>
+          )}
+        </div>
+
+        <div className="max-h-72 overflow-y-auto border rounded-md divide-y">
+          {presets.length === 0 && (
+            <div className="p-4 text-center text-sm text-muted-foreground">
+              No presets yet
+            </div>
+          )}
+          {presets.map((preset) => (
+            <div
+              key={`${preset.factory ? 'f' : 'u'}:${preset.name}`}
+              className="flex items-center gap-1 px-2 py-1 text-sm"
+            >
+              {renaming === preset.name && !preset.factory ? (
+                <>
+                  <Input
+                    value={renameTo}
+                    onChange={(e) => setRenameTo(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') handleRename(preset.name)
+                      if (e.key === 'Escape') {
+                        e.stopPropagation()
+                        setRenaming(null)
+                      }
+                    }}
+                    className="h-7"
+                    autoFocus
+                  />
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => handleRename(preset.name)}
+                    aria-label="Confirm rename"
+                  >
+                    <Check className="w-3 h-3" />
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => setRenaming(null)}
+                    aria-label="Cancel rename"
+                  >
+                    <X className="w-3 h-3" />
+                  </Button>
+                </>
+              ) : (
+                <>
+                  <button
+                    type="button"
+                    className="flex-1 truncate text-left hover:underline"
+                    onClick={() => onLoad(preset)}
+                  >
+                    {preset.name}
+                  </button>
+                  {preset.factory && (
+                    <span className="text-xs text-muted-foreground">
+                      factory
+                    </span>
+                  )}
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => handleExport(preset)}
+                    aria-label="Export preset"
+                  >
+                    <Download className="w-3 h-3" />
+                  </Button>
+                  {!preset.factory && (
+                    <>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => {
+                          setRenaming(preset.name)
+                          setRenameTo(preset.name)
+                        }}
+                        aria-label="Rename preset"
+                      >
+                        <Pencil className="w-3 h-3" />
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => deletePreset(moduleType, preset.name)}
+                        aria-label="Delete preset"
+                      >
+                        <Trash2 className="w-3 h-3" />
+                      </Button>
+                    </>
+                  )}
+                </>
+              )}
+            </div>
+          ))}
+        </div>
+
+        {message && <p className="text-sm text-muted-foreground">{message}</p>}
+
+        <DialogFooter className="sm:justify-between">
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => fileRef.current?.click()}>
+              <Upload className="w-4 h-4 mr-2" />
+              Import
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => handleExport()}
+              disabled={userPresets.length === 0}
+            >
+              <Download className="w-4 h-4 mr-2" />
+              Export All
+            </Button>
+            <input
+              ref={fileRef}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={handleImport}
+            />
+          </div>
+          <Button onClick={() => onOpenChange(false)}>Close</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
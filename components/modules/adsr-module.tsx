@@ -2,7 +2,6 @@
 
 import { useEffect, useRef, useState } from 'react'
 import { ModuleContainer } from '@/components/module-container'
-import { useModulePatch } from '@/components/patch-manager'
 import { Port, PortGroup } from '@/components/port'
 import { TextLabel } from '@/components/text-label'
 import { Knob } from '@/components/ui/knob'
@@ -10,7 +9,11 @@ import { PushButton } from '@/components/ui/push-button'
 import { Slider } from '@/components/ui/slider'
 import { ToggleSwitch } from '@/components/ui/toggle-switch'
 import { useModuleInit } from '@/hooks/use-module-init'
-import { getAudioContext } from '@/lib/helpers'
+import { useModuleParameters } from '@/hooks/use-module-parameters'
+import { usePolyChannels } from '@/hooks/use-poly-channels'
+import { defineParameters } from '@/lib/module-parameters'
+import { input, type ModulePortDescriptor, output } from '@/lib/module-ports'
+import { polyWorkletOptions } from '@/lib/polyphony'
 import { mapLinear } from '@/lib/utils'
 
 // Ranges for mapping 0..1 -> seconds
@@ -37,39 +40,52 @@ const mapSustain = (n: number) => mapLinear(n, SUSTAIN_MIN, SUSTAIN_MAX)
 const mapRelease = (n: number) => mapLinear(n, RELEASE_MIN, RELEASE_MAX)
 const mapMaxV = (n: number) => mapLinear(n, MAXV_MIN, MAXV_MAX)
 
+// Saved values are slider positions (0..1); the map* helpers give units
+export const adsrParameters = defineParameters([
+  { id: 'attackN', label: 'Attack', min: 0, max: 1, default: DEFAULT_ATTACK_N },
+  { id: 'decayN', label: 'Decay', min: 0, max: 1, default: DEFAULT_DECAY_N },
+  {
+    id: 'sustainN',
+    label: 'Sustain',
+    min: 0,
+    max: 1,
+    default: DEFAULT_SUSTAIN_N,
+  },
+  {
+    id: 'releaseN',
+    label: 'Release',
+    min: 0,
+    max: 1,
+    default: DEFAULT_RELEASE_N,
+  },
+  { id: 'maxVN', label: 'Max V', min: 0, max: 1, default: 1 },
+  { id: 'retrig', label: 'Retrig', kind: 'toggle', default: true },
+  { id: 'longMode', label: 'Long', kind: 'toggle', default: false },
+  { id: 'linearShape', label: 'Linear', kind: 'toggle', default: false },
+])
+
+export const adsrPorts: readonly ModulePortDescriptor[] = [
+  input('gate-in', 'gate'),
+  output('env-out', 'cv'),
+  output('inv-out', 'cv'),
+]
+
 export function ADSRModule({ moduleId }: { moduleId: string }) {
-  // Register with patch manager and get initial parameters
-  const { initialParameters } = useModulePatch(moduleId, () => ({
-    attackN: attackN[0],
-    decayN: decayN[0],
-    sustainN: sustainN[0],
-    releaseN: releaseN[0],
-    maxVN: maxVN[0],
+  // Normalized UI state (0..1 for each slider)
+  const { values, set, knob } = useModuleParameters(moduleId, adsrParameters)
+  const {
+    attackN,
+    decayN,
+    sustainN,
+    releaseN,
+    maxVN,
     retrig,
     longMode,
     linearShape,
-  }))
-
-  // Normalized UI state (0..1 for each slider) - initialized from saved values or defaults
-  const [attackN, setAttackN] = useState<number[]>([
-    initialParameters?.attackN ?? DEFAULT_ATTACK_N,
-  ])
-  const [decayN, setDecayN] = useState<number[]>([
-    initialParameters?.decayN ?? DEFAULT_DECAY_N,
-  ])
-  const [sustainN, setSustainN] = useState<number[]>([
-    initialParameters?.sustainN ?? DEFAULT_SUSTAIN_N,
-  ])
-  const [releaseN, setReleaseN] = useState<number[]>([
-    initialParameters?.releaseN ?? DEFAULT_RELEASE_N,
-  ])
-  const [maxVN, setMaxVN] = useState<number[]>([initialParameters?.maxVN ?? 1])
-  const [retrig, setRetrig] = useState(initialParameters?.retrig ?? true)
-  const [longMode, setLongMode] = useState(initialParameters?.longMode ?? false)
-  const [linearShape, setLinearShape] = useState(
-    initialParameters?.linearShape ?? false,
-  )
+  } = values
   const [isTriggered, setIsTriggered] = useState(false)
+  // One envelope per gate channel
+  const { channels, bindPoly } = usePolyChannels()
 
   // Audio graph
   const audioContextRef = useRef<AudioContext | null>(null)
@@ -80,10 +96,9 @@ export function ADSRModule({ moduleId }: { moduleId: string }) {
   const nodeRef = useRef<AudioWorkletNode | null>(null) // adsr-processor worklet
   const keepAliveRef = useRef<GainNode | null>(null)
 
-  useModuleInit(async () => {
+  useModuleInit(async (ac) => {
     if (nodeRef.current) return // Already initialized
 
-    const ac = getAudioContext()
     audioContextRef.current = ac
 
     await ac.audioWorklet.addModule('/adsr-processor.js')
@@ -103,31 +118,31 @@ export function ADSRModule({ moduleId }: { moduleId: string }) {
 
     // Create worklet with initial (mapped) params
     const node = new AudioWorkletNode(ac, 'adsr-processor', {
-      numberOfInputs: 1,
-      numberOfOutputs: 2,
-      outputChannelCount: [1, 1],
+      processorOptions: { moduleId },
+      ...polyWorkletOptions(2, 2),
       parameterData: {
-        attack: mapAttack(attackN[0]),
-        decay: mapDecay(decayN[0]),
-        sustain: mapSustain(sustainN[0]),
-        release: mapRelease(releaseN[0]),
+        attack: mapAttack(attackN),
+        decay: mapDecay(decayN),
+        sustain: mapSustain(sustainN),
+        release: mapRelease(releaseN),
         retrig: retrig ? 1 : 0,
         long: longMode ? 1 : 0,
         shapeLinear: linearShape ? 1 : 0,
         hiThresh: 2.5,
         loThresh: 1.5,
-        maxv: mapMaxV(maxVN[0]),
+        maxv: mapMaxV(maxVN),
       },
     })
     nodeRef.current = node
 
-    // Sum external + manual gates into input 0
-    gateInputRef.current.connect(node)
-    manualGateRef.current.connect(node)
+    // External gate into input 0, manual gate (all voices) into input 1
+    gateInputRef.current.connect(node, 0, 0)
+    manualGateRef.current.connect(node, 0, 1)
 
     // Worklet → ENV jack
     node.connect(envOutRef.current, 0, 0)
     node.connect(invOutRef.current, 1, 0)
+    bindPoly(node, [envOutRef.current, invOutRef.current])
 
     // Keep-alive sink
     keepAliveRef.current = ac.createGain()
@@ -143,7 +158,7 @@ export function ADSRModule({ moduleId }: { moduleId: string }) {
     if (ac && node)
       node.parameters
         .get('attack')
-        ?.setValueAtTime(mapAttack(attackN[0]), ac.currentTime)
+        ?.setValueAtTime(mapAttack(attackN), ac.currentTime)
   }, [attackN])
 
   useEffect(() => {
@@ -152,7 +167,7 @@ export function ADSRModule({ moduleId }: { moduleId: string }) {
     if (ac && node)
       node.parameters
         .get('decay')
-        ?.setValueAtTime(mapDecay(decayN[0]), ac.currentTime)
+        ?.setValueAtTime(mapDecay(decayN), ac.currentTime)
   }, [decayN])
 
   useEffect(() => {
@@ -161,7 +176,7 @@ export function ADSRModule({ moduleId }: { moduleId: string }) {
     if (ac && node)
       node.parameters
         .get('sustain')
-        ?.setValueAtTime(mapSustain(sustainN[0]), ac.currentTime)
+        ?.setValueAtTime(mapSustain(sustainN), ac.currentTime)
   }, [sustainN])
 
   useEffect(() => {
@@ -170,7 +185,7 @@ export function ADSRModule({ moduleId }: { moduleId: string }) {
     if (ac && node)
       node.parameters
         .get('release')
-        ?.setValueAtTime(mapRelease(releaseN[0]), ac.currentTime)
+        ?.setValueAtTime(mapRelease(releaseN), ac.currentTime)
   }, [releaseN])
 
   useEffect(() => {
@@ -179,7 +194,7 @@ export function ADSRModule({ moduleId }: { moduleId: string }) {
     if (ac && node)
       node.parameters
         .get('maxv')
-        ?.setValueAtTime(mapMaxV(maxVN[0]), ac.currentTime)
+        ?.setValueAtTime(mapMaxV(maxVN), ac.currentTime)
   }, [maxVN])
 
   useEffect(() => {
@@ -232,8 +247,8 @@ export function ADSRModule({ moduleId }: { moduleId: string }) {
           <div className="flex flex-col items-center h-full gap-2">
             <div className="flex-1 flex items-center">
               <Slider
-                value={attackN}
-                onValueChange={setAttackN}
+                value={[attackN]}
+                onValueChange={knob('attackN').onValueChange}
                 min={0}
                 max={1}
                 step={0.0001}
@@ -250,8 +265,8 @@ export function ADSRModule({ moduleId }: { moduleId: string }) {
           <div className="flex flex-col items-center h-full gap-2">
             <div className="flex-1 flex items-center">
               <Slider
-                value={decayN}
-                onValueChange={setDecayN}
+                value={[decayN]}
+                onValueChange={knob('decayN').onValueChange}
                 min={0}
                 max={1}
                 step={0.001}
@@ -268,8 +283,8 @@ export function ADSRModule({ moduleId }: { moduleId: string }) {
           <div className="flex flex-col items-center h-full gap-2">
             <div className="flex-1 flex items-center">
               <Slider
-                value={sustainN}
-                onValueChange={setSustainN}
+                value={[sustainN]}
+                onValueChange={knob('sustainN').onValueChange}
                 min={0}
                 max={1}
                 step={0.001}
@@ -286,8 +301,8 @@ export function ADSRModule({ moduleId }: { moduleId: string }) {
           <div className="flex flex-col items-center h-full gap-2">
             <div className="flex-1 flex items-center">
               <Slider
-                value={releaseN}
-                onValueChange={setReleaseN}
+                value={[releaseN]}
+                onValueChange={knob('releaseN').onValueChange}
                 min={0}
                 max={1}
                 step={0.001}
@@ -307,26 +322,21 @@ export function ADSRModule({ moduleId }: { moduleId: string }) {
             <ToggleSwitch
               label="Rtrig"
               value={retrig}
-              onValueChange={setRetrig}
+              onValueChange={(v) => set('retrig', v)}
             />
             <ToggleSwitch
               label="Long"
               value={longMode}
-              onValueChange={setLongMode}
+              onValueChange={(v) => set('longMode', v)}
             />
             <ToggleSwitch
               label="Lin"
               value={linearShape}
-              onValueChange={setLinearShape}
+              onValueChange={(v) => set('linearShape', v)}
             />
           </div>
           <div className="flex gap-6 items-center">
-            <Knob
-              size="sm"
-              value={maxVN}
-              onValueChange={setMaxVN}
-              label="Lvl"
-            />
+            <Knob size="sm" {...knob('maxVN')} label="Lvl" />
             <PushButton
               onMouseDown={handleMouseDown}
               onMouseUp={handleMouseUp}
@@ -354,6 +364,7 @@ export function ADSRModule({ moduleId }: { moduleId: string }) {
               label="INV"
               audioType="cv"
               audioNode={invOutRef.current ?? undefined}
+              channels={channels}
             />
             <Port
               id={`${moduleId}-env-out`}
@@ -361,6 +372,7 @@ export function ADSRModule({ moduleId }: { moduleId: string }) {
               label="Out"
               audioType="cv"
               audioNode={envOutRef.current ?? undefined}
+              channels={channels}
             />
           </PortGroup>
         </div>
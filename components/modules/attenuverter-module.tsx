@@ -1,29 +1,36 @@
 'use client'
 
-import { useEffect, useRef, useState } from 'react'
+import { useEffect, useRef } from 'react'
 import { useConnections } from '@/components/connection-manager'
 import { ModuleContainer } from '@/components/module-container'
-import { useModulePatch } from '@/components/patch-manager'
 import { Port, PortGroup } from '@/components/port'
 import { TextLabel } from '@/components/text-label'
 import { Knob } from '@/components/ui/knob'
 import { useModuleInit } from '@/hooks/use-module-init'
-import { getAudioContext } from '@/lib/helpers'
+import { useModuleParameters } from '@/hooks/use-module-parameters'
+import { portIdOf } from '@/lib/connection-types'
+import { defineParameters } from '@/lib/module-parameters'
+import {
+  input,
+  type ModulePortDescriptor,
+  numbered,
+  output,
+} from '@/lib/module-ports'
 import { HLine } from '../marks'
 
+export const attenuverterParameters = defineParameters([
+  { id: 'gains', label: 'Gain', min: -1, max: 1, default: 0, count: 8 },
+])
+
+export const attenuverterPorts: readonly ModulePortDescriptor[] = [
+  ...numbered(8, (n) => input(`in-${n}`, 'any')),
+  ...numbered(8, (n) => output(`out-${n}`, 'any')),
+]
+
 export function AttenuverterModule({ moduleId }: { moduleId: string }) {
-  // Get initial parameters and set up persistence
-  const { initialParameters } = useModulePatch(moduleId, () => ({
-    gains: gains,
-  }))
-
-  // Initialize gains with saved values or defaults (8 channels)
-  const [gains, setGains] = useState<number[]>(
-    Array.isArray(initialParameters?.gains) &&
-      initialParameters?.gains.length === 8
-      ? (initialParameters.gains as number[])
-      : [0, 0, 0, 0, 0, 0, 0, 0],
-  )
+  // Gains are -1..1, one per channel (8 channels)
+  const { values, knob } = useModuleParameters(moduleId, attenuverterParameters)
+  const { gains } = values
 
   const audioContextRef = useRef<AudioContext | null>(null)
   const workletRef = useRef<AudioWorkletNode | null>(null)
@@ -32,21 +39,23 @@ export function AttenuverterModule({ moduleId }: { moduleId: string }) {
   const { connections } = useConnections()
 
   // Initialize audio graph
-  useModuleInit(async () => {
+  useModuleInit(async (ac) => {
     if (workletRef.current) return // Already initialized
 
-    const ac = getAudioContext()
     audioContextRef.current = ac
 
     await ac.audioWorklet.addModule('/attenuverter-processor.js')
 
     // Check initial connections for mask parameters (8 channels)
     const masks = Array.from({ length: 8 }, (_, i) =>
-      connections.some((c) => c.to === `${moduleId}-in-${i + 1}`) ? 1 : 0,
+      connections.some((c) => portIdOf(c.to) === `${moduleId}-in-${i + 1}`)
+        ? 1
+        : 0,
     )
 
     // Create the worklet node with initial parameters
     const node = new AudioWorkletNode(ac, 'attenuverter-processor', {
+      processorOptions: { moduleId },
       numberOfInputs: 8,
       numberOfOutputs: 8,
       outputChannelCount: [1, 1, 1, 1, 1, 1, 1, 1],
@@ -109,7 +118,7 @@ export function AttenuverterModule({ moduleId }: { moduleId: string }) {
     // Update mask for each input based on connections (8 channels)
     for (let i = 0; i < 8; i++) {
       const isConnected = connections.some(
-        (c) => c.to === `${moduleId}-in-${i + 1}`,
+        (c) => portIdOf(c.to) === `${moduleId}-in-${i + 1}`,
       )
       node.parameters
         .get(`m${i}`)
@@ -117,23 +126,14 @@ export function AttenuverterModule({ moduleId }: { moduleId: string }) {
     }
   }, [connections, moduleId])
 
-  // Update gain when knob changes
-  const setGainAtIndex = (index: number) => (value: number[]) => {
-    const newValue = Array.isArray(value) ? value[0] : value
-    const mapped = (newValue - 0.5) * 2 // Map 0..1 to -1..1
-
-    setGains((prev) => {
-      const next = [...prev]
-      next[index] = mapped
-      return next
-    })
-
+  // Update gains when knobs change
+  useEffect(() => {
     const ac = audioContextRef.current
     const node = workletRef.current
-    if (ac && node) {
-      node.parameters.get(`g${index}`)?.setValueAtTime(mapped, ac.currentTime)
-    }
-  }
+    if (!ac || !node) return
+    for (let i = 0; i < 8; i++)
+      node.parameters.get(`g${i}`)?.setValueAtTime(gains[i], ac.currentTime)
+  }, [gains])
 
   return (
     <ModuleContainer title="Attenuverter" moduleId={moduleId}>
@@ -144,22 +144,20 @@ export function AttenuverterModule({ moduleId }: { moduleId: string }) {
               <Port
                 id={`${moduleId}-in-${i + 1}`}
                 type="input"
+                section={`${i + 1}`}
                 audioType="any"
                 audioNode={inRefs.current[i] ?? undefined}
               />
               <HLine className="ml-[-4px] mr-[6px]" />
               <div className="flex flex-col items-center gap-1 py-1">
-                <Knob
-                  size="xs"
-                  defaultValue={[gains[i] / 2 + 0.5]}
-                  onValueChange={setGainAtIndex(i)}
-                />
+                <Knob size="xs" {...knob('gains', i)} />
               </div>
               <HLine className="mr-[-0px] ml-[6px]" />
               <PortGroup>
                 <Port
                   id={`${moduleId}-out-${i + 1}`}
                   type="output"
+                  section={`${i + 1}`}
                   audioType="any"
                   audioNode={outRefs.current[i] ?? undefined}
                 />
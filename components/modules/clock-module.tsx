@@ -1,26 +1,120 @@
 'use client'
 
-import { useCallback, useRef, useState } from 'react'
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { useMidi, useMidiInput } from '@/components/midi-context'
 import { ModuleContainer } from '@/components/module-container'
 import { Port, PortGroup } from '@/components/port'
 import { Knob } from '@/components/ui/knob'
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
 import { useModuleInit } from '@/hooks/use-module-init'
-import { getAudioContext } from '@/lib/helpers'
-import { cn, mapLinear } from '@/lib/utils'
+import { useModuleParameters } from '@/hooks/use-module-parameters'
+import {
+  MIDI_CLOCK,
+  MIDI_CONTINUE,
+  MIDI_SONG_POSITION,
+  MIDI_START,
+  MIDI_STOP,
+} from '@/lib/midi'
+import {
+  CLOCKS_PER_SIXTEENTH,
+  contextTimeMapping,
+  MidiClockFollower,
+} from '@/lib/midi-clock'
+import { defineParameters } from '@/lib/module-parameters'
+import { type ModulePortDescriptor, numbered, output } from '@/lib/module-ports'
 import { HLine } from '../marks'
 import { TextLabel } from '../text-label'
 import { Toggle } from '../ui/toggle'
+import { ToggleGroup, ToggleGroupItem } from '../ui/toggle-group'
 
-export function ClockModule({ moduleId }: { moduleId: string }) {
-  const [bpm, setBpm] = useState([120])
-  const [isRunning, setIsRunning] = useState(false)
-  const [div1, setDiv1] = useState([3 / 8]) // defaults around 1/4
-  const [div2, setDiv2] = useState([4 / 8]) // 1/2
-  const [div3, setDiv3] = useState([5 / 8]) // 1/1
-  const [div4, setDiv4] = useState([6 / 8]) // 2/1
+// Division selector labels; the worklet takes the index (0..8)
+const DIVISION_LABELS = [
+  '1/32',
+  '1/16',
+  '1/8',
+  '1/4',
+  '1/2',
+  '1/1',
+  '2/1',
+  '4/1',
+  '8/1',
+] as const
+
+const division = <const Id extends string>(
+  id: Id,
+  label: string,
+  def: (typeof DIVISION_LABELS)[number],
+) =>
+  ({
+    id,
+    label,
+    kind: 'choice',
+    options: DIVISION_LABELS,
+    default: def,
+    param: id,
+  }) as const
+
+export const clockParameters = defineParameters([
+  {
+    id: 'bpm',
+    label: 'Tempo',
+    min: 20,
+    max: 280,
+    step: 0.5,
+    default: 120,
+    unit: 'BPM',
+    param: 'bpm',
+  },
+  division('div1', 'Div 1', '1/4'),
+  division('div2', 'Div 2', '1/2'),
+  division('div3', 'Div 3', '1/1'),
+  division('div4', 'Div 4', '2/1'),
+  // Follow an incoming MIDI clock instead of the Tempo knob
+  {
+    id: 'sync',
+    label: 'Sync',
+    kind: 'choice',
+    options: ['internal', 'midi'],
+    default: 'internal',
+  },
+  // MIDI input followed in 'midi' sync, '' = every input
+  { id: 'midiIn', label: 'MIDI In', kind: 'text', default: '' },
+  // MIDI output that receives clock and transport, '' = off
+  { id: 'midiOut', label: 'MIDI Out', kind: 'text', default: '' },
+])
+
+// Select items cannot be empty
+const ALL_INPUTS = 'all'
+const NO_OUTPUT = 'off'
+
+export const clockPorts: readonly ModulePortDescriptor[] = [
+  ...numbered(4, (n) => output(`div${n}-out`, 'trigger')),
+  output('48ppq-out', 'trigger'),
+  output('reset-out', 'trigger'),
+]
 
-  const audioContextRef = useRef<AudioContext | null>(null)
+export function ClockModule({ moduleId }: { moduleId: string }) {
   const nodeRef = useRef<AudioWorkletNode | null>(null)
+  const { values, set, knob, applyToNode } = useModuleParameters(
+    moduleId,
+    clockParameters,
+    { node: nodeRef },
+  )
+  const [isRunning, setIsRunning] = useState(false)
+  const midi = useMidi()
+  const external = values.sync === 'midi'
+  // Tempo of the incoming MIDI clock (display only)
+  const [midiBpm, setMidiBpm] = useState<number | null>(null)
+  const acRef = useRef<BaseAudioContext | null>(null)
+  const followerRef = useRef(new MidiClockFollower())
 
   // Outputs: [0]=48ppq, [1..4]=DIV1..DIV4, [5]=RESET pulse
   const ppq48OutRef = useRef<GainNode | null>(null)
@@ -32,28 +126,53 @@ export function ClockModule({ moduleId }: { moduleId: string }) {
 
   const keepAliveRef = useRef<GainNode | null>(null)
 
-  useModuleInit(async () => {
-    if (nodeRef.current) return
+  // ---- MIDI clock out ----
+  // Latest output id for the worklet message handler
+  const midiOutRef = useRef(values.midiOut)
+  midiOutRef.current = values.midiOut
+  const sendRef = useRef(midi.send)
+  sendRef.current = midi.send
 
-    const ac = getAudioContext()
-    audioContextRef.current = ac
+  // `time` is audio context time; sent when that moment is heard
+  const sendMidi = (data: number[], time?: number) => {
+    const output = midiOutRef.current
+    const ac = acRef.current
+    if (!output) return
+    const timestamp =
+      ac && time !== undefined
+        ? contextTimeMapping(ac).toPerformanceTime(time)
+        : undefined
+    sendRef.current(output, data, timestamp)
+  }
+
+  // Outputs are listed once MIDI access has been granted
+  const { connect } = midi
+  useEffect(() => {
+    if (values.midiOut) connect()
+    nodeRef.current?.port.postMessage({
+      type: 'clockOut',
+      value: !!values.midiOut,
+    })
+  }, [values.midiOut, connect])
+
+  useModuleInit(async (ac) => {
+    if (nodeRef.current) return
 
     await ac.audioWorklet.addModule('/clock-processor.js')
 
     const node = new AudioWorkletNode(ac, 'clock-processor', {
+      processorOptions: { moduleId },
       numberOfInputs: 0,
       numberOfOutputs: 6,
       outputChannelCount: [1, 1, 1, 1, 1, 1],
-      parameterData: {
-        bpm: bpm[0],
-        // send selector indices (0..8)
-        div1: 3, // 1/4
-        div2: 4, // 1/2
-        div3: 5, // 1/1
-        div4: 6, // 2/1
-      },
     })
+    applyToNode(node)
     nodeRef.current = node
+    acRef.current = ac
+    // Clock out: the worklet reports each 24 PPQ tick with its audio time
+    node.port.onmessage = (e) => {
+      if (e.data?.type === 'clock') sendMidi([MIDI_CLOCK], e.data.time)
+    }
 
     // Route outputs
     const mk = () => ac.createGain()
@@ -92,12 +211,15 @@ export function ClockModule({ moduleId }: { moduleId: string }) {
     keepAliveRef.current = sink
 
     node.port.postMessage({ type: 'running', value: false })
+    node.port.postMessage({ type: 'external', value: external })
+    node.port.postMessage({ type: 'clockOut', value: !!midiOutRef.current })
     console.log('[clock] initialized')
   }, moduleId)
 
   const startClock = useCallback(() => {
     const node = nodeRef.current
     if (!node) return
+    sendMidi([MIDI_START])
     node.port.postMessage({ type: 'reset' })
     node.port.postMessage({ type: 'running', value: true })
   }, [])
@@ -106,8 +228,57 @@ export function ClockModule({ moduleId }: { moduleId: string }) {
     const node = nodeRef.current
     if (!node) return
     node.port.postMessage({ type: 'running', value: false })
+    sendMidi([MIDI_STOP])
   }, [])
 
+  // ---- MIDI clock in ----
+  // Switching the source stops the transport
+  useEffect(() => {
+    nodeRef.current?.port.postMessage({ type: 'external', value: external })
+    followerRef.current = new MidiClockFollower()
+    setIsRunning(false)
+    setMidiBpm(null)
+  }, [external])
+
+  useMidiInput(
+    values.midiIn,
+    (message, { timeStamp }) => {
+      const node = nodeRef.current
+      const ac = acRef.current
+      const event = followerRef.current.handle(message, timeStamp)
+      if (!event || !node || !ac) return
+
+      if (event.type === 'stop') {
+        node.port.postMessage({ type: 'running', value: false })
+        setIsRunning(false)
+        sendMidi([MIDI_STOP])
+        return
+      }
+
+      const { position, time, bpm } = event.reference
+      if (event.type === 'start') {
+        // Forward the transport, with the song position when continuing
+        if (position === 0) sendMidi([MIDI_START])
+        else {
+          const beats = Math.floor(position / CLOCKS_PER_SIXTEENTH)
+          sendMidi([MIDI_SONG_POSITION, beats & 0x7f, (beats >> 7) & 0x7f])
+          sendMidi([MIDI_CONTINUE])
+        }
+        setIsRunning(true)
+      }
+      // 24 PPQ in, 48 PPQ out
+      node.port.postMessage({
+        type: 'sync',
+        start: event.type === 'start',
+        position: position * 2,
+        time: contextTimeMapping(ac).toContextTime(time),
+        bpm,
+      })
+      if (bpm) setMidiBpm(Math.round(bpm * 10) / 10)
+    },
+    external,
+  )
+
   const handleStartStop = useCallback(() => {
     setIsRunning((prev) => {
       const next = !prev
@@ -116,94 +287,20 @@ export function ClockModule({ moduleId }: { moduleId: string }) {
     })
   }, [startClock, stopClock])
 
-  // Tempo mapping (0..1 -> 0..300 BPM, clamped to 0.1+)
-  const handleKnobChange = useCallback((value: number[]) => {
-    const raw01 = value[0] ?? 0
-    const rawBpm = mapLinear(raw01, 20, 280)
-    const clamped = Math.min(280, Math.max(20, rawBpm))
-    const quantized = Math.round(clamped * 2) / 2 // increments of 0.5 BPM
-    setBpm([quantized])
-    const ac = audioContextRef.current
-    const node = nodeRef.current
-    if (ac && node)
-      node.parameters.get('bpm')?.setValueAtTime(quantized, ac.currentTime)
-  }, [])
-
-  // Selector labels and handlers
-  const divisionLabels = [
-    '1/32',
-    '1/16',
-    '1/8',
-    '1/4',
-    '1/2',
-    '1/1',
-    '2/1',
-    '4/1',
-    '8/1',
-  ]
-  const SEL_COUNT = divisionLabels.length
-
-  const getDivisionLabel = (val: number[]) => {
-    const v01 = val[0] ?? 0
-    const idx = Math.round(v01 * (SEL_COUNT - 1))
-    return divisionLabels[idx]
-  }
-
-  const makeDivHandler =
-    (paramName: string, setState: (v: number[]) => void) =>
-    (value: number[]) => {
-      const v01 = value[0] ?? 0
-      const idx = Math.round(v01 * (SEL_COUNT - 1)) // 0..8
-      setState([v01])
-      const ac = audioContextRef.current
-      const node = nodeRef.current
-      if (ac && node)
-        node.parameters.get(paramName)?.setValueAtTime(idx, ac.currentTime)
-    }
-
-  const handleDiv1Change = useCallback(makeDivHandler('div1', setDiv1), [])
-  const handleDiv2Change = useCallback(makeDivHandler('div2', setDiv2), [])
-  const handleDiv3Change = useCallback(makeDivHandler('div3', setDiv3), [])
-  const handleDiv4Change = useCallback(makeDivHandler('div4', setDiv4), [])
-
-  const defaultKnobValue = [(120 - 20) / (280 - 20)]
-
   const divisionControls = [
-    {
-      id: 'div1',
-      default: 3 / 8,
-      value: div1,
-      onChange: handleDiv1Change,
-      outRef: div1OutRef,
-    },
-    {
-      id: 'div2',
-      default: 4 / 8,
-      value: div2,
-      onChange: handleDiv2Change,
-      outRef: div2OutRef,
-    },
-    {
-      id: 'div3',
-      default: 5 / 8,
-      value: div3,
-      onChange: handleDiv3Change,
-      outRef: div3OutRef,
-    },
-    {
-      id: 'div4',
-      default: 6 / 8,
-      value: div4,
-      onChange: handleDiv4Change,
-      outRef: div4OutRef,
-    },
+    { id: 'div1', outRef: div1OutRef },
+    { id: 'div2', outRef: div2OutRef },
+    { id: 'div3', outRef: div3OutRef },
+    { id: 'div4', outRef: div4OutRef },
   ] as const
 
   return (
     <ModuleContainer title="Clock" moduleId={moduleId}>
       <div className="flex flex-col items-center gap-6 w-full">
         <div className="flex items-center justify-center h-7 bg-black text-yellow-500 text-shadow-[0_0_6px_var(--color-yellow-600)] font-mono text-md rounded-sm w-full text-center">
-          {bpm[0].toFixed(1)} BPM
+          {external
+            ? `${midiBpm?.toFixed(1) ?? '--'} MIDI`
+            : `${values.bpm.toFixed(1)} BPM`}
         </div>
 
         <div className="flex-1 flex justify-center items-center gap-8 px-2">
@@ -216,39 +313,90 @@ export function ClockModule({ moduleId }: { moduleId: string }) {
               size="lg"
               onClick={handleStartStop}
               variant="push"
+              // The MIDI source runs the transport
+              disabled={external}
             />
           </div>
           <Knob
-            defaultValue={defaultKnobValue}
-            onValueChange={handleKnobChange}
+            {...knob('bpm')}
             label="Tempo"
             size="md"
             turnSpeed="slow"
+            disabled={external}
           />
         </div>
       </div>
 
+      <div className="flex flex-col gap-1 mt-4">
+        <ToggleGroup
+          type="single"
+          size="md"
+          value={values.sync}
+          onValueChange={(v) => v && set('sync', v as typeof values.sync)}
+        >
+          <ToggleGroupItem value="internal">Int</ToggleGroupItem>
+          <ToggleGroupItem value="midi">MIDI</ToggleGroupItem>
+        </ToggleGroup>
+        <div className="flex gap-1">
+          <Select
+            value={values.midiIn || ALL_INPUTS}
+            onValueChange={(v) => set('midiIn', v === ALL_INPUTS ? '' : v)}
+            onOpenChange={(open) => open && connect()}
+            disabled={!external}
+          >
+            <SelectGroup>
+              <SelectLabel>in</SelectLabel>
+              <SelectTrigger className="w-full min-w-0">
+                <SelectValue placeholder="In" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_INPUTS}>All inputs</SelectItem>
+                {withSaved(midi.inputs, values.midiIn).map((port) => (
+                  <SelectItem key={port.id} value={port.id}>
+                    {port.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </SelectGroup>
+          </Select>
+          <Select
+            value={values.midiOut || NO_OUTPUT}
+            onValueChange={(v) => set('midiOut', v === NO_OUTPUT ? '' : v)}
+            onOpenChange={(open) => open && connect()}
+          >
+            <SelectGroup>
+              <SelectLabel>out</SelectLabel>
+              <SelectTrigger className="w-full min-w-0">
+                <SelectValue placeholder="Out" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_OUTPUT}>No clock out</SelectItem>
+                {withSaved(midi.outputs, values.midiOut).map((port) => (
+                  <SelectItem key={port.id} value={port.id}>
+                    {port.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </SelectGroup>
+          </Select>
+        </div>
+      </div>
+
       <div className="flex flex-col gap-2 mt-6">
         <div className="">
           <TextLabel variant="control">Dividers</TextLabel>
         </div>
         <div className="flex flex-col gap-5 py-3 border-b border-t border-module-subdued">
-          {divisionControls.map((d, i) => (
+          {divisionControls.map((d) => (
             <div key={d.id} className="flex items-center justify-between">
               <div className="size-10 flex items-center justify-center">
-                <Knob
-                  defaultValue={[d.default]}
-                  onValueChange={d.onChange}
-                  size="sm"
-                  showTicks={false}
-                  steps={SEL_COUNT}
-                />
+                <Knob {...knob(d.id)} size="sm" showTicks={false} />
               </div>
               <div className="flex items-center">
                 <HLine className="w-1.5" />
                 <div className="w-7.5 py-1 rounded-sm border border-module-subdued">
                   <TextLabel variant="control" className="text-[8px]">
-                    {getDivisionLabel(d.value)}
+                    {values[d.id]}
                   </TextLabel>
                 </div>
                 <HLine className="w-1.5" />
@@ -289,3 +437,9 @@ export function ClockModule({ moduleId }: { moduleId: string }) {
     </ModuleContainer>
   )
 }
+
+// A saved port that is not plugged in stays selectable
+const withSaved = (ports: { id: string; name: string }[], saved: string) =>
+  saved && !ports.some((p) => p.id === saved)
+    ? [...ports, { id: saved, name: 'Disconnected' }]
+    : ports
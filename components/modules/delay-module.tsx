@@ -1,15 +1,18 @@
 'use client'
 
-import { useEffect, useRef, useState } from 'react'
+import { useEffect, useRef } from 'react'
 import { useConnections } from '@/components/connection-manager'
 import { ModuleContainer } from '@/components/module-container'
-import { useModulePatch } from '@/components/patch-manager'
 import { Port, PortGroup } from '@/components/port'
 import { Button } from '@/components/ui/button'
 import { Knob } from '@/components/ui/knob'
 import { ToggleSwitch } from '@/components/ui/toggle-switch'
 import { useModuleInit } from '@/hooks/use-module-init'
-import { getAudioContext } from '@/lib/helpers'
+import { useModuleParameters } from '@/hooks/use-module-parameters'
+import { portIdOf } from '@/lib/connection-types'
+import { defineParameters } from '@/lib/module-parameters'
+import { input, type ModulePortDescriptor, output } from '@/lib/module-ports'
+import type { FactoryPreset } from '@/lib/module-presets'
 import { mapLinear } from '@/lib/utils'
 import { VLine } from '../marks'
 import { ToggleGroup, ToggleGroupItem } from '../ui/toggle-group'
@@ -42,83 +45,135 @@ const NOTE_DIVISIONS = [
   '8/1',
 ]
 
+// Defaults for each meaning of `time`
+const DEFAULT_TIME = 0.26
+const DEFAULT_DIVISION = 8 // 1/4
+
 type Mode = 0 | 1 | 2 // 0=Mono, 1=Stereo, 2=PingPong
 
+export const delayParameters = defineParameters([
+  // Seconds, or the NOTE_DIVISIONS index while clocked; the range covers
+  // both and the Time knob maps them itself
+  {
+    id: 'time',
+    label: 'Time',
+    min: 0,
+    max: NOTE_DIVISIONS.length - 1,
+    default: DEFAULT_TIME,
+    unit: 's',
+  },
+  { id: 'feedback', label: 'Feedback', min: FB_MIN, max: FB_MAX, default: 0.3 },
+  { id: 'mix', label: 'Mix', min: 0, max: 1, default: 0.5 },
+  {
+    id: 'toneHz',
+    label: 'Tone',
+    min: TONE_MIN,
+    max: TONE_MAX,
+    default: 8000,
+    unit: 'Hz',
+  },
+  // 0=Mono, 1=Stereo, 2=PingPong
+  { id: 'mode', label: 'Mode', kind: 'choice', options: [0, 1, 2], default: 0 },
+  { id: 'timeCvAmt', label: 'Time CV', min: 0, max: 1, default: 1 },
+  { id: 'fbCvAmt', label: 'Feedback CV', min: 0, max: 1, default: 1 },
+  { id: 'clocked', label: 'Sync', kind: 'toggle', default: false },
+  { id: 'stable', label: 'Stable', kind: 'toggle', default: false },
+  { id: 'crossfeed', label: 'Crossfeed', min: 0, max: 1, default: 0 },
+  { id: 'crossInput', label: 'Cross Input', min: 0, max: 1, default: 0 },
+  { id: 'width', label: 'Width', min: 0, max: 1, default: 1 },
+  { id: 'timeSpread', label: 'Spread', min: -0.5, max: 0.5, default: 0 },
+  { id: 'link', label: 'Link', kind: 'toggle', default: true },
+])
+
+// Partial: parameters left out keep their defaults
+export const delayPresets: FactoryPreset[] = [
+  {
+    name: 'Slapback',
+    parameters: { time: 0.11, feedback: 0.1, mix: 0.35, toneHz: 6000, mode: 0 },
+  },
+  {
+    name: 'Synced Eighths',
+    parameters: {
+      time: 6, // 1/8
+      clocked: true,
+      feedback: 0.45,
+      mix: 0.4,
+      toneHz: 7000,
+      mode: 1,
+    },
+  },
+  {
+    name: 'Ping Pong',
+    parameters: {
+      time: 0.375,
+      feedback: 0.55,
+      mix: 0.45,
+      toneHz: 9000,
+      mode: 2,
+      width: 1,
+    },
+  },
+  {
+    name: 'Dark Tape',
+    parameters: {
+      time: 0.5,
+      feedback: 0.7,
+      mix: 0.4,
+      toneHz: 2000,
+      mode: 1,
+      timeSpread: 0.1,
+    },
+  },
+]
+
+export const delayPorts: readonly ModulePortDescriptor[] = [
+  input('in-l', 'audio'),
+  input('in-r', 'audio'),
+  input('time-cv', 'cv'),
+  input('fb-cv', 'cv'),
+  input('clk', 'trigger'),
+  output('out-l', 'audio'),
+  output('out-r', 'audio'),
+]
+
 export function DelayModule({ moduleId }: { moduleId: string }) {
-  // Register with patch manager and get initial parameters
-  const { initialParameters } = useModulePatch(moduleId, () => ({
-    time: clocked ? clockDivIdx : mapLinear(timeN[0], TIME_MIN, TIME_MAX),
-    feedback: mapLinear(fbN[0], FB_MIN, FB_MAX),
-    mix: Math.max(0, Math.min(1, mixN[0])),
-    toneHz: mapLinear(toneN[0], TONE_MIN, TONE_MAX),
-    mode,
-    timeCvAmt: timeCvAmtN[0],
-    fbCvAmt: fbCvAmtN[0],
-    clocked,
-    stable,
-    crossfeed: crossfeedN[0],
-    crossInput: crossInputN[0],
-    width: widthN[0],
-    timeSpread: mapLinear(spreadN[0], -0.5, 0.5),
-    link,
-  }))
-
-  // Clock division index for tempo sync
-  const [clockDivIdx, setClockDivIdx] = useState(
-    initialParameters?.clocked && typeof initialParameters?.time === 'number'
-      ? Math.round(initialParameters.time)
-      : 8, // Default to 1/4 note
-  )
+  const { values, set, knob } = useModuleParameters(moduleId, delayParameters)
+  const { time, feedback, mix, toneHz, mode, timeCvAmt, fbCvAmt } = values
+  const { clocked, stable, crossfeed, crossInput, width, timeSpread, link } =
+    values
+
+  // `time` holds whichever of seconds / division the Sync switch selects;
+  // the other is remembered so switching back restores it
+  const otherTimeRef = useRef(clocked ? DEFAULT_TIME : DEFAULT_DIVISION)
+  const changeClocked = (next: boolean) => {
+    if (next === clocked) return
+    const restored = otherTimeRef.current
+    otherTimeRef.current = time
+    set('clocked', next)
+    set('time', restored)
+  }
 
-  // Normalized UI state (0..1)
-  const [timeN, setTimeN] = useState([
-    !initialParameters?.clocked && initialParameters?.time !== undefined
-      ? (initialParameters.time - TIME_MIN) / (TIME_MAX - TIME_MIN)
-      : 0.25 / (TIME_MAX - TIME_MIN),
-  ])
-  const [fbN, setFbN] = useState([
-    initialParameters?.feedback !== undefined
-      ? initialParameters.feedback / FB_MAX
-      : 0.3 / FB_MAX,
-  ])
-  const [mixN, setMixN] = useState([initialParameters?.mix ?? 0.5])
-  const [toneN, setToneN] = useState([
-    initialParameters?.toneHz !== undefined
-      ? (initialParameters.toneHz - TONE_MIN) / (TONE_MAX - TONE_MIN)
-      : (8000 - TONE_MIN) / (TONE_MAX - TONE_MIN),
-  ])
-
-  // CV depths (0..1) used inside worklet
-  const [timeCvAmtN, setTimeCvAmtN] = useState([
-    initialParameters?.timeCvAmt ?? 1,
-  ])
-  const [fbCvAmtN, setFbCvAmtN] = useState([initialParameters?.fbCvAmt ?? 1])
-
-  const [mode, setMode] = useState<Mode>(initialParameters?.mode ?? 0)
-  const [clocked, setClocked] = useState(initialParameters?.clocked ?? false)
-  const [stable, setStable] = useState(initialParameters?.stable ?? false)
-
-  // Matrix topology params
-  const [crossfeedN, setCrossfeedN] = useState([
-    initialParameters?.crossfeed !== undefined
-      ? initialParameters.crossfeed
-      : 0,
-  ])
-  const [crossInputN, setCrossInputN] = useState([
-    initialParameters?.crossInput !== undefined
-      ? initialParameters.crossInput
-      : 0,
-  ])
-  const [widthN, setWidthN] = useState([
-    initialParameters?.width !== undefined ? initialParameters.width : 1,
-  ])
-  // spread normalized 0..1 → maps to -0.5..+0.5 in worklet
-  const [spreadN, setSpreadN] = useState([
-    initialParameters?.timeSpread !== undefined
-      ? (initialParameters.timeSpread + 0.5) / 1.0
-      : 0.5,
-  ])
-  const [link, setLink] = useState(initialParameters?.link ?? true)
+  const timeKnob = clocked
+    ? Math.round(time) / (NOTE_DIVISIONS.length - 1)
+    : (Math.min(TIME_MAX, Math.max(TIME_MIN, time)) - TIME_MIN) /
+      (TIME_MAX - TIME_MIN)
+  const changeTime = (v: number[]) =>
+    set(
+      'time',
+      clocked
+        ? Math.round(v[0] * (NOTE_DIVISIONS.length - 1))
+        : mapLinear(v[0], TIME_MIN, TIME_MAX),
+    )
+
+  // Modes preset the matrix topology
+  const changeMode = (m: Mode) => {
+    set('mode', m)
+    set('crossInput', m === 2 ? 1 : 0)
+    set('crossfeed', m === 2 ? 1 : 0)
+    set('width', m === 0 ? 0 : 1)
+    set('timeSpread', 0)
+    set('link', true)
+  }
 
   // Graph
   const acRef = useRef<AudioContext | null>(null)
@@ -150,10 +205,9 @@ export function DelayModule({ moduleId }: { moduleId: string }) {
     p.setTargetAtTime(v, ac.currentTime, tSmooth)
   }
 
-  useModuleInit(async () => {
+  useModuleInit(async (ac) => {
     if (workletRef.current) return
 
-    const ac = getAudioContext()
     acRef.current = ac
 
     await ac.audioWorklet.addModule('/delay-processor.js')
@@ -184,6 +238,7 @@ export function DelayModule({ moduleId }: { moduleId: string }) {
 
     // Worklet: 4 inputs (stereo audio, timeCV, fbCV, clock), 1 stereo output
     const w = new AudioWorkletNode(ac, 'delay-processor', {
+      processorOptions: { moduleId },
       numberOfInputs: 4,
       numberOfOutputs: 1,
       outputChannelCount: [2],
@@ -206,27 +261,27 @@ export function DelayModule({ moduleId }: { moduleId: string }) {
     splitter.connect(outRRef.current, 1)
 
     // Initial params (map knobs 0..1 → physical)
-    setParam('time', mapLinear(timeN[0], TIME_MIN, TIME_MAX), 0.01)
-    setParam('feedback', mapLinear(fbN[0], FB_MIN, FB_MAX), 0.02)
-    setParam('mix', Math.max(0, Math.min(1, mixN[0])), 0.02)
-    setParam('toneHz', mapLinear(toneN[0], TONE_MIN, TONE_MAX), 0.02)
+    if (!clocked) setParam('time', time, 0.01)
+    setParam('feedback', feedback, 0.02)
+    setParam('mix', mix, 0.02)
+    setParam('toneHz', toneHz, 0.02)
     setParam('mode', mode, 0.0)
-    setParam('timeCvAmt', Math.max(0, Math.min(1, timeCvAmtN[0])), 0.02)
-    setParam('fbCvAmt', Math.max(0, Math.min(1, fbCvAmtN[0])), 0.02)
+    setParam('timeCvAmt', timeCvAmt, 0.02)
+    setParam('fbCvAmt', fbCvAmt, 0.02)
     setParam('clocked', clocked ? 1 : 0, 0.0)
-    setParam('clockDiv', clockDivIdx, 0.0)
+    if (clocked) setParam('clockDiv', Math.round(time), 0.0)
     setParam('stable', stable ? 1 : 0, 0.0)
     // Matrix params
-    setParam('crossfeed', Math.max(0, Math.min(1, crossfeedN[0])), 0.02)
-    setParam('crossInput', Math.max(0, Math.min(1, crossInputN[0])), 0.02)
-    setParam('width', Math.max(0, Math.min(1, widthN[0])), 0.02)
-    setParam('timeSpread', mapLinear(spreadN[0], -0.5, 0.5), 0.02)
+    setParam('crossfeed', crossfeed, 0.02)
+    setParam('crossInput', crossInput, 0.02)
+    setParam('width', width, 0.02)
+    setParam('timeSpread', timeSpread, 0.02)
     setParam('link', link ? 1 : 0, 0.0)
     // Initial dryMono state based on current connections
     const inLId = `${moduleId}-in-l`
     const inRId = `${moduleId}-in-r`
-    const hasL = connections.some((e) => e.to === inLId)
-    const hasR = connections.some((e) => e.to === inRId)
+    const hasL = connections.some((e) => portIdOf(e.to) === inLId)
+    const hasR = connections.some((e) => portIdOf(e.to) === inRId)
     const dryMono = (hasL && !hasR) || (!hasL && hasR)
     setParam('dryMono', dryMono ? 1 : 0, 0.0)
     const wetMono = dryMono || mode === 0
@@ -235,80 +290,46 @@ export function DelayModule({ moduleId }: { moduleId: string }) {
 
   // push param updates
   useEffect(() => {
-    if (!clocked) {
-      setParam('time', mapLinear(timeN[0], TIME_MIN, TIME_MAX))
-    }
-  }, [timeN, clocked])
-
+    if (!clocked) setParam('time', time)
+  }, [time, clocked])
   useEffect(() => {
-    if (clocked) {
-      setParam('clockDiv', clockDivIdx, 0.0)
-    }
-  }, [clockDivIdx, clocked])
+    setParam('feedback', feedback)
+  }, [feedback])
   useEffect(() => {
-    setParam('feedback', mapLinear(fbN[0], FB_MIN, FB_MAX))
-  }, [fbN])
+    setParam('mix', mix)
+  }, [mix])
   useEffect(() => {
-    setParam('mix', Math.max(0, Math.min(1, mixN[0])))
-  }, [mixN])
-  useEffect(() => {
-    setParam('toneHz', mapLinear(toneN[0], TONE_MIN, TONE_MAX))
-  }, [toneN])
+    setParam('toneHz', toneHz)
+  }, [toneHz])
   useEffect(() => {
     setParam('mode', mode, 0.0)
   }, [mode])
-  // Map modes → presets for matrix topology
-  useEffect(() => {
-    // 0=Mono, 1=Stereo, 2=Ping
-    if (mode === 0) {
-      setCrossInputN([0])
-      setCrossfeedN([0])
-      setWidthN([0])
-      setSpreadN([0.5])
-      setLink(true)
-    } else if (mode === 1) {
-      setCrossInputN([0])
-      setCrossfeedN([0])
-      setWidthN([1])
-      setSpreadN([0.5])
-      setLink(true)
-    } else {
-      // Ping-pong
-      setCrossInputN([1])
-      setCrossfeedN([1])
-      setWidthN([1])
-      setSpreadN([0.5])
-      setLink(true)
-    }
-  }, [mode])
   useEffect(() => {
-    setParam('timeCvAmt', Math.max(0, Math.min(1, timeCvAmtN[0])))
-  }, [timeCvAmtN])
+    setParam('timeCvAmt', timeCvAmt)
+  }, [timeCvAmt])
   useEffect(() => {
-    setParam('fbCvAmt', Math.max(0, Math.min(1, fbCvAmtN[0])))
-  }, [fbCvAmtN])
+    setParam('fbCvAmt', fbCvAmt)
+  }, [fbCvAmt])
   useEffect(() => {
     setParam('clocked', clocked ? 1 : 0, 0.0)
-    if (clocked) {
-      setParam('clockDiv', clockDivIdx, 0.0)
-    }
-  }, [clocked, clockDivIdx])
+    if (clocked) setParam('clockDiv', Math.round(time), 0.0)
+  }, [clocked, time])
   useEffect(() => {
     setParam('stable', stable ? 1 : 0, 0.0)
   }, [stable])
   // Matrix params
   useEffect(() => {
-    setParam('crossfeed', Math.max(0, Math.min(1, crossfeedN[0])))
-  }, [crossfeedN])
+    setParam('crossfeed', crossfeed)
+  }, [crossfeed])
   useEffect(() => {
-    setParam('crossInput', Math.max(0, Math.min(1, crossInputN[0])))
-  }, [crossInputN])
+    setParam('crossInput', crossInput)
+  }, [crossInput])
   useEffect(() => {
-    setParam('width', Math.max(0, Math.min(1, widthN[0])))
-  }, [widthN])
+    setParam('width', width)
+  }, [width])
   useEffect(() => {
-    setParam('timeSpread', mapLinear(spreadN[0], -0.5, 0.5))
-  }, [spreadN])
+    setParam('timeSpread', timeSpread)
+  }, [timeSpread])
   useEffect(() => {
     setParam('link', link ? 1 : 0, 0.0)
   }, [link])
@@ -317,8 +338,8 @@ export function DelayModule({ moduleId }: { moduleId: string }) {
     if (!workletRef.current) return
     const inLId = `${moduleId}-in-l`
     const inRId = `${moduleId}-in-r`
-    const hasL = connections.some((e) => e.to === inLId)
-    const hasR = connections.some((e) => e.to === inRId)
+    const hasL = connections.some((e) => portIdOf(e.to) === inLId)
+    const hasR = connections.some((e) => portIdOf(e.to) === inRId)
     const dryMono = (hasL && !hasR) || (!hasL && hasR)
     setParam('dryMono', dryMono ? 1 : 0, 0.0)
     const wetMono = dryMono || mode === 0
@@ -332,7 +353,7 @@ export function DelayModule({ moduleId }: { moduleId: string }) {
         type="single"
         size="md"
         value={mode.toString()}
-        onValueChange={(v) => setMode(parseInt(v, 10) as Mode)}
+        onValueChange={(v) => changeMode(parseInt(v, 10) as Mode)}
       >
         {[
           { m: 0 as Mode, label: 'Mono' },
@@ -346,58 +367,34 @@ export function DelayModule({ moduleId }: { moduleId: string }) {
       </ToggleGroup>
 
       <div className="flex flex-col items-center gap-6 mt-5">
-        {clocked ? (
-          <Knob
-            value={[clockDivIdx / (NOTE_DIVISIONS.length - 1)]}
-            onValueChange={(v) =>
-              setClockDivIdx(Math.round(v[0] * (NOTE_DIVISIONS.length - 1)))
-            }
-            size="sm"
-            label="Time"
-            steps={NOTE_DIVISIONS.length}
-            tickLabels={NOTE_DIVISIONS.map(() => '')}
-          />
-        ) : (
-          <Knob value={timeN} onValueChange={setTimeN} size="sm" label="Time" />
-        )}
+        <Knob
+          value={[timeKnob]}
+          onValueChange={changeTime}
+          size="sm"
+          label="Time"
+          {...(clocked && {
+            steps: NOTE_DIVISIONS.length,
+            tickLabels: NOTE_DIVISIONS.map(() => ''),
+          })}
+        />
 
         <div className="flex gap-6">
-          <Knob value={fbN} onValueChange={setFbN} size="sm" label="fbck" />
-          <Knob value={toneN} onValueChange={setToneN} size="sm" label="Tone" />
-          <Knob value={mixN} onValueChange={setMixN} size="sm" label="Mix" />
+          <Knob {...knob('feedback')} size="sm" label="fbck" />
+          <Knob {...knob('toneHz')} size="sm" label="Tone" />
+          <Knob {...knob('mix')} size="sm" label="Mix" />
         </div>
 
         {/* Matrix controls */}
         <div className="flex items-center gap-4">
-          <Knob
-            value={crossInputN}
-            onValueChange={setCrossInputN}
-            size="sm"
-            label="XIn"
-          />
-          <Knob
-            value={crossfeedN}
-            onValueChange={setCrossfeedN}
-            size="sm"
-            label="XFd"
-          />
-          <Knob
-            value={widthN}
-            onValueChange={setWidthN}
-            size="sm"
-            label="Width"
-          />
-          <Knob
-            value={spreadN}
-            onValueChange={setSpreadN}
-            size="sm"
-            label="Spread"
-          />
+          <Knob {...knob('crossInput')} size="sm" label="XIn" />
+          <Knob {...knob('crossfeed')} size="sm" label="XFd" />
+          <Knob {...knob('width')} size="sm" label="Width" />
+          <Knob {...knob('timeSpread')} size="sm" label="Spread" />
           <ToggleSwitch
             label="Unlk"
             topLabel="Link"
             value={link}
-            onValueChange={setLink}
+            onValueChange={(v) => set('link', v)}
           />
         </div>
 
@@ -406,13 +403,13 @@ export function DelayModule({ moduleId }: { moduleId: string }) {
             label="Free"
             topLabel="Sync"
             value={clocked}
-            onValueChange={setClocked}
+            onValueChange={changeClocked}
           />
           <ToggleSwitch
             label="Tape"
             topLabel="Fade"
             value={stable}
-            onValueChange={setStable}
+            onValueChange={(v) => set('stable', v)}
           />
         </div>
       </div>
@@ -426,12 +423,12 @@ export function DelayModule({ moduleId }: { moduleId: string }) {
             id={`${moduleId}-clk`}
             type="input"
             label="CLK"
-            audioType="cv"
+            audioType="trig"
             audioNode={clockInRef.current ?? undefined}
           />
           <div className="w-11" />
           <div className="flex flex-col items-center gap-3">
-            <Knob value={timeCvAmtN} onValueChange={setTimeCvAmtN} size="xs" />
+            <Knob {...knob('timeCvAmt')} size="xs" />
             <VLine />
             <Port
               id={`${moduleId}-time-cv`}
@@ -442,7 +439,7 @@ export function DelayModule({ moduleId }: { moduleId: string }) {
             />
           </div>
           <div className="flex flex-col items-center gap-3">
-            <Knob value={fbCvAmtN} onValueChange={setFbCvAmtN} size="xs" />
+            <Knob {...knob('fbCvAmt')} size="xs" />
             <VLine />
             <Port
               id={`${moduleId}-fb-cv`}
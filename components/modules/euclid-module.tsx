@@ -1,12 +1,13 @@
 'use client'
 
-import { useCallback, useMemo, useRef, useState } from 'react'
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
 import { ModuleContainer } from '@/components/module-container'
-import { useModulePatch } from '@/components/patch-manager'
 import { Port, PortGroup } from '@/components/port'
 import { Knob } from '@/components/ui/knob'
 import { useModuleInit } from '@/hooks/use-module-init'
-import { getAudioContext } from '@/lib/helpers'
+import { useModuleParameters } from '@/hooks/use-module-parameters'
+import { defineParameters } from '@/lib/module-parameters'
+import { input, type ModulePortDescriptor, output } from '@/lib/module-ports'
 
 // UI helper to compute Euclidean pattern for preview
 function euclidPattern(
@@ -56,30 +57,32 @@ function euclidPattern(
   return out
 }
 
-export function EuclidModule({ moduleId }: { moduleId: string }) {
-  // Register with patch manager and get initial parameters
-  const { initialParameters } = useModulePatch(moduleId, () => ({
-    steps: steps[0],
-    pulsesNorm: pulsesNorm[0],
-    rotateNorm: rotateNorm[0],
-    gateRatio: gateRatio[0],
-    density: density[0],
-    accent: accent[0],
-  }))
+// Saved values are knob positions (0..1)
+export const euclidParameters = defineParameters([
+  { id: 'steps', label: 'Steps', min: 0, max: 1, default: 8 / 16 },
+  { id: 'pulsesNorm', label: 'Pulses', min: 0, max: 1, default: 3 / 8 },
+  { id: 'rotateNorm', label: 'Rotate', min: 0, max: 1, default: 0 },
+  { id: 'gateRatio', label: 'Gate', min: 0, max: 1, default: 0.25 },
+  { id: 'density', label: 'Density', min: 0, max: 1, default: 1 },
+  { id: 'accent', label: 'Accent', min: 0, max: 1, default: 0.5 },
+])
+
+export const euclidPorts: readonly ModulePortDescriptor[] = [
+  input('clock-in', 'trigger'),
+  input('reset-in', 'trigger'),
+  input('pulses-cv-in', 'cv'),
+  input('rotate-cv-in', 'cv'),
+  input('density-cv-in', 'cv'),
+  input('accent-cv-in', 'cv'),
+  output('gate-out', 'gate'),
+  output('accent-out', 'gate'),
+]
 
-  // Knob states (0..1 for knobs except steps uses discrete mapping)
-  const [steps, setSteps] = useState([initialParameters?.steps ?? 8 / 16]) // maps to 8 initially
-  const [pulsesNorm, setPulsesNorm] = useState([
-    initialParameters?.pulsesNorm ?? 3 / 8,
-  ]) // normalized by steps later
-  const [rotateNorm, setRotateNorm] = useState([
-    initialParameters?.rotateNorm ?? 0,
-  ])
-  const [gateRatio, setGateRatio] = useState([
-    initialParameters?.gateRatio ?? 0.25,
-  ])
-  const [density, setDensity] = useState([initialParameters?.density ?? 1.0])
-  const [accent, setAccent] = useState([initialParameters?.accent ?? 0.5])
+export function EuclidModule({ moduleId }: { moduleId: string }) {
+  // Knob positions (0..1) except steps, which maps to 1..16 (8 initially);
+  // pulses are normalized by steps later
+  const { values, knob } = useModuleParameters(moduleId, euclidParameters)
+  const { steps, pulsesNorm, rotateNorm, gateRatio, density, accent } = values
   // 'Div' knob is uncontrolled; no explicit state needed
   const [currentStep, setCurrentStep] = useState(-1)
 
@@ -98,15 +101,11 @@ export function EuclidModule({ moduleId }: { moduleId: string }) {
   const lastDivIdxRef = useRef(-1)
 
   const stepsInt = useMemo(
-    () => Math.max(1, Math.min(16, Math.round((steps[0] ?? 0) * 15 + 1))),
+    () => Math.max(1, Math.min(16, Math.round(steps * 15 + 1))),
     [steps],
   )
   const pulsesInt = useMemo(
-    () =>
-      Math.max(
-        0,
-        Math.min(stepsInt, Math.round((pulsesNorm[0] ?? 0) * stepsInt)),
-      ),
+    () => Math.max(0, Math.min(stepsInt, Math.round(pulsesNorm * stepsInt))),
     [pulsesNorm, stepsInt],
   )
   const rotateInt = useMemo(
@@ -115,7 +114,7 @@ export function EuclidModule({ moduleId }: { moduleId: string }) {
         0,
         Math.min(
           Math.max(0, stepsInt - 1),
-          Math.round((rotateNorm[0] ?? 0) * Math.max(0, stepsInt - 1)),
+          Math.round(rotateNorm * Math.max(0, stepsInt - 1)),
         ),
       ),
     [rotateNorm, stepsInt],
@@ -125,9 +124,8 @@ export function EuclidModule({ moduleId }: { moduleId: string }) {
     [stepsInt, pulsesInt, rotateInt],
   )
 
-  useModuleInit(async () => {
+  useModuleInit(async (ac) => {
     if (nodeRef.current) return
-    const ac = getAudioContext()
     audioContextRef.current = ac
 
     // Inputs
@@ -147,18 +145,19 @@ export function EuclidModule({ moduleId }: { moduleId: string }) {
     await ac.audioWorklet.addModule('/euclid-processor.js')
 
     const node = new AudioWorkletNode(ac, 'euclid-processor', {
+      processorOptions: { moduleId },
       numberOfInputs: 6,
       numberOfOutputs: 2,
       outputChannelCount: [1, 1],
       parameterData: {
         run: 1,
         divider: 1,
-        gateRatio: gateRatio[0] ?? 0.25,
+        gateRatio,
         steps: stepsInt,
-        pulsesNorm: pulsesNorm[0] ?? 0.375,
-        rotateNorm: rotateNorm[0] ?? 0,
-        density: density[0] ?? 1.0,
-        accent: accent[0] ?? 0.5,
+        pulsesNorm,
+        rotateNorm,
+        density,
+        accent,
       },
     })
     nodeRef.current = node
@@ -194,61 +193,19 @@ export function EuclidModule({ moduleId }: { moduleId: string }) {
     }
   }, moduleId)
 
-  // Handlers for knobs
-  const handleStepsChange = useCallback((v: number[]) => {
-    const raw = v[0] ?? 0
-    setSteps([raw])
+  // Push knob changes to the worklet
+  useEffect(() => {
     const ac = audioContextRef.current,
       node = nodeRef.current
-    const s = Math.max(1, Math.min(16, Math.round(raw * 15 + 1)))
-    if (ac && node)
-      node.parameters.get('steps')?.setValueAtTime(s, ac.currentTime)
-  }, [])
-
-  const handlePulsesChange = useCallback((v: number[]) => {
-    const raw = v[0] ?? 0
-    setPulsesNorm([raw])
-    const ac = audioContextRef.current,
-      node = nodeRef.current
-    if (ac && node)
-      node.parameters.get('pulsesNorm')?.setValueAtTime(raw, ac.currentTime)
-  }, [])
-
-  const handleRotateChange = useCallback((v: number[]) => {
-    const raw = v[0] ?? 0
-    setRotateNorm([raw])
-    const ac = audioContextRef.current,
-      node = nodeRef.current
-    if (ac && node)
-      node.parameters.get('rotateNorm')?.setValueAtTime(raw, ac.currentTime)
-  }, [])
-
-  const handleGateRatioChange = useCallback((v: number[]) => {
-    const raw = v[0] ?? 0
-    setGateRatio([raw])
-    const ac = audioContextRef.current,
-      node = nodeRef.current
-    if (ac && node)
-      node.parameters.get('gateRatio')?.setValueAtTime(raw, ac.currentTime)
-  }, [])
-
-  const handleDensityChange = useCallback((v: number[]) => {
-    const raw = v[0] ?? 0
-    setDensity([raw])
-    const ac = audioContextRef.current,
-      node = nodeRef.current
-    if (ac && node)
-      node.parameters.get('density')?.setValueAtTime(raw, ac.currentTime)
-  }, [])
-
-  const handleAccentChange = useCallback((v: number[]) => {
-    const raw = v[0] ?? 0
-    setAccent([raw])
-    const ac = audioContextRef.current,
-      node = nodeRef.current
-    if (ac && node)
-      node.parameters.get('accent')?.setValueAtTime(raw, ac.currentTime)
-  }, [])
+    if (!ac || !node) return
+    const t = ac.currentTime
+    node.parameters.get('steps')?.setValueAtTime(stepsInt, t)
+    node.parameters.get('pulsesNorm')?.setValueAtTime(pulsesNorm, t)
+    node.parameters.get('rotateNorm')?.setValueAtTime(rotateNorm, t)
+    node.parameters.get('gateRatio')?.setValueAtTime(gateRatio, t)
+    node.parameters.get('density')?.setValueAtTime(density, t)
+    node.parameters.get('accent')?.setValueAtTime(accent, t)
+  }, [stepsInt, pulsesNorm, rotateNorm, gateRatio, density, accent])
 
   const handleClockDividerChange = useCallback((v: number[]) => {
     const divValues = [1, 2, 4, 8, 16, 32, 64]
@@ -296,14 +253,14 @@ export function EuclidModule({ moduleId }: { moduleId: string }) {
             id={`${moduleId}-clock-in`}
             type="input"
             label="CLK"
-            audioType="cv"
+            audioType="trig"
             audioNode={clockInRef.current ?? undefined}
           />
           <Port
             id={`${moduleId}-reset-in`}
             type="input"
             label="RST"
-            audioType="cv"
+            audioType="trig"
             audioNode={resetInRef.current ?? undefined}
           />
           <Port
@@ -339,14 +296,14 @@ export function EuclidModule({ moduleId }: { moduleId: string }) {
               id={`${moduleId}-gate-out`}
               type="output"
               label="GATE"
-              audioType="cv"
+              audioType="gate"
               audioNode={gateOutRef.current ?? undefined}
             />
             <Port
               id={`${moduleId}-accent-out`}
               type="output"
               label="ACC"
-              audioType="cv"
+              audioType="gate"
               audioNode={accentOutRef.current ?? undefined}
             />
           </PortGroup>
@@ -363,47 +320,29 @@ export function EuclidModule({ moduleId }: { moduleId: string }) {
             tickLabels={['1', '2', '4', '8', '16', '32', '64']}
           />
           <Knob
-            value={steps}
-            onValueChange={handleStepsChange}
+            {...knob('steps')}
             size="sm"
             label="Steps"
             steps={16}
             tickLabels={stepTickLabels}
           />
           <Knob
-            value={pulsesNorm}
-            onValueChange={handlePulsesChange}
+            {...knob('pulsesNorm')}
             size="sm"
             label="Count"
             steps={stepsInt + 1}
             tickLabels={pulsesTickLabels}
           />
           <Knob
-            value={rotateNorm}
-            onValueChange={handleRotateChange}
+            {...knob('rotateNorm')}
             size="sm"
             label="Rotate"
             steps={Math.max(1, stepsInt)}
             tickLabels={rotateTickLabels}
           />
-          <Knob
-            value={density}
-            onValueChange={handleDensityChange}
-            size="sm"
-            label="Dens"
-          />
-          <Knob
-            value={accent}
-            onValueChange={handleAccentChange}
-            size="sm"
-            label="Acc"
-          />
-          <Knob
-            value={gateRatio}
-            onValueChange={handleGateRatioChange}
-            size="sm"
-            label="Gate"
-          />
+          <Knob {...knob('density')} size="sm" label="Dens" />
+          <Knob {...knob('accent')} size="sm" label="Acc" />
+          <Knob {...knob('gateRatio')} size="sm" label="Gate" />
         </div>
       </div>
 
@@ -1,148 +1,294 @@
 'use client'
 
 import { useCallback, useEffect, useRef, useState } from 'react'
+import { useAudioEngine } from '@/components/audio-engine-context'
+import { useMidi, useMidiInput } from '@/components/midi-context'
 import { ModuleContainer } from '@/components/module-container'
 import { Port, PortGroup } from '@/components/port'
-import { getAudioContext } from '@/lib/helpers'
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { useModuleParameters } from '@/hooks/use-module-parameters'
+import {
+  CC_ALL_NOTES_OFF,
+  CC_MOD_WHEEL,
+  CC_SUSTAIN,
+  type MidiMessage,
+} from '@/lib/midi'
+import { defineParameters } from '@/lib/module-parameters'
+import { type ModulePortDescriptor, output } from '@/lib/module-ports'
+import { NoteAllocator, type VoiceUpdate } from '@/lib/note-allocator'
+import { setNodeChannels } from '@/lib/polyphony'
 import { TextLabel } from '../text-label'
+import { ToggleGroup, ToggleGroupItem } from '../ui/toggle-group'
+
+// Voices on the pitch/gate/velocity outputs; 1 = mono
+const VOICE_OPTIONS = [1, 2, 4, 8] as const
+const MAX_VOICES = 8
+// 0 = omni
+const MIDI_CHANNELS = Array.from({ length: 17 }, (_, i) => i)
+const PRIORITY_OPTIONS = ['last', 'low', 'high'] as const
+// Select items cannot be empty; stands for "every input"
+const ALL_DEVICES = 'all'
+
+export const keyboardCvParameters = defineParameters([
+  {
+    id: 'voices',
+    label: 'Voices',
+    kind: 'choice',
+    options: VOICE_OPTIONS,
+    default: 1,
+  },
+  // MIDI input id, '' listens to every input
+  { id: 'midiDevice', label: 'MIDI Device', kind: 'text', default: '' },
+  {
+    id: 'midiChannel',
+    label: 'MIDI Channel',
+    kind: 'choice',
+    options: MIDI_CHANNELS,
+    default: 0,
+  },
+  // Mono note priority
+  {
+    id: 'priority',
+    label: 'Priority',
+    kind: 'choice',
+    options: PRIORITY_OPTIONS,
+    default: 'last',
+  },
+])
+
+// Key mapping: AWSEDFTGYHUJ -> C, C#, D, D#, E, F, F#, G, G#, A, A#, B
+const keyToNote: { [key: string]: { note: string; semitone: number } } = {
+  a: { note: 'C', semitone: 0 },
+  w: { note: 'C#', semitone: 1 },
+  s: { note: 'D', semitone: 2 },
+  e: { note: 'D#', semitone: 3 },
+  d: { note: 'E', semitone: 4 },
+  f: { note: 'F', semitone: 5 },
+  t: { note: 'F#', semitone: 6 },
+  g: { note: 'G', semitone: 7 },
+  y: { note: 'G#', semitone: 8 },
+  h: { note: 'A', semitone: 9 },
+  u: { note: 'A#', semitone: 10 },
+  j: { note: 'B', semitone: 11 },
+}
+
+// Computer keys play the octave below middle C at full velocity
+const KEYBOARD_BASE_NOTE = 48
+const NOTE_NAMES = [
+  'C',
+  'C#',
+  'D',
+  'D#',
+  'E',
+  'F',
+  'F#',
+  'G',
+  'G#',
+  'A',
+  'A#',
+  'B',
+]
+const noteName = (note: number) =>
+  `${NOTE_NAMES[note % 12]}${Math.floor(note / 12) - 1}`
+
+// 1V/Oct, 0 V at middle C (MIDI note 60)
+const noteToPitchCV = (note: number) => (note - 60) / 12
+
+export const keyboardCvPorts: readonly ModulePortDescriptor[] = [
+  output('pitch-out', 'pitch'),
+  output('gate-out', 'gate'),
+  output('velocity-out', 'cv'),
+  output('mod-out', 'cv'),
+  output('bend-out', 'cv'),
+]
 
 export function KeyboardCVModule({ moduleId }: { moduleId: string }) {
-  const [currentNote, setCurrentNote] = useState<string | null>(null)
-  const [isGateActive, setIsGateActive] = useState(false)
-  const [pressedKeys, setPressedKeys] = useState<Set<string>>(new Set())
+  const { getContext } = useAudioEngine()
+  const { values, set } = useModuleParameters(moduleId, keyboardCvParameters)
+  const { voices, midiDevice, midiChannel, priority } = values
+  const midi = useMidi()
+  // Held and sustained notes, oldest first
+  const [activeNotes, setActiveNotes] = useState<readonly number[]>([])
+  const [sustain, setSustain] = useState(false)
 
   const audioContextRef = useRef<AudioContext | null>(null)
-  const gateSourceRef = useRef<ConstantSourceNode | null>(null)
-  const pitchOutputRef = useRef<ConstantSourceNode | null>(null)
+  // One constant source per voice, merged into the poly outputs
+  const gateSourcesRef = useRef<ConstantSourceNode[]>([])
+  const pitchSourcesRef = useRef<ConstantSourceNode[]>([])
+  const velocitySourcesRef = useRef<ConstantSourceNode[]>([])
   const gateGainRef = useRef<GainNode | null>(null)
   const pitchGainRef = useRef<GainNode | null>(null)
+  const velocityGainRef = useRef<GainNode | null>(null)
+  const modSourceRef = useRef<ConstantSourceNode | null>(null)
+  const bendSourceRef = useRef<ConstantSourceNode | null>(null)
   const isInitializedRef = useRef(false)
-  const keyStackRef = useRef<string[]>([])
-
-  // Key mapping: AWSEDFTGYHUJ -> C, C#, D, D#, E, F, F#, G, G#, A, A#, B
-  const keyToNote: { [key: string]: { note: string; semitone: number } } = {
-    a: { note: 'C', semitone: 0 },
-    w: { note: 'C#', semitone: 1 },
-    s: { note: 'D', semitone: 2 },
-    e: { note: 'D#', semitone: 3 },
-    d: { note: 'E', semitone: 4 },
-    f: { note: 'F', semitone: 5 },
-    t: { note: 'F#', semitone: 6 },
-    g: { note: 'G', semitone: 7 },
-    y: { note: 'G#', semitone: 8 },
-    h: { note: 'A', semitone: 9 },
-    u: { note: 'A#', semitone: 10 },
-    j: { note: 'B', semitone: 11 },
-  }
-
-  const calculateFrequency = useCallback((semitone: number) => {
-    // C3 base frequency: 130.81 Hz
-    const c3Frequency = 130.81
-    return c3Frequency * 2 ** (semitone / 12)
-  }, [])
-
-  const updateToMostRecentKey = useCallback(() => {
-    if (keyStackRef.current.length === 0) return
-
-    const mostRecentKey = keyStackRef.current[keyStackRef.current.length - 1]
-    const noteInfo = keyToNote[mostRecentKey]
-
-    setCurrentNote(noteInfo.note)
-
-    if (audioContextRef.current && pitchOutputRef.current) {
-      const pitchCV = -1 + noteInfo.semitone / 12
-      pitchOutputRef.current.offset.setValueAtTime(
-        pitchCV,
-        audioContextRef.current.currentTime,
-      )
-    }
-  }, [calculateFrequency, keyToNote])
+  const allocatorRef = useRef(new NoteAllocator())
+  // Computer/on-screen keys currently down (ignores key repeat)
+  const keysDownRef = useRef(new Set<string>())
+
+  const setSource = useCallback(
+    (source: ConstantSourceNode | undefined | null, v: number, delay = 0) => {
+      const ac = audioContextRef.current
+      if (ac && source) source.offset.setValueAtTime(v, ac.currentTime + delay)
+    },
+    [],
+  )
+
+  const applyUpdates = useCallback(
+    (updates: VoiceUpdate[]) => {
+      for (const u of updates) {
+        const gate = gateSourcesRef.current[u.voice]
+        if (!u.gate) {
+          setSource(gate, 0)
+          continue
+        }
+        setSource(pitchSourcesRef.current[u.voice], noteToPitchCV(u.note))
+        setSource(velocitySourcesRef.current[u.voice], (u.velocity / 127) * 10)
+        // A fresh gate edge so the voice's envelope retriggers
+        if (u.retrigger) setSource(gate, 0)
+        setSource(gate, 5, u.retrigger ? 0.002 : 0)
+      }
+      setActiveNotes([...allocatorRef.current.activeNotes()])
+    },
+    [setSource],
+  )
+
+  const releaseAllVoices = useCallback(() => {
+    for (const gate of gateSourcesRef.current) setSource(gate, 0)
+    allocatorRef.current.reset()
+    keysDownRef.current.clear()
+    setActiveNotes([])
+  }, [setSource])
 
   const initAudioNodes = useCallback(() => {
     if (isInitializedRef.current) return
     // Set init guard BEFORE any potential async operations to prevent duplicate init
     isInitializedRef.current = true
 
-    const audioContext = getAudioContext()
+    const audioContext = getContext()
     audioContextRef.current = audioContext
 
-    gateSourceRef.current = audioContext.createConstantSource()
-    gateSourceRef.current.offset.value = 0
-
-    gateGainRef.current = audioContext.createGain()
-    gateGainRef.current.gain.value = 1
+    const createConstant = () => {
+      const source = audioContext.createConstantSource()
+      source.offset.value = 0
+      source.start()
+      return source
+    }
 
-    gateSourceRef.current.connect(gateGainRef.current)
-    gateSourceRef.current.start()
+    // Per-voice sources merged into a poly cable, trimmed to the voice count
+    const createPolyOutput = (sources: ConstantSourceNode[]) => {
+      const merger = audioContext.createChannelMerger(MAX_VOICES)
+      for (let v = 0; v < MAX_VOICES; v++) {
+        const source = createConstant()
+        source.connect(merger, 0, v)
+        sources.push(source)
+      }
+      const gain = audioContext.createGain()
+      gain.gain.value = 1
+      merger.connect(gain)
+      return gain
+    }
 
-    pitchOutputRef.current = audioContext.createConstantSource()
-    pitchOutputRef.current.offset.value = 0
+    gateGainRef.current = createPolyOutput(gateSourcesRef.current)
+    pitchGainRef.current = createPolyOutput(pitchSourcesRef.current)
+    velocityGainRef.current = createPolyOutput(velocitySourcesRef.current)
+    setNodeChannels(
+      [gateGainRef.current, pitchGainRef.current, velocityGainRef.current],
+      voices,
+    )
 
-    pitchGainRef.current = audioContext.createGain()
-    pitchGainRef.current.gain.value = 1
+    modSourceRef.current = createConstant()
+    bendSourceRef.current = createConstant()
+  }, [moduleId, getContext])
 
-    pitchOutputRef.current.connect(pitchGainRef.current)
-    pitchOutputRef.current.start()
-  }, [moduleId])
+  // Outputs carry one channel per voice; changing the count frees all voices
+  useEffect(() => {
+    allocatorRef.current.setVoices(voices)
+    const outputs = [
+      gateGainRef.current,
+      pitchGainRef.current,
+      velocityGainRef.current,
+    ]
+    if (outputs.every(Boolean)) setNodeChannels(outputs as GainNode[], voices)
+    releaseAllVoices()
+  }, [voices, releaseAllVoices])
 
-  const handleKeyDown = useCallback(
-    (event: KeyboardEvent) => {
-      const key = event.key.toLowerCase()
-      if (!keyToNote[key] || keyStackRef.current.includes(key)) return
-
-      keyStackRef.current.push(key)
-      setPressedKeys((prev) => new Set([...prev, key]))
-
-      if (keyStackRef.current.length === 1) {
-        setIsGateActive(true)
-        if (gateSourceRef.current && audioContextRef.current) {
-          gateSourceRef.current.offset.setValueAtTime(
-            5,
-            audioContextRef.current.currentTime,
-          )
-        }
-      }
+  useEffect(() => {
+    allocatorRef.current.priority = priority
+  }, [priority])
+
+  const noteOn = useCallback(
+    (key: string) => {
+      if (!keyToNote[key] || keysDownRef.current.has(key)) return
+      keysDownRef.current.add(key)
+      const note = KEYBOARD_BASE_NOTE + keyToNote[key].semitone
+      applyUpdates(allocatorRef.current.noteOn(note, 127))
+    },
+    [applyUpdates],
+  )
 
-      const noteInfo = keyToNote[key]
-      setCurrentNote(noteInfo.note)
+  const noteOff = useCallback(
+    (key: string) => {
+      if (!keysDownRef.current.delete(key)) return
+      const note = KEYBOARD_BASE_NOTE + keyToNote[key].semitone
+      applyUpdates(allocatorRef.current.noteOff(note))
+    },
+    [applyUpdates],
+  )
 
-      if (pitchOutputRef.current && audioContextRef.current) {
-        const pitchCV = -1 + noteInfo.semitone / 12
-        pitchOutputRef.current.offset.setValueAtTime(
-          pitchCV,
-          audioContextRef.current.currentTime,
-        )
+  const handleMidiMessage = useCallback(
+    (message: MidiMessage) => {
+      if (
+        'channel' in message &&
+        midiChannel !== 0 &&
+        message.channel !== midiChannel
+      )
+        return
+      const allocator = allocatorRef.current
+
+      switch (message.type) {
+        case 'noteon':
+          applyUpdates(allocator.noteOn(message.note, message.velocity))
+          break
+        case 'noteoff':
+          applyUpdates(allocator.noteOff(message.note))
+          break
+        case 'pitchbend':
+          setSource(bendSourceRef.current, message.value * 5)
+          break
+        case 'cc':
+          if (message.controller === CC_MOD_WHEEL) {
+            setSource(modSourceRef.current, (message.value / 127) * 10)
+          } else if (message.controller === CC_SUSTAIN) {
+            const on = message.value >= 64
+            setSustain(on)
+            applyUpdates(allocator.setSustain(on))
+          } else if (message.controller === CC_ALL_NOTES_OFF) {
+            releaseAllVoices()
+          }
+          break
       }
     },
-    [calculateFrequency, keyToNote],
+    [midiChannel, applyUpdates, setSource, releaseAllVoices],
+  )
+
+  useMidiInput(midiDevice, handleMidiMessage)
+
+  const handleKeyDown = useCallback(
+    (event: KeyboardEvent) => noteOn(event.key.toLowerCase()),
+    [noteOn],
   )
 
   const handleKeyUp = useCallback(
-    (event: KeyboardEvent) => {
-      const key = event.key.toLowerCase()
-      if (!keyToNote[key] || !keyStackRef.current.includes(key)) return
-
-      keyStackRef.current = keyStackRef.current.filter((k) => k !== key)
-      setPressedKeys((prev) => {
-        const newSet = new Set(prev)
-        newSet.delete(key)
-        return newSet
-      })
-
-      if (keyStackRef.current.length === 0) {
-        setIsGateActive(false)
-        setCurrentNote(null)
-        if (gateSourceRef.current && audioContextRef.current) {
-          gateSourceRef.current.offset.setValueAtTime(
-            0,
-            audioContextRef.current.currentTime,
-          )
-        }
-      } else {
-        updateToMostRecentKey()
-      }
-    },
-    [updateToMostRecentKey],
+    (event: KeyboardEvent) => noteOff(event.key.toLowerCase()),
+    [noteOff],
   )
 
   useEffect(() => {
@@ -159,23 +305,107 @@ export function KeyboardCVModule({ moduleId }: { moduleId: string }) {
     }
   }, [handleKeyDown, handleKeyUp])
 
+  // Keys light up for every held note of the same pitch class
+  const pressedKeys = new Set(
+    Object.keys(keyToNote).filter((key) =>
+      activeNotes.some((n) => n % 12 === keyToNote[key].semitone),
+    ),
+  )
+  const lastNote = activeNotes[activeNotes.length - 1]
+  // A saved device that is not plugged in stays selectable
+  const deviceOptions =
+    midiDevice && !midi.inputs.some((i) => i.id === midiDevice)
+      ? [...midi.inputs, { id: midiDevice, name: 'Disconnected' }]
+      : midi.inputs
+
   return (
     <ModuleContainer title="Keyboard CV" moduleId={moduleId}>
+      <ToggleGroup
+        type="single"
+        size="md"
+        value={voices.toString()}
+        onValueChange={(v) =>
+          v && set('voices', Number(v) as (typeof VOICE_OPTIONS)[number])
+        }
+      >
+        {VOICE_OPTIONS.map((n) => (
+          <ToggleGroupItem key={n} value={n.toString()}>
+            {n === 1 ? 'Mono' : n}
+          </ToggleGroupItem>
+        ))}
+      </ToggleGroup>
+
+      <ToggleGroup
+        type="single"
+        size="md"
+        className="mt-1"
+        value={priority}
+        disabled={voices !== 1}
+        onValueChange={(v) =>
+          v && set('priority', v as (typeof PRIORITY_OPTIONS)[number])
+        }
+      >
+        {PRIORITY_OPTIONS.map((p) => (
+          <ToggleGroupItem key={p} value={p} className="capitalize">
+            {p}
+          </ToggleGroupItem>
+        ))}
+      </ToggleGroup>
+
+      <div className="flex gap-1 mt-2">
+        <Select
+          value={midiDevice || ALL_DEVICES}
+          onValueChange={(v) => set('midiDevice', v === ALL_DEVICES ? '' : v)}
+        >
+          <SelectGroup>
+            <SelectTrigger className="w-full min-w-0">
+              <SelectValue placeholder="MIDI" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_DEVICES}>
+                {midi.status === 'unavailable' ? 'No MIDI' : 'All inputs'}
+              </SelectItem>
+              {deviceOptions.map((input) => (
+                <SelectItem key={input.id} value={input.id}>
+                  {input.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </SelectGroup>
+        </Select>
+        <Select
+          value={String(midiChannel)}
+          onValueChange={(v) =>
+            set('midiChannel', Number(v) as (typeof MIDI_CHANNELS)[number])
+          }
+        >
+          <SelectGroup>
+            <SelectTrigger className="w-14">
+              <SelectValue placeholder="Ch" />
+            </SelectTrigger>
+            <SelectContent>
+              {MIDI_CHANNELS.map((ch) => (
+                <SelectItem key={ch} value={String(ch)}>
+                  {ch === 0 ? 'Omni' : `Ch ${ch}`}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </SelectGroup>
+        </Select>
+      </div>
+
       <div className="flex-1 flex flex-col justify-center items-center">
         <div className="w-full h-full flex-1 flex flex-col justify-center gap-12">
           <div className="">
             <PianoKeyboard
-              keyToNote={keyToNote}
-              keyStackRef={keyStackRef.current}
               pressedKeys={pressedKeys}
-              currentNote={currentNote}
-              setPressedKeys={setPressedKeys}
-              setIsGateActive={setIsGateActive}
-              gateSourceRef={gateSourceRef.current}
-              audioContextRef={audioContextRef.current}
-              pitchOutputRef={pitchOutputRef.current}
-              setCurrentNote={setCurrentNote}
-              updateToMostRecentKey={updateToMostRecentKey}
+              currentNote={
+                lastNote === undefined
+                  ? null
+                  : `${noteName(lastNote)}${sustain ? ' sus' : ''}`
+              }
+              onKeyDown={noteOn}
+              onKeyUp={noteOff}
             />
           </div>
           <div className="">
@@ -184,21 +414,47 @@ export function KeyboardCVModule({ moduleId }: { moduleId: string }) {
         </div>
       </div>
 
-      <div className="flex justify-center items-end gap-1">
+      <div className="flex flex-col items-center gap-1">
         <PortGroup>
           <Port
-            id={`${moduleId}-gate-out`}
+            id={`${moduleId}-velocity-out`}
+            type="output"
+            audioType="cv"
+            label="Vel"
+            audioNode={velocityGainRef.current ?? undefined}
+            channels={voices}
+          />
+          <Port
+            id={`${moduleId}-mod-out`}
+            type="output"
+            audioType="cv"
+            label="Mod"
+            audioNode={modSourceRef.current ?? undefined}
+          />
+          <Port
+            id={`${moduleId}-bend-out`}
             type="output"
             audioType="cv"
+            label="Bend"
+            audioNode={bendSourceRef.current ?? undefined}
+          />
+        </PortGroup>
+        <PortGroup>
+          <Port
+            id={`${moduleId}-gate-out`}
+            type="output"
+            audioType="gate"
             label="Gate"
             audioNode={gateGainRef.current ?? undefined}
+            channels={voices}
           />
           <Port
             id={`${moduleId}-pitch-out`}
             type="output"
-            audioType="cv"
+            audioType="pitch"
             label="pitch"
             audioNode={pitchGainRef.current ?? undefined}
+            channels={voices}
           />
         </PortGroup>
       </div>
@@ -207,29 +463,15 @@ export function KeyboardCVModule({ moduleId }: { moduleId: string }) {
 }
 
 const PianoKeyboard = ({
-  keyToNote,
-  keyStackRef,
   pressedKeys,
   currentNote,
-  setPressedKeys,
-  setIsGateActive,
-  gateSourceRef,
-  audioContextRef,
-  pitchOutputRef,
-  setCurrentNote,
-  updateToMostRecentKey,
+  onKeyDown,
+  onKeyUp,
 }: {
-  keyToNote: { [key: string]: { note: string; semitone: number } }
-  keyStackRef: string[]
   pressedKeys: Set<string>
   currentNote: string | null
-  setPressedKeys: React.Dispatch<React.SetStateAction<Set<string>>>
-  setIsGateActive: React.Dispatch<React.SetStateAction<boolean>>
-  gateSourceRef: ConstantSourceNode | null
-  audioContextRef: AudioContext | null
-  pitchOutputRef: ConstantSourceNode | null
-  setCurrentNote: React.Dispatch<React.SetStateAction<string | null>>
-  updateToMostRecentKey: () => void
+  onKeyDown: (key: string) => void
+  onKeyUp: (key: string) => void
 }) => {
   const whiteKeys = ['a', 's', 'd', 'f', 'g', 'h', 'j'] // C, D, E, F, G, A, B
   const blackKeys = [
@@ -240,49 +482,6 @@ const PianoKeyboard = ({
     { key: 'u', position: 5.72 }, // A# - between A and B
   ]
 
-  const handlePianoKeyDown = (key: string) => {
-    if (!keyToNote[key] || keyStackRef.includes(key)) return
-
-    keyStackRef.push(key)
-    setPressedKeys((prev) => new Set([...prev, key]))
-
-    if (keyStackRef.length === 1) {
-      setIsGateActive(true)
-      if (gateSourceRef && audioContextRef) {
-        gateSourceRef.offset.setValueAtTime(5, audioContextRef.currentTime)
-      }
-    }
-
-    const noteInfo = keyToNote[key]
-    setCurrentNote(noteInfo.note)
-
-    if (pitchOutputRef && audioContextRef) {
-      const pitchCV = -1 + noteInfo.semitone / 12
-      pitchOutputRef.offset.setValueAtTime(pitchCV, audioContextRef.currentTime)
-    }
-  }
-
-  const handlePianoKeyUp = (key: string) => {
-    if (!keyToNote[key] || !keyStackRef.includes(key)) return
-
-    keyStackRef = keyStackRef.filter((k) => k !== key)
-    setPressedKeys((prev) => {
-      const newSet = new Set(prev)
-      newSet.delete(key)
-      return newSet
-    })
-
-    if (keyStackRef.length === 0) {
-      setIsGateActive(false)
-      setCurrentNote(null)
-      if (gateSourceRef && audioContextRef) {
-        gateSourceRef.offset.setValueAtTime(0, audioContextRef.currentTime)
-      }
-    } else {
-      updateToMostRecentKey()
-    }
-  }
-
   return (
     <div>
       <div className="relative w-full h-12 mx-auto rounded-[2px] overflow-hidden shadow-[0_0_0_1px_rgba(0,0,0,0.9)]">
@@ -296,9 +495,9 @@ const PianoKeyboard = ({
                   ? 'bg-blue-400 border-blue-400'
                   : 'bg-neutral-100 hover:bg-neutral-200'
               } transition-colors duration-75`}
-              onMouseDown={() => handlePianoKeyDown(key)}
-              onMouseUp={() => handlePianoKeyUp(key)}
-              onMouseLeave={() => handlePianoKeyUp(key)}
+              onMouseDown={() => onKeyDown(key)}
+              onMouseUp={() => onKeyUp(key)}
+              onMouseLeave={() => onKeyUp(key)}
             />
           ))}
         </div>
@@ -316,9 +515,9 @@ const PianoKeyboard = ({
                 left: `${(position * 100) / 7}%`,
                 width: `${(100 / 7) * 0.6}%`, // Make black keys 60% of white key width
               }}
-              onMouseDown={() => handlePianoKeyDown(key)}
-              onMouseUp={() => handlePianoKeyUp(key)}
-              onMouseLeave={() => handlePianoKeyUp(key)}
+              onMouseDown={() => onKeyDown(key)}
+              onMouseUp={() => onKeyUp(key)}
+              onMouseLeave={() => onKeyUp(key)}
             />
           ))}
         </div>
@@ -1,14 +1,16 @@
 'use client'
 
-import { useCallback, useEffect, useRef, useState } from 'react'
+import { useCallback, useEffect, useRef } from 'react'
 import { VLine } from '@/components/marks'
 import { ModuleContainer } from '@/components/module-container'
-import { useModulePatch } from '@/components/patch-manager'
 import { Port, PortGroup } from '@/components/port'
 import { Knob } from '@/components/ui/knob'
 import { ToggleSwitch } from '@/components/ui/toggle-switch'
 import { useModuleInit } from '@/hooks/use-module-init'
-import { getAudioContext } from '@/lib/helpers'
+import { useModuleParameters } from '@/hooks/use-module-parameters'
+import { defineParameters } from '@/lib/module-parameters'
+import { input, type ModulePortDescriptor, output } from '@/lib/module-ports'
+import type { FactoryPreset } from '@/lib/module-presets'
 import { mapLinear } from '@/lib/utils'
 
 // Frequency mapping (normalized 0..1 -> 30..160 Hz, logarithmic)
@@ -45,42 +47,98 @@ const DEFAULT_SWEEP_SEMIS = 10
 const DEFAULT_DECAY_S = 0.6
 const DEFAULT_ATTACK_AMT = 0.25
 
+// Saved values are knob positions (0..1); the map* helpers give units
+export const kickParameters = defineParameters([
+  {
+    id: 'tuneN',
+    label: 'Tune',
+    min: 0,
+    max: 1,
+    default: mapHzToTuneNorm(DEFAULT_FREQ_HZ),
+  },
+  {
+    id: 'sweepN',
+    label: 'Sweep',
+    min: 0,
+    max: 1,
+    default: mapSemisToSweepNorm(DEFAULT_SWEEP_SEMIS),
+  },
+  {
+    id: 'decayN',
+    label: 'Decay',
+    min: 0,
+    max: 1,
+    default: mapSecondsToDecayNorm(DEFAULT_DECAY_S),
+  },
+  {
+    id: 'attackN',
+    label: 'Attack',
+    min: 0,
+    max: 1,
+    default: DEFAULT_ATTACK_AMT,
+  },
+  { id: 'sweepCvAmt', label: 'Sweep CV', min: 0, max: 1, default: 0 },
+  { id: 'attackCvAmt', label: 'Attack CV', min: 0, max: 1, default: 0 },
+  { id: 'decayCvAmt', label: 'Decay CV', min: 0, max: 1, default: 0 },
+  { id: 'is909', label: '909', kind: 'toggle', default: false },
+])
+
+// Partial: parameters left out keep their defaults
+export const kickPresets: FactoryPreset[] = [
+  {
+    name: '808 Boom',
+    parameters: {
+      tuneN: mapHzToTuneNorm(45),
+      sweepN: mapSemisToSweepNorm(7),
+      decayN: mapSecondsToDecayNorm(1.6),
+      attackN: 0.1,
+      is909: false,
+    },
+  },
+  {
+    name: '909 Punch',
+    parameters: {
+      tuneN: mapHzToTuneNorm(55),
+      sweepN: mapSemisToSweepNorm(16),
+      decayN: mapSecondsToDecayNorm(0.45),
+      attackN: 0.6,
+      is909: true,
+    },
+  },
+  {
+    name: 'Tight Click',
+    parameters: {
+      tuneN: mapHzToTuneNorm(70),
+      sweepN: mapSemisToSweepNorm(20),
+      decayN: mapSecondsToDecayNorm(0.18),
+      attackN: 0.85,
+      is909: true,
+    },
+  },
+]
+
+export const kickPorts: readonly ModulePortDescriptor[] = [
+  input('trig-in', 'trigger'),
+  input('tune-in', 'cv'),
+  input('sweep-in', 'cv'),
+  input('attack-in', 'cv'),
+  input('decay-in', 'cv'),
+  output('audio-out', 'audio'),
+]
+
 export function KickModule({ moduleId }: { moduleId: string }) {
   // State persisted in patch
-  const { initialParameters } = useModulePatch(moduleId, () => ({
-    tuneN: tuneN[0],
-    sweepN: sweepN[0],
-    decayN: decayN[0],
-    attackN: attackN[0],
-    sweepCvAmt: sweepCvAmt[0],
-    attackCvAmt: attackCvAmt[0],
-    decayCvAmt: decayCvAmt[0],
+  const { values, set, knob } = useModuleParameters(moduleId, kickParameters)
+  const {
+    tuneN,
+    sweepN,
+    decayN,
+    attackN,
+    sweepCvAmt,
+    attackCvAmt,
+    decayCvAmt,
     is909,
-  }))
-
-  const [tuneN, setTuneN] = useState<number[]>([
-    initialParameters?.tuneN ?? mapHzToTuneNorm(DEFAULT_FREQ_HZ),
-  ])
-  const [sweepN, setSweepN] = useState<number[]>([
-    initialParameters?.sweepN ?? mapSemisToSweepNorm(DEFAULT_SWEEP_SEMIS),
-  ])
-  const [decayN, setDecayN] = useState<number[]>([
-    initialParameters?.decayN ?? mapSecondsToDecayNorm(DEFAULT_DECAY_S),
-  ])
-  const [attackN, setAttackN] = useState<number[]>([
-    initialParameters?.attackN ?? DEFAULT_ATTACK_AMT,
-  ])
-
-  const [sweepCvAmt, setSweepCvAmt] = useState<number[]>([
-    initialParameters?.sweepCvAmt ?? 0,
-  ])
-  const [attackCvAmt, setAttackCvAmt] = useState<number[]>([
-    initialParameters?.attackCvAmt ?? 0,
-  ])
-  const [decayCvAmt, setDecayCvAmt] = useState<number[]>([
-    initialParameters?.decayCvAmt ?? 0,
-  ])
-  const [is909, setIs909] = useState<boolean>(initialParameters?.is909 ?? false)
+  } = values
 
   // Audio graph
   const audioContextRef = useRef<AudioContext | null>(null)
@@ -97,10 +155,9 @@ export function KickModule({ moduleId }: { moduleId: string }) {
   const outRef = useRef<GainNode | null>(null)
 
   // Initialize worklet and nodes
-  useModuleInit(async () => {
+  useModuleInit(async (ac) => {
     if (workletRef.current) return
 
-    const ac = getAudioContext()
     audioContextRef.current = ac
 
     await ac.audioWorklet.addModule('/kick-processor.js')
@@ -120,6 +177,7 @@ export function KickModule({ moduleId }: { moduleId: string }) {
     outRef.current.gain.value = 1
 
     const node = new AudioWorkletNode(ac, 'kick-processor', {
+      processorOptions: { moduleId },
       numberOfInputs: 5,
       numberOfOutputs: 1,
       outputChannelCount: [1],
@@ -127,21 +185,19 @@ export function KickModule({ moduleId }: { moduleId: string }) {
 
     // Initial params
     const now = ac.currentTime
-    node.parameters
-      .get('baseFreq')
-      ?.setValueAtTime(mapTuneNormToHz(tuneN[0]), now)
+    node.parameters.get('baseFreq')?.setValueAtTime(mapTuneNormToHz(tuneN), now)
     node.parameters
       .get('sweepSemis')
-      ?.setValueAtTime(mapSweepNormToSemis(sweepN[0]), now)
+      ?.setValueAtTime(mapSweepNormToSemis(sweepN), now)
     node.parameters
       .get('decaySeconds')
-      ?.setValueAtTime(mapDecayNormToSeconds(decayN[0]), now)
+      ?.setValueAtTime(mapDecayNormToSeconds(decayN), now)
     node.parameters
       .get('attackAmount')
-      ?.setValueAtTime(mapAttackNormToAmount(attackN[0]), now)
-    node.parameters.get('sweepCvAmt')?.setValueAtTime(sweepCvAmt[0], now)
-    node.parameters.get('attackCvAmt')?.setValueAtTime(attackCvAmt[0], now)
-    node.parameters.get('decayCvAmt')?.setValueAtTime(decayCvAmt[0], now)
+      ?.setValueAtTime(mapAttackNormToAmount(attackN), now)
+    node.parameters.get('sweepCvAmt')?.setValueAtTime(sweepCvAmt, now)
+    node.parameters.get('attackCvAmt')?.setValueAtTime(attackCvAmt, now)
+    node.parameters.get('decayCvAmt')?.setValueAtTime(decayCvAmt, now)
     node.parameters.get('model')?.setValueAtTime(is909 ? 1 : 0, now)
 
     // Connections
@@ -162,21 +218,19 @@ export function KickModule({ moduleId }: { moduleId: string }) {
     const node = workletRef.current
     if (!ac || !node) return
     const now = ac.currentTime
-    node.parameters
-      .get('baseFreq')
-      ?.setValueAtTime(mapTuneNormToHz(tuneN[0]), now)
+    node.parameters.get('baseFreq')?.setValueAtTime(mapTuneNormToHz(tuneN), now)
     node.parameters
       .get('sweepSemis')
-      ?.setValueAtTime(mapSweepNormToSemis(sweepN[0]), now)
+      ?.setValueAtTime(mapSweepNormToSemis(sweepN), now)
     node.parameters
       .get('decaySeconds')
-      ?.setValueAtTime(mapDecayNormToSeconds(decayN[0]), now)
+      ?.setValueAtTime(mapDecayNormToSeconds(decayN), now)
     node.parameters
       .get('attackAmount')
-      ?.setValueAtTime(mapAttackNormToAmount(attackN[0]), now)
-    node.parameters.get('sweepCvAmt')?.setValueAtTime(sweepCvAmt[0], now)
-    node.parameters.get('attackCvAmt')?.setValueAtTime(attackCvAmt[0], now)
-    node.parameters.get('decayCvAmt')?.setValueAtTime(decayCvAmt[0], now)
+      ?.setValueAtTime(mapAttackNormToAmount(attackN), now)
+    node.parameters.get('sweepCvAmt')?.setValueAtTime(sweepCvAmt, now)
+    node.parameters.get('attackCvAmt')?.setValueAtTime(attackCvAmt, now)
+    node.parameters.get('decayCvAmt')?.setValueAtTime(decayCvAmt, now)
     node.parameters.get('model')?.setValueAtTime(is909 ? 1 : 0, now)
   }, [
     tuneN,
@@ -197,28 +251,13 @@ export function KickModule({ moduleId }: { moduleId: string }) {
     <ModuleContainer moduleId={moduleId} title="Kick">
       <div className="flex flex-col gap-6 items-center mt-4 flex-1">
         <div className="flex gap-8 items-center">
-          <Knob value={tuneN} onValueChange={setTuneN} size="md" label="Tune" />
-          <Knob
-            value={sweepN}
-            onValueChange={setSweepN}
-            size="md"
-            label="Sweep"
-          />
+          <Knob {...knob('tuneN')} size="md" label="Tune" />
+          <Knob {...knob('sweepN')} size="md" label="Sweep" />
         </div>
 
         <div className="flex gap-8 items-center">
-          <Knob
-            value={attackN}
-            onValueChange={setAttackN}
-            size="md"
-            label="Attack"
-          />
-          <Knob
-            value={decayN}
-            onValueChange={setDecayN}
-            size="md"
-            label="Decay"
-          />
+          <Knob {...knob('attackN')} size="md" label="Attack" />
+          <Knob {...knob('decayN')} size="md" label="Decay" />
         </div>
 
         <div className="flex gap-8 items-center mt-4">
@@ -227,7 +266,7 @@ export function KickModule({ moduleId }: { moduleId: string }) {
             topLabel="909"
             orientation="horizontal"
             value={is909}
-            onValueChange={setIs909}
+            onValueChange={(v) => set('is909', v)}
           />
         </div>
 
@@ -245,11 +284,7 @@ export function KickModule({ moduleId }: { moduleId: string }) {
               />
             </div>
             <div className="flex flex-col items-center justify-end gap-3">
-              <Knob
-                value={sweepCvAmt}
-                onValueChange={setSweepCvAmt}
-                size="xs"
-              />
+              <Knob {...knob('sweepCvAmt')} size="xs" />
               <VLine />
               <Port
                 id={`${moduleId}-sweep-in`}
@@ -260,11 +295,7 @@ export function KickModule({ moduleId }: { moduleId: string }) {
               />
             </div>
             <div className="flex flex-col items-center justify-end gap-3">
-              <Knob
-                value={attackCvAmt}
-                onValueChange={setAttackCvAmt}
-                size="xs"
-              />
+              <Knob {...knob('attackCvAmt')} size="xs" />
               <VLine />
               <Port
                 id={`${moduleId}-attack-in`}
@@ -275,11 +306,7 @@ export function KickModule({ moduleId }: { moduleId: string }) {
               />
             </div>
             <div className="flex flex-col items-center justify-end gap-3">
-              <Knob
-                value={decayCvAmt}
-                onValueChange={setDecayCvAmt}
-                size="xs"
-              />
+              <Knob {...knob('decayCvAmt')} size="xs" />
               <VLine />
               <Port
                 id={`${moduleId}-decay-in`}
@@ -1,14 +1,15 @@
 'use client'
 
-import { useCallback, useEffect, useRef, useState } from 'react'
+import { useCallback, useRef } from 'react'
 import { ModuleContainer } from '@/components/module-container'
-import { useModulePatch } from '@/components/patch-manager'
 import { Port, PortGroup } from '@/components/port'
 import { Button } from '@/components/ui/button'
 import { Knob } from '@/components/ui/knob'
 import { KnobV2 } from '@/components/ui/knob-v2'
 import { useModuleInit } from '@/hooks/use-module-init'
-import { getAudioContext } from '@/lib/helpers'
+import { useModuleParameters } from '@/hooks/use-module-parameters'
+import { defineParameters } from '@/lib/module-parameters'
+import { input, type ModulePortDescriptor, output } from '@/lib/module-ports'
 import { mapLinear } from '@/lib/utils'
 import { VLine } from '../marks'
 import { ToggleGroup, ToggleGroupItem } from '../ui/toggle-group'
@@ -33,12 +34,6 @@ const AMPAMT_MIN = 0,
 const OFFAMT_MIN = 0,
   OFFAMT_MAX = 2 // NEW: Offset CV depth
 
-const invMapLinear = (value: number, min: number, max: number) => {
-  if (max === min) return 0
-  const t = (value - min) / (max - min)
-  return Math.max(0, Math.min(1, t))
-}
-
 type Shape = 0 | 1 | 2 | 3 | 4 | 5
 
 const icons: Record<Shape, React.ReactNode> = {
@@ -104,105 +99,108 @@ const icons: Record<Shape, React.ReactNode> = {
   ),
 }
 
-export function LFOModule({ moduleId }: { moduleId: string }) {
-  // Defaults (physical)
-  const DEFAULT_FREQ = 0.5
-  const DEFAULT_PW = 0.5
-  const DEFAULT_AMP = 0.5
-  const DEFAULT_OFF = 0.5
-  const DEFAULT_SLEW = 0
-  const DEFAULT_RATEAMT = 1
-  const DEFAULT_PWAMT = 1
-  const DEFAULT_AMPAMT = 1 // NEW
-  const DEFAULT_OFFAMT = 1 // NEW
+export const lfoParameters = defineParameters([
+  {
+    id: 'shape',
+    param: 'shape',
+    label: 'Shape',
+    kind: 'choice',
+    options: [0, 1, 2, 3, 4, 5],
+    default: 0,
+  },
+  {
+    id: 'freq',
+    param: 'freq',
+    label: 'Rate',
+    min: FREQ_MIN,
+    max: FREQ_MAX,
+    default: mapLinear(0.5, FREQ_MIN, FREQ_MAX),
+    unit: 'Hz',
+  },
+  {
+    id: 'pw',
+    param: 'pw',
+    label: 'PW',
+    min: PW_MIN,
+    max: PW_MAX,
+    default: mapLinear(0.5, PW_MIN, PW_MAX),
+  },
+  {
+    id: 'amp',
+    param: 'amp',
+    label: 'Amp',
+    min: AMP_MIN,
+    max: AMP_MAX,
+    default: mapLinear(0.5, AMP_MIN, AMP_MAX),
+  },
+  {
+    id: 'offset',
+    param: 'offset',
+    label: 'Offset',
+    min: OFF_MIN,
+    max: OFF_MAX,
+    default: mapLinear(0.5, OFF_MIN, OFF_MAX),
+  },
+  {
+    id: 'slew',
+    label: 'Slew',
+    param: 'slew',
+    min: SLEW_MIN,
+    max: SLEW_MAX,
+    default: 0,
+  },
+  {
+    id: 'rateAmt',
+    param: 'rateCvAmt',
+    label: 'Rate CV',
+    min: RATEAMT_MIN,
+    max: RATEAMT_MAX,
+    default: RATEAMT_MAX,
+  },
+  {
+    id: 'pwAmt',
+    param: 'pwCvAmt',
+    label: 'PW CV',
+    min: PWAMT_MIN,
+    max: PWAMT_MAX,
+    default: PWAMT_MAX,
+  },
+  {
+    id: 'ampAmt',
+    param: 'ampCvAmt',
+    label: 'Amp CV',
+    min: AMPAMT_MIN,
+    max: AMPAMT_MAX,
+    default: AMPAMT_MAX,
+  },
+  {
+    id: 'offAmt',
+    param: 'offCvAmt',
+    label: 'Offset CV',
+    min: OFFAMT_MIN,
+    max: OFFAMT_MAX,
+    default: OFFAMT_MAX,
+  },
+])
 
-  // Register with patch manager and get initial parameters
-  const { initialParameters } = useModulePatch(moduleId, () => ({
-    shape,
-    freq: mapLinear(freq[0], FREQ_MIN, FREQ_MAX),
-    pw: mapLinear(pw[0], PW_MIN, PW_MAX),
-    amp: mapLinear(amp[0], AMP_MIN, AMP_MAX),
-    offset: mapLinear(offset[0], OFF_MIN, OFF_MAX),
-    slew: mapLinear(slew[0], SLEW_MIN, SLEW_MAX),
-    rateAmt: mapLinear(rateAmt[0], RATEAMT_MIN, RATEAMT_MAX),
-    pwAmt: mapLinear(pwAmt[0], PWAMT_MIN, PWAMT_MAX),
-    ampAmt: mapLinear(ampAmt[0], AMPAMT_MIN, AMPAMT_MAX),
-    offAmt: mapLinear(offAmt[0], OFFAMT_MIN, OFFAMT_MAX),
-  }))
+export const lfoPorts: readonly ModulePortDescriptor[] = [
+  output('cv-out', 'cv'),
+  output('uni-out', 'cv'),
+  input('rate-cv-in', 'cv'),
+  input('pw-cv-in', 'cv'),
+  input('amp-cv-in', 'cv'),
+  input('offset-cv-in', 'cv'),
+  input('sync-in', 'trigger'),
+]
 
-  // UI state (normalized 0..1)
-  const [shape, setShape] = useState<Shape>(initialParameters?.shape ?? 0)
-  const [freq, setFreq] = useState([
-    invMapLinear(
-      initialParameters?.freq ?? mapLinear(DEFAULT_FREQ, FREQ_MIN, FREQ_MAX),
-      FREQ_MIN,
-      FREQ_MAX,
-    ),
-  ])
-  const [pw, setPw] = useState([
-    invMapLinear(
-      initialParameters?.pw ?? mapLinear(DEFAULT_PW, PW_MIN, PW_MAX),
-      PW_MIN,
-      PW_MAX,
-    ),
-  ])
-  const [amp, setAmp] = useState([
-    invMapLinear(
-      initialParameters?.amp ?? mapLinear(DEFAULT_AMP, AMP_MIN, AMP_MAX),
-      AMP_MIN,
-      AMP_MAX,
-    ),
-  ])
-  const [offset, setOffset] = useState([
-    invMapLinear(
-      initialParameters?.offset ?? mapLinear(DEFAULT_OFF, OFF_MIN, OFF_MAX),
-      OFF_MIN,
-      OFF_MAX,
-    ),
-  ])
-  const [slew, setSlew] = useState([
-    invMapLinear(
-      initialParameters?.slew ?? mapLinear(DEFAULT_SLEW, SLEW_MIN, SLEW_MAX),
-      SLEW_MIN,
-      SLEW_MAX,
-    ),
-  ])
-  const [rateAmt, setRateAmt] = useState([
-    invMapLinear(
-      initialParameters?.rateAmt ??
-        mapLinear(DEFAULT_RATEAMT, RATEAMT_MIN, RATEAMT_MAX),
-      RATEAMT_MIN,
-      RATEAMT_MAX,
-    ),
-  ])
-  const [pwAmt, setPwAmt] = useState([
-    invMapLinear(
-      initialParameters?.pwAmt ??
-        mapLinear(DEFAULT_PWAMT, PWAMT_MIN, PWAMT_MAX),
-      PWAMT_MIN,
-      PWAMT_MAX,
-    ),
-  ])
-  const [ampAmt, setAmpAmt] = useState([
-    invMapLinear(
-      initialParameters?.ampAmt ??
-        mapLinear(DEFAULT_AMPAMT, AMPAMT_MIN, AMPAMT_MAX),
-      AMPAMT_MIN,
-      AMPAMT_MAX,
-    ),
-  ])
-  const [offAmt, setOffAmt] = useState([
-    invMapLinear(
-      initialParameters?.offAmt ??
-        mapLinear(DEFAULT_OFFAMT, OFFAMT_MIN, OFFAMT_MAX),
-      OFFAMT_MIN,
-      OFFAMT_MAX,
-    ),
-  ])
-
-  // graph
-  const acRef = useRef<AudioContext | null>(null)
+export function LFOModule({ moduleId }: { moduleId: string }) {
   const workletRef = useRef<AudioWorkletNode | null>(null)
+  const { values, set, knob, applyToNode } = useModuleParameters(
+    moduleId,
+    lfoParameters,
+    { node: workletRef },
+  )
+  const { shape } = values
 
   // inputs (ports)
   const rateInRef = useRef<GainNode | null>(null)
@@ -215,19 +213,9 @@ export function LFOModule({ moduleId }: { moduleId: string }) {
   const outBipRef = useRef<GainNode | null>(null)
   const outUniRef = useRef<GainNode | null>(null)
 
-  const setParam = (name: string, v: number, t?: number) => {
-    const ac = acRef.current,
-      w = workletRef.current
-    if (!ac || !w) return
-    const p = w.parameters.get(name)
-    if (p) p.setTargetAtTime(v, ac.currentTime, t ?? 0.01)
-  }
-
-  const init = useCallback(async () => {
+  const init = useCallback(async (ac: AudioContext) => {
     if (workletRef.current) return // Already initialized
 
-    const ac = getAudioContext()
-    acRef.current = ac
     await ac.audioWorklet.addModule('/lfo-processor.js')
 
     // inputs (CV ports)
@@ -242,27 +230,16 @@ export function LFOModule({ moduleId }: { moduleId: string }) {
     offInRef.current = mkIn()
     syncInRef.current = mkIn()
 
-    // Map normalized → physical for initial parameterData
     const w = new AudioWorkletNode(ac, 'lfo-processor', {
+      processorOptions: { moduleId },
       numberOfInputs: 5,
       numberOfOutputs: 2,
       outputChannelCount: [1, 1],
       channelCount: 1,
       channelCountMode: 'explicit',
       channelInterpretation: 'discrete',
-      parameterData: {
-        freq: mapLinear(freq[0], FREQ_MIN, FREQ_MAX),
-        shape,
-        pw: mapLinear(pw[0], PW_MIN, PW_MAX),
-        amp: mapLinear(amp[0], AMP_MIN, AMP_MAX),
-        offset: mapLinear(offset[0], OFF_MIN, OFF_MAX),
-        rateCvAmt: mapLinear(rateAmt[0], RATEAMT_MIN, RATEAMT_MAX),
-        pwCvAmt: mapLinear(pwAmt[0], PWAMT_MIN, PWAMT_MAX),
-        ampCvAmt: mapLinear(ampAmt[0], AMPAMT_MIN, AMPAMT_MAX), // NEW
-        offCvAmt: mapLinear(offAmt[0], OFFAMT_MIN, OFFAMT_MAX), // NEW
-        slew: mapLinear(slew[0], SLEW_MIN, SLEW_MAX),
-      },
-    } as any)
+    })
+    applyToNode(w)
     workletRef.current = w
 
     // wire CV inputs
@@ -283,43 +260,11 @@ export function LFOModule({ moduleId }: { moduleId: string }) {
     w.connect(outUniRef.current, 1, 0) // worklet output 1 → UNI (unipolar)
 
     console.log('[LFO] initialized')
-  }, [freq, shape, pw, amp, offset, rateAmt, pwAmt, ampAmt, offAmt, slew])
+  }, [])
 
   // Use the module initialization hook
   const { isReady, initError, retryInit } = useModuleInit(init, 'LFO')
 
-  // param pushes
-  useEffect(() => {
-    setParam('freq', mapLinear(freq[0], FREQ_MIN, FREQ_MAX))
-  }, [freq])
-  useEffect(() => {
-    setParam('shape', shape)
-  }, [shape])
-  useEffect(() => {
-    setParam('pw', mapLinear(pw[0], PW_MIN, PW_MAX))
-  }, [pw])
-  useEffect(() => {
-    setParam('amp', mapLinear(amp[0], AMP_MIN, AMP_MAX))
-  }, [amp])
-  useEffect(() => {
-    setParam('offset', mapLinear(offset[0], OFF_MIN, OFF_MAX))
-  }, [offset])
-  useEffect(() => {
-    setParam('rateCvAmt', mapLinear(rateAmt[0], RATEAMT_MIN, RATEAMT_MAX))
-  }, [rateAmt])
-  useEffect(() => {
-    setParam('pwCvAmt', mapLinear(pwAmt[0], PWAMT_MIN, PWAMT_MAX))
-  }, [pwAmt])
-  useEffect(() => {
-    setParam('ampCvAmt', mapLinear(ampAmt[0], AMPAMT_MIN, AMPAMT_MAX))
-  }, [ampAmt]) // NEW
-  useEffect(() => {
-    setParam('offCvAmt', mapLinear(offAmt[0], OFFAMT_MIN, OFFAMT_MAX))
-  }, [offAmt]) // NEW
-  useEffect(() => {
-    setParam('slew', mapLinear(slew[0], SLEW_MIN, SLEW_MAX))
-  }, [slew])
-
   return (
     <ModuleContainer title="LFO" moduleId={moduleId}>
       {/* Wave buttons */}
@@ -327,7 +272,7 @@ export function LFOModule({ moduleId }: { moduleId: string }) {
         type="single"
         size="md"
         value={shape.toString()}
-        onValueChange={(v) => setShape(parseInt(v, 10) as Shape)}
+        onValueChange={(v) => set('shape', parseInt(v, 10) as Shape)}
       >
         {[0, 1, 2, 3, 5].map((s) => (
           <ToggleGroupItem key={s} value={s.toString()}>
@@ -337,20 +282,15 @@ export function LFOModule({ moduleId }: { moduleId: string }) {
       </ToggleGroup>
 
       <div className="flex flex-col items-center gap-6 mt-5">
-        <Knob value={freq} onValueChange={setFreq} label="Freq" size="lg" />
+        <Knob {...knob('freq')} label="Freq" size="lg" />
 
         <div className="flex flex-col items-center gap-6">
-          <Knob value={amp} onValueChange={setAmp} label="Amp" size="md" />
+          <Knob {...knob('amp')} label="Amp" size="md" />
 
           <div className="flex gap-6">
-            <Knob
-              value={offset}
-              onValueChange={setOffset}
-              label="Oset"
-              size="sm"
-            />
-            <Knob value={pw} onValueChange={setPw} label="PWM" size="sm" />
-            <Knob value={slew} onValueChange={setSlew} label="Slew" size="sm" />
+            <Knob {...knob('offset')} label="Oset" size="sm" />
+            <Knob {...knob('pw')} label="PWM" size="sm" />
+            <Knob {...knob('slew')} label="Slew" size="sm" />
           </div>
         </div>
       </div>
@@ -361,7 +301,7 @@ export function LFOModule({ moduleId }: { moduleId: string }) {
       <div className="flex flex-col gap-1 flex-1 justify-end">
         <div className="flex justify-between items-end gap-0">
           <div className="flex flex-col items-center gap-3">
-            <Knob value={rateAmt} onValueChange={setRateAmt} size="xs" />
+            <Knob {...knob('rateAmt')} size="xs" />
             <VLine />
             <Port
               id={`${moduleId}-rate-cv-in`}
@@ -372,7 +312,7 @@ export function LFOModule({ moduleId }: { moduleId: string }) {
             />
           </div>
           <div className="flex flex-col items-center gap-3">
-            <Knob value={pwAmt} onValueChange={setPwAmt} size="xs" />
+            <Knob {...knob('pwAmt')} size="xs" />
             <VLine />
             <Port
               id={`${moduleId}-pw-cv-in`}
@@ -383,7 +323,7 @@ export function LFOModule({ moduleId }: { moduleId: string }) {
             />
           </div>
           <div className="flex flex-col items-center gap-3">
-            <Knob value={ampAmt} onValueChange={setAmpAmt} size="xs" />
+            <Knob {...knob('ampAmt')} size="xs" />
             <VLine />
             <Port
               id={`${moduleId}-amp-cv-in`}
@@ -394,7 +334,7 @@ export function LFOModule({ moduleId }: { moduleId: string }) {
             />
           </div>
           <div className="flex flex-col items-center gap-3">
-            <Knob value={offAmt} onValueChange={setOffAmt} size="xs" />
+            <Knob {...knob('offAmt')} size="xs" />
             <VLine />
             <Port
               id={`${moduleId}-offset-cv-in`}
@@ -410,7 +350,7 @@ export function LFOModule({ moduleId }: { moduleId: string }) {
             id={`${moduleId}-sync-in`}
             type="input"
             label="SYNC"
-            audioType="cv"
+            audioType="trig"
             audioNode={syncInRef.current ?? undefined}
           />
           <PortGroup>
@@ -1,13 +1,14 @@
 'use client'
 
-import { useCallback, useEffect, useRef, useState } from 'react'
+import { useEffect, useRef } from 'react'
 import { useConnections } from '@/components/connection-manager'
 import { ModuleContainer } from '@/components/module-container'
-import { useModulePatch } from '@/components/patch-manager'
 import { Port, PortGroup } from '@/components/port'
 import { Knob } from '@/components/ui/knob'
 import { useModuleInit } from '@/hooks/use-module-init'
-import { getAudioContext } from '@/lib/helpers'
+import { useModuleParameters } from '@/hooks/use-module-parameters'
+import { defineParameters } from '@/lib/module-parameters'
+import { input, type ModulePortDescriptor, output } from '@/lib/module-ports'
 import * as utils from '@/lib/utils'
 import { VLine } from '../marks'
 
@@ -18,25 +19,27 @@ const setParameters = (_: any) => {}
 const MIN_CUTOFF = 20
 const MAX_CUTOFF = 10000
 
+// Saved values are knob positions (0..1); cutoff maps log to MIN..MAX_CUTOFF
+export const lowPassFilterParameters = defineParameters([
+  { id: 'cutoff', label: 'Cutoff', min: 0, max: 1, default: 1 },
+  { id: 'resonance', label: 'Res', min: 0, max: 1, default: 0 },
+  { id: 'cvAttenuation', label: 'Cutoff CV', min: 0, max: 1, default: 1 },
+  { id: 'resCvAttenuation', label: 'Res CV', min: 0, max: 1, default: 1 },
+])
+
+export const lowPassFilterPorts: readonly ModulePortDescriptor[] = [
+  input('audio-in', 'audio'),
+  input('cutoff-cv-in', 'cv'),
+  input('resonance-cv-in', 'cv'),
+  output('audio-out', 'audio'),
+]
+
 export function LowPassFilterModule({ moduleId }: { moduleId: string }) {
-  // Register with patch manager and get initial parameters
-  const { initialParameters } = useModulePatch(moduleId, () => ({
-    cutoff: cutoff[0],
-    resonance: resonance[0],
-    cvAttenuation: cvAttenuation[0],
-    resCvAttenuation: resCvAttenuation[0],
-  }))
-
-  const [cutoff, setCutoff] = useState([initialParameters?.cutoff ?? 1.0])
-  const [resonance, setResonance] = useState([
-    initialParameters?.resonance ?? 0.0,
-  ])
-  const [cvAttenuation, setCvAttenuation] = useState([
-    initialParameters?.cvAttenuation ?? 1,
-  ])
-  const [resCvAttenuation, setResCvAttenuation] = useState([
-    initialParameters?.resCvAttenuation ?? 1,
-  ])
+  const { values, knob } = useModuleParameters(
+    moduleId,
+    lowPassFilterParameters,
+  )
+  const { cutoff, resonance, cvAttenuation, resCvAttenuation } = values
 
   const acRef = useRef<AudioContext | null>(null)
 
@@ -68,7 +71,7 @@ export function LowPassFilterModule({ moduleId }: { moduleId: string }) {
     const w = workletRef.current
     if (!ac || !w) return
     const cutHz = utils.mapLogarithmic(
-      Math.max(0.0001, cutoff[0]),
+      Math.max(0.0001, cutoff),
       MIN_CUTOFF,
       MAX_CUTOFF,
     )
@@ -79,7 +82,7 @@ export function LowPassFilterModule({ moduleId }: { moduleId: string }) {
     const ac = acRef.current
     const w = workletRef.current
     if (!ac || !w) return
-    const resNorm = Math.min(0.995, clamp01(resonance[0]) ** 0.95)
+    const resNorm = Math.min(0.995, clamp01(resonance) ** 0.95)
     w.parameters
       .get('resonance')
       ?.setTargetAtTime(resNorm, ac.currentTime, 0.05) // Slower for stability
@@ -92,7 +95,7 @@ export function LowPassFilterModule({ moduleId }: { moduleId: string }) {
     // CV attenuation is handled in the worklet
     w.parameters
       .get('cvAmount')
-      ?.setTargetAtTime(cvAttenuation[0], ac.currentTime, 0.05)
+      ?.setTargetAtTime(cvAttenuation, ac.currentTime, 0.05)
   }, [cvAttenuation])
 
   useEffect(() => {
@@ -102,13 +105,12 @@ export function LowPassFilterModule({ moduleId }: { moduleId: string }) {
     // Resonance CV attenuation is handled in the worklet
     w.parameters
       .get('resCvAmount')
-      ?.setTargetAtTime(resCvAttenuation[0], ac.currentTime, 0.05)
+      ?.setTargetAtTime(resCvAttenuation, ac.currentTime, 0.05)
   }, [resCvAttenuation])
 
-  useModuleInit(async () => {
+  useModuleInit(async (ac) => {
     if (workletRef.current) return // Already initialized
 
-    const ac = getAudioContext()
     acRef.current = ac
 
     await ac.audioWorklet.addModule('/ladder-filter-processor.js')
@@ -119,7 +121,12 @@ export function LowPassFilterModule({ moduleId }: { moduleId: string }) {
     audioInRef.current.gain.value = 1
 
     // Register input with new system
-    registerAudioNode(`${moduleId}-audio-in`, audioInRef.current, 'input')
+    registerAudioNode(
+      `${moduleId}-audio-in`,
+      audioInRef.current,
+      'input',
+      'audio',
+    )
 
     // CV inputs - connect directly to worklet for audio-rate modulation
     cutoffCVInRef.current = ac.createGain()
@@ -130,20 +137,23 @@ export function LowPassFilterModule({ moduleId }: { moduleId: string }) {
       `${moduleId}-cutoff-cv-in`,
       cutoffCVInRef.current,
       'input',
+      'cv',
     )
     registerAudioNode(
       `${moduleId}-resonance-cv-in`,
       resCVInRef.current,
       'input',
+      'cv',
     )
 
     // Worklet with CV inputs
     const initCut = utils.mapLogarithmic(
-      Math.max(0.0001, cutoff[0]),
+      Math.max(0.0001, cutoff),
       MIN_CUTOFF,
       MAX_CUTOFF,
     )
     workletRef.current = new AudioWorkletNode(ac, 'ladder-filter-processor', {
+      processorOptions: { moduleId },
       numberOfInputs: 3, // audio, cutoff CV, resonance CV
       numberOfOutputs: 1,
       outputChannelCount: [1],
@@ -152,9 +162,9 @@ export function LowPassFilterModule({ moduleId }: { moduleId: string }) {
       channelInterpretation: 'discrete',
       parameterData: {
         cutoff: initCut,
-        resonance: clamp01(resonance[0]),
-        cvAmount: cvAttenuation[0],
-        resCvAmount: resCvAttenuation[0],
+        resonance: clamp01(resonance),
+        cvAmount: cvAttenuation,
+        resCvAmount: resCvAttenuation,
       },
     } as any)
 
@@ -168,22 +178,25 @@ export function LowPassFilterModule({ moduleId }: { moduleId: string }) {
     setMono(outRef.current)
     outRef.current.gain.value = 1
     workletRef.current.connect(outRef.current)
-    registerAudioNode(`${moduleId}-audio-out`, outRef.current, 'output')
+    registerAudioNode(
+      `${moduleId}-audio-out`,
+      outRef.current,
+      'output',
+      'audio',
+    )
   }, moduleId)
 
   return (
     <ModuleContainer title="Filter" moduleId={moduleId}>
       <div className="flex flex-col items-center justify-center px-3 gap-8 flex-1">
         <Knob
-          value={cutoff}
-          onValueChange={setCutoff}
+          {...knob('cutoff')}
           size="lg"
           data-param="cutoff"
           label="Cutoff"
         />
         <Knob
-          value={resonance}
-          onValueChange={setResonance}
+          {...knob('resonance')}
           size="md"
           data-param="resonance"
           label="Res"
@@ -194,8 +207,7 @@ export function LowPassFilterModule({ moduleId }: { moduleId: string }) {
         <div className="flex justify-between items-end gap-0">
           <div className="flex flex-col items-center gap-3">
             <Knob
-              value={cvAttenuation}
-              onValueChange={setCvAttenuation}
+              {...knob('cvAttenuation')}
               size="xs"
               data-param="cvAttenuation"
             />
@@ -210,8 +222,7 @@ export function LowPassFilterModule({ moduleId }: { moduleId: string }) {
           </div>
           <div className="flex flex-col items-center gap-3">
             <Knob
-              value={resCvAttenuation}
-              onValueChange={setResCvAttenuation}
+              {...knob('resCvAttenuation')}
               size="xs"
               data-param="resCvAttenuation"
             />
@@ -0,0 +1,277 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { createPortal } from 'react-dom'
+import {
+  ConnectionProvider,
+  useConnections,
+} from '@/components/connection-manager'
+import { ModuleContainer } from '@/components/module-container'
+import { useModulePatch, usePatchManager } from '@/components/patch-manager'
+import { Port, PortGroup } from '@/components/port'
+import { Knob } from '@/components/ui/knob'
+import { useModuleInit } from '@/hooks/use-module-init'
+import { portIdOf } from '@/lib/connection-types'
+import { toPx } from '@/lib/layout/pack'
+import {
+  bridgePortAddress,
+  flattenMacroParameters,
+  innerMacroParameters,
+  innerPortAddress,
+  macroColumns,
+  macroPortId,
+  type PatchMacro,
+  type PatchMacroKnob,
+  scopedModuleId,
+  scopedPortAddress,
+} from '@/lib/macros'
+import { fromKnob, knobSteps, toKnob } from '@/lib/module-parameters'
+import { availableModules } from '@/lib/module-registry'
+import { TextLabel } from '../text-label'
+
+export function MacroModule({
+  moduleId,
+  macro,
+}: {
+  moduleId: string
+  macro?: PatchMacro
+}) {
+  if (!macro)
+    return (
+      <ModuleContainer title="macro" moduleId={moduleId}>
+        <TextLabel className="m-auto text-center">missing definition</TextLabel>
+      </ModuleContainer>
+    )
+  return <MacroPanel moduleId={moduleId} macro={macro} />
+}
+
+function MacroPanel({
+  moduleId,
+  macro,
+}: {
+  moduleId: string
+  macro: PatchMacro
+}) {
+  const { getModuleParameters, primeModuleParameters } = usePatchManager()
+
+  // Inner parameters are saved flat on the macro; read them from the inner
+  // modules once they run, from the saved ones until then. The inner modules
+  // own their descriptors, so the macro has none of its own.
+  const { initialParameters } = useModulePatch(moduleId, () =>
+    flattenMacroParameters(
+      macro,
+      (id) => getModuleParameters(scopedModuleId(moduleId, id)) ?? inner[id],
+    ),
+  )
+  const [inner] = useState(() => {
+    const byModule = innerMacroParameters(macro, initialParameters)
+    for (const [id, parameters] of Object.entries(byModule))
+      primeModuleParameters(scopedModuleId(moduleId, id), parameters)
+    return byModule
+  })
+
+  // One pass-through per exposed port: the panel jack and the inner module
+  // both connect to it
+  const proxiesRef = useRef(new Map<string, GainNode>())
+  const { isReady } = useModuleInit(async (ac) => {
+    for (const port of macro.ports) {
+      if (proxiesRef.current.has(port.id)) continue
+      const gain = ac.createGain()
+      gain.gain.value = 1
+      proxiesRef.current.set(port.id, gain)
+    }
+  }, moduleId)
+  const proxies = isReady ? proxiesRef.current : undefined
+
+  // Inner modules run in a hidden host, like the offline renderer's
+  const [host, setHost] = useState<HTMLElement | null>(null)
+  useEffect(() => {
+    const el = document.createElement('div')
+    el.setAttribute('aria-hidden', 'true')
+    el.style.cssText =
+      'position:fixed;left:-100000px;top:0;height:520px;display:flex;visibility:hidden;pointer-events:none'
+    document.body.appendChild(el)
+    setHost(el)
+    return () => el.remove()
+  }, [])
+
+  const columns = macroColumns(macro)
+  const grid = { gridTemplateColumns: `repeat(${columns}, 2.5rem)` }
+  const renderPort = (port: PatchMacro['ports'][number]) => (
+    <Port
+      key={port.id}
+      id={macroPortId(moduleId, port)}
+      type={port.direction}
+      label={port.label}
+      audioType={port.kind}
+      audioNode={proxies?.get(port.id)}
+    />
+  )
+  const inputs = macro.ports.filter((p) => p.direction === 'input')
+  const outputs = macro.ports.filter((p) => p.direction === 'output')
+
+  return (
+    <ModuleContainer title={macro.name} moduleId={moduleId}>
+      <div className="grid justify-center gap-y-3 mt-2" style={grid}>
+        {macro.knobs.map((knob) => (
+          <MacroKnob
+            key={knob.id}
+            macroId={moduleId}
+            macro={macro}
+            knob={knob}
+          />
+        ))}
+      </div>
+      <div className="flex-1" />
+      <div className="grid justify-center gap-y-1" style={grid}>
+        {inputs.map(renderPort)}
+      </div>
+      {outputs.length > 0 && (
+        <PortGroup className="justify-center mt-2">
+          <div className="grid" style={grid}>
+            {outputs.map(renderPort)}
+          </div>
+        </PortGroup>
+      )}
+      {host &&
+        createPortal(
+          <ConnectionProvider>
+            <MacroInternals
+              macroId={moduleId}
+              macro={macro}
+              proxies={proxies}
+            />
+          </ConnectionProvider>,
+          host,
+        )}
+    </ModuleContainer>
+  )
+}
+
+function MacroKnob({
+  macroId,
+  macro,
+  knob,
+}: {
+  macroId: string
+  macro: PatchMacro
+  knob: PatchMacroKnob
+}) {
+  const {
+    getModuleParameters,
+    applyModuleParameters,
+    subscribeModuleParameters,
+  } = usePatchManager()
+  const innerId = scopedModuleId(macroId, knob.moduleId)
+  const type = macro.patch.modules.find((m) => m.id === knob.moduleId)?.type
+  const descriptor = availableModules
+    .find((m) => m.type === type)
+    ?.parameters.find((p) => p.id === knob.parameter)
+  const [position, setPosition] = useState(0)
+
+  // The inner parameter also changes through undo, presets and MIDI
+  useEffect(() => {
+    if (!descriptor) return
+    const sync = (parameters?: Record<string, any>) => {
+      const value = parameters?.[knob.parameter]
+      if (value !== undefined) setPosition(toKnob(descriptor, value))
+    }
+    sync(getModuleParameters(innerId))
+    return subscribeModuleParameters(innerId, sync)
+  }, [
+    descriptor,
+    innerId,
+    knob.parameter,
+    getModuleParameters,
+    subscribeModuleParameters,
+  ])
+
+  if (!descriptor) return null
+  return (
+    <Knob
+      value={[position]}
+      onValueChange={([v]) => {
+        setPosition(v)
+        // Recorded in history by the inner module
+        applyModuleParameters(innerId, {
+          [knob.parameter]: fromKnob(descriptor, v),
+        })
+      }}
+      size="xs"
+      steps={knobSteps(descriptor)}
+      label={knob.label}
+      controlId={knob.id}
+    />
+  )
+}
+
+// The inner modules and cables, on a connection graph of their own. Each
+// exposed port adds a cable between its proxy and the inner port.
+function MacroInternals({
+  macroId,
+  macro,
+  proxies,
+}: {
+  macroId: string
+  macro: PatchMacro
+  proxies?: Map<string, GainNode>
+}) {
+  const { loadPatch } = useConnections()
+
+  // Edges bind as soon as both ports register their audio nodes
+  useEffect(() => {
+    loadPatch({
+      modules: [],
+      connections: [
+        ...macro.patch.connections.map((c) => ({
+          ...c,
+          from: scopedPortAddress(macroId, c.from),
+          to: scopedPortAddress(macroId, c.to),
+          color: c.color || '#888888',
+        })),
+        ...macro.ports.map((p) => {
+          const bridge = bridgePortAddress(macroId, p)
+          const inner = innerPortAddress(macroId, p)
+          return {
+            id: portIdOf(bridge),
+            from: p.direction === 'input' ? bridge : inner,
+            to: p.direction === 'input' ? inner : bridge,
+            // Bridges run at the rate of the port they stand for
+            kind: p.kind === 'audio' ? ('audio' as const) : ('cv' as const),
+            color: '#888888',
+          }
+        }),
+      ],
+    })
+  }, [macroId, macro, loadPatch])
+
+  return (
+    <>
+      {macro.patch.modules.map((m) => {
+        const entry = availableModules.find((x) => x.type === m.type)
+        if (!entry) return null
+        const Cmp = entry.component
+        return (
+          <div
+            key={m.id}
+            className="relative h-full shrink-0"
+            style={{ width: toPx(entry.hp) }}
+          >
+            <Cmp moduleId={scopedModuleId(macroId, m.id)} />
+          </div>
+        )
+      })}
+      {macro.ports.map((p) => (
+        <Port
+          key={p.id}
+          id={portIdOf(bridgePortAddress(macroId, p))}
+          moduleId={bridgePortAddress(macroId, p).moduleId}
+          type={p.direction === 'input' ? 'output' : 'input'}
+          audioType={p.kind}
+          audioNode={proxies?.get(p.id)}
+          indicator={false}
+        />
+      ))}
+    </>
+  )
+}
@@ -3,35 +3,44 @@
 import { useEffect, useMemo, useRef, useState } from 'react'
 import { useConnections } from '@/components/connection-manager'
 import { ModuleContainer } from '@/components/module-container'
-import { useModulePatch } from '@/components/patch-manager'
 import { Port, PortGroup } from '@/components/port'
 import { Knob } from '@/components/ui/knob'
 import { Slider } from '@/components/ui/slider'
 import { useModuleInit } from '@/hooks/use-module-init'
-import { getAudioContext } from '@/lib/helpers'
+import { useModuleParameters } from '@/hooks/use-module-parameters'
+import { portIdOf } from '@/lib/connection-types'
+import { defineParameters } from '@/lib/module-parameters'
+import {
+  input,
+  type ModulePortDescriptor,
+  numbered,
+  output,
+} from '@/lib/module-ports'
 import { TextLabel } from '../text-label'
 import { ToggleSwitch } from '../ui/toggle-switch'
 
-export function MixerVCAModule({ moduleId }: { moduleId: string }) {
-  // Register with patch manager and get initial parameters
-  const { initialParameters } = useModulePatch(moduleId, () => ({
-    chanLevels,
-    mixLevel: mixLevel[0],
-    expo,
-  }))
+export const mixerVcaParameters = defineParameters([
+  { id: 'chanLevels', label: 'Level', min: 0, max: 1, default: 0.75, count: 4 },
+  // Processor maps 0.5 => 1x, 1.0 => 2x (~+6 dB)
+  { id: 'mixLevel', label: 'Mix', min: 0, max: 1, default: 0.5 },
+  { id: 'expo', label: 'Expo', kind: 'toggle', default: false },
+])
 
-  const [chanLevels, setChanLevels] = useState<
-    [number, number, number, number]
-  >(
-    (initialParameters?.chanLevels as [number, number, number, number]) ?? [
-      0.75, 0.75, 0.75, 0.75,
-    ],
-  )
+export const mixerVcaPorts: readonly ModulePortDescriptor[] = [
+  ...numbered(4, (n) => input(`ch${n}-in`, 'any'), 0),
+  ...numbered(4, (n) => input(`ch${n}-cv-in`, 'cv'), 0),
+  input('mix-cv-in', 'cv'),
+  output('mix-out', 'any'),
+  ...numbered(4, (n) => output(`ch${n}-out`, 'any'), 0),
+]
+
+export function MixerVCAModule({ moduleId }: { moduleId: string }) {
   // Mix knob raw 0..1; processor maps 0.5 => 1x, 1.0 => 2x (~+6 dB)
-  const [mixLevel, setMixLevel] = useState<number[]>([
-    initialParameters?.mixLevel ?? 0.5,
-  ])
-  const [expo, setExpo] = useState<boolean>(initialParameters?.expo ?? false)
+  const { values, set, knob } = useModuleParameters(
+    moduleId,
+    mixerVcaParameters,
+  )
+  const { chanLevels, mixLevel, expo } = values
 
   const acRef = useRef<AudioContext | null>(null)
   const chInRef = useRef<GainNode[]>([])
@@ -51,9 +60,8 @@ export function MixerVCAModule({ moduleId }: { moduleId: string }) {
   ])
   const [nodeReady, setNodeReady] = useState(false)
 
-  useModuleInit(async () => {
+  useModuleInit(async (ac) => {
     if (nodeRef.current) return
-    const ac = getAudioContext()
     acRef.current = ac
     await ac.audioWorklet.addModule('/mixer-vca-processor.js')
 
@@ -79,6 +87,7 @@ export function MixerVCAModule({ moduleId }: { moduleId: string }) {
     mixOutRef.current.gain.value = 1
 
     const node = new AudioWorkletNode(ac, 'mixer-vca-processor', {
+      processorOptions: { moduleId },
       numberOfInputs: 9,
       numberOfOutputs: 5,
       outputChannelCount: [1, 1, 1, 1, 1],
@@ -100,7 +109,7 @@ export function MixerVCAModule({ moduleId }: { moduleId: string }) {
         // Keep mix VCA fully open when no CV is connected
         mixOffset: 0,
         mixAmount: 1,
-        mixKnob: mixLevel[0],
+        mixKnob: mixLevel,
         expo: expo ? 1 : 0,
         slewMs: 1,
         dcBlock: 1,
@@ -146,7 +155,7 @@ export function MixerVCAModule({ moduleId }: { moduleId: string }) {
       node = nodeRef.current
     if (!ac || !node) return
     // Mix knob controls only post-mix gain scalar (0.5 => 1x, 1.0 => 2x)
-    node.parameters.get('mixKnob')?.setValueAtTime(mixLevel[0], ac.currentTime)
+    node.parameters.get('mixKnob')?.setValueAtTime(mixLevel, ac.currentTime)
   }, [mixLevel])
 
   // Detect whether Mix CV input is connected and bind/unbind node to input 8 accordingly
@@ -156,7 +165,7 @@ export function MixerVCAModule({ moduleId }: { moduleId: string }) {
     if (!node || !mixCv || !nodeReady) return
 
     const portId = `${moduleId}-mix-cv-in`
-    const isConnected = connections.some((e) => e.to === portId)
+    const isConnected = connections.some((e) => portIdOf(e.to) === portId)
 
     if (isConnected && !mixCvConnectedRef.current) {
       try {
@@ -177,7 +186,7 @@ export function MixerVCAModule({ moduleId }: { moduleId: string }) {
     if (!node || !nodeReady) return
     for (let i = 0; i < 4; i++) {
       const portId = `${moduleId}-ch${i}-cv-in`
-      const isConnected = connections.some((e) => e.to === portId)
+      const isConnected = connections.some((e) => portIdOf(e.to) === portId)
       if (isConnected && !chCvConnectedRef.current[i]) {
         const cv = chCvRef.current[i]
         if (cv) {
@@ -216,13 +225,7 @@ export function MixerVCAModule({ moduleId }: { moduleId: string }) {
             max={1}
             step={0.01}
             size="md"
-            onValueChange={(v) =>
-              setChanLevels((prev) => {
-                const next = [...prev] as [number, number, number, number]
-                next[i] = Array.isArray(v) ? v[0] : (v as unknown as number)
-                return next
-              })
-            }
+            onValueChange={knob('chanLevels', i).onValueChange}
           />
           <TextLabel variant="control" className="text-[9px]">
             CH{i + 1}
@@ -264,7 +267,7 @@ export function MixerVCAModule({ moduleId }: { moduleId: string }) {
               audioType="cv"
               audioNode={mixCvRef.current ?? undefined}
             />
-            <Knob value={mixLevel} onValueChange={setMixLevel} label="Mix" />
+            <Knob {...knob('mixLevel')} label="Mix" />
             <PortGroup>
               <Port
                 id={`${moduleId}-mix-out`}
@@ -281,7 +284,7 @@ export function MixerVCAModule({ moduleId }: { moduleId: string }) {
             topLabel="Exp"
             orientation="horizontal"
             value={expo}
-            onValueChange={setExpo}
+            onValueChange={(v) => set('expo', v)}
           />
         </div>
 
@@ -295,6 +298,7 @@ export function MixerVCAModule({ moduleId }: { moduleId: string }) {
                 <Port
                   id={`${moduleId}-ch${i}-cv-in`}
                   type="input"
+                  section={`${i}`}
                   label={`CV${i + 1}`}
                   audioType="cv"
                   audioNode={chCvRef.current[i] ?? undefined}
@@ -302,6 +306,7 @@ export function MixerVCAModule({ moduleId }: { moduleId: string }) {
                 <Port
                   id={`${moduleId}-ch${i}-in`}
                   type="input"
+                  section={`${i}`}
                   label={`IN${i + 1}`}
                   audioType="any"
                   audioNode={chInRef.current[i] ?? undefined}
@@ -319,6 +324,7 @@ export function MixerVCAModule({ moduleId }: { moduleId: string }) {
                 <Port
                   id={`${moduleId}-ch${i}-out`}
                   type="output"
+                  section={`${i}`}
                   label={`OUT${i + 1}`}
                   audioType="any"
                   audioNode={chOutRef.current[i] ?? undefined}
@@ -1,15 +1,15 @@
 'use client'
 
-import { useCallback, useEffect, useRef, useState } from 'react'
+import { useRef } from 'react'
 import { ModuleContainer } from '@/components/module-container'
-import { useModulePatch } from '@/components/patch-manager'
 import { Port, PortGroup } from '@/components/port'
-import { Button } from '@/components/ui/button'
 import { Knob } from '@/components/ui/knob'
-import { KnobV3 } from '@/components/ui/knob-v3'
 import { useModuleInit } from '@/hooks/use-module-init'
-import { getAudioContext } from '@/lib/helpers'
-import { mapLinear } from '@/lib/utils'
+import { useModuleParameters } from '@/hooks/use-module-parameters'
+import { usePolyChannels } from '@/hooks/use-poly-channels'
+import { defineParameters } from '@/lib/module-parameters'
+import { input, type ModulePortDescriptor, output } from '@/lib/module-ports'
+import { polyWorkletOptions } from '@/lib/polyphony'
 import { VLine } from '../marks'
 import { ToggleGroup, ToggleGroupItem } from '../ui/toggle-group'
 
@@ -52,51 +52,113 @@ const WaveformIcon = ({ type }: { type: WaveType }) => {
   }
 }
 
-export function OscillatorModule({ moduleId }: { moduleId: string }) {
-  // Register with patch manager and get initial parameters
-  const { initialParameters } = useModulePatch(moduleId, () => ({
-    tune: tune[0],
-    octave: octave[0],
-    phase: phase[0],
-    waveType,
-    pulseWidth: pulseWidth[0],
-    syncAmount: syncAmount[0],
-    waveformMorph: waveformMorph[0],
-    fmAmount: fmAmount[0],
-    pwmCvAmt: pwmCvAmt[0],
-    morphCvAmt: morphCvAmt[0],
-  }))
+export const oscillatorParameters = defineParameters([
+  {
+    id: 'waveType',
+    label: 'Wave',
+    kind: 'choice',
+    options: ['sine', 'square', 'sawtooth', 'triangle'],
+    default: 'square',
+    param: 'waveform',
+  },
+  {
+    id: 'octave',
+    label: 'Octave',
+    min: -4,
+    max: 4,
+    step: 1,
+    default: -4,
+    param: 'octave',
+  },
+  {
+    id: 'tune',
+    label: 'Tune',
+    min: -600,
+    max: 600,
+    default: -600,
+    unit: 'cents',
+    param: 'tune',
+  },
+  {
+    id: 'phase',
+    label: 'Phase',
+    min: 0,
+    max: 6.28,
+    default: 0,
+    unit: 'rad',
+    param: 'phase',
+  },
+  {
+    id: 'pulseWidth',
+    label: 'PWM',
+    min: 0,
+    max: 1,
+    default: 0.5,
+    param: 'pulseWidth',
+  },
+  {
+    id: 'syncAmount',
+    label: 'Sync',
+    min: 0,
+    max: 1,
+    default: 0,
+    param: 'syncAmount',
+  },
+  {
+    id: 'waveformMorph',
+    label: 'Morph',
+    min: 0,
+    max: 1,
+    default: 0,
+    param: 'waveformMorph',
+  },
+  {
+    id: 'fmAmount',
+    label: 'FM Amount',
+    min: 0,
+    max: 1,
+    default: 0,
+    param: 'fmAmount',
+  },
+  {
+    id: 'pwmCvAmt',
+    label: 'PWM CV Amount',
+    min: 0,
+    max: 1,
+    default: 1,
+    param: 'pwmCvAmt',
+  },
+  {
+    id: 'morphCvAmt',
+    label: 'Morph CV Amount',
+    min: 0,
+    max: 1,
+    default: 1,
+    param: 'morphCvAmt',
+  },
+])
 
-  const [tune, setTune] = useState<number[]>([initialParameters?.tune ?? 0])
-  const [octave, setOctave] = useState<number[]>([
-    initialParameters?.octave ?? 0,
-  ])
-  const [phase, setPhase] = useState<number[]>([initialParameters?.phase ?? 0])
-  const [waveType, setWaveType] = useState<WaveType>(
-    initialParameters?.waveType ?? 'square',
-  )
-  const [pulseWidth, setPulseWidth] = useState<number[]>([
-    initialParameters?.pulseWidth ?? 0.5,
-  ])
-  const [syncAmount, setSyncAmount] = useState<number[]>([
-    initialParameters?.syncAmount ?? 0,
-  ])
-  const [waveformMorph, setWaveformMorph] = useState<number[]>([
-    initialParameters?.waveformMorph ?? 0,
-  ])
-  const [fmAmount, setFmAmount] = useState<number[]>([
-    initialParameters?.fmAmount ?? 0,
-  ])
-  const [pwmCvAmt, setPwmCvAmt] = useState<number[]>([
-    initialParameters?.pwmCvAmt ?? 1,
-  ])
-  const [morphCvAmt, setMorphCvAmt] = useState<number[]>([
-    initialParameters?.morphCvAmt ?? 1,
-  ])
+export const oscillatorPorts: readonly ModulePortDescriptor[] = [
+  output('audio-out', 'audio'),
+  input('freq-in', 'pitch'),
+  input('fm-in', 'any'),
+  input('morph-in', 'cv'),
+  input('pwm-in', 'cv'),
+  input('sync-in', 'audio'),
+]
 
-  const audioContextRef = useRef<AudioContext | null>(null)
+export function OscillatorModule({ moduleId }: { moduleId: string }) {
   const workletNodeRef = useRef<AudioWorkletNode | null>(null)
 
+  // Knobs, persistence, undo and worklet params from the descriptors
+  const { values, set, knob, applyToNode } = useModuleParameters(
+    moduleId,
+    oscillatorParameters,
+    { node: workletNodeRef },
+  )
+  // One voice per pitch (or other input) channel
+  const { channels, bindPoly } = usePolyChannels()
+
   // Inputs (CV/audio)
   const frequencyInputRef = useRef<GainNode | null>(null) // Pitch CV (1V/Oct)
   const syncInputRef = useRef<GainNode | null>(null) // Sync (audio)
@@ -107,18 +169,9 @@ export function OscillatorModule({ moduleId }: { moduleId: string }) {
   // Output
   const outputRef = useRef<GainNode | null>(null)
 
-  const getWaveformIndex = useCallback(
-    (wave: WaveType): number =>
-      ({ sine: 0, square: 1, sawtooth: 2, triangle: 3 })[wave],
-    [],
-  )
-
-  useModuleInit(async () => {
+  useModuleInit(async (ac) => {
     if (workletNodeRef.current) return // Already initialized
 
-    const ac = getAudioContext()
-    audioContextRef.current = ac
-
     if (ac.state === 'suspended') await ac.resume()
     await ac.audioWorklet.addModule('/oscillator-processor.js')
 
@@ -137,27 +190,14 @@ export function OscillatorModule({ moduleId }: { moduleId: string }) {
     outputRef.current.gain.value = 1
 
     const w = new AudioWorkletNode(ac, 'oscillator-processor', {
-      numberOfInputs: 5,
-      numberOfOutputs: 1,
-      outputChannelCount: [1],
-      channelCount: 1,
-      channelCountMode: 'explicit',
-      channelInterpretation: 'speakers',
+      ...polyWorkletOptions(5, 1),
+      processorOptions: { moduleId },
     })
 
     const t = ac.currentTime
     w.parameters.get('frequency')?.setValueAtTime(440, t)
-    w.parameters.get('waveform')?.setValueAtTime(getWaveformIndex(waveType), t)
-    w.parameters.get('phase')?.setValueAtTime(phase[0], t)
-    w.parameters.get('tune')?.setValueAtTime(knobToTune(tune[0]), t)
-    w.parameters.get('octave')?.setValueAtTime(knobToOctave(octave[0]), t)
-    w.parameters.get('pulseWidth')?.setValueAtTime(pulseWidth[0], t)
     w.parameters.get('gain')?.setValueAtTime(5, t)
-    w.parameters.get('syncAmount')?.setValueAtTime(syncAmount[0], t)
-    w.parameters.get('waveformMorph')?.setValueAtTime(waveformMorph[0], t)
-    w.parameters.get('fmAmount')?.setValueAtTime(fmAmount[0], t)
-    w.parameters.get('pwmCvAmt')?.setValueAtTime(pwmCvAmt[0], t)
-    w.parameters.get('morphCvAmt')?.setValueAtTime(morphCvAmt[0], t) // NEW
+    applyToNode(w)
 
     // Inputs → worklet (0..4)
     frequencyInputRef.current.connect(w, 0, 0) // Note CV (1V/Oct)
@@ -167,69 +207,18 @@ export function OscillatorModule({ moduleId }: { moduleId: string }) {
     morphInputRef.current.connect(w, 0, 4) // Morph CV (NEW)
 
     w.connect(outputRef.current)
+    bindPoly(w, [outputRef.current])
 
     workletNodeRef.current = w
   }, moduleId)
 
-  const tuneToKnob = (tuneValue: number) => (tuneValue + 600) / 1200
-  const knobToTune = (knobValue: number) => mapLinear(knobValue, -600, 600)
-  const octaveToKnob = (octaveValue: number) => (octaveValue + 4) / 8
-  const knobToOctave = (knobValue: number) =>
-    Math.round(mapLinear(knobValue, -4, 4))
-  const phaseToKnob = (phaseValue: number) => phaseValue / 6.28
-  const knobToPhase = (knobValue: number) => mapLinear(knobValue, 0, 6.28)
-
-  // Helper function to push all parameters to the audio worklet
-  const pushParametersToWorklet = useCallback(() => {
-    const ac = audioContextRef.current,
-      w = workletNodeRef.current
-    if (!ac || !w) return
-    const now = ac.currentTime
-
-    w.parameters.get('tune')?.setTargetAtTime(knobToTune(tune[0]), now, 0.01)
-    w.parameters
-      .get('octave')
-      ?.setTargetAtTime(knobToOctave(octave[0]), now, 0.01)
-    w.parameters.get('phase')?.setTargetAtTime(phase[0], now, 0.01)
-    const wf = w.parameters.get('waveform')
-    if (wf) {
-      wf.cancelScheduledValues(now)
-      wf.setValueAtTime(getWaveformIndex(waveType), now)
-    }
-    w.parameters.get('pulseWidth')?.setTargetAtTime(pulseWidth[0], now, 0.01)
-    w.parameters.get('syncAmount')?.setTargetAtTime(syncAmount[0], now, 0.01)
-    w.parameters
-      .get('waveformMorph')
-      ?.setTargetAtTime(waveformMorph[0], now, 0.01)
-    w.parameters.get('fmAmount')?.setTargetAtTime(fmAmount[0], now, 0.01)
-    w.parameters.get('pwmCvAmt')?.setTargetAtTime(pwmCvAmt[0], now, 0.01)
-    w.parameters.get('morphCvAmt')?.setTargetAtTime(morphCvAmt[0], now, 0.01)
-  }, [
-    tune,
-    octave,
-    phase,
-    waveType,
-    pulseWidth,
-    syncAmount,
-    waveformMorph,
-    fmAmount,
-    pwmCvAmt,
-    morphCvAmt,
-    getWaveformIndex,
-  ])
-
-  // Push param changes when values change
-  useEffect(() => {
-    pushParametersToWorklet()
-  }, [pushParametersToWorklet])
-
   return (
     <ModuleContainer moduleId={moduleId} title="VCO">
       <ToggleGroup
         type="single"
-        value={waveType}
+        value={values.waveType}
         size="md"
-        onValueChange={(v) => setWaveType(v as WaveType)}
+        onValueChange={(v) => v && set('waveType', v as WaveType)}
       >
         {(['sine', 'square', 'sawtooth', 'triangle'] as WaveType[]).map(
           (wave) => (
@@ -241,35 +230,14 @@ export function OscillatorModule({ moduleId }: { moduleId: string }) {
       </ToggleGroup>
 
       <div className="flex flex-col items-center gap-6 mt-5">
-        <Knob
-          value={octave}
-          onValueChange={setOctave}
-          size="lg"
-          label="Octave"
-          steps={9}
-        />
+        <Knob {...knob('octave')} size="lg" label="Octave" />
 
-        <Knob value={tune} onValueChange={setTune} size="md" label="Tune" />
-        {/* <Knob
-            value={[phaseToKnob(phase[0])]}
-            onValueChange={(v) => setPhase([knobToPhase(v[0])])}
-            size="sm"
-            label="Phase"
-          /> */}
+        <Knob {...knob('tune')} size="md" label="Tune" />
+        {/* <Knob {...knob('phase')} size="sm" label="Phase" /> */}
 
         <div className="flex gap-6 justify-center">
-          <Knob
-            value={syncAmount}
-            onValueChange={setSyncAmount}
-            size="sm"
-            label="Sync"
-          />
-          <Knob
-            value={pulseWidth}
-            onValueChange={setPulseWidth}
-            size="sm"
-            label="PWM"
-          />
+          <Knob {...knob('syncAmount')} size="sm" label="Sync" />
+          <Knob {...knob('pulseWidth')} size="sm" label="PWM" />
         </div>
 
         {/* xs attenuators */}
@@ -282,7 +250,7 @@ export function OscillatorModule({ moduleId }: { moduleId: string }) {
       <div className="flex flex-col gap-1">
         <div className="flex justify-between">
           <div className="flex flex-col items-center gap-3">
-            <Knob value={fmAmount} onValueChange={setFmAmount} size="xs" />
+            <Knob {...knob('fmAmount')} size="xs" />
             <VLine />
             <Port
               id={`${moduleId}-fm-in`}
@@ -293,7 +261,7 @@ export function OscillatorModule({ moduleId }: { moduleId: string }) {
             />
           </div>
           <div className="flex flex-col items-center gap-3">
-            <Knob value={morphCvAmt} onValueChange={setMorphCvAmt} size="xs" />
+            <Knob {...knob('morphCvAmt')} size="xs" />
             <VLine />
             <Port
               id={`${moduleId}-morph-in`}
@@ -304,7 +272,7 @@ export function OscillatorModule({ moduleId }: { moduleId: string }) {
             />
           </div>
           <div className="flex flex-col items-center gap-3">
-            <Knob value={pwmCvAmt} onValueChange={setPwmCvAmt} size="xs" />
+            <Knob {...knob('pwmCvAmt')} size="xs" />
             <VLine />
             <Port
               id={`${moduleId}-pwm-in`}
@@ -319,7 +287,7 @@ export function OscillatorModule({ moduleId }: { moduleId: string }) {
           <Port
             id={`${moduleId}-freq-in`}
             type="input"
-            audioType="cv"
+            audioType="pitch"
             label="Note"
             audioNode={frequencyInputRef.current ?? undefined}
           />
@@ -337,6 +305,7 @@ export function OscillatorModule({ moduleId }: { moduleId: string }) {
               audioType="audio"
               label="Out"
               audioNode={outputRef.current ?? undefined}
+              channels={channels}
             />
           </PortGroup>
         </div>
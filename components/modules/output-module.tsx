@@ -1,14 +1,21 @@
 'use client'
 
 import { useCallback, useEffect, useRef, useState } from 'react'
+import { useAudioEngine } from '@/components/audio-engine-context'
 import { ModuleContainer } from '@/components/module-container'
-import { useModulePatch } from '@/components/patch-manager'
 import { Port, PortGroup } from '@/components/port'
 import { Button } from '@/components/ui/button'
 import { Knob } from '@/components/ui/knob'
+import { Toggle } from '@/components/ui/toggle'
 import { useModuleInit } from '@/hooks/use-module-init'
+import { useModuleParameters } from '@/hooks/use-module-parameters'
 import { getAudioContext } from '@/lib/helpers'
+import { defineParameters } from '@/lib/module-parameters'
+import { input, type ModulePortDescriptor } from '@/lib/module-ports'
+import { connectPolySum } from '@/lib/polyphony'
 import { cn } from '@/lib/utils'
+import { downloadBlob, encodeWav } from '@/lib/wav'
+import { TextLabel } from '../text-label'
 
 // Simple quality helpers
 function makeDCBlocker(ctx: AudioContext, cutoffHz = 18) {
@@ -31,16 +38,31 @@ function makeSoftClipper(ctx: AudioContext) {
   return ws
 }
 
+export const outputParameters = defineParameters([
+  { id: 'volume', label: 'Volume', min: 0, max: 1, default: 0.75 },
+  { id: 'armOnClock', label: 'Arm on Clk', kind: 'toggle', default: false },
+])
+
+export const outputPorts: readonly ModulePortDescriptor[] = [
+  input('left-in', 'audio'),
+  input('right-in', 'audio'),
+  input('clock-in', 'trigger'),
+]
+
 export function OutputModule({ moduleId }: { moduleId: string }) {
-  // Register with patch manager and get initial parameters
-  const { initialParameters } = useModulePatch(moduleId, () => ({
-    volume,
-  }))
+  const { offline } = useAudioEngine()
+  const { values, set, knob, initialParameters } = useModuleParameters(
+    moduleId,
+    outputParameters,
+  )
+  const { volume, armOnClock } = values
 
   const [isPlaying, setIsPlaying] = useState(
     initialParameters?.isPlaying ?? false,
   )
-  const [volume, setVolume] = useState(initialParameters?.volume ?? 0.75)
+  const [recState, setRecState] = useState<'idle' | 'armed' | 'recording'>(
+    'idle',
+  )
 
   // Meter DOM element refs (no React state for metering)
   const leftBarElRef = useRef<HTMLDivElement | null>(null)
@@ -74,6 +96,11 @@ export function OutputModule({ moduleId }: { moduleId: string }) {
   const lastMeterTs = useRef(0)
   const outMeterSAB = useRef<Float32Array | null>(null)
 
+  // Recording (tap after trim/soft-clip/limiter, before the master mute)
+  const recorderNodeRef = useRef<AudioWorkletNode | null>(null)
+  const recTrigInRef = useRef<GainNode | null>(null)
+  const recChunksRef = useRef<{ left: Float32Array; right: Float32Array }[]>([])
+
   // shadow refs to avoid setState spam
   const rmsLRef = useRef(0),
     rmsRRef = useRef(0)
@@ -94,14 +121,46 @@ export function OutputModule({ moduleId }: { moduleId: string }) {
   const knobToGain = (v: number) => (v <= 0 ? 0 : 10 ** ((-48 + v * 48) / 20))
   const synthToLine = 0.25 // headroom
 
-  useModuleInit(async () => {
+  // Collect recorder chunks; write the WAV once the worklet confirms stop
+  const onRecorderMessage = useCallback(
+    (e: MessageEvent) => {
+      const data = e.data || {}
+      if (data.type === 'started') {
+        setRecState('recording')
+      } else if (data.type === 'chunk') {
+        recChunksRef.current.push({ left: data.left, right: data.right })
+      } else if (data.type === 'stopped') {
+        const chunks = recChunksRef.current
+        recChunksRef.current = []
+        const ac = acRef.current
+        if (!ac || chunks.length === 0) return
+        const frames = chunks.reduce((n, c) => n + c.left.length, 0)
+        const left = new Float32Array(frames)
+        const right = new Float32Array(frames)
+        let offset = 0
+        for (const c of chunks) {
+          left.set(c.left, offset)
+          right.set(c.right, offset)
+          offset += c.left.length
+        }
+        const stamp = new Date().toISOString().replace(/[:.]/g, '-')
+        downloadBlob(
+          encodeWav([left, right], ac.sampleRate, 24),
+          `${moduleId}-${stamp}.wav`,
+        )
+      }
+    },
+    [moduleId],
+  )
+
+  useModuleInit(async (ac) => {
     if (meterNodeRef.current || leftAnalyserRef.current) return // Already initialized
 
-    const ac = getAudioContext()
     acRef.current = ac
 
     // Try to load meter worklet
     await ac.audioWorklet.addModule('/output-meter-processor.js')
+    await ac.audioWorklet.addModule('/recorder-processor.js')
 
     const leftIn = ac.createGain(),
       rightIn = ac.createGain()
@@ -137,13 +196,16 @@ export function OutputModule({ moduleId }: { moduleId: string }) {
     outMergerRef.current = outMerger
 
     const master = ac.createGain()
-    master.gain.value = 0 // Start muted, will be controlled by start/stop functions
+    // Start muted, will be controlled by start/stop functions.
+    // Offline renders have no Enable button, so the bus is always open.
+    master.gain.value = offline ? 1 : 0
     masterGainRef.current = master
 
     // Meter path: worklet or analyser fallback
     if ((ac as any).audioWorklet && (AudioWorkletNode as any)) {
       try {
         const meter = new AudioWorkletNode(ac, 'output-meter', {
+          processorOptions: { moduleId },
           numberOfInputs: 1,
           numberOfOutputs: 0,
           channelCount: 2,
@@ -198,8 +260,9 @@ export function OutputModule({ moduleId }: { moduleId: string }) {
     leftTrim.gain.setTargetAtTime(initialGain, ac.currentTime, 0.01)
     rightTrim.gain.setTargetAtTime(initialGain, ac.currentTime, 0.01)
 
-    leftIn.connect(leftTrim)
-    rightIn.connect(rightTrim)
+    // Poly cables play every voice: channels are summed per side
+    connectPolySum(ac, leftIn, leftTrim)
+    connectPolySum(ac, rightIn, rightTrim)
     leftTrim.connect(leftDC)
     rightTrim.connect(rightDC)
 
@@ -215,13 +278,30 @@ export function OutputModule({ moduleId }: { moduleId: string }) {
     lim.connect(master)
     master.connect(ac.destination)
 
+    // Recorder tap: input 0 = stereo bus, input 1 = clock/arm trigger
+    const recTrigIn = ac.createGain()
+    recTrigIn.gain.value = 1
+    recTrigInRef.current = recTrigIn
+    const recorder = new AudioWorkletNode(ac, 'recorder-processor', {
+      processorOptions: { moduleId },
+      numberOfInputs: 2,
+      numberOfOutputs: 0,
+      channelCount: 2,
+      channelCountMode: 'explicit',
+      channelInterpretation: 'speakers',
+    })
+    recorder.port.onmessage = onRecorderMessage
+    lim.connect(recorder, 0, 0)
+    recTrigIn.connect(recorder, 0, 1)
+    recorderNodeRef.current = recorder
+
     // Start meter loop after initialization completes
     rAF.current = requestAnimationFrame(meterLoop)
   }, moduleId)
 
   // console removed
 
-  // Cleanup on unmount: stop RAF and detach meter port
+  // Cleanup on unmount: stop RAF, detach meter port and finish any take
   useEffect(() => {
     return () => {
       if (rAF.current != null) {
@@ -233,8 +313,22 @@ export function OutputModule({ moduleId }: { moduleId: string }) {
           meterNodeRef.current.port.onmessage = null
         } catch {}
       }
+      const recorder = recorderNodeRef.current
+      if (recorder) {
+        // Keep listening until the worklet has posted its last chunk, so a
+        // take that is still running gets written out
+        recorder.port.onmessage = (e: MessageEvent) => {
+          onRecorderMessage(e)
+          if (e.data?.type === 'stopped') recorder.port.onmessage = null
+        }
+        try {
+          recorder.port.postMessage({ type: 'stop' })
+        } catch {
+          recorder.port.onmessage = null
+        }
+      }
     }
-  }, [])
+  }, [onRecorderMessage])
 
   // Volume smoothing
   useEffect(() => {
@@ -267,6 +361,20 @@ export function OutputModule({ moduleId }: { moduleId: string }) {
     setIsPlaying(false)
   }, [])
 
+  // Record: start immediately, or arm and wait for the clock reset pulse
+  const toggleRecording = useCallback(() => {
+    const rec = recorderNodeRef.current
+    if (!rec) return
+    if (recState === 'idle') {
+      recChunksRef.current = []
+      rec.port.postMessage({ type: 'start', armed: armOnClock })
+      setRecState(armOnClock ? 'armed' : 'recording')
+    } else {
+      rec.port.postMessage({ type: 'stop' })
+      setRecState('idle')
+    }
+  }, [recState, armOnClock])
+
   // rAF meter loop (30fps throttle, peak-hold decay, clip-LED latch) – DOM updates only
   const meterLoop = useCallback((ts: number) => {
     if (!lastMeterTs.current || ts - lastMeterTs.current > 33) {
@@ -450,12 +558,44 @@ export function OutputModule({ moduleId }: { moduleId: string }) {
 
         {/* Volume */}
         <div className="flex justify-center mb-8">
-          <Knob
-            value={[volume]}
-            onValueChange={(v) => setVolume(v[0])}
-            label="Volume"
-            size="md"
+          <Knob {...knob('volume')} label="Volume" size="md" />
+        </div>
+
+        {/* Record + arm-on-clock */}
+        <div className="flex items-end justify-between">
+          <Port
+            id={`${moduleId}-clock-in`}
+            type="input"
+            label="Clk"
+            audioType="trig"
+            audioNode={recTrigInRef.current ?? undefined}
           />
+          <div className="flex flex-col items-center gap-1.5 pb-1">
+            <TextLabel variant="control">sync</TextLabel>
+            <Toggle
+              pressed={armOnClock}
+              onPressedChange={(v) => set('armOnClock', v)}
+              disabled={recState !== 'idle'}
+              size="sm"
+              variant="push"
+            />
+          </div>
+        </div>
+        <div className="flex justify-center px-2">
+          <Button
+            onClick={toggleRecording}
+            size="xs"
+            className={cn('w-full', {
+              'bg-red-500': recState === 'recording',
+              'bg-yellow-500 animate-pulse': recState === 'armed',
+            })}
+          >
+            {recState === 'recording'
+              ? 'Stop Rec'
+              : recState === 'armed'
+                ? 'Armed'
+                : 'Record'}
+          </Button>
         </div>
 
         {/* Enable/Disable */}
@@ -1,30 +1,52 @@
 'use client'
 
-import { useEffect, useRef, useState } from 'react'
+import { useRef } from 'react'
 import { ModuleContainer } from '@/components/module-container'
-import { useModulePatch } from '@/components/patch-manager'
 import { Port, PortGroup } from '@/components/port'
 import { Knob } from '@/components/ui/knob'
 import { useModuleInit } from '@/hooks/use-module-init'
-import { getAudioContext } from '@/lib/helpers'
+import { useModuleParameters } from '@/hooks/use-module-parameters'
+import { defineParameters } from '@/lib/module-parameters'
+import { input, type ModulePortDescriptor, output } from '@/lib/module-ports'
 
 const SLEW_MS_MIN = 0
 const SLEW_MS_MAX = 1000
-const toMs = (t: number) => SLEW_MS_MIN + t * (SLEW_MS_MAX - SLEW_MS_MIN)
-const fromMs = (ms: number) =>
-  (ms - SLEW_MS_MIN) / (SLEW_MS_MAX - SLEW_MS_MIN || 1)
 
-export function ProcessModule({ moduleId }: { moduleId: string }) {
-  // persistence
-  const { initialParameters } = useModulePatch(moduleId, () => ({
-    slewMs: toMs(slew[0]),
-  }))
-  const [slew, setSlew] = useState([fromMs(initialParameters?.slewMs ?? 50)])
+export const processParameters = defineParameters([
+  {
+    id: 'slewMs',
+    label: 'Slew',
+    min: SLEW_MS_MIN,
+    max: SLEW_MS_MAX,
+    default: 50,
+    unit: 'ms',
+    param: 'slewMsPerV',
+  },
+])
+
+export const processPorts: readonly ModulePortDescriptor[] = [
+  input('in', 'cv'),
+  input('gate-in', 'gate'),
+  input('slew-cv-in', 'cv'),
+  output('slew-out', 'cv'),
+  output('glide-out', 'cv'),
+  output('sh1-out', 'cv'),
+  output('sh2-out', 'cv'),
+  output('th-out', 'cv'),
+  output('ht-out', 'cv'),
+]
 
+export function ProcessModule({ moduleId }: { moduleId: string }) {
   // audio graph refs
-  const acRef = useRef<AudioContext | null>(null)
   const nodeRef = useRef<AudioWorkletNode | null>(null)
 
+  // persistence, and the slew time pushed to the worklet
+  const { knob, applyToNode } = useModuleParameters(
+    moduleId,
+    processParameters,
+    { node: nodeRef },
+  )
+
   // inputs
   const inRef = useRef<GainNode | null>(null)
   const gateRef = useRef<GainNode | null>(null)
@@ -39,10 +61,8 @@ export function ProcessModule({ moduleId }: { moduleId: string }) {
   const glideRef = useRef<GainNode | null>(null)
   const keepAliveRef = useRef<GainNode | null>(null)
 
-  useModuleInit(async () => {
+  useModuleInit(async (ac) => {
     if (nodeRef.current) return
-    const ac = getAudioContext()
-    acRef.current = ac
     await ac.audioWorklet.addModule('/process-processor.js')
 
     const mkIn = () => {
@@ -55,13 +75,14 @@ export function ProcessModule({ moduleId }: { moduleId: string }) {
     slewCvRef.current = mkIn()
 
     const node = new AudioWorkletNode(ac, 'process-processor', {
+      processorOptions: { moduleId },
       numberOfInputs: 3,
       numberOfOutputs: 6,
       outputChannelCount: [1, 1, 1, 1, 1, 1],
       channelCount: 1,
       channelCountMode: 'explicit',
-      parameterData: { slewMsPerV: toMs(slew[0]) },
     })
+    applyToNode(node)
     nodeRef.current = node
 
     inRef.current.connect(node, 0, 0)
@@ -94,20 +115,11 @@ export function ProcessModule({ moduleId }: { moduleId: string }) {
     keepAliveRef.current.connect(ac.destination)
   }, 'Process')
 
-  useEffect(() => {
-    const ac = acRef.current
-    const node = nodeRef.current
-    if (!ac || !node) return
-    node.parameters
-      .get('slewMsPerV')
-      ?.setTargetAtTime(toMs(slew[0]), ac.currentTime, 0.01)
-  }, [slew])
-
   return (
     <ModuleContainer moduleId={moduleId} title="Process">
       <div className="flex flex-col items-center justify-between gap-3 mt-4 flex-1">
         <div className="flex flex-col items-center justify-center gap-6 flex-1">
-          <Knob value={slew} onValueChange={setSlew} label="Slew" size="md" />
+          <Knob {...knob('slewMs')} label="Slew" size="md" />
 
           <div className="flex flex-col items-center gap-1">
             <Port
@@ -1,8 +1,7 @@
 'use client'
 
-import { useEffect, useRef, useState } from 'react'
+import { useEffect, useRef } from 'react'
 import { ModuleContainer } from '@/components/module-container'
-import { useModulePatch } from '@/components/patch-manager'
 import { Port, PortGroup } from '@/components/port'
 import { Knob } from '@/components/ui/knob'
 import {
@@ -15,7 +14,9 @@ import {
   SelectValue,
 } from '@/components/ui/select'
 import { useModuleInit } from '@/hooks/use-module-init'
-import { getAudioContext } from '@/lib/helpers'
+import { useModuleParameters } from '@/hooks/use-module-parameters'
+import { defineParameters } from '@/lib/module-parameters'
+import { input, type ModulePortDescriptor, output } from '@/lib/module-ports'
 import { TextLabel } from '../text-label'
 import { Toggle } from '../ui/toggle'
 
@@ -34,32 +35,58 @@ const SCALES: { id: string; name: string; mask: number }[] = [
 
 const KEYS = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B']
 
-export function QuantizerModule({ moduleId }: { moduleId: string }) {
-  // Register with patch manager and get initial parameters
-  const { initialParameters } = useModulePatch(moduleId, () => ({
-    scaleId,
-    keyIdx,
-    hold,
-    transpose,
-    octave,
-    mask12,
-  }))
+export const quantizerParameters = defineParameters([
+  {
+    id: 'scaleId',
+    label: 'Scale',
+    kind: 'choice',
+    options: SCALES.map((s) => s.id),
+    default: 'major',
+  },
+  { id: 'keyIdx', label: 'Key', min: 0, max: 11, step: 1, default: 0 },
+  { id: 'hold', label: 'Hold', kind: 'toggle', default: false },
+  {
+    id: 'transpose',
+    label: 'Transpose',
+    min: -12,
+    max: 12,
+    step: 1,
+    default: 0,
+    unit: 'st',
+  },
+  {
+    id: 'octave',
+    label: 'Octave',
+    min: -4,
+    max: 4,
+    step: 1,
+    default: 0,
+    unit: 'oct',
+  },
+  // 12-bit note mask (LSB = C), edited on top of the scale
+  {
+    id: 'mask12',
+    label: 'Notes',
+    min: 0,
+    max: 0xfff,
+    step: 1,
+    default: 0b101010110101,
+  },
+])
 
-  const [scaleId, setScaleId] = useState<string>(
-    initialParameters?.scaleId ?? 'major',
-  )
-  const [keyIdx, setKeyIdx] = useState<number>(initialParameters?.keyIdx ?? 0)
-  const [hold, setHold] = useState<boolean>(initialParameters?.hold ?? false)
-  const [transpose, setTranspose] = useState<number>(
-    initialParameters?.transpose ?? 0,
-  ) // semitones -12..+12
-  const [octave, setOctave] = useState<number>(initialParameters?.octave ?? 0) // octaves -4..+4
-  const [mask12, setMask12] = useState<number>(
-    initialParameters?.mask12 ??
-      SCALES.find((s) => s.id === (initialParameters?.scaleId ?? 'major'))
-        ?.mask ??
-      0xfff,
+export const quantizerPorts: readonly ModulePortDescriptor[] = [
+  input('pitch-in', 'cv'),
+  input('trig-in', 'trigger'),
+  output('pitch-out', 'pitch'),
+]
+
+export function QuantizerModule({ moduleId }: { moduleId: string }) {
+  // transpose: semitones -12..+12, octave: octaves -4..+4
+  const { values, set, knob } = useModuleParameters(
+    moduleId,
+    quantizerParameters,
   )
+  const { scaleId, keyIdx, hold, transpose, octave, mask12 } = values
 
   const acRef = useRef<AudioContext | null>(null)
   const nodeRef = useRef<AudioWorkletNode | null>(null)
@@ -68,9 +95,8 @@ export function QuantizerModule({ moduleId }: { moduleId: string }) {
   const pitchOutRef = useRef<GainNode | null>(null)
   const keepAliveRef = useRef<GainNode | null>(null)
 
-  useModuleInit(async () => {
+  useModuleInit(async (ac) => {
     if (nodeRef.current) return
-    const ac = getAudioContext()
     acRef.current = ac
     await ac.audioWorklet.addModule('/quantizer-processor.js')
 
@@ -82,6 +108,7 @@ export function QuantizerModule({ moduleId }: { moduleId: string }) {
     pitchOutRef.current.gain.value = 1
 
     const node = new AudioWorkletNode(ac, 'quantizer-processor', {
+      processorOptions: { moduleId },
       numberOfInputs: 2,
       numberOfOutputs: 1,
       outputChannelCount: [1],
@@ -158,10 +185,10 @@ export function QuantizerModule({ moduleId }: { moduleId: string }) {
           <Select
             value={scaleId}
             onValueChange={(newScaleId) => {
-              setScaleId(newScaleId)
+              set('scaleId', newScaleId as typeof scaleId)
               const scale = SCALES.find((s) => s.id === newScaleId)
               if (scale) {
-                setMask12(scale.mask)
+                set('mask12', scale.mask)
               }
             }}
           >
@@ -180,7 +207,7 @@ export function QuantizerModule({ moduleId }: { moduleId: string }) {
           </Select>
           <Select
             value={String(keyIdx)}
-            onValueChange={(v) => setKeyIdx(Number(v))}
+            onValueChange={(v) => set('keyIdx', Number(v))}
           >
             <SelectGroup>
               <SelectLabel>key</SelectLabel>
@@ -210,14 +237,7 @@ export function QuantizerModule({ moduleId }: { moduleId: string }) {
                   onClick={() => {
                     // Toggle the note in the original mask (before transposition)
                     const noteInOriginalScale = (semitone - keyIdx + 12) % 12
-                    setMask12((prev) => {
-                      const nm = prev ^ (1 << noteInOriginalScale)
-                      nodeRef.current?.port.postMessage({
-                        type: 'scale',
-                        mask12: nm & 0xfff,
-                      })
-                      return nm
-                    })
+                    set('mask12', mask12 ^ (1 << noteInOriginalScale))
                   }}
                 >
                   {on && (
@@ -250,14 +270,7 @@ export function QuantizerModule({ moduleId }: { moduleId: string }) {
                   onClick={() => {
                     // Toggle the note in the original mask (before transposition)
                     const noteInOriginalScale = (semitone - keyIdx + 12) % 12
-                    setMask12((prev) => {
-                      const nm = prev ^ (1 << noteInOriginalScale)
-                      nodeRef.current?.port.postMessage({
-                        type: 'scale',
-                        mask12: nm & 0xfff,
-                      })
-                      return nm
-                    })
+                    set('mask12', mask12 ^ (1 << noteInOriginalScale))
                   }}
                 >
                   {on && (
@@ -274,7 +287,7 @@ export function QuantizerModule({ moduleId }: { moduleId: string }) {
             pressed={hold}
             size="sm"
             variant="push"
-            onClick={() => setHold(!hold)}
+            onClick={() => set('hold', !hold)}
           />
           <TextLabel variant="control" className="">
             HOLD
@@ -283,15 +296,13 @@ export function QuantizerModule({ moduleId }: { moduleId: string }) {
 
         <div className="flex items-center gap-5 pr-1">
           <Knob
-            value={[(transpose + 12) / 24]}
-            onValueChange={(v) => setTranspose(Math.round(v[0] * 24 - 12))}
+            {...knob('transpose')}
             size="sm"
             label="Trans"
             tickLabels={['-12', '-6', '0', '+6', '+12']}
           />
           <Knob
-            value={[(octave + 4) / 8]}
-            onValueChange={(v) => setOctave(Math.round(v[0] * 8 - 4))}
+            {...knob('octave')}
             size="sm"
             label="Oct"
             tickLabels={['-4', '-2', '0', '+2', '+4']}
@@ -310,7 +321,7 @@ export function QuantizerModule({ moduleId }: { moduleId: string }) {
             id={`${moduleId}-trig-in`}
             type="input"
             label="TRIG"
-            audioType="gate"
+            audioType="trig"
             audioNode={trigInRef.current ?? undefined}
           />
           <PortGroup>
@@ -318,7 +329,7 @@ export function QuantizerModule({ moduleId }: { moduleId: string }) {
               id={`${moduleId}-pitch-out`}
               type="output"
               label="OUT"
-              audioType="cv"
+              audioType="pitch"
               audioNode={pitchOutRef.current ?? undefined}
             />
           </PortGroup>
@@ -1,41 +1,36 @@
 'use client'
 
 import { ArrowDown, MoveDown } from 'lucide-react'
-import { useCallback, useEffect, useRef, useState } from 'react'
+import { useEffect, useRef } from 'react'
 import { ModuleContainer } from '@/components/module-container'
-import { useModulePatch } from '@/components/patch-manager'
 import { Port, PortGroup } from '@/components/port'
 import { Knob } from '@/components/ui/knob'
 import { useModuleInit } from '@/hooks/use-module-init'
-import { getAudioContext } from '@/lib/helpers'
+import { useModuleParameters } from '@/hooks/use-module-parameters'
+import { defineParameters } from '@/lib/module-parameters'
+import {
+  input,
+  type ModulePortDescriptor,
+  numbered,
+  output,
+} from '@/lib/module-ports'
 import { mapLinear } from '@/lib/utils'
 import { TextLabel } from '../text-label'
 
-export function RandomModule({ moduleId }: { moduleId: string }) {
-  const { initialParameters } = useModulePatch(moduleId, () => ({
-    atten,
-    offset,
-  }))
-
-  const ensureLen = (
-    arr: number[][] | undefined,
-    len: number,
-    fill: number,
-  ): number[][] => {
-    const result: number[][] = []
-    for (let i = 0; i < len; i++) {
-      const v = arr?.[i]?.[0]
-      result[i] = [typeof v === 'number' ? v : fill]
-    }
-    return result
-  }
+// Offsets are knob positions (0..1 → -5..+5 V)
+export const randomParameters = defineParameters([
+  { id: 'atten', label: 'Atten', min: 0, max: 1, default: 1, count: 8 },
+  { id: 'offset', label: 'Offset', min: 0, max: 1, default: 0.5, count: 8 },
+])
 
-  const [atten, setAtten] = useState(
-    ensureLen(initialParameters?.atten, 8, 1) as number[][],
-  )
-  const [offset, setOffset] = useState(
-    ensureLen(initialParameters?.offset, 8, 0.5) as number[][],
-  )
+export const randomPorts: readonly ModulePortDescriptor[] = [
+  ...numbered(8, (n) => input(`trigger-in-${n}`, 'trigger')),
+  ...numbered(8, (n) => output(`cv-out-${n}`, 'cv')),
+]
+
+export function RandomModule({ moduleId }: { moduleId: string }) {
+  const { values } = useModuleParameters(moduleId, randomParameters)
+  const { atten, offset } = values
 
   const audioContextRef = useRef<AudioContext | null>(null)
   const workletRef = useRef<AudioWorkletNode | null>(null)
@@ -81,68 +76,51 @@ export function RandomModule({ moduleId }: { moduleId: string }) {
   const paramName = (kind: 'atten' | 'offset', idx: number) =>
     `${kind}${idx + 1}` as const
 
-  const setAttenIdx = (idx: number) => (v: number[]) => {
-    setAtten((prev: number[][]) => {
-      const next = [...prev]
-      next[idx] = v
-      return next
-    })
+  useEffect(() => {
     const ac = audioContextRef.current
     const node = workletRef.current
-    if (ac && node) {
+    if (!ac || !node) return
+    for (let i = 0; i < 8; i++) {
       node.parameters
-        .get(paramName('atten', idx))
-        ?.setValueAtTime(v[0] ?? 0, ac.currentTime)
-    }
-  }
-
-  const setOffsetIdx = (idx: number) => (v: number[]) => {
-    // map 0..1 -> -5..+5
-    const volts = mapLinear(v[0] ?? 0, -5, 5)
-    setOffset((prev: number[][]) => {
-      const next = [...prev]
-      next[idx] = v
-      return next
-    })
-    const ac = audioContextRef.current
-    const node = workletRef.current
-    if (ac && node) {
+        .get(paramName('atten', i))
+        ?.setValueAtTime(atten[i], ac.currentTime)
+      // map 0..1 -> -5..+5
       node.parameters
-        .get(paramName('offset', idx))
-        ?.setValueAtTime(volts, ac.currentTime)
+        .get(paramName('offset', i))
+        ?.setValueAtTime(mapLinear(offset[i], -5, 5), ac.currentTime)
     }
-  }
+  }, [atten, offset])
 
-  useModuleInit(async () => {
+  useModuleInit(async (ac) => {
     if (workletRef.current) return
-    const ac = getAudioContext()
     audioContextRef.current = ac
 
     // Load the worklet file you added above
     await ac.audioWorklet.addModule('/random-processor.js')
 
     const node = new AudioWorkletNode(ac, 'random-processor', {
+      processorOptions: { moduleId },
       numberOfInputs: 8,
       numberOfOutputs: 8,
       outputChannelCount: [1, 1, 1, 1, 1, 1, 1, 1],
       // seed params with current GUI state
       parameterData: {
-        atten1: atten[0][0],
-        offset1: mapLinear(offset[0][0], -5, 5),
-        atten2: atten[1][0],
-        offset2: mapLinear(offset[1][0], -5, 5),
-        atten3: atten[2][0],
-        offset3: mapLinear(offset[2][0], -5, 5),
-        atten4: atten[3][0],
-        offset4: mapLinear(offset[3][0], -5, 5),
-        atten5: atten[4][0],
-        offset5: mapLinear(offset[4][0], -5, 5),
-        atten6: atten[5][0],
-        offset6: mapLinear(offset[5][0], -5, 5),
-        atten7: atten[6][0],
-        offset7: mapLinear(offset[6][0], -5, 5),
-        atten8: atten[7][0],
-        offset8: mapLinear(offset[7][0], -5, 5),
+        atten1: atten[0],
+        offset1: mapLinear(offset[0], -5, 5),
+        atten2: atten[1],
+        offset2: mapLinear(offset[1], -5, 5),
+        atten3: atten[2],
+        offset3: mapLinear(offset[2], -5, 5),
+        atten4: atten[3],
+        offset4: mapLinear(offset[3], -5, 5),
+        atten5: atten[4],
+        offset5: mapLinear(offset[4], -5, 5),
+        atten6: atten[5],
+        offset6: mapLinear(offset[5], -5, 5),
+        atten7: atten[6],
+        offset7: mapLinear(offset[6], -5, 5),
+        atten8: atten[7],
+        offset8: mapLinear(offset[7], -5, 5),
       },
     })
     workletRef.current = node
@@ -184,19 +162,17 @@ export function RandomModule({ moduleId }: { moduleId: string }) {
               <Port
                 id={`${moduleId}-trigger-in-${i + 1}`}
                 type="input"
-                audioType="cv"
+                audioType="trig"
                 audioNode={trigIn[i].current ?? undefined}
               />
               {/* <Knob
-                defaultValue={atten[i]}
-                onValueChange={setAttenIdx(i)}
+                {...knob('atten', i)}
                 label="lvl"
                 size="xs"
                 className="mt-[-16px] mr-1 ml-[-6px]"
               /> */}
               {/* <Knob
-                defaultValue={offset[i]}
-                onValueChange={setOffsetIdx(i)}
+                {...knob('offset', i)}
                 label="oset"
                 size="xs"
                 className="mt-[-16px]"
@@ -1,13 +1,16 @@
 'use client'
 
-import { useCallback, useEffect, useRef, useState } from 'react'
+import { useCallback, useEffect, useRef } from 'react'
 import { ModuleContainer } from '@/components/module-container'
-import { useModulePatch } from '@/components/patch-manager'
 import { Port, PortGroup } from '@/components/port'
 import { Button } from '@/components/ui/button'
 import { Knob } from '@/components/ui/knob'
 import { useModuleInit } from '@/hooks/use-module-init'
-import { getAudioContext } from '@/lib/helpers'
+import { useModuleParameters } from '@/hooks/use-module-parameters'
+import { portIdOf } from '@/lib/connection-types'
+import { defineParameters } from '@/lib/module-parameters'
+import { input, type ModulePortDescriptor, output } from '@/lib/module-ports'
+import type { FactoryPreset } from '@/lib/module-presets'
 import { mapLinear } from '@/lib/utils'
 import { useConnections } from '../connection-manager'
 import { VLine } from '../marks'
@@ -33,131 +36,312 @@ const DUCKREL_MIN = 20,
 type Algo = 0 | 1 | 2 // 0=Room, 1=Hall, 2=Plate
 type Quality = 0 | 1 | 2 // 0=Eco,1=Normal,2=HQ
 
+export const reverbParameters = defineParameters([
+  { id: 'size', param: 'size', label: 'Size', min: 0, max: 1, default: 0.6 },
+  { id: 'decay', param: 'decay', label: 'Decay', min: 0, max: 1, default: 0.7 },
+  {
+    id: 'dampHz',
+    param: 'dampHz',
+    label: 'Damp',
+    min: DAMP_MIN,
+    max: DAMP_MAX,
+    default: mapLinear(0.6, DAMP_MIN, DAMP_MAX),
+    unit: 'Hz',
+  },
+  {
+    id: 'preDelay',
+    param: 'preDelay',
+    label: 'Pre-delay',
+    min: PRE_MIN,
+    max: PRE_MAX,
+    default: 0.08,
+    unit: 's',
+  },
+  { id: 'mix', param: 'mix', label: 'Mix', min: 0, max: 1, default: 0.35 },
+  // 0=Room, 1=Hall, 2=Plate
+  {
+    id: 'algo',
+    param: 'type',
+    label: 'Algorithm',
+    kind: 'choice',
+    options: [0, 1, 2],
+    default: 1,
+  },
+  {
+    id: 'width',
+    param: 'width',
+    label: 'Width',
+    min: 0,
+    max: 1,
+    default: 0.75,
+  },
+  {
+    id: 'lowCutHz',
+    param: 'lowCutHz',
+    label: 'Low Cut',
+    min: LOWCUT_MIN,
+    max: LOWCUT_MAX,
+    default: 80,
+    unit: 'Hz',
+  },
+  {
+    id: 'highCutHz',
+    param: 'highCutHz',
+    label: 'High Cut',
+    min: HIGHCUT_MIN,
+    max: HIGHCUT_MAX,
+    default: 12000,
+    unit: 'Hz',
+  },
+  {
+    id: 'diffusion',
+    param: 'diffusion',
+    label: 'Diffusion',
+    min: 0,
+    max: 1,
+    default: 0.6,
+  },
+  {
+    id: 'modRateHz',
+    param: 'modRateHz',
+    label: 'Mod Rate',
+    min: MODRATE_MIN,
+    max: MODRATE_MAX,
+    default: 0.2,
+    unit: 'Hz',
+  },
+  {
+    id: 'modDepth',
+    param: 'modDepth',
+    label: 'Mod Depth',
+    min: 0,
+    max: 1,
+    default: 0.1,
+  },
+  {
+    id: 'erLevel',
+    param: 'erLevel',
+    label: 'ER Level',
+    min: 0,
+    max: 1,
+    default: 0.2,
+  },
+  {
+    id: 'erTime',
+    param: 'erTime',
+    label: 'ER Time',
+    min: 0,
+    max: 1,
+    default: 0.35,
+  },
+  // 0=Eco, 1=Normal, 2=HQ
+  {
+    id: 'quality',
+    param: 'quality',
+    label: 'Quality',
+    kind: 'choice',
+    options: [0, 1, 2],
+    default: 1,
+  },
+  {
+    id: 'duckAmount',
+    param: 'duckAmount',
+    label: 'Duck',
+    min: 0,
+    max: 1,
+    default: 0,
+  },
+  {
+    id: 'duckReleaseMs',
+    param: 'duckReleaseMs',
+    label: 'Duck Release',
+    min: DUCKREL_MIN,
+    max: DUCKREL_MAX,
+    default: 250,
+    unit: 'ms',
+  },
+  {
+    id: 'freeze',
+    param: 'freeze',
+    label: 'Freeze',
+    min: 0,
+    max: 1,
+    step: 1,
+    default: 0,
+  },
+  {
+    id: 'sizeCvAmt',
+    param: 'sizeCvAmt',
+    label: 'Size CV',
+    min: 0,
+    max: 1,
+    default: 1,
+  },
+  {
+    id: 'dampCvAmt',
+    param: 'dampCvAmt',
+    label: 'Damp CV',
+    min: 0,
+    max: 1,
+    default: 1,
+  },
+  {
+    id: 'decayCvAmt',
+    param: 'decayCvAmt',
+    label: 'Decay CV',
+    min: 0,
+    max: 1,
+    default: 1,
+  },
+  {
+    id: 'mixCvAmt',
+    param: 'mixCvAmt',
+    label: 'Mix CV',
+    min: 0,
+    max: 1,
+    default: 1,
+  },
+  {
+    id: 'widthCvAmt',
+    param: 'widthCvAmt',
+    label: 'Width CV',
+    min: 0,
+    max: 1,
+    default: 1,
+  },
+  {
+    id: 'lowCutCvAmt',
+    param: 'lowCutCvAmt',
+    label: 'Low Cut CV',
+    min: 0,
+    max: 1,
+    default: 0.5,
+  },
+  {
+    id: 'highCutCvAmt',
+    param: 'highCutCvAmt',
+    label: 'High Cut CV',
+    min: 0,
+    max: 1,
+    default: 0.5,
+  },
+  {
+    id: 'modDepthCvAmt',
+    param: 'modDepthCvAmt',
+    label: 'Mod Depth CV',
+    min: 0,
+    max: 1,
+    default: 0.5,
+  },
+  {
+    id: 'modRateCvAmt',
+    param: 'modRateCvAmt',
+    label: 'Mod Rate CV',
+    min: 0,
+    max: 1,
+    default: 0.5,
+  },
+  {
+    id: 'duckCvAmt',
+    param: 'duckCvAmt',
+    label: 'Duck CV',
+    min: 0,
+    max: 1,
+    default: 1,
+  },
+])
+
+// Partial: parameters left out keep their defaults
+export const reverbPresets: FactoryPreset[] = [
+  {
+    name: 'Small Room',
+    parameters: {
+      size: 0.25,
+      decay: 0.35,
+      dampHz: 6000,
+      preDelay: 0.01,
+      mix: 0.25,
+      algo: 0,
+      width: 0.6,
+      erLevel: 0.45,
+      erTime: 0.2,
+    },
+  },
+  {
+    name: 'Concert Hall',
+    parameters: {
+      size: 0.85,
+      decay: 0.8,
+      dampHz: 5000,
+      preDelay: 0.04,
+      mix: 0.35,
+      algo: 1,
+      width: 0.9,
+      diffusion: 0.75,
+    },
+  },
+  {
+    name: 'Bright Plate',
+    parameters: {
+      size: 0.5,
+      decay: 0.6,
+      dampHz: 11000,
+      preDelay: 0,
+      mix: 0.3,
+      algo: 2,
+      lowCutHz: 150,
+      diffusion: 0.85,
+      erLevel: 0,
+    },
+  },
+  {
+    name: 'Ambient Wash',
+    parameters: {
+      size: 1,
+      decay: 0.95,
+      dampHz: 3500,
+      preDelay: 0.12,
+      mix: 0.6,
+      algo: 1,
+      width: 1,
+      modRateHz: 0.3,
+      modDepth: 0.35,
+    },
+  },
+]
+
+export const reverbPorts: readonly ModulePortDescriptor[] = [
+  input('in-l', 'audio'),
+  input('in-r', 'audio'),
+  input('sidechain-in', 'audio'),
+  ...[
+    'size',
+    'damp',
+    'decay',
+    'mix',
+    'width',
+    'lowcut',
+    'highcut',
+    'moddepth',
+    'modrate',
+    'duck',
+  ].map((p) => input(`${p}-cv`, 'cv')),
+  input('freeze-gate', 'gate'),
+  output('out-l', 'audio'),
+  output('out-r', 'audio'),
+]
+
 export function ReverbModule({ moduleId }: { moduleId: string }) {
-  // Register with patch manager and get initial parameters
-  const { initialParameters } = useModulePatch(moduleId, () => ({
-    size: sizeN[0],
-    decay: decayN[0],
-    dampHz: mapLinear(dampN[0], DAMP_MIN, DAMP_MAX),
-    preDelay: mapLinear(preN[0], PRE_MIN, PRE_MAX),
-    mix: mixN[0],
-    algo,
-    width: widthN[0],
-    lowCutHz: mapLinear(lowCutN[0], LOWCUT_MIN, LOWCUT_MAX),
-    highCutHz: mapLinear(highCutN[0], HIGHCUT_MIN, HIGHCUT_MAX),
-    diffusion: diffusionN[0],
-    modRateHz: mapLinear(modRateN[0], MODRATE_MIN, MODRATE_MAX),
-    modDepth: modDepthN[0],
-    erLevel: erLevelN[0],
-    erTime: erTimeN[0],
-    quality,
-    duckAmount: duckAmountN[0],
-    duckReleaseMs: mapLinear(duckReleaseN[0], DUCKREL_MIN, DUCKREL_MAX),
-    freeze: freezeOn ? 1 : 0,
-    sizeCvAmt: sizeCvAmtN[0],
-    dampCvAmt: dampCvAmtN[0],
-    decayCvAmt: decayCvAmtN[0],
-    mixCvAmt: mixCvAmtN[0],
-    widthCvAmt: widthCvAmtN[0],
-    lowCutCvAmt: lowCutCvAmtN[0],
-    highCutCvAmt: highCutCvAmtN[0],
-    modDepthCvAmt: modDepthCvAmtN[0],
-    modRateCvAmt: modRateCvAmtN[0],
-    duckCvAmt: duckCvAmtN[0],
-  }))
-
-  // Normalized UI state (0..1)
-  const [sizeN, setSizeN] = useState([initialParameters?.size ?? 0.6])
-  const [decayN, setDecayN] = useState([initialParameters?.decay ?? 0.7])
-  const [dampN, setDampN] = useState([
-    initialParameters?.dampHz !== undefined
-      ? (initialParameters.dampHz - DAMP_MIN) / (DAMP_MAX - DAMP_MIN)
-      : 0.6,
-  ])
-  const [preN, setPreN] = useState([
-    initialParameters?.preDelay !== undefined
-      ? (initialParameters.preDelay - PRE_MIN) / (PRE_MAX - PRE_MIN)
-      : 0.08 / (PRE_MAX - PRE_MIN),
-  ])
-  const [mixN, setMixN] = useState([initialParameters?.mix ?? 0.35])
-
-  const [widthN, setWidthN] = useState([initialParameters?.width ?? 0.75])
-  const [lowCutN, setLowCutN] = useState([
-    initialParameters?.lowCutHz !== undefined
-      ? (initialParameters.lowCutHz - LOWCUT_MIN) / (LOWCUT_MAX - LOWCUT_MIN)
-      : (80 - LOWCUT_MIN) / (LOWCUT_MAX - LOWCUT_MIN),
-  ])
-  const [highCutN, setHighCutN] = useState([
-    initialParameters?.highCutHz !== undefined
-      ? (initialParameters.highCutHz - HIGHCUT_MIN) /
-        (HIGHCUT_MAX - HIGHCUT_MIN)
-      : (12000 - HIGHCUT_MIN) / (HIGHCUT_MAX - HIGHCUT_MIN),
-  ])
-  const [diffusionN, setDiffusionN] = useState([
-    initialParameters?.diffusion ?? 0.6,
-  ])
-  const [modRateN, setModRateN] = useState([
-    initialParameters?.modRateHz !== undefined
-      ? (initialParameters.modRateHz - MODRATE_MIN) /
-        (MODRATE_MAX - MODRATE_MIN)
-      : (0.2 - MODRATE_MIN) / (MODRATE_MAX - MODRATE_MIN),
-  ])
-  const [modDepthN, setModDepthN] = useState([
-    initialParameters?.modDepth ?? 0.1,
-  ])
-  const [erLevelN, setErLevelN] = useState([initialParameters?.erLevel ?? 0.2])
-  const [erTimeN, setErTimeN] = useState([initialParameters?.erTime ?? 0.35])
-  const [duckAmountN, setDuckAmountN] = useState([
-    initialParameters?.duckAmount ?? 0.0,
-  ])
-  const [duckReleaseN, setDuckReleaseN] = useState([
-    initialParameters?.duckReleaseMs !== undefined
-      ? (initialParameters.duckReleaseMs - DUCKREL_MIN) /
-        (DUCKREL_MAX - DUCKREL_MIN)
-      : (250 - DUCKREL_MIN) / (DUCKREL_MAX - DUCKREL_MIN),
-  ])
-
-  const [freezeOn, setFreezeOn] = useState(Boolean(initialParameters?.freeze))
-
-  // CV depths (0..1)
-  const [sizeCvAmtN, setSizeCvAmtN] = useState([
-    initialParameters?.sizeCvAmt ?? 1,
-  ])
-  const [dampCvAmtN, setDampCvAmtN] = useState([
-    initialParameters?.dampCvAmt ?? 1,
-  ])
-  const [decayCvAmtN, setDecayCvAmtN] = useState([
-    initialParameters?.decayCvAmt ?? 1,
-  ])
-  const [mixCvAmtN, setMixCvAmtN] = useState([initialParameters?.mixCvAmt ?? 1])
-
-  const [widthCvAmtN, setWidthCvAmtN] = useState([
-    initialParameters?.widthCvAmt ?? 1,
-  ])
-  const [lowCutCvAmtN, setLowCutCvAmtN] = useState([
-    initialParameters?.lowCutCvAmt ?? 0.5,
-  ])
-  const [highCutCvAmtN, setHighCutCvAmtN] = useState([
-    initialParameters?.highCutCvAmt ?? 0.5,
-  ])
-  const [modDepthCvAmtN, setModDepthCvAmtN] = useState([
-    initialParameters?.modDepthCvAmt ?? 0.5,
-  ])
-  const [modRateCvAmtN, setModRateCvAmtN] = useState([
-    initialParameters?.modRateCvAmt ?? 0.5,
-  ])
-  const [duckCvAmtN, setDuckCvAmtN] = useState([
-    initialParameters?.duckCvAmt ?? 1,
-  ])
-
-  const [algo, setAlgo] = useState<Algo>(initialParameters?.algo ?? 1)
-  const [quality, setQuality] = useState<Quality>(
-    initialParameters?.quality ?? 1,
+  const workletRef = useRef<AudioWorkletNode | null>(null)
+  const { values, set, knob, applyToNode } = useModuleParameters(
+    moduleId,
+    reverbParameters,
+    { node: workletRef },
   )
+  const { algo, quality, freeze } = values
 
   // Graph
   const acRef = useRef<AudioContext | null>(null)
-  const workletRef = useRef<AudioWorkletNode | null>(null)
 
   // Audio I/O nodes
   const inLRef = useRef<GainNode | null>(null)
@@ -193,272 +377,114 @@ export function ReverbModule({ moduleId }: { moduleId: string }) {
     p.setTargetAtTime(v, ac.currentTime, tSmooth)
   }
 
-  const init = useCallback(async () => {
-    if (workletRef.current) return // Already initialized
-
-    const ac = getAudioContext()
-    acRef.current = ac
-    await ac.audioWorklet.addModule('/reverb-processor.js')
-
-    // I/O
-    inLRef.current = ac.createGain()
-    inLRef.current.gain.value = 1
-    inRRef.current = ac.createGain()
-    inRRef.current.gain.value = 1
-    outLRef.current = ac.createGain()
-    outLRef.current.gain.value = 1
-    outRRef.current = ac.createGain()
-    outRRef.current.gain.value = 1
-
-    // Sidechain input
-    sidechainInRef.current = ac.createGain()
-    sidechainInRef.current.gain.value = 1
-
-    // CV inputs
-    sizeCvInRef.current = ac.createGain()
-    sizeCvInRef.current.gain.value = 1
-    dampCvInRef.current = ac.createGain()
-    dampCvInRef.current.gain.value = 1
-    decayCvInRef.current = ac.createGain()
-    decayCvInRef.current.gain.value = 1
-    mixCvInRef.current = ac.createGain()
-    mixCvInRef.current.gain.value = 1
-    widthCvInRef.current = ac.createGain()
-    widthCvInRef.current.gain.value = 1
-    lowCutCvInRef.current = ac.createGain()
-    lowCutCvInRef.current.gain.value = 1
-    highCutCvInRef.current = ac.createGain()
-    highCutCvInRef.current.gain.value = 1
-    modDepthCvInRef.current = ac.createGain()
-    modDepthCvInRef.current.gain.value = 1
-    modRateCvInRef.current = ac.createGain()
-    modRateCvInRef.current.gain.value = 1
-    duckCvInRef.current = ac.createGain()
-    duckCvInRef.current.gain.value = 1
-    freezeCvInRef.current = ac.createGain()
-    freezeCvInRef.current.gain.value = 1
-
-    // Merge L/R → stereo input 0
-    const merger = ac.createChannelMerger(2)
-    mergerRef.current = merger
-    inLRef.current.connect(merger, 0, 0)
-    inRRef.current.connect(merger, 0, 1)
-
-    // Worklet: 13 inputs (stereo audio, size,damp,decay,mix,width,lowCut,highCut,modDepth,modRate,duck,freeze,sidechain), 1 stereo output
-    const w = new AudioWorkletNode(ac, 'reverb-processor', {
-      numberOfInputs: 13,
-      numberOfOutputs: 1,
-      outputChannelCount: [2],
-      channelCountMode: 'explicit',
-      channelInterpretation: 'discrete',
-    })
-    workletRef.current = w
-
-    // Wire inputs
-    merger.connect(w, 0, 0)
-    sizeCvInRef.current.connect(w, 0, 1)
-    dampCvInRef.current.connect(w, 0, 2)
-    decayCvInRef.current.connect(w, 0, 3)
-    mixCvInRef.current.connect(w, 0, 4)
-    widthCvInRef.current.connect(w, 0, 5)
-    lowCutCvInRef.current.connect(w, 0, 6)
-    highCutCvInRef.current.connect(w, 0, 7)
-    modDepthCvInRef.current.connect(w, 0, 8)
-    modRateCvInRef.current.connect(w, 0, 9)
-    duckCvInRef.current.connect(w, 0, 10)
-    freezeCvInRef.current.connect(w, 0, 11)
-    sidechainInRef.current.connect(w, 0, 12)
-
-    // Split stereo output → two mono port nodes
-    const splitter = ac.createChannelSplitter(2)
-    splitterRef.current = splitter
-    w.connect(splitter)
-    splitter.connect(outLRef.current, 0)
-    splitter.connect(outRRef.current, 1)
-
-    // Initial params
-    setParam('size', Math.max(0, Math.min(1, sizeN[0])), 0.02)
-    setParam('decay', Math.max(0, Math.min(1, decayN[0])), 0.02)
-    setParam('dampHz', mapLinear(dampN[0], DAMP_MIN, DAMP_MAX), 0.02)
-    setParam('preDelay', mapLinear(preN[0], PRE_MIN, PRE_MAX), 0.02)
-    setParam('mix', Math.max(0, Math.min(1, mixN[0])), 0.02)
-    setParam('type', algo, 0.0)
-    setParam('width', Math.max(0, Math.min(1, widthN[0])), 0.02)
-    setParam('lowCutHz', mapLinear(lowCutN[0], LOWCUT_MIN, LOWCUT_MAX), 0.02)
-    setParam(
-      'highCutHz',
-      mapLinear(highCutN[0], HIGHCUT_MIN, HIGHCUT_MAX),
-      0.02,
-    )
-    setParam('diffusion', Math.max(0, Math.min(1, diffusionN[0])), 0.02)
-    setParam(
-      'modRateHz',
-      mapLinear(modRateN[0], MODRATE_MIN, MODRATE_MAX),
-      0.02,
-    )
-    setParam('modDepth', Math.max(0, Math.min(1, modDepthN[0])), 0.02)
-    setParam('erLevel', Math.max(0, Math.min(1, erLevelN[0])), 0.02)
-    setParam('erTime', Math.max(0, Math.min(1, erTimeN[0])), 0.02)
-    setParam('quality', quality, 0.0)
-    setParam('duckAmount', Math.max(0, Math.min(1, duckAmountN[0])), 0.02)
-    setParam(
-      'duckReleaseMs',
-      mapLinear(duckReleaseN[0], DUCKREL_MIN, DUCKREL_MAX),
-      0.02,
-    )
-    setParam('freeze', freezeOn ? 1 : 0, 0.0)
-    setParam('sizeCvAmt', Math.max(0, Math.min(1, sizeCvAmtN[0])), 0.02)
-    setParam('dampCvAmt', Math.max(0, Math.min(1, dampCvAmtN[0])), 0.02)
-    setParam('decayCvAmt', Math.max(0, Math.min(1, decayCvAmtN[0])), 0.02)
-    setParam('mixCvAmt', Math.max(0, Math.min(1, mixCvAmtN[0])), 0.02)
-    setParam('widthCvAmt', Math.max(0, Math.min(1, widthCvAmtN[0])), 0.02)
-    setParam('lowCutCvAmt', Math.max(0, Math.min(1, lowCutCvAmtN[0])), 0.02)
-    setParam('highCutCvAmt', Math.max(0, Math.min(1, highCutCvAmtN[0])), 0.02)
-    setParam('modDepthCvAmt', Math.max(0, Math.min(1, modDepthCvAmtN[0])), 0.02)
-    setParam('modRateCvAmt', Math.max(0, Math.min(1, modRateCvAmtN[0])), 0.02)
-    setParam('duckCvAmt', Math.max(0, Math.min(1, duckCvAmtN[0])), 0.02)
-
-    // dryMono based on connections
-    const inLId = `${moduleId}-in-l`
-    const inRId = `${moduleId}-in-r`
-    const hasL = connections.some((e) => e.to === inLId)
-    const hasR = connections.some((e) => e.to === inRId)
-    setParam('dryMono', hasL !== hasR ? 1 : 0, 0.0)
-
-    // eslint-disable-next-line no-console
-    console.log('[REVERB] initialized')
-  }, [
-    connections,
-    moduleId,
-    sizeN,
-    decayN,
-    dampN,
-    preN,
-    mixN,
-    algo,
-    widthN,
-    lowCutN,
-    highCutN,
-    diffusionN,
-    modRateN,
-    modDepthN,
-    erLevelN,
-    erTimeN,
-    quality,
-    duckAmountN,
-    duckReleaseN,
-    freezeOn,
-    sizeCvAmtN,
-    dampCvAmtN,
-    decayCvAmtN,
-    mixCvAmtN,
-    widthCvAmtN,
-    lowCutCvAmtN,
-    highCutCvAmtN,
-    modDepthCvAmtN,
-    modRateCvAmtN,
-    duckCvAmtN,
-  ])
+  const init = useCallback(
+    async (ac: AudioContext) => {
+      if (workletRef.current) return // Already initialized
+
+      acRef.current = ac
+      await ac.audioWorklet.addModule('/reverb-processor.js')
+
+      // I/O
+      inLRef.current = ac.createGain()
+      inLRef.current.gain.value = 1
+      inRRef.current = ac.createGain()
+      inRRef.current.gain.value = 1
+      outLRef.current = ac.createGain()
+      outLRef.current.gain.value = 1
+      outRRef.current = ac.createGain()
+      outRRef.current.gain.value = 1
+
+      // Sidechain input
+      sidechainInRef.current = ac.createGain()
+      sidechainInRef.current.gain.value = 1
+
+      // CV inputs
+      sizeCvInRef.current = ac.createGain()
+      sizeCvInRef.current.gain.value = 1
+      dampCvInRef.current = ac.createGain()
+      dampCvInRef.current.gain.value = 1
+      decayCvInRef.current = ac.createGain()
+      decayCvInRef.current.gain.value = 1
+      mixCvInRef.current = ac.createGain()
+      mixCvInRef.current.gain.value = 1
+      widthCvInRef.current = ac.createGain()
+      widthCvInRef.current.gain.value = 1
+      lowCutCvInRef.current = ac.createGain()
+      lowCutCvInRef.current.gain.value = 1
+      highCutCvInRef.current = ac.createGain()
+      highCutCvInRef.current.gain.value = 1
+      modDepthCvInRef.current = ac.createGain()
+      modDepthCvInRef.current.gain.value = 1
+      modRateCvInRef.current = ac.createGain()
+      modRateCvInRef.current.gain.value = 1
+      duckCvInRef.current = ac.createGain()
+      duckCvInRef.current.gain.value = 1
+      freezeCvInRef.current = ac.createGain()
+      freezeCvInRef.current.gain.value = 1
+
+      // Merge L/R → stereo input 0
+      const merger = ac.createChannelMerger(2)
+      mergerRef.current = merger
+      inLRef.current.connect(merger, 0, 0)
+      inRRef.current.connect(merger, 0, 1)
+
+      // Worklet: 13 inputs (stereo audio, size,damp,decay,mix,width,lowCut,highCut,modDepth,modRate,duck,freeze,sidechain), 1 stereo output
+      const w = new AudioWorkletNode(ac, 'reverb-processor', {
+        processorOptions: { moduleId },
+        numberOfInputs: 13,
+        numberOfOutputs: 1,
+        outputChannelCount: [2],
+        channelCountMode: 'explicit',
+        channelInterpretation: 'discrete',
+      })
+      workletRef.current = w
+
+      // Wire inputs
+      merger.connect(w, 0, 0)
+      sizeCvInRef.current.connect(w, 0, 1)
+      dampCvInRef.current.connect(w, 0, 2)
+      decayCvInRef.current.connect(w, 0, 3)
+      mixCvInRef.current.connect(w, 0, 4)
+      widthCvInRef.current.connect(w, 0, 5)
+      lowCutCvInRef.current.connect(w, 0, 6)
+      highCutCvInRef.current.connect(w, 0, 7)
+      modDepthCvInRef.current.connect(w, 0, 8)
+      modRateCvInRef.current.connect(w, 0, 9)
+      duckCvInRef.current.connect(w, 0, 10)
+      freezeCvInRef.current.connect(w, 0, 11)
+      sidechainInRef.current.connect(w, 0, 12)
+
+      // Split stereo output → two mono port nodes
+      const splitter = ac.createChannelSplitter(2)
+      splitterRef.current = splitter
+      w.connect(splitter)
+      splitter.connect(outLRef.current, 0)
+      splitter.connect(outRRef.current, 1)
+
+      applyToNode(w)
+
+      // dryMono based on connections
+      const inLId = `${moduleId}-in-l`
+      const inRId = `${moduleId}-in-r`
+      const hasL = connections.some((e) => portIdOf(e.to) === inLId)
+      const hasR = connections.some((e) => portIdOf(e.to) === inRId)
+      setParam('dryMono', hasL !== hasR ? 1 : 0, 0.0)
+
+      // eslint-disable-next-line no-console
+      console.log('[REVERB] initialized')
+    },
+    [connections, moduleId],
+  )
 
   // Use the module initialization hook
   const { isReady, initError, retryInit } = useModuleInit(init, 'REVERB')
 
-  // Push updates
-  useEffect(() => {
-    setParam('size', Math.max(0, Math.min(1, sizeN[0])))
-  }, [sizeN])
-  useEffect(() => {
-    setParam('decay', Math.max(0, Math.min(1, decayN[0])))
-  }, [decayN])
-  useEffect(() => {
-    setParam('dampHz', mapLinear(dampN[0], DAMP_MIN, DAMP_MAX))
-  }, [dampN])
-  useEffect(() => {
-    setParam('preDelay', mapLinear(preN[0], PRE_MIN, PRE_MAX))
-  }, [preN])
-  useEffect(() => {
-    setParam('mix', Math.max(0, Math.min(1, mixN[0])))
-  }, [mixN])
-  useEffect(() => {
-    setParam('type', algo, 0.0)
-  }, [algo])
-  useEffect(() => {
-    setParam('width', Math.max(0, Math.min(1, widthN[0])))
-  }, [widthN])
-  useEffect(() => {
-    setParam('lowCutHz', mapLinear(lowCutN[0], LOWCUT_MIN, LOWCUT_MAX))
-  }, [lowCutN])
-  useEffect(() => {
-    setParam('highCutHz', mapLinear(highCutN[0], HIGHCUT_MIN, HIGHCUT_MAX))
-  }, [highCutN])
-  useEffect(() => {
-    setParam('diffusion', Math.max(0, Math.min(1, diffusionN[0])))
-  }, [diffusionN])
-  useEffect(() => {
-    setParam('modRateHz', mapLinear(modRateN[0], MODRATE_MIN, MODRATE_MAX))
-  }, [modRateN])
-  useEffect(() => {
-    setParam('modDepth', Math.max(0, Math.min(1, modDepthN[0])))
-  }, [modDepthN])
-  useEffect(() => {
-    setParam('erLevel', Math.max(0, Math.min(1, erLevelN[0])))
-  }, [erLevelN])
-  useEffect(() => {
-    setParam('erTime', Math.max(0, Math.min(1, erTimeN[0])))
-  }, [erTimeN])
-  useEffect(() => {
-    setParam('quality', quality, 0.0)
-  }, [quality])
-  useEffect(() => {
-    setParam('duckAmount', Math.max(0, Math.min(1, duckAmountN[0])))
-  }, [duckAmountN])
-  useEffect(() => {
-    setParam(
-      'duckReleaseMs',
-      mapLinear(duckReleaseN[0], DUCKREL_MIN, DUCKREL_MAX),
-    )
-  }, [duckReleaseN])
-  useEffect(() => {
-    setParam('freeze', freezeOn ? 1 : 0, 0.0)
-  }, [freezeOn])
-
-  useEffect(() => {
-    setParam('sizeCvAmt', Math.max(0, Math.min(1, sizeCvAmtN[0])))
-  }, [sizeCvAmtN])
-  useEffect(() => {
-    setParam('dampCvAmt', Math.max(0, Math.min(1, dampCvAmtN[0])))
-  }, [dampCvAmtN])
-  useEffect(() => {
-    setParam('decayCvAmt', Math.max(0, Math.min(1, decayCvAmtN[0])))
-  }, [decayCvAmtN])
-  useEffect(() => {
-    setParam('mixCvAmt', Math.max(0, Math.min(1, mixCvAmtN[0])))
-  }, [mixCvAmtN])
-  useEffect(() => {
-    setParam('widthCvAmt', Math.max(0, Math.min(1, widthCvAmtN[0])))
-  }, [widthCvAmtN])
-  useEffect(() => {
-    setParam('lowCutCvAmt', Math.max(0, Math.min(1, lowCutCvAmtN[0])))
-  }, [lowCutCvAmtN])
-  useEffect(() => {
-    setParam('highCutCvAmt', Math.max(0, Math.min(1, highCutCvAmtN[0])))
-  }, [highCutCvAmtN])
-  useEffect(() => {
-    setParam('modDepthCvAmt', Math.max(0, Math.min(1, modDepthCvAmtN[0])))
-  }, [modDepthCvAmtN])
-  useEffect(() => {
-    setParam('modRateCvAmt', Math.max(0, Math.min(1, modRateCvAmtN[0])))
-  }, [modRateCvAmtN])
-  useEffect(() => {
-    setParam('duckCvAmt', Math.max(0, Math.min(1, duckCvAmtN[0])))
-  }, [duckCvAmtN])
-
   // dry mono whenever connection changes
   useEffect(() => {
     const inLId = `${moduleId}-in-l`
     const inRId = `${moduleId}-in-r`
-    const hasL = connections.some((e) => e.to === inLId)
-    const hasR = connections.some((e) => e.to === inRId)
+    const hasL = connections.some((e) => portIdOf(e.to) === inLId)
+    const hasR = connections.some((e) => portIdOf(e.to) === inRId)
     setParam('dryMono', hasL !== hasR ? 1 : 0, 0.0)
   }, [connections, moduleId])
 
@@ -469,7 +495,7 @@ export function ReverbModule({ moduleId }: { moduleId: string }) {
         type="single"
         size="md"
         value={algo.toString()}
-        onValueChange={(v) => setAlgo(parseInt(v, 10) as Algo)}
+        onValueChange={(v) => set('algo', parseInt(v, 10) as Algo)}
       >
         {[
           { a: 0 as Algo, label: 'Room' },
@@ -488,7 +514,7 @@ export function ReverbModule({ moduleId }: { moduleId: string }) {
           type="single"
           size="sm"
           value={quality.toString()}
-          onValueChange={(v) => setQuality(parseInt(v, 10) as Quality)}
+          onValueChange={(v) => set('quality', parseInt(v, 10) as Quality)}
         >
           {[
             { q: 0 as Quality, label: 'Eco' },
@@ -504,78 +530,33 @@ export function ReverbModule({ moduleId }: { moduleId: string }) {
 
       <div className="flex flex-col items-center gap-6 mt-5">
         <div className="flex items-center gap-6">
-          <Knob value={sizeN} onValueChange={setSizeN} size="sm" label="Size" />
-          <Knob
-            value={decayN}
-            onValueChange={setDecayN}
-            size="sm"
-            label="Decay"
-          />
+          <Knob {...knob('size')} size="sm" label="Size" />
+          <Knob {...knob('decay')} size="sm" label="Decay" />
 
-          <Knob value={preN} onValueChange={setPreN} size="sm" label="Pre" />
-          <Knob value={mixN} onValueChange={setMixN} size="sm" label="Mix" />
-          <Knob
-            value={widthN}
-            onValueChange={setWidthN}
-            size="sm"
-            label="Width"
-          />
+          <Knob {...knob('preDelay')} size="sm" label="Pre" />
+          <Knob {...knob('mix')} size="sm" label="Mix" />
+          <Knob {...knob('width')} size="sm" label="Width" />
         </div>
 
         <div className="flex gap-6">
-          <Knob value={dampN} onValueChange={setDampN} size="sm" label="Tone" />
-          <Knob
-            value={lowCutN}
-            onValueChange={setLowCutN}
-            size="sm"
-            label="LowCut"
-          />
-          <Knob
-            value={highCutN}
-            onValueChange={setHighCutN}
-            size="sm"
-            label="HighCut"
-          />
+          <Knob {...knob('dampHz')} size="sm" label="Tone" />
+          <Knob {...knob('lowCutHz')} size="sm" label="LowCut" />
+          <Knob {...knob('highCutHz')} size="sm" label="HighCut" />
         </div>
 
         <div className="flex gap-6">
-          <Knob
-            value={diffusionN}
-            onValueChange={setDiffusionN}
-            size="sm"
-            label="Diffuse"
-          />
-          <Knob
-            value={modRateN}
-            onValueChange={setModRateN}
-            size="sm"
-            label="ModRate"
-          />
-          <Knob
-            value={modDepthN}
-            onValueChange={setModDepthN}
-            size="sm"
-            label="ModDepth"
-          />
+          <Knob {...knob('diffusion')} size="sm" label="Diffuse" />
+          <Knob {...knob('modRateHz')} size="sm" label="ModRate" />
+          <Knob {...knob('modDepth')} size="sm" label="ModDepth" />
         </div>
 
         <div className="flex gap-6">
-          <Knob
-            value={erLevelN}
-            onValueChange={setErLevelN}
-            size="sm"
-            label="ER Lvl"
-          />
-          <Knob
-            value={erTimeN}
-            onValueChange={setErTimeN}
-            size="sm"
-            label="ER Time"
-          />
+          <Knob {...knob('erLevel')} size="sm" label="ER Lvl" />
+          <Knob {...knob('erTime')} size="sm" label="ER Time" />
           <div className="flex items-center gap-2">
             <Button
-              variant={freezeOn ? 'default' : 'secondary'}
-              onClick={() => setFreezeOn((v) => !v)}
+              variant={freeze ? 'default' : 'secondary'}
+              onClick={() => set('freeze', freeze ? 0 : 1)}
             >
               Freeze
             </Button>
@@ -583,18 +564,8 @@ export function ReverbModule({ moduleId }: { moduleId: string }) {
         </div>
 
         <div className="flex gap-6">
-          <Knob
-            value={duckAmountN}
-            onValueChange={setDuckAmountN}
-            size="sm"
-            label="Duck"
-          />
-          <Knob
-            value={duckReleaseN}
-            onValueChange={setDuckReleaseN}
-            size="sm"
-            label="Release"
-          />
+          <Knob {...knob('duckAmount')} size="sm" label="Duck" />
+          <Knob {...knob('duckReleaseMs')} size="sm" label="Release" />
         </div>
       </div>
 
@@ -605,7 +576,7 @@ export function ReverbModule({ moduleId }: { moduleId: string }) {
         {/* CV Row 1 */}
         {/* <div className="flex justify-between items-end">
           <div className="flex flex-col items-center gap-3">
-            <Knob value={sizeCvAmtN} onValueChange={setSizeCvAmtN} size="xs" />
+            <Knob {...knob('sizeCvAmt')} size="xs" />
             <VLine />
             <Port
               id={`${moduleId}-size-cv`}
@@ -616,7 +587,7 @@ export function ReverbModule({ moduleId }: { moduleId: string }) {
             />
           </div>
           <div className="flex flex-col items-center gap-3">
-            <Knob value={dampCvAmtN} onValueChange={setDampCvAmtN} size="xs" />
+            <Knob {...knob('dampCvAmt')} size="xs" />
             <VLine />
             <Port
               id={`${moduleId}-damp-cv`}
@@ -628,8 +599,7 @@ export function ReverbModule({ moduleId }: { moduleId: string }) {
           </div>
           <div className="flex flex-col items-center gap-3">
             <Knob
-              value={decayCvAmtN}
-              onValueChange={setDecayCvAmtN}
+              {...knob('decayCvAmt')}
               size="xs"
             />
             <VLine />
@@ -642,7 +612,7 @@ export function ReverbModule({ moduleId }: { moduleId: string }) {
             />
           </div>
           <div className="flex flex-col items-center gap-3">
-            <Knob value={mixCvAmtN} onValueChange={setMixCvAmtN} size="xs" />
+            <Knob {...knob('mixCvAmt')} size="xs" />
             <VLine />
             <Port
               id={`${moduleId}-mix-cv`}
@@ -658,8 +628,7 @@ export function ReverbModule({ moduleId }: { moduleId: string }) {
         {/* <div className="flex justify-between items-end mt-2">
           <div className="flex flex-col items-center gap-3">
             <Knob
-              value={widthCvAmtN}
-              onValueChange={setWidthCvAmtN}
+              {...knob('widthCvAmt')}
               size="xs"
             />
             <VLine />
@@ -673,8 +642,7 @@ export function ReverbModule({ moduleId }: { moduleId: string }) {
           </div>
           <div className="flex flex-col items-center gap-3">
             <Knob
-              value={lowCutCvAmtN}
-              onValueChange={setLowCutCvAmtN}
+              {...knob('lowCutCvAmt')}
               size="xs"
             />
             <VLine />
@@ -688,8 +656,7 @@ export function ReverbModule({ moduleId }: { moduleId: string }) {
           </div>
           <div className="flex flex-col items-center gap-3">
             <Knob
-              value={highCutCvAmtN}
-              onValueChange={setHighCutCvAmtN}
+              {...knob('highCutCvAmt')}
               size="xs"
             />
             <VLine />
@@ -703,8 +670,7 @@ export function ReverbModule({ moduleId }: { moduleId: string }) {
           </div>
           <div className="flex flex-col items-center gap-3">
             <Knob
-              value={modDepthCvAmtN}
-              onValueChange={setModDepthCvAmtN}
+              {...knob('modDepthCvAmt')}
               size="xs"
             />
             <VLine />
@@ -722,8 +688,7 @@ export function ReverbModule({ moduleId }: { moduleId: string }) {
         {/* <div className="flex justify-between items-end mt-2">
           <div className="flex flex-col items-center gap-3">
             <Knob
-              value={modRateCvAmtN}
-              onValueChange={setModRateCvAmtN}
+              {...knob('modRateCvAmt')}
               size="xs"
             />
             <VLine />
@@ -736,7 +701,7 @@ export function ReverbModule({ moduleId }: { moduleId: string }) {
             />
           </div>
           <div className="flex flex-col items-center gap-3">
-            <Knob value={duckCvAmtN} onValueChange={setDuckCvAmtN} size="xs" />
+            <Knob {...knob('duckCvAmt')} size="xs" />
             <VLine />
             <Port
               id={`${moduleId}-duck-cv`}
@@ -753,7 +718,7 @@ export function ReverbModule({ moduleId }: { moduleId: string }) {
               id={`${moduleId}-freeze-gate`}
               type="input"
               label="FREEZE"
-              audioType="cv"
+              audioType="gate"
               audioNode={freezeCvInRef.current ?? undefined}
             />
           </div>
@@ -1,31 +1,73 @@
 'use client'
 
-import { useCallback, useEffect, useRef, useState } from 'react'
+import { useCallback, useEffect, useRef } from 'react'
 import { ModuleContainer } from '@/components/module-container'
 import { Port } from '@/components/port'
 import { Button } from '@/components/ui/button'
 import { Knob } from '@/components/ui/knob'
 import { useModuleInit } from '@/hooks/use-module-init'
-import { getAudioContext } from '@/lib/helpers'
-import { mapLinear } from '@/lib/utils'
+import { useModuleParameters } from '@/hooks/use-module-parameters'
+import { defineParameters } from '@/lib/module-parameters'
+import { input, type ModulePortDescriptor } from '@/lib/module-ports'
 import { HLine } from '../marks'
 import { TextLabel } from '../text-label'
 import { Toggle } from '../ui/toggle'
 import { ToggleGroup, ToggleGroupItem } from '../ui/toggle-group'
 
-export function ScopeModule({ moduleId }: { moduleId: string }) {
-  // Minimal state for controls only
-  const [timeDiv, setTimeDiv] = useState([0.2]) // 0..1 -> 5ms..6s
-  const [voltsIndex, setVoltsIndex] = useState([4]) // 0..4 => 0.25,0.5,1,2,5
-  const [triggerEnabled, setTriggerEnabled] = useState(true)
-  const [triggerLevelNorm, setTriggerLevelNorm] = useState([0.5]) // normalized 0..1 to -scale..+scale
-  const [triggerSource, setTriggerSource] = useState<0 | 1>(0) // 0=CH1, 1=CH2
-
-  const voltsOptions = [0.25, 0.5, 1, 2, 5]
+export const scopeParameters = defineParameters([
+  {
+    id: 'windowSec',
+    label: 'Time',
+    min: 0.001,
+    max: 6,
+    default: 1.2,
+    unit: 's',
+    param: 'windowSec',
+  },
+  {
+    id: 'voltsPerDiv',
+    label: 'V/Div',
+    kind: 'choice',
+    options: [0.25, 0.5, 1, 2, 5],
+    default: 5,
+    unit: 'V',
+  },
+  // Fraction of full scale (-1..1); the worklet gets volts
+  { id: 'triggerLevel', label: 'Trig', min: -1, max: 1, default: 0 },
+  {
+    id: 'triggerEnabled',
+    label: 'Trigger',
+    kind: 'toggle',
+    default: true,
+    param: 'triggerEnabled',
+  },
+  {
+    id: 'triggerSource',
+    label: 'Trig Src',
+    kind: 'choice',
+    options: ['ch1', 'ch2'],
+    default: 'ch1',
+    param: 'triggerSource',
+  },
+])
+
+export const scopePorts: readonly ModulePortDescriptor[] = [
+  input('ch1-in', 'any'),
+  input('ch2-in', 'any'),
+]
 
+export function ScopeModule({ moduleId }: { moduleId: string }) {
   // Audio nodes
   const acRef = useRef<AudioContext | null>(null)
   const workletRef = useRef<AudioWorkletNode | null>(null)
+
+  const { values, set, knob, applyToNode } = useModuleParameters(
+    moduleId,
+    scopeParameters,
+    { node: workletRef },
+  )
+  const { windowSec, voltsPerDiv, triggerLevel, triggerEnabled } = values
+  const triggerSource = values.triggerSource === 'ch2' ? 1 : 0
   const input1Ref = useRef<GainNode | null>(null)
   const input2Ref = useRef<GainNode | null>(null)
   const mergerRef = useRef<ChannelMergerNode | null>(null)
@@ -61,10 +103,9 @@ export function ScopeModule({ moduleId }: { moduleId: string }) {
     }
   }, [])
 
-  useModuleInit(async () => {
+  useModuleInit(async (ac) => {
     if (workletRef.current) return // Already initialized
 
-    const ac = getAudioContext()
     acRef.current = ac
 
     await ac.audioWorklet.addModule('/scope-processor.js')
@@ -74,6 +115,7 @@ export function ScopeModule({ moduleId }: { moduleId: string }) {
     in2.gain.value = 1
     const merger = ac.createChannelMerger(2)
     const node = new AudioWorkletNode(ac, 'scope-processor', {
+      processorOptions: { moduleId },
       numberOfInputs: 1,
       numberOfOutputs: 1,
       outputChannelCount: [2],
@@ -139,15 +181,10 @@ export function ScopeModule({ moduleId }: { moduleId: string }) {
       node.port.postMessage({ type: 'config', outPixels: rectW })
     }
     const t = ac.currentTime
-    const winSec = mapLinear(timeDiv[0], 0.001, 6)
-    node.parameters.get('windowSec')?.setValueAtTime(winSec, t)
-    node.parameters
-      .get('triggerEnabled')
-      ?.setValueAtTime(triggerEnabled ? 1 : 0, t)
+    applyToNode(node)
     node.parameters.get('triggerLevel')?.setValueAtTime(0, t)
     // Default to AUTO behavior when trigger is enabled
     node.parameters.get('autoMode')?.setValueAtTime(1, t)
-    node.parameters.get('triggerSource')?.setValueAtTime(triggerSource, t)
   }, moduleId)
 
   // Cleanup on unmount
@@ -168,32 +205,20 @@ export function ScopeModule({ moduleId }: { moduleId: string }) {
   //   };
   // }, []);
 
-  // Push control changes to worklet via parameters
+  // Trigger level depends on V/div, so it is pushed here rather than by the
+  // parameter hook
   useEffect(() => {
     const node = workletRef.current
     const c = canvasRef.current
     if (!node || !c) return
-    const windowSec = mapLinear(timeDiv[0], 0.001, 6)
-    const voltsPerDiv = voltsOptions[voltsIndex[0]] || 1
     const fullScaleVolts = voltsPerDiv * 5 // 5 divisions up/down
-    const trigLevel = mapLinear(
-      triggerLevelNorm[0],
-      -fullScaleVolts,
-      fullScaleVolts,
-    )
+    const trigLevel = triggerLevel * fullScaleVolts
     const now = acRef.current?.currentTime ?? 0
-    node.parameters.get('windowSec')?.setTargetAtTime(windowSec, now, 0.01)
-    node.parameters
-      .get('triggerEnabled')
-      ?.setTargetAtTime(triggerEnabled ? 1 : 0, now, 0.01)
     node.parameters.get('triggerLevel')?.setTargetAtTime(trigLevel, now, 0.01)
     // Keep AUTO on by default; easy to change to NORM later if needed
     node.parameters.get('autoMode')?.setTargetAtTime(1, now, 0.01)
-    node.parameters
-      .get('triggerSource')
-      ?.setTargetAtTime(triggerSource, now, 0.01)
     // Keep pixel width synced only on resize handler
-  }, [timeDiv, voltsIndex, triggerEnabled, triggerLevelNorm, triggerSource])
+  }, [voltsPerDiv, triggerLevel])
 
   // Draw grid and trace
   const draw = useCallback(() => {
@@ -207,7 +232,6 @@ export function ScopeModule({ moduleId }: { moduleId: string }) {
     ctx.setTransform(dpr, 0, 0, dpr, 0, 0)
     const w = c.width / dpr
     const h = c.height / dpr
-    const voltsPerDiv = voltsOptions[voltsIndex[0]] || 1
     // Map +/- (voltsPerDiv*5) to top/bottom (10 divisions total)
     const voltsToY = (v: number) => h / 2 - (v / (voltsPerDiv * 5)) * (h / 2)
 
@@ -244,12 +268,7 @@ export function ScopeModule({ moduleId }: { moduleId: string }) {
 
     // Trigger line
     if (triggerEnabled) {
-      const trigLevel = mapLinear(
-        triggerLevelNorm[0],
-        -(voltsPerDiv * 5),
-        voltsPerDiv * 5,
-      )
-      const y = voltsToY(trigLevel)
+      const y = voltsToY(triggerLevel * voltsPerDiv * 5)
       ctx.setLineDash([6, 5])
       ctx.strokeStyle = triggerSource === 0 ? '#ffa500' : '#00bfff'
       ctx.lineWidth = 1
@@ -327,7 +346,6 @@ export function ScopeModule({ moduleId }: { moduleId: string }) {
     }
 
     // Time/div readout in bottom-right (windowSec/10)
-    const windowSec = mapLinear(timeDiv[0], 0.001, 6)
     const timePerDiv = windowSec / 10
     const formatTime = (t: number) => {
       if (t >= 1) return `${t.toFixed(2)} s/div`
@@ -345,7 +363,7 @@ export function ScopeModule({ moduleId }: { moduleId: string }) {
     ctx.textAlign = 'right'
     ctx.textBaseline = 'alphabetic'
     ctx.fillText(label, w - 4 - pad, h - 4 - 3)
-  }, [voltsIndex, triggerEnabled, triggerLevelNorm, timeDiv, triggerSource])
+  }, [voltsPerDiv, triggerEnabled, triggerLevel, windowSec, triggerSource])
 
   // Keep a ref to the latest draw function so message handler uses fresh state
   useEffect(() => {
@@ -357,7 +375,7 @@ export function ScopeModule({ moduleId }: { moduleId: string }) {
   // Immediate redraw on control changes
   useEffect(() => {
     draw()
-  }, [voltsIndex, triggerEnabled, triggerLevelNorm, timeDiv, draw])
+  }, [voltsPerDiv, triggerEnabled, triggerLevel, windowSec, draw])
 
   // Resize observer-like behavior
   useEffect(() => {
@@ -390,30 +408,16 @@ export function ScopeModule({ moduleId }: { moduleId: string }) {
 
         <div className="flex justify-between items-start gap-6">
           <div className="flex flex-1 gap-6 pl-1.5 mt-1">
-            <Knob
-              value={timeDiv}
-              onValueChange={setTimeDiv}
-              size="sm"
-              label="time"
-            />
+            <Knob {...knob('windowSec')} size="sm" label="time" />
 
             <Knob
-              value={[voltsIndex[0] / 4]}
-              onValueChange={(v) =>
-                setVoltsIndex([Math.max(0, Math.min(4, Math.round(v[0] * 4)))])
-              }
+              {...knob('voltsPerDiv')}
               size="sm"
               label="V/Div"
-              steps={5}
               tickLabels={['', '', '', '', '']}
             />
 
-            <Knob
-              value={triggerLevelNorm}
-              onValueChange={setTriggerLevelNorm}
-              size="sm"
-              label="Trig"
-            />
+            <Knob {...knob('triggerLevel')} size="sm" label="Trig" />
 
             <div className="mt-4.5 ml-[-20px] flex items-center gap-0.5 relative z-10">
               <HLine className="w-5" />
@@ -422,7 +426,7 @@ export function ScopeModule({ moduleId }: { moduleId: string }) {
                 size="sm"
                 variant="push"
                 className="px-2"
-                onClick={() => setTriggerEnabled((s) => !s)}
+                onClick={() => set('triggerEnabled', !triggerEnabled)}
               />
             </div>
           </div>
@@ -432,18 +436,14 @@ export function ScopeModule({ moduleId }: { moduleId: string }) {
             <div className="flex flex-col items-stretch gap-1">
               <ToggleGroup
                 type="single"
-                value={triggerSource.toString()}
+                value={values.triggerSource}
                 onValueChange={(v) =>
-                  setTriggerSource(parseInt(v, 10) as 0 | 1)
+                  v && set('triggerSource', v as 'ch1' | 'ch2')
                 }
                 size="sm"
               >
-                <ToggleGroupItem value="0" onClick={() => setTriggerSource(0)}>
-                  CH1
-                </ToggleGroupItem>
-                <ToggleGroupItem value="1" onClick={() => setTriggerSource(1)}>
-                  CH2
-                </ToggleGroupItem>
+                <ToggleGroupItem value="ch1">CH1</ToggleGroupItem>
+                <ToggleGroupItem value="ch2">CH2</ToggleGroupItem>
               </ToggleGroup>
             </div>
           </div>
@@ -2,62 +2,64 @@
 
 import { useCallback, useEffect, useRef, useState } from 'react'
 import { ModuleContainer } from '@/components/module-container'
-import { useModulePatch } from '@/components/patch-manager'
 import { Port, PortGroup } from '@/components/port'
 import { Knob } from '@/components/ui/knob'
 import { PushButton } from '@/components/ui/push-button'
 import { Toggle } from '@/components/ui/toggle'
 import { useModuleInit } from '@/hooks/use-module-init'
-import { getAudioContext } from '@/lib/helpers'
+import { useModuleParameters } from '@/hooks/use-module-parameters'
+import { defineParameters } from '@/lib/module-parameters'
+import { input, type ModulePortDescriptor, output } from '@/lib/module-ports'
 import { mapLinear } from '@/lib/utils'
 import { TextLabel } from '../text-label'
 
-export function SequencerModule({ moduleId }: { moduleId: string }) {
-  const STEPS = 16
+// Saved values are knob positions (0..1)
+export const sequencerParameters = defineParameters([
+  {
+    id: 'steps',
+    label: 'Steps',
+    kind: 'toggle',
+    default: Array.from({ length: 16 }, (_, i) => i % 2 === 0),
+    count: 16,
+  },
+  { id: 'pitches', label: 'Pitch', min: 0, max: 1, default: 0.5, count: 16 },
+  { id: 'octave', label: 'Octave', min: 0, max: 1, default: 0.375 },
+  { id: 'clockDiv', label: 'Clock Div', min: 0, max: 1, default: 0 },
+  { id: 'gateRatio', label: 'Gate', min: 0, max: 1, default: 0.25 },
+])
 
-  const defaultStepPattern = [
-    true,
-    false,
-    true,
-    false,
-    true,
-    false,
-    true,
-    false,
-    true,
-    false,
-    true,
-    false,
-    true,
-    false,
-    true,
-    false,
+const DIVIDERS = [1, 2, 4, 8, 16, 32, 64]
+// Clock divider selected by a Div knob position (0..1)
+const dividerAt = (position: number) =>
+  DIVIDERS[
+    Math.max(
+      0,
+      Math.min(
+        DIVIDERS.length - 1,
+        Math.round((position || 0) * (DIVIDERS.length - 1)),
+      ),
+    )
   ]
 
-  // Register with patch manager and get initial parameters
-  const { initialParameters } = useModulePatch(moduleId, () => ({
-    steps: stepsRef.current,
-    pitches: pitchesRef.current,
-    octave: octaveRef.current[0],
-    clockDiv: clockDivRef.current[0],
-    gateRatio: gateRatioRef.current[0],
-  }))
+export const sequencerPorts: readonly ModulePortDescriptor[] = [
+  input('clock-in', 'trigger'),
+  input('reset-in', 'trigger'),
+  output('pitch-out', 'pitch'),
+  output('gate-out', 'gate'),
+]
 
-  const [steps, setSteps] = useState<boolean[]>(
-    initialParameters?.steps ?? defaultStepPattern,
+export function SequencerModule({ moduleId }: { moduleId: string }) {
+  // Knob positions (0..1): octave 0.375 → octave 3, gate ratio 25% of a step
+  const { values, set, knob } = useModuleParameters(
+    moduleId,
+    sequencerParameters,
   )
-  const [currentStep, setCurrentStep] = useState(-1)
+  const { steps, pitches, octave, clockDiv, gateRatio } = values
+  // Read when the worklet starts, which may be after later changes
+  const valuesRef = useRef(values)
+  valuesRef.current = values
 
-  // mirrors/refs
-  const stepsRef = useRef<boolean[]>(
-    initialParameters?.steps ?? defaultStepPattern,
-  )
-  const pitchesRef = useRef<number[]>(
-    initialParameters?.pitches ?? new Array(STEPS).fill(0.5),
-  )
-  const octaveRef = useRef<number[]>([initialParameters?.octave ?? 0.375]) // normalized; 0.375 → octave 3
-  const clockDivRef = useRef<number[]>([initialParameters?.clockDiv ?? 0]) // divider
-  const gateRatioRef = useRef<number[]>([initialParameters?.gateRatio ?? 0.25]) // 25% of step by default
+  const [currentStep, setCurrentStep] = useState(-1)
 
   // audio nodes
   const audioContextRef = useRef<AudioContext | null>(null)
@@ -70,12 +72,10 @@ export function SequencerModule({ moduleId }: { moduleId: string }) {
     gate: GainNode | null
     pitch: GainNode | null
   }>({ gate: null, pitch: null })
-  const lastDivIdxRef = useRef<number>(-1)
   const latestStepRef = useRef<number>(-1)
 
-  useModuleInit(async () => {
+  useModuleInit(async (ac) => {
     if (nodeRef.current) return
-    const ac = getAudioContext()
     audioContextRef.current = ac
 
     clockInRef.current = ac.createGain()
@@ -86,27 +86,17 @@ export function SequencerModule({ moduleId }: { moduleId: string }) {
 
     await ac.audioWorklet.addModule('/sequencer-processor.js')
 
-    const divValues = [1, 2, 4, 8, 16, 32, 64]
+    const initial = valuesRef.current
     const node = new AudioWorkletNode(ac, 'sequencer-processor', {
+      processorOptions: { moduleId },
       numberOfInputs: 2,
       numberOfOutputs: 2,
       outputChannelCount: [1, 1],
       parameterData: {
         run: 1, // always running by default
-        divider:
-          divValues[
-            Math.max(
-              0,
-              Math.min(
-                divValues.length - 1,
-                Math.round(
-                  (clockDivRef.current[0] || 0) * (divValues.length - 1),
-                ),
-              ),
-            )
-          ],
-        gateRatio: gateRatioRef.current[0],
-        octave: octaveRef.current[0], // worklet accepts normalized or absolute
+        divider: dividerAt(initial.clockDiv),
+        gateRatio: initial.gateRatio,
+        octave: initial.octave, // worklet accepts normalized or absolute
       },
     })
     nodeRef.current = node
@@ -134,9 +124,8 @@ export function SequencerModule({ moduleId }: { moduleId: string }) {
     keepAliveRefs.current = { gate: gateSink, pitch: pitchSink }
 
     // Ensure initial steps reflect UI defaults so gates/pitches start immediately
-    stepsRef.current = steps
-    node.port.postMessage({ type: 'steps', value: stepsRef.current })
-    node.port.postMessage({ type: 'pitches', value: pitchesRef.current })
+    node.port.postMessage({ type: 'steps', value: initial.steps })
+    node.port.postMessage({ type: 'pitches', value: initial.pitches })
 
     node.port.onmessage = (e) => {
       const { type, value } = e.data || {}
@@ -167,65 +156,44 @@ export function SequencerModule({ moduleId }: { moduleId: string }) {
     }
   }, [])
 
-  const handleClockDividerChange = useCallback((value: number[]) => {
-    const divValues = [1, 2, 4, 8, 16, 32, 64]
-    const idx = Math.max(
-      0,
-      Math.min(
-        divValues.length - 1,
-        Math.round((value[0] || 0) * (divValues.length - 1)),
-      ),
-    )
-    if (idx === lastDivIdxRef.current) {
-      clockDivRef.current = [value[0]]
-      return
-    }
-    lastDivIdxRef.current = idx
-    const next = divValues[idx]
-    clockDivRef.current = [value[0]] // store knob position (0..1)
+  const divider = dividerAt(clockDiv)
+  useEffect(() => {
     const ac = audioContextRef.current
     const node = nodeRef.current
     if (ac && node)
-      node.parameters.get('divider')?.setValueAtTime(next, ac.currentTime)
-  }, [])
+      node.parameters.get('divider')?.setValueAtTime(divider, ac.currentTime)
+  }, [divider])
 
-  const handleOctaveChange = useCallback((value: number[]) => {
-    // store knob position (0..1); worklet can resolve normalized directly
-    octaveRef.current = [value[0]]
+  useEffect(() => {
+    // knob position (0..1); worklet can resolve normalized directly
     const ac = audioContextRef.current
     const node = nodeRef.current
     if (ac && node)
-      node.parameters.get('octave')?.setValueAtTime(value[0], ac.currentTime)
-  }, [])
+      node.parameters.get('octave')?.setValueAtTime(octave, ac.currentTime)
+  }, [octave])
 
-  const handleGateRatioChange = useCallback((value: number[]) => {
+  useEffect(() => {
     // 0..1 → 0..1 (identity via mapLinear to match your helper)
-    const ratio = mapLinear(value[0], 0, 1)
-    gateRatioRef.current = [value[0]]
+    const ratio = mapLinear(gateRatio, 0, 1)
     const ac = audioContextRef.current
     const node = nodeRef.current
     if (ac && node)
       node.parameters.get('gateRatio')?.setValueAtTime(ratio, ac.currentTime)
-  }, [])
+  }, [gateRatio])
 
-  const handleStepToggle = useCallback((i: number) => {
-    setSteps((prev) => {
-      const next = [...prev]
-      next[i] = !next[i]
-      stepsRef.current = next
-      nodeRef.current?.port.postMessage({ type: 'steps', value: next })
-      return next
-    })
-  }, [])
+  useEffect(() => {
+    nodeRef.current?.port.postMessage({ type: 'steps', value: steps })
+  }, [steps])
 
-  const handlePitchChange = useCallback((i: number, value: number[]) => {
-    const v = Math.max(0, Math.min(1, value[0] ?? 0.5))
-    pitchesRef.current[i] = v
-    nodeRef.current?.port.postMessage({
-      type: 'pitches',
-      value: pitchesRef.current,
-    })
-  }, [])
+  useEffect(() => {
+    nodeRef.current?.port.postMessage({ type: 'pitches', value: pitches })
+  }, [pitches])
+
+  const handleStepToggle = (i: number) =>
+    set(
+      'steps',
+      steps.map((on, j) => (j === i ? !on : on)),
+    )
 
   return (
     <ModuleContainer title="Step Sequencer" moduleId={moduleId}>
@@ -252,27 +220,20 @@ export function SequencerModule({ moduleId }: { moduleId: string }) {
 
         <div className="flex justify-center items-center gap-8">
           <Knob
-            defaultValue={clockDivRef.current}
-            onValueChange={handleClockDividerChange}
+            {...knob('clockDiv')}
             size="sm"
             label="Div"
             tickLabels={['1', '2', '4', '8', '16', '32', '64']}
             steps={7}
           />
           <Knob
-            defaultValue={octaveRef.current}
-            onValueChange={handleOctaveChange}
+            {...knob('octave')}
             size="sm"
             label="Oct"
             tickLabels={[0, 1, 2, 3, 4, 5, 6, 7, 8]}
             steps={9}
           />
-          <Knob
-            defaultValue={gateRatioRef.current}
-            onValueChange={handleGateRatioChange}
-            size="sm"
-            label="Gate"
-          />
+          <Knob {...knob('gateRatio')} size="sm" label="Gate" />
         </div>
 
         <div className="flex justify-end">
@@ -288,7 +249,7 @@ export function SequencerModule({ moduleId }: { moduleId: string }) {
               id={`${moduleId}-pitch-out`}
               type="output"
               label="PITCH"
-              audioType="cv"
+              audioType="pitch"
               audioNode={pitchOutRef.current ?? undefined}
             />
           </PortGroup>
@@ -318,11 +279,7 @@ export function SequencerModule({ moduleId }: { moduleId: string }) {
                 onPressedChange={() => handleStepToggle(idx)}
               />
             </div>
-            <Knob
-              defaultValue={[pitchesRef.current[idx]]}
-              onValueChange={(v) => handlePitchChange(idx, v)}
-              size="xs"
-            />
+            <Knob {...knob('pitches', idx)} size="xs" />
           </div>
         ))}
       </div>
@@ -1,16 +1,8 @@
 'use client'
 
-import {
-  Fragment,
-  useCallback,
-  useEffect,
-  useMemo,
-  useRef,
-  useState,
-} from 'react'
+import { Fragment, useEffect, useMemo, useRef, useState } from 'react'
 import { useConnections } from '@/components/connection-manager'
 import { ModuleContainer } from '@/components/module-container'
-import { useModulePatch } from '@/components/patch-manager'
 import { Port, PortGroup } from '@/components/port'
 import { TextLabel } from '@/components/text-label'
 import { Knob } from '@/components/ui/knob'
@@ -18,63 +10,107 @@ import { Slider } from '@/components/ui/slider'
 import { Toggle } from '@/components/ui/toggle'
 import { ToggleSwitch } from '@/components/ui/toggle-switch'
 import { useModuleInit } from '@/hooks/use-module-init'
-import { getAudioContext } from '@/lib/helpers'
+import { useModuleParameters } from '@/hooks/use-module-parameters'
+import { portIdOf } from '@/lib/connection-types'
+import { defineParameters } from '@/lib/module-parameters'
+import {
+  input,
+  type ModulePortDescriptor,
+  numbered,
+  output,
+} from '@/lib/module-ports'
 import { HLine, VLine } from '../marks'
 
 type MeterData = { ch: Float32Array; l: number; r: number }
 
 const map12dB = (v: number) => (v <= 0.75 ? v / 0.75 : 1 + (v - 0.75) * 12)
 
-export function StereoMixerModule({ moduleId }: { moduleId: string }) {
-  // Register with patch manager
-  const { initialParameters } = useModulePatch(moduleId, () => ({
-    chLevel: chLevel.current,
-    chPan: chPan.current,
-    chSendA: chSendA.current,
-    chSendB: chSendB.current,
-    chSendAPre: chSendAPre.current,
-    chSendBPre: chSendBPre.current,
-    chMute: chMute.current,
-    retALevel: retALevel.current,
-    retBLevel: retBLevel.current,
-    mixLLevel: mixLLevel.current,
-    mixRLevel: mixRLevel.current,
-    mixSat: mixSat.current,
-    expo,
-    muteAffectsSends,
-  }))
-
-  const [_, forceUpdate] = useState(0)
+export const stereoMixerParameters = defineParameters([
+  { id: 'chLevel', label: 'Level', min: 0, max: 1, default: 0.75, count: 6 },
+  { id: 'chPan', label: 'Pan', min: -1, max: 1, default: 0, count: 6 },
+  { id: 'chSendA', label: 'Send A', min: 0, max: 1, default: 0, count: 6 },
+  { id: 'chSendB', label: 'Send B', min: 0, max: 1, default: 0, count: 6 },
+  {
+    id: 'chSendAPre',
+    label: 'Send A Pre',
+    kind: 'toggle',
+    default: true,
+    count: 6,
+  },
+  {
+    id: 'chSendBPre',
+    label: 'Send B Pre',
+    kind: 'toggle',
+    default: true,
+    count: 6,
+  },
+  { id: 'chMute', label: 'Mute', kind: 'toggle', default: false, count: 6 },
+  {
+    id: 'retALevel',
+    label: 'Return A',
+    min: 0,
+    max: 1,
+    default: 0.75,
+    count: 1,
+  },
+  {
+    id: 'retBLevel',
+    label: 'Return B',
+    min: 0,
+    max: 1,
+    default: 0.75,
+    count: 1,
+  },
+  { id: 'mixLLevel', label: 'Mix L', min: 0, max: 1, default: 0.75, count: 1 },
+  { id: 'mixRLevel', label: 'Mix R', min: 0, max: 1, default: 0.75, count: 1 },
+  { id: 'mixSat', label: 'Saturation', min: 0, max: 1, default: 0, count: 1 },
+  { id: 'expo', label: 'Expo', kind: 'toggle', default: false },
+  {
+    id: 'muteAffectsSends',
+    label: 'Mute Sends',
+    kind: 'toggle',
+    default: true,
+  },
+])
+
+export const stereoMixerPorts: readonly ModulePortDescriptor[] = [
+  ...numbered(6, (n) => input(`ch${n}-l-in`, 'audio')),
+  ...numbered(6, (n) => input(`ch${n}-r-in`, 'audio')),
+  ...numbered(6, (n) => input(`ch${n}-cv-in`, 'cv')),
+  input('retA-l-in', 'audio'),
+  input('retA-r-in', 'audio'),
+  input('retB-l-in', 'audio'),
+  input('retB-r-in', 'audio'),
+  output('sendA-l-out', 'audio'),
+  output('sendA-r-out', 'audio'),
+  output('sendB-l-out', 'audio'),
+  output('sendB-r-out', 'audio'),
+  output('mix-l-out', 'audio'),
+  output('mix-r-out', 'audio'),
+]
 
-  // Persistent state
-  const chLevel = useRef<number[]>(
-    initialParameters?.chLevel ?? Array.from({ length: 6 }, () => 0.75),
-  )
-  const chPan = useRef<number[]>(
-    initialParameters?.chPan ?? Array.from({ length: 6 }, () => 0),
-  )
-  const chSendA = useRef<number[]>(
-    initialParameters?.chSendA ?? Array.from({ length: 6 }, () => 0),
-  )
-  const chSendB = useRef<number[]>(
-    initialParameters?.chSendB ?? Array.from({ length: 6 }, () => 0),
-  )
-  const chSendAPre = useRef<boolean[]>(
-    initialParameters?.chSendAPre ?? Array.from({ length: 6 }, () => true),
-  )
-  const chSendBPre = useRef<boolean[]>(
-    initialParameters?.chSendBPre ?? Array.from({ length: 6 }, () => true),
-  )
-  const chMute = useRef<boolean[]>(
-    initialParameters?.chMute ?? Array.from({ length: 6 }, () => false),
+export function StereoMixerModule({ moduleId }: { moduleId: string }) {
+  const { values, set, knob } = useModuleParameters(
+    moduleId,
+    stereoMixerParameters,
   )
-  const retALevel = useRef<number[]>(initialParameters?.retALevel ?? [0.75])
-  const retBLevel = useRef<number[]>(initialParameters?.retBLevel ?? [0.75])
-  const mixLLevel = useRef<number[]>(initialParameters?.mixLLevel ?? [0.75])
-  const mixRLevel = useRef<number[]>(initialParameters?.mixRLevel ?? [0.75])
-  const mixSat = useRef<number[]>(initialParameters?.mixSat ?? [0])
-  const [expo, setExpo] = useState(false)
-  const [muteAffectsSends, setMuteAffectsSends] = useState(true)
+  const { chLevel, chPan, chSendA, chSendB, chSendAPre, chSendBPre, chMute } =
+    values
+  const { retALevel, retBLevel, mixLLevel, mixRLevel, mixSat } = values
+  const { expo, muteAffectsSends } = values
+  // Read when the node is created, which may finish after later edits
+  const valuesRef = useRef(values)
+  valuesRef.current = values
+
+  const setChannel = <K extends 'chSendAPre' | 'chSendBPre' | 'chMute'>(
+    id: K,
+    idx: number,
+    on: boolean,
+  ) =>
+    set(
+      id,
+      values[id].map((v, i) => (i === idx ? on : v)),
+    )
 
   const meterRAF = useRef<number | null>(null)
   const meterSAB = useRef<Float32Array | null>(null)
@@ -119,9 +155,8 @@ export function StereoMixerModule({ moduleId }: { moduleId: string }) {
     Array.from({ length: 6 }, () => false),
   )
 
-  useModuleInit(async () => {
+  useModuleInit(async (ac) => {
     if (nodeRef.current) return
-    const ac = getAudioContext()
     acRef.current = ac
     await ac.audioWorklet.addModule('/stereo-mixer-processor.js')
 
@@ -167,38 +202,41 @@ export function StereoMixerModule({ moduleId }: { moduleId: string }) {
     ;(mixOutR.current as GainNode).gain.value = 1
 
     // Build initial per-channel params so meters/levels match expectations at startup
+    const v = valuesRef.current
     const channelParamData: Record<string, number> = {}
     for (let i = 0; i < 6; i++) {
-      channelParamData[`ch${i}Level`] = chLevel.current[i] ?? 0.75
+      channelParamData[`ch${i}Level`] = v.chLevel[i]
+      channelParamData[`ch${i}Pan`] = v.chPan[i]
       // Default: VCA fully open when no CV connected
       channelParamData[`ch${i}Offset`] = 1
       channelParamData[`ch${i}Amount`] = 0 // default CV attenuator off
-      channelParamData[`ch${i}SendA`] = chSendA.current[i] ?? 0
-      channelParamData[`ch${i}SendB`] = chSendB.current[i] ?? 0
-      channelParamData[`ch${i}SendAPre`] = chSendAPre.current[i] ? 1 : 0
-      channelParamData[`ch${i}SendBPre`] = chSendBPre.current[i] ? 1 : 0
-      channelParamData[`ch${i}Mute`] = chMute.current[i] ? 1 : 0
+      channelParamData[`ch${i}SendA`] = v.chSendA[i]
+      channelParamData[`ch${i}SendB`] = v.chSendB[i]
+      channelParamData[`ch${i}SendAPre`] = v.chSendAPre[i] ? 1 : 0
+      channelParamData[`ch${i}SendBPre`] = v.chSendBPre[i] ? 1 : 0
+      channelParamData[`ch${i}Mute`] = v.chMute[i] ? 1 : 0
     }
 
     const node = new AudioWorkletNode(ac, 'stereo-mixer-processor', {
+      processorOptions: { moduleId },
       numberOfInputs: 23,
       numberOfOutputs: 6,
       outputChannelCount: [1, 1, 1, 1, 1, 1],
       parameterData: {
         // defaults aligned to state
-        expo: expo ? 1 : 0,
+        expo: v.expo ? 1 : 0,
         dcBlock: 1,
         dcCutHz: 5,
         slewMs: 1,
         hardGateDb: -90,
-        retALevel: retALevel.current[0],
-        retBLevel: retBLevel.current[0],
-        mixLLevel: mixLLevel.current[0],
-        mixRLevel: mixRLevel.current[0],
+        retALevel: v.retALevel[0],
+        retBLevel: v.retBLevel[0],
+        mixLLevel: v.mixLLevel[0],
+        mixRLevel: v.mixRLevel[0],
         mixOffset: 1,
         mixAmount: 1,
-        muteAffectsSends: muteAffectsSends ? 1 : 0,
-        mixSat: mixSat.current[0],
+        muteAffectsSends: v.muteAffectsSends ? 1 : 0,
+        mixSat: v.mixSat[0],
         ...channelParamData,
       },
     })
@@ -271,14 +309,14 @@ export function StereoMixerModule({ moduleId }: { moduleId: string }) {
     const ac = acRef.current as AudioContext
     for (let i = 0; i < 6; i++) {
       const portId = `${moduleId}-ch${i + 1}-cv-in`
-      const isConn = connections.some((e) => e.to === portId)
+      const isConn = connections.some((e) => portIdOf(e.to) === portId)
       if (isConn && !cvConn[i]) {
         chCvIn.current[i].connect(node, 0, 12 + i)
         cvConn[i] = true
         // switch: slider becomes CV amount, offset to 0
         node.parameters
           .get(`ch${i}Amount`)
-          ?.setValueAtTime(chLevel.current[i], ac.currentTime)
+          ?.setValueAtTime(chLevel[i], ac.currentTime)
         node.parameters.get(`ch${i}Offset`)?.setValueAtTime(0, ac.currentTime)
       } else if (!isConn && cvConn[i]) {
         try {
@@ -292,31 +330,22 @@ export function StereoMixerModule({ moduleId }: { moduleId: string }) {
     }
   }, [connections, moduleId, nodeReady, chLevel])
 
+  const setNodeParam = (name: string, value: number) => {
+    const node = nodeRef.current
+    const ac = acRef.current
+    if (node && ac)
+      node.parameters.get(name)?.setValueAtTime(value, ac.currentTime)
+  }
+
   useEffect(() => {
     console.log('static param updates')
-    if (!nodeRef.current) return
-    const ac = acRef.current as AudioContext
-    const node = nodeRef.current
-    // static params
-    node.parameters.get('expo')?.setValueAtTime(expo ? 1 : 0, ac.currentTime)
-    node.parameters
-      .get('muteAffectsSends')
-      ?.setValueAtTime(muteAffectsSends ? 1 : 0, ac.currentTime)
-    node.parameters
-      .get('retALevel')
-      ?.setValueAtTime(retALevel.current[0], ac.currentTime)
-    node.parameters
-      .get('retBLevel')
-      ?.setValueAtTime(retBLevel.current[0], ac.currentTime)
-    node.parameters
-      .get('mixLLevel')
-      ?.setValueAtTime(mixLLevel.current[0], ac.currentTime)
-    node.parameters
-      .get('mixRLevel')
-      ?.setValueAtTime(mixRLevel.current[0], ac.currentTime)
-    node.parameters
-      .get('mixSat')
-      ?.setValueAtTime(mixSat.current[0], ac.currentTime)
+    setNodeParam('expo', expo ? 1 : 0)
+    setNodeParam('muteAffectsSends', muteAffectsSends ? 1 : 0)
+    setNodeParam('retALevel', retALevel[0])
+    setNodeParam('retBLevel', retBLevel[0])
+    setNodeParam('mixLLevel', mixLLevel[0])
+    setNodeParam('mixRLevel', mixRLevel[0])
+    setNodeParam('mixSat', mixSat[0])
   }, [
     expo,
     muteAffectsSends,
@@ -327,12 +356,36 @@ export function StereoMixerModule({ moduleId }: { moduleId: string }) {
     mixSat,
   ])
 
+  // Channel params
+  useEffect(() => {
+    for (let i = 0; i < 6; i++) {
+      setNodeParam(`ch${i}Pan`, chPan[i])
+      setNodeParam(`ch${i}SendA`, chSendA[i])
+      setNodeParam(`ch${i}SendB`, chSendB[i])
+      setNodeParam(`ch${i}SendAPre`, chSendAPre[i] ? 1 : 0)
+      setNodeParam(`ch${i}SendBPre`, chSendBPre[i] ? 1 : 0)
+      setNodeParam(`ch${i}Mute`, chMute[i] ? 1 : 0)
+    }
+  }, [chPan, chSendA, chSendB, chSendAPre, chSendBPre, chMute])
+
+  // Channel levels: the fader is post-VCA; with CV patched it also sets the
+  // CV amount, otherwise the VCA stays fully open
+  useEffect(() => {
+    for (let i = 0; i < 6; i++) {
+      setNodeParam(`ch${i}Level`, chLevel[i])
+      if (chCvConnected.current[i]) setNodeParam(`ch${i}Amount`, chLevel[i])
+      else setNodeParam(`ch${i}Offset`, 1)
+    }
+  }, [chLevel])
+
   // Mix CV connect/disconnect
   useEffect(() => {
     console.log('mix cv connect/disconnect')
     if (!nodeRef.current || !mixCvIn.current) return
     const node = nodeRef.current
-    const isConn = connections.some((e) => e.to === `${moduleId}-mix-cv-in`)
+    const isConn = connections.some(
+      (e) => portIdOf(e.to) === `${moduleId}-mix-cv-in`,
+    )
     if (isConn && !mixCvConnected.current) {
       mixCvIn.current.connect(node, 0, 18)
       mixCvConnected.current = true
@@ -352,8 +405,8 @@ export function StereoMixerModule({ moduleId }: { moduleId: string }) {
     for (let i = 0; i < 6; i++) {
       const lId = `${moduleId}-ch${i + 1}-l-in`
       const rId = `${moduleId}-ch${i + 1}-r-in`
-      const hasL = connections.some((e) => e.to === lId)
-      const hasR = connections.some((e) => e.to === rId)
+      const hasL = connections.some((e) => portIdOf(e.to) === lId)
+      const hasR = connections.some((e) => portIdOf(e.to) === rId)
 
       if (hasL && !chInLConnectedRef.current[i]) {
         chInL.current[i]?.connect(node, 0, i * 2)
@@ -377,46 +430,6 @@ export function StereoMixerModule({ moduleId }: { moduleId: string }) {
     }
   }, [connections, moduleId, nodeReady])
 
-  // Channel level slider change handler: flips offset/amount based on CV connection
-  const onLevelChange = useCallback((idx: number, v: number[]) => {
-    console.log('onLevelChange', idx, v)
-    const prev = chLevel.current
-    const next = prev.slice()
-    next[idx] = v[0]
-    chLevel.current = next
-
-    const node = nodeRef.current
-    const ac = acRef.current
-    if (node && ac) {
-      // Always update post-VCA fader immediately
-      node.parameters.get(`ch${idx}Level`)?.setValueAtTime(v[0], ac.currentTime)
-
-      if (chCvConnected.current[idx]) {
-        node.parameters
-          .get(`ch${idx}Amount`)
-          ?.setValueAtTime(v[0], ac.currentTime)
-      } else {
-        // Keep VCA fully open in no-CV case
-        node.parameters.get(`ch${idx}Offset`)?.setValueAtTime(1, ac.currentTime)
-      }
-    }
-  }, [])
-
-  const handleValueRefChange = (
-    paramName: string,
-    value: number,
-    shouldForceUpdate: boolean = false,
-  ) => {
-    if (shouldForceUpdate) {
-      forceUpdate((prev) => prev + 1)
-    }
-    const node = nodeRef.current
-    const ac = acRef.current
-    if (node && ac) {
-      node.parameters.get(paramName)?.setValueAtTime(value, ac.currentTime)
-    }
-  }
-
   return (
     <ModuleContainer title="Stereo Mixer" moduleId={moduleId}>
       <div className="flex gap-4 flex-1">
@@ -438,67 +451,25 @@ export function StereoMixerModule({ moduleId }: { moduleId: string }) {
                   </div>
 
                   <div className="flex flex-col justify-center gap-3 flex-1">
-                    <Knob
-                      defaultValue={[(chPan.current[i] + 1) / 2]}
-                      onValueChange={(v) => {
-                        chPan.current[i] = v[0] * 2 - 1
-                        handleValueRefChange(`ch${i}Pan`, chPan.current[i])
-                      }}
-                      size="sm"
-                      label="Pan"
-                    />
+                    <Knob {...knob('chPan', i)} size="sm" label="Pan" />
 
                     <div className="flex flex-col items-center gap-1">
-                      <Knob
-                        defaultValue={chSendA.current}
-                        onValueChange={(v) => {
-                          chSendA.current[i] = v[0]
-                          handleValueRefChange(
-                            `ch${i}SendA`,
-                            chSendA.current[i],
-                          )
-                        }}
-                        size="sm"
-                        label="A"
-                      />
+                      <Knob {...knob('chSendA', i)} size="sm" label="A" />
                       {/* <Toggle
                       size="xs"
-                      pressed={chSendAPre.current[i]}
-                      onPressedChange={(t) => {
-                        chSendAPre.current[i] = t
-                        handleValueRefChange(
-                          `ch${i}SendAPre`,
-                          chSendAPre.current[i] ? 1 : 0,
-                        )
-                      }}
+                      pressed={chSendAPre[i]}
+                      onPressedChange={(t) => setChannel('chSendAPre', i, t)}
                       className="px-1 py-0.5 text-[10px]"
                     >
                       Pre
                     </Toggle> */}
                     </div>
                     <div className="flex flex-col items-center gap-1">
-                      <Knob
-                        defaultValue={chSendB.current}
-                        onValueChange={(v) => {
-                          chSendB.current[i] = v[0]
-                          handleValueRefChange(
-                            `ch${i}SendB`,
-                            chSendB.current[i],
-                          )
-                        }}
-                        size="sm"
-                        label="B"
-                      />
+                      <Knob {...knob('chSendB', i)} size="sm" label="B" />
                       {/* <Toggle
                       size="xs"
-                      pressed={chSendBPre.current[i]}
-                      onPressedChange={(t) => {
-                        chSendBPre.current[i] = t
-                        handleValueRefChange(
-                          `ch${i}SendBPre`,
-                          chSendBPre.current[i] ? 1 : 0,
-                        )
-                      }}
+                      pressed={chSendBPre[i]}
+                      onPressedChange={(t) => setChannel('chSendBPre', i, t)}
                       className="px-1 py-0.5 text-[10px]"
                     >
                       Pre
@@ -509,11 +480,11 @@ export function StereoMixerModule({ moduleId }: { moduleId: string }) {
                   {/* <Slider
                   orientation="vertical"
                   size="sm"
-                  defaultValue={[chLevel.current[i]]}
+                  value={[chLevel[i]]}
                   min={0}
                   max={1}
                   step={0.001}
-                  onValueChange={(v) => onLevelChange(i, v as number[])}
+                  onValueChange={knob('chLevel', i).onValueChange}
                 />
                 <TextLabel variant="control" className="text-[10px] mb-2">
                   CH{i + 1}
@@ -525,25 +496,13 @@ export function StereoMixerModule({ moduleId }: { moduleId: string }) {
                     audioNode={chCvIn.current[i] ?? undefined}
                   />
                   <VLine className="mb-0.5" />
-                  <Knob
-                    defaultValue={chLevel.current}
-                    onValueChange={(v) => onLevelChange(i, v as number[])}
-                    size="md"
-                    label="Level"
-                  />
+                  <Knob {...knob('chLevel', i)} size="md" label="Level" />
 
                   <Toggle
                     variant="push"
                     size="xs"
-                    pressed={chMute.current[i]}
-                    onPressedChange={(t) => {
-                      chMute.current[i] = t
-                      handleValueRefChange(
-                        `ch${i}Mute`,
-                        chMute.current[i] ? 1 : 0,
-                        true,
-                      )
-                    }}
+                    pressed={chMute[i]}
+                    onPressedChange={(t) => setChannel('chMute', i, t)}
                     className="mt-1"
                   />
 
@@ -576,15 +535,7 @@ export function StereoMixerModule({ moduleId }: { moduleId: string }) {
           <div className="flex flex-col items-center gap-2">
             <div className="flex items-center">
               <div className="flex items-center gap-2">
-                <Knob
-                  defaultValue={retALevel.current}
-                  onValueChange={(v) => {
-                    retALevel.current = v
-                    handleValueRefChange(`retALevel`, v[0])
-                  }}
-                  label="A"
-                  size="sm"
-                />
+                <Knob {...knob('retALevel', 0)} label="A" size="sm" />
                 <div className="flex flex-col items-center gap-2">
                   <TextLabel>return A</TextLabel>
                   <div className="flex items-center">
@@ -629,15 +580,7 @@ export function StereoMixerModule({ moduleId }: { moduleId: string }) {
 
             <div className="flex items-center">
               <div className="flex items-center gap-2">
-                <Knob
-                  defaultValue={retBLevel.current}
-                  onValueChange={(v) => {
-                    retBLevel.current = v
-                    handleValueRefChange(`retBLevel`, v[0])
-                  }}
-                  label="B"
-                  size="sm"
-                />
+                <Knob {...knob('retBLevel', 0)} label="B" size="sm" />
                 <div className="flex flex-col items-center gap-2">
                   <TextLabel>return B</TextLabel>
                   <div className="flex items-center">
@@ -662,14 +605,14 @@ export function StereoMixerModule({ moduleId }: { moduleId: string }) {
                 <TextLabel>Send B</TextLabel>
                 <PortGroup>
                   <Port
-                    id={`$moduleId-sendB-l-out`}
+                    id={`${moduleId}-sendB-l-out`}
                     type="output"
                     label="Left"
                     audioType="audio"
                     audioNode={sendBL.current ?? undefined}
                   />
                   <Port
-                    id={`$moduleId-sendB-r-out`}
+                    id={`${moduleId}-sendB-r-out`}
                     type="output"
                     label="Right"
                     audioType="audio"
@@ -683,11 +626,8 @@ export function StereoMixerModule({ moduleId }: { moduleId: string }) {
               <Slider
                 orientation="vertical"
                 size="md"
-                defaultValue={mixLLevel.current}
-                onValueChange={(v) => {
-                  mixLLevel.current = v
-                  handleValueRefChange(`mixLLevel`, v[0])
-                }}
+                value={mixLLevel}
+                onValueChange={knob('mixLLevel', 0).onValueChange}
                 min={0}
                 max={1}
                 step={0.01}
@@ -695,18 +635,15 @@ export function StereoMixerModule({ moduleId }: { moduleId: string }) {
               <Slider
                 orientation="vertical"
                 size="md"
-                defaultValue={mixRLevel.current}
-                onValueChange={(v) => {
-                  mixRLevel.current = v
-                  handleValueRefChange(`mixRLevel`, v[0])
-                }}
+                value={mixRLevel}
+                onValueChange={knob('mixRLevel', 0).onValueChange}
                 min={0}
                 max={1}
                 step={0.01}
               />
               {/* <div className="flex flex-col items-center gap-2 ml-2">
                 <Port
-                  id={`$moduleId-mix-cv-in`}
+                  id={`${moduleId}-mix-cv-in`}
                   type="input"
                   label="Mix CV"
                   audioType="cv"
@@ -717,20 +654,17 @@ export function StereoMixerModule({ moduleId }: { moduleId: string }) {
                   topLabel="Exp"
                   orientation="horizontal"
                   value={expo}
-                  onValueChange={setExpo}
+                  onValueChange={(v) => set('expo', v)}
                 />
                 <Toggle
                   pressed={muteAffectsSends}
-                  onPressedChange={(t) => setMuteAffectsSends(!!t)}
+                  onPressedChange={(t) => set('muteAffectsSends', !!t)}
                   className="px-2 py-0.5 text-[10px]"
                 >
                   Mute→Sends
                 </Toggle>
                 <Knob
-                  defaultValue={mixSat.current}
-                  onValueChange={(v) => {
-                    mixSat.current = v
-                  }}
+                  {...knob('mixSat', 0)}
                   size="xs"
                   label="Clip"
                 />
@@ -756,14 +690,14 @@ export function StereoMixerModule({ moduleId }: { moduleId: string }) {
 
             <PortGroup>
               <Port
-                id={`$moduleId-mix-l-out`}
+                id={`${moduleId}-mix-l-out`}
                 type="output"
                 label="Left"
                 audioType="audio"
                 audioNode={mixOutL.current ?? undefined}
               />
               <Port
-                id={`$moduleId-mix-r-out`}
+                id={`${moduleId}-mix-r-out`}
                 type="output"
                 label="Right"
                 audioType="audio"
@@ -1,42 +1,44 @@
 'use client'
 
-import { useEffect, useRef, useState } from 'react'
+import { useEffect, useRef } from 'react'
 import { useConnections } from '@/components/connection-manager'
 import { ModuleContainer } from '@/components/module-container'
-import { useModulePatch } from '@/components/patch-manager'
 import { Port, PortGroup } from '@/components/port'
 import { Knob } from '@/components/ui/knob'
 import { useModuleInit } from '@/hooks/use-module-init'
-import { getAudioContext } from '@/lib/helpers'
+import { useModuleParameters } from '@/hooks/use-module-parameters'
+import { usePolyChannels } from '@/hooks/use-poly-channels'
+import { defineParameters } from '@/lib/module-parameters'
+import { input, type ModulePortDescriptor, output } from '@/lib/module-ports'
+import { polyWorkletOptions } from '@/lib/polyphony'
 import * as utils from '@/lib/utils'
 import { VLine } from '../marks'
 
 const MIN_CUTOFF = 20
 const MAX_CUTOFF = 8000
 
-export function SVFFilterModule({ moduleId }: { moduleId: string }) {
-  const { initialParameters } = useModulePatch(moduleId, () => ({
-    cutoff: cutoff[0],
-    resonance: resonance[0],
-    drive: drive[0],
-    cutoffCvAmt: cutoffCvAmt[0],
-    resCvAmt: resCvAmt[0],
-    driveCvAmt: driveCvAmt[0],
-  }))
+// Saved values are knob positions (0..1)
+export const svfFilterParameters = defineParameters([
+  { id: 'cutoff', label: 'Cutoff', min: 0, max: 1, default: 1 },
+  { id: 'resonance', label: 'Resonance', min: 0, max: 1, default: 0 },
+  { id: 'drive', label: 'Drive', min: 0, max: 1, default: 0 },
+  { id: 'cutoffCvAmt', label: 'Cutoff CV', min: 0, max: 1, default: 1 },
+  { id: 'resCvAmt', label: 'Resonance CV', min: 0, max: 1, default: 1 },
+  { id: 'driveCvAmt', label: 'Drive CV', min: 0, max: 1, default: 1 },
+])
 
-  const [cutoff, setCutoff] = useState([initialParameters?.cutoff ?? 1.0])
-  const [resonance, setResonance] = useState([
-    initialParameters?.resonance ?? 0.0,
-  ])
-  const [drive, setDrive] = useState([initialParameters?.drive ?? 0.0])
+export const svfFilterPorts: readonly ModulePortDescriptor[] = [
+  input('audio-in', 'audio'),
+  input('cutoff-cv-in', 'cv'),
+  input('resonance-cv-in', 'cv'),
+  input('drive-cv-in', 'cv'),
+  output('lp-out', 'audio'),
+  output('hp-out', 'audio'),
+]
 
-  const [cutoffCvAmt, setCutoffCvAmt] = useState([
-    initialParameters?.cutoffCvAmt ?? 1.0,
-  ])
-  const [resCvAmt, setResCvAmt] = useState([initialParameters?.resCvAmt ?? 1.0])
-  const [driveCvAmt, setDriveCvAmt] = useState([
-    initialParameters?.driveCvAmt ?? 1.0,
-  ])
+export function SVFFilterModule({ moduleId }: { moduleId: string }) {
+  const { values, knob } = useModuleParameters(moduleId, svfFilterParameters)
+  const { cutoff, resonance, drive, cutoffCvAmt, resCvAmt, driveCvAmt } = values
 
   const acRef = useRef<AudioContext | null>(null)
 
@@ -50,14 +52,8 @@ export function SVFFilterModule({ moduleId }: { moduleId: string }) {
   const hpOutRef = useRef<GainNode | null>(null)
 
   const { registerAudioNode } = useConnections()
-
-  const setMono = (node: AudioNode) => {
-    try {
-      ;(node as any).channelCount = 1
-      ;(node as any).channelCountMode = 'explicit'
-      ;(node as any).channelInterpretation = 'discrete'
-    } catch {}
-  }
+  // One filter voice per audio (or CV) input channel
+  const { channels, bindPoly } = usePolyChannels()
 
   const clamp01 = (x: number) => Math.max(0, Math.min(1, x))
 
@@ -67,7 +63,7 @@ export function SVFFilterModule({ moduleId }: { moduleId: string }) {
     if (!ac || !w) return
     // Cutoff knob now has exponential response
     const cutHz = utils.mapLogarithmic(
-      Math.max(0.0001, cutoff[0]),
+      Math.max(0.0001, cutoff),
       MIN_CUTOFF,
       MAX_CUTOFF,
     )
@@ -78,7 +74,7 @@ export function SVFFilterModule({ moduleId }: { moduleId: string }) {
     const ac = acRef.current
     const w = workletRef.current
     if (!ac || !w) return
-    const r = clamp01(resonance[0])
+    const r = clamp01(resonance)
     w.parameters.get('resonance')?.setTargetAtTime(r, ac.currentTime, 0.03)
   }, [resonance])
 
@@ -86,7 +82,7 @@ export function SVFFilterModule({ moduleId }: { moduleId: string }) {
     const ac = acRef.current
     const w = workletRef.current
     if (!ac || !w) return
-    const d = clamp01(drive[0])
+    const d = clamp01(drive)
     w.parameters.get('drive')?.setTargetAtTime(d, ac.currentTime, 0.03)
   }, [drive])
 
@@ -96,7 +92,7 @@ export function SVFFilterModule({ moduleId }: { moduleId: string }) {
     if (!ac || !w) return
     w.parameters
       .get('cutoffCvAmt')
-      ?.setTargetAtTime(cutoffCvAmt[0], ac.currentTime, 0.03)
+      ?.setTargetAtTime(cutoffCvAmt, ac.currentTime, 0.03)
   }, [cutoffCvAmt])
 
   useEffect(() => {
@@ -105,7 +101,7 @@ export function SVFFilterModule({ moduleId }: { moduleId: string }) {
     if (!ac || !w) return
     w.parameters
       .get('resCvAmt')
-      ?.setTargetAtTime(resCvAmt[0], ac.currentTime, 0.03)
+      ?.setTargetAtTime(resCvAmt, ac.currentTime, 0.03)
   }, [resCvAmt])
 
   useEffect(() => {
@@ -114,21 +110,24 @@ export function SVFFilterModule({ moduleId }: { moduleId: string }) {
     if (!ac || !w) return
     w.parameters
       .get('driveCvAmt')
-      ?.setTargetAtTime(driveCvAmt[0], ac.currentTime, 0.03)
+      ?.setTargetAtTime(driveCvAmt, ac.currentTime, 0.03)
   }, [driveCvAmt])
 
-  useModuleInit(async () => {
+  useModuleInit(async (ac) => {
     if (workletRef.current) return
 
-    const ac = getAudioContext()
     acRef.current = ac
 
     await ac.audioWorklet.addModule('/svf-filter-processor.js')
 
     audioInRef.current = ac.createGain()
-    setMono(audioInRef.current)
     audioInRef.current.gain.value = 1
-    registerAudioNode(`${moduleId}-audio-in`, audioInRef.current, 'input')
+    registerAudioNode(
+      `${moduleId}-audio-in`,
+      audioInRef.current,
+      'input',
+      'audio',
+    )
 
     cutoffCVInRef.current = ac.createGain()
     cutoffCVInRef.current.gain.value = 1
@@ -136,6 +135,7 @@ export function SVFFilterModule({ moduleId }: { moduleId: string }) {
       `${moduleId}-cutoff-cv-in`,
       cutoffCVInRef.current,
       'input',
+      'cv',
     )
 
     resCVInRef.current = ac.createGain()
@@ -144,33 +144,35 @@ export function SVFFilterModule({ moduleId }: { moduleId: string }) {
       `${moduleId}-resonance-cv-in`,
       resCVInRef.current,
       'input',
+      'cv',
     )
 
     driveCVInRef.current = ac.createGain()
     driveCVInRef.current.gain.value = 1
-    registerAudioNode(`${moduleId}-drive-cv-in`, driveCVInRef.current, 'input')
+    registerAudioNode(
+      `${moduleId}-drive-cv-in`,
+      driveCVInRef.current,
+      'input',
+      'cv',
+    )
 
     // Initialize with logarithmic mapping for exponential response
     const initCut = utils.mapLogarithmic(
-      Math.max(0.0001, cutoff[0]),
+      Math.max(0.0001, cutoff),
       MIN_CUTOFF,
       MAX_CUTOFF,
     )
 
     const w = new AudioWorkletNode(ac, 'svf-filter-processor', {
-      numberOfInputs: 4,
-      numberOfOutputs: 2,
-      outputChannelCount: [1, 1],
-      channelCount: 1,
-      channelCountMode: 'explicit',
-      channelInterpretation: 'discrete',
+      processorOptions: { moduleId },
+      ...polyWorkletOptions(4, 2),
       parameterData: {
         cutoff: initCut,
-        resonance: clamp01(resonance[0]),
-        drive: clamp01(drive[0]),
-        cutoffCvAmt: clamp01(cutoffCvAmt[0]),
-        resCvAmt: clamp01(resCvAmt[0]),
-        driveCvAmt: clamp01(driveCvAmt[0]),
+        resonance: clamp01(resonance),
+        drive: clamp01(drive),
+        cutoffCvAmt: clamp01(cutoffCvAmt),
+        resCvAmt: clamp01(resCvAmt),
+        driveCvAmt: clamp01(driveCvAmt),
       },
     } as any)
     workletRef.current = w
@@ -181,54 +183,41 @@ export function SVFFilterModule({ moduleId }: { moduleId: string }) {
     driveCVInRef.current.connect(w, 0, 3)
 
     lpOutRef.current = ac.createGain()
-    setMono(lpOutRef.current)
     lpOutRef.current.gain.value = 1
     w.connect(lpOutRef.current, 0, 0)
-    registerAudioNode(`${moduleId}-lp-out`, lpOutRef.current, 'output')
+    registerAudioNode(`${moduleId}-lp-out`, lpOutRef.current, 'output', 'audio')
 
     hpOutRef.current = ac.createGain()
-    setMono(hpOutRef.current)
     hpOutRef.current.gain.value = 1
     w.connect(hpOutRef.current, 1, 0)
-    registerAudioNode(`${moduleId}-hp-out`, hpOutRef.current, 'output')
+    registerAudioNode(`${moduleId}-hp-out`, hpOutRef.current, 'output', 'audio')
+    bindPoly(w, [lpOutRef.current, hpOutRef.current])
   }, moduleId)
 
   return (
     <ModuleContainer title="Filter" moduleId={moduleId}>
       <div className="flex flex-col items-center justify-start gap-7 flex-1 mt-11">
         <Knob
-          value={cutoff}
-          onValueChange={setCutoff}
+          {...knob('cutoff')}
           size="lg"
           data-param="cutoff"
           label="Cutoff"
         />
         <div className="flex gap-6">
           <Knob
-            value={resonance}
-            onValueChange={setResonance}
+            {...knob('resonance')}
             size="md"
             data-param="resonance"
             label="Res"
           />
-          <Knob
-            value={drive}
-            onValueChange={setDrive}
-            size="md"
-            data-param="drive"
-            label="Drive"
-          />
+          <Knob {...knob('drive')} size="md" data-param="drive" label="Drive" />
         </div>
       </div>
 
       <div className="flex flex-col gap-1">
         <div className="flex justify-between items-end gap-0">
           <div className="flex flex-col items-center gap-3">
-            <Knob
-              value={cutoffCvAmt}
-              onValueChange={setCutoffCvAmt}
-              size="xs"
-            />
+            <Knob {...knob('cutoffCvAmt')} size="xs" />
             <VLine />
             <Port
               id={`${moduleId}-cutoff-cv-in`}
@@ -239,7 +228,7 @@ export function SVFFilterModule({ moduleId }: { moduleId: string }) {
             />
           </div>
           <div className="flex flex-col items-center gap-3">
-            <Knob value={resCvAmt} onValueChange={setResCvAmt} size="xs" />
+            <Knob {...knob('resCvAmt')} size="xs" />
             <VLine />
             <Port
               id={`${moduleId}-resonance-cv-in`}
@@ -250,7 +239,7 @@ export function SVFFilterModule({ moduleId }: { moduleId: string }) {
             />
           </div>
           <div className="flex flex-col items-center gap-3">
-            <Knob value={driveCvAmt} onValueChange={setDriveCvAmt} size="xs" />
+            <Knob {...knob('driveCvAmt')} size="xs" />
             <VLine />
             <Port
               id={`${moduleId}-drive-cv-in`}
@@ -276,6 +265,7 @@ export function SVFFilterModule({ moduleId }: { moduleId: string }) {
               label="LP"
               audioType="audio"
               audioNode={lpOutRef.current ?? undefined}
+              channels={channels}
             />
             <Port
               id={`${moduleId}-hp-out`}
@@ -283,6 +273,7 @@ export function SVFFilterModule({ moduleId }: { moduleId: string }) {
               label="HP"
               audioType="audio"
               audioNode={hpOutRef.current ?? undefined}
+              channels={channels}
             />
           </PortGroup>
         </div>
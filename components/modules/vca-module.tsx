@@ -1,27 +1,36 @@
 'use client'
 
-import { useCallback, useEffect, useRef, useState } from 'react'
+import { useEffect, useRef } from 'react'
 import { ModuleContainer } from '@/components/module-container'
-import { useModulePatch } from '@/components/patch-manager'
 import { Port, PortGroup } from '@/components/port'
 import { Knob } from '@/components/ui/knob'
 import { useModuleInit } from '@/hooks/use-module-init'
-import { getAudioContext } from '@/lib/helpers'
+import { useModuleParameters } from '@/hooks/use-module-parameters'
+import { usePolyChannels } from '@/hooks/use-poly-channels'
+import { defineParameters } from '@/lib/module-parameters'
+import { input, type ModulePortDescriptor, output } from '@/lib/module-ports'
+import { polyWorkletOptions } from '@/lib/polyphony'
 import { mapLinear } from '@/lib/utils'
 import { VLine } from '../marks'
 import { TextLabel } from '../text-label'
 import { Slider } from '../ui/slider'
 
-export function VCAModule({ moduleId }: { moduleId: string }) {
-  // Register with patch manager and get initial parameters
-  const { initialParameters } = useModulePatch(moduleId, () => ({
-    cvAmount: cvAmount[0],
-    offset: offset[0],
-  }))
+export const vcaParameters = defineParameters([
+  { id: 'cvAmount', label: 'CV', min: 0, max: 1, default: 1 },
+  { id: 'offset', label: 'Offset', min: 0, max: 1, default: 0 },
+])
+
+export const vcaPorts: readonly ModulePortDescriptor[] = [
+  input('audio-in', 'audio'),
+  input('cv-in', 'cv'),
+  input('cv-amt-in', 'cv'),
+  output('audio-out', 'audio'),
+]
 
-  // UI knobs are 0..1
-  const [cvAmount, setCvAmount] = useState([initialParameters?.cvAmount ?? 1.0]) // 0..1 attenuator
-  const [offset, setOffset] = useState([initialParameters?.offset ?? 0.0]) // 0..1 base gain
+export function VCAModule({ moduleId }: { moduleId: string }) {
+  // cvAmount: 0..1 attenuator, offset: 0..1 base gain
+  const { values, set, knob } = useModuleParameters(moduleId, vcaParameters)
+  const { cvAmount, offset } = values
 
   const audioContextRef = useRef<AudioContext | null>(null)
   const audioInRef = useRef<GainNode | null>(null)
@@ -30,11 +39,12 @@ export function VCAModule({ moduleId }: { moduleId: string }) {
   const vcaNodeRef = useRef<AudioWorkletNode | null>(null)
   const audioOutRef = useRef<GainNode | null>(null)
   const keepAliveRef = useRef<GainNode | null>(null)
+  // One voice per audio (or CV) input channel
+  const { channels, bindPoly } = usePolyChannels()
 
-  useModuleInit(async () => {
+  useModuleInit(async (ac) => {
     if (vcaNodeRef.current) return // Already initialized
 
-    const ac = getAudioContext()
     audioContextRef.current = ac
 
     await ac.audioWorklet.addModule('/vca-processor.js')
@@ -52,12 +62,11 @@ export function VCAModule({ moduleId }: { moduleId: string }) {
     audioOutRef.current.gain.value = 1
 
     const node = new AudioWorkletNode(ac, 'vca-processor', {
-      numberOfInputs: 3,
-      numberOfOutputs: 1,
-      outputChannelCount: [1],
+      processorOptions: { moduleId },
+      ...polyWorkletOptions(3, 1),
       parameterData: {
-        offset: mapLinear(offset[0], 0, 1),
-        cvAmount: mapLinear(cvAmount[0], 0, 1),
+        offset: mapLinear(offset, 0, 1),
+        cvAmount: mapLinear(cvAmount, 0, 1),
         slewMs: 1,
         dcBlock: 1,
         dcCutHz: 5,
@@ -71,6 +80,7 @@ export function VCAModule({ moduleId }: { moduleId: string }) {
     cvInRef.current.connect(node, 0, 1)
     cvAmtInRef.current.connect(node, 0, 2)
     node.connect(audioOutRef.current)
+    bindPoly(node, [audioOutRef.current])
 
     keepAliveRef.current = ac.createGain()
     keepAliveRef.current.gain.value = 0
@@ -84,7 +94,7 @@ export function VCAModule({ moduleId }: { moduleId: string }) {
     if (ac && node)
       node.parameters
         .get('cvAmount')
-        ?.setValueAtTime(mapLinear(cvAmount[0], 0, 1), ac.currentTime)
+        ?.setValueAtTime(mapLinear(cvAmount, 0, 1), ac.currentTime)
   }, [cvAmount])
 
   useEffect(() => {
@@ -93,15 +103,15 @@ export function VCAModule({ moduleId }: { moduleId: string }) {
     if (ac && node)
       node.parameters
         .get('offset')
-        ?.setValueAtTime(mapLinear(offset[0], 0, 1), ac.currentTime)
+        ?.setValueAtTime(mapLinear(offset, 0, 1), ac.currentTime)
   }, [offset])
 
   return (
     <ModuleContainer title="VCA" moduleId={moduleId} data-module-id={moduleId}>
       <div className="flex flex-col flex-1 justify-start items-center gap-3 mt-4 mb-9">
         <Slider
-          value={offset}
-          onValueChange={setOffset}
+          value={[offset]}
+          onValueChange={(v) => set('offset', v[0])}
           orientation="vertical"
           size="md"
           min={0}
@@ -116,7 +126,7 @@ export function VCAModule({ moduleId }: { moduleId: string }) {
       <div className="flex flex-col items-center gap-1">
         <div className="flex flex-col items-center gap-1">
           <div className="flex flex-col items-center gap-3">
-            <Knob value={cvAmount} onValueChange={setCvAmount} size="xs" />
+            <Knob {...knob('cvAmount')} size="xs" />
             <VLine />
             <Port
               id={`${moduleId}-cv-in`}
@@ -148,6 +158,7 @@ export function VCAModule({ moduleId }: { moduleId: string }) {
             label="OUT"
             audioType="audio"
             audioNode={audioOutRef.current ?? undefined}
+            channels={channels}
           />
         </PortGroup>
       </div>
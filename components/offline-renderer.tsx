@@ -0,0 +1,168 @@
+'use client'
+
+import { useEffect } from 'react'
+import { createRoot } from 'react-dom/client'
+import { AudioEngineProvider } from '@/components/audio-engine-context'
+import {
+  ConnectionProvider,
+  useConnections,
+} from '@/components/connection-manager'
+import { type Patch, PatchSnapshotProvider } from '@/components/patch-manager'
+import { toPx } from '@/lib/layout/pack'
+import { availableModules } from '@/lib/module-registry'
+import { encodeWav, type WavBitDepth } from '@/lib/wav'
+
+export interface OfflineRenderOptions {
+  seconds: number
+  sampleRate?: number
+  bitDepth?: WavBitDepth
+  // Upper bound for modules to mount before the render is abandoned
+  mountTimeoutMs?: number
+}
+
+// Convert a bar count to seconds (4/4)
+export const barsToSeconds = (bars: number, bpm: number) =>
+  (bars * 4 * 60) / Math.max(1, bpm)
+
+// A macrotask rather than an animation frame: background tabs pause rAF
+const nextTask = () => new Promise<void>((resolve) => setTimeout(resolve, 0))
+
+function ConnectionLoader({ patch }: { patch: Patch }) {
+  const { loadPatch } = useConnections()
+
+  // Edges bind as soon as both ports register their audio nodes
+  useEffect(() => {
+    loadPatch({
+      modules: patch.modules,
+      connections: patch.connections.map((conn) => ({
+        ...conn,
+        color: conn.color || '#888888',
+      })),
+    })
+  }, [patch, loadPatch])
+
+  return null
+}
+
+/**
+ * Rebuilds a patch inside an OfflineAudioContext and renders it to a WAV file.
+ * Modules are mounted into a hidden React root so they run the exact same
+ * init code and worklets as in the live rack, only faster than realtime.
+ */
+export async function renderPatchOffline(
+  patch: Patch,
+  {
+    seconds,
+    sampleRate = 48000,
+    bitDepth = 24,
+    mountTimeoutMs = 5000,
+  }: OfflineRenderOptions,
+): Promise<Blob> {
+  const length = Math.max(1, Math.ceil(seconds * sampleRate))
+  const ctx = new OfflineAudioContext(2, length, sampleRate)
+
+  const inits: { moduleId: string; init: Promise<void> }[] = []
+  const entries = patch.modules.flatMap((m) => {
+    const entry = availableModules.find((x) => x.type === m.type)
+    // Each module gets its own provider so its inits (and those of any
+    // modules it mounts) are attributed to it
+    const onInit = (init: Promise<void>) => {
+      inits.push({ moduleId: m.id, init })
+    }
+    return entry ? [{ module: m, entry, onInit }] : []
+  })
+
+  const registered = new Set<string>()
+  let allRegistered: () => void = () => {}
+  const mounted = new Promise<void>((resolve) => {
+    allRegistered = resolve
+  })
+  const onModuleRegistered = (moduleId: string) => {
+    registered.add(moduleId)
+    if (entries.every(({ module }) => registered.has(module.id))) {
+      allRegistered()
+    }
+  }
+
+  const host = document.createElement('div')
+  host.setAttribute('aria-hidden', 'true')
+  host.style.cssText =
+    'position:fixed;left:-100000px;top:0;height:520px;display:flex;visibility:hidden;pointer-events:none'
+  document.body.appendChild(host)
+  const root = createRoot(host)
+
+  try {
+    root.render(
+      <AudioEngineProvider context={ctx} offline>
+        <ConnectionProvider>
+          <PatchSnapshotProvider
+            patch={patch}
+            onModuleRegistered={onModuleRegistered}
+          >
+            {entries.map(({ module, entry, onInit }) => {
+              const Cmp = entry.component
+              return (
+                <div
+                  key={module.id}
+                  className="relative h-full shrink-0"
+                  style={{ width: toPx(entry.hp) }}
+                >
+                  <AudioEngineProvider context={ctx} offline onInit={onInit}>
+                    <Cmp moduleId={module.id} macro={module.macro} />
+                  </AudioEngineProvider>
+                </div>
+              )
+            })}
+            <ConnectionLoader patch={patch} />
+          </PatchSnapshotProvider>
+        </ConnectionProvider>
+      </AudioEngineProvider>,
+    )
+
+    // 1) Wait until every module has mounted and registered
+    if (entries.length === 0) allRegistered()
+    let timer: ReturnType<typeof setTimeout> | undefined
+    await Promise.race([
+      mounted,
+      new Promise<void>((resolve) => {
+        timer = setTimeout(resolve, mountTimeoutMs)
+      }),
+    ])
+    clearTimeout(timer)
+    const unmounted = entries
+      .map(({ module }) => module.id)
+      .filter((id) => !registered.has(id))
+    if (unmounted.length > 0) {
+      throw new Error(`Modules did not mount in time: ${unmounted.join(', ')}`)
+    }
+
+    // 2) Wait for all async inits (worklet loading etc.) to settle
+    let results: PromiseSettledResult<void>[] = []
+    while (results.length !== inits.length) {
+      results = await Promise.allSettled(inits.map(({ init }) => init))
+    }
+    const failed = [
+      ...new Set(
+        inits
+          .filter((_, i) => results[i].status === 'rejected')
+          .map(({ moduleId }) => moduleId),
+      ),
+    ]
+    if (failed.length > 0) {
+      throw new Error(`Modules failed to initialize: ${failed.join(', ')}`)
+    }
+
+    // 3) Two tasks so ports re-render and register their audio nodes
+    await nextTask()
+    await nextTask()
+
+    const rendered = await ctx.startRendering()
+    const channels = Array.from({ length: rendered.numberOfChannels }, (_, c) =>
+      rendered.getChannelData(c),
+    )
+    return encodeWav(channels, rendered.sampleRate, bitDepth)
+  } finally {
+    root.unmount()
+    host.remove()
+  }
+}
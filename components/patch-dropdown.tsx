@@ -4,14 +4,20 @@ import {
   ChevronDown,
   Copy,
   Download,
+  FileAudio,
   FolderOpen,
+  History,
+  Link,
   Plus,
   RotateCcw,
   Save,
+  SlidersHorizontal,
   Trash2,
   Upload,
 } from 'lucide-react'
 import { useState } from 'react'
+import { MidiMappingsDialog } from '@/components/midi-mappings-dialog'
+import { PatchRevisionsDialog } from '@/components/patch-revisions-dialog'
 import { Button } from '@/components/ui/button'
 import {
   Dialog,
@@ -31,8 +37,25 @@ import {
 } from '@/components/ui/dropdown-menu'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
 import { Textarea } from '@/components/ui/textarea'
-import { type Patch, usePatchManager } from './patch-manager'
+import { useToast } from '@/hooks/use-toast'
+import { createShareLink } from '@/lib/share-link'
+import { downloadBlob, type WavBitDepth } from '@/lib/wav'
+import { barsToSeconds, renderPatchOffline } from './offline-renderer'
+import { type Patch, type PatchIssue, usePatchManager } from './patch-manager'
+
+const ISSUE_LABELS: Record<PatchIssue['severity'], string> = {
+  dropped: 'Dropped',
+  fixed: 'Fixed',
+  warning: 'Check',
+}
 
 export function PatchDropdown() {
   const {
@@ -47,21 +70,37 @@ export function PatchDropdown() {
     createNewPatch,
     duplicatePatch,
     loadDefaultPatch,
+    getCurrentState,
   } = usePatchManager()
+  const { toast } = useToast()
 
   const [saveDialogOpen, setSaveDialogOpen] = useState(false)
   const [saveAsDialogOpen, setSaveAsDialogOpen] = useState(false)
   const [importDialogOpen, setImportDialogOpen] = useState(false)
   const [exportDialogOpen, setExportDialogOpen] = useState(false)
   const [duplicateDialogOpen, setDuplicateDialogOpen] = useState(false)
+  const [renderDialogOpen, setRenderDialogOpen] = useState(false)
+  const [midiDialogOpen, setMidiDialogOpen] = useState(false)
+  const [historyPatchName, setHistoryPatchName] = useState<string | null>(null)
 
   const [patchName, setPatchName] = useState('')
   const [patchDescription, setPatchDescription] = useState('')
   const [importJson, setImportJson] = useState('')
+  const [importError, setImportError] = useState<string | null>(null)
+  const [importReport, setImportReport] = useState<{
+    name: string
+    issues: PatchIssue[]
+  } | null>(null)
   const [exportJson, setExportJson] = useState('')
   const [duplicateName, setDuplicateName] = useState('')
   const [selectedPatchForDuplicate, setSelectedPatchForDuplicate] =
     useState<Patch | null>(null)
+  const [renderLength, setRenderLength] = useState('8')
+  const [renderUnit, setRenderUnit] = useState<'seconds' | 'bars'>('bars')
+  const [renderBpm, setRenderBpm] = useState('120')
+  const [renderSampleRate, setRenderSampleRate] = useState('48000')
+  const [renderBitDepth, setRenderBitDepth] = useState<WavBitDepth>(24)
+  const [isRendering, setIsRendering] = useState(false)
 
   const handleSaveAs = () => {
     if (patchName.trim()) {
@@ -77,17 +116,33 @@ export function PatchDropdown() {
     setSaveDialogOpen(false)
   }
 
-  const handleImport = () => {
-    if (importJson.trim()) {
-      const patch = importPatch(importJson.trim())
-      if (patch) {
-        loadPatch(patch)
-        setImportJson('')
-        setImportDialogOpen(false)
-      }
+  const handleImport = async () => {
+    if (!importJson.trim()) return
+    const result = importPatch(importJson.trim())
+    if (!result.ok) {
+      setImportError(result.error)
+      return
+    }
+    setImportError(null)
+    setImportJson('')
+    setImportDialogOpen(false)
+
+    // Load fully, or report exactly what was dropped/repaired
+    const loadIssues = await loadPatch(result.patch)
+    const issues = [...result.issues, ...loadIssues]
+    if (issues.length === 0) {
+      toast({
+        title: 'Patch imported',
+        description: `"${result.patch.name}" loaded completely.`,
+      })
+    } else {
+      setImportReport({ name: result.patch.name, issues })
     }
   }
 
+  const formatIssue = (issue: PatchIssue) =>
+    `${ISSUE_LABELS[issue.severity]} ${issue.path}: ${issue.message}`
+
   const handleExport = (patch: Patch) => {
     const json = exportPatch(patch)
     setExportJson(json)
@@ -103,6 +158,52 @@ export function PatchDropdown() {
     }
   }
 
+  const handleRender = async () => {
+    const length = Number.parseFloat(renderLength)
+    const bpm = Number.parseFloat(renderBpm)
+    if (!(length > 0) || (renderUnit === 'bars' && !(bpm > 0))) return
+    const seconds = renderUnit === 'bars' ? barsToSeconds(length, bpm) : length
+    const patch = getCurrentState()
+
+    setIsRendering(true)
+    try {
+      const wav = await renderPatchOffline(patch, {
+        seconds,
+        sampleRate: Number.parseInt(renderSampleRate, 10),
+        bitDepth: renderBitDepth,
+      })
+      downloadBlob(wav, `${patch.name || 'patch'}.wav`)
+      setRenderDialogOpen(false)
+    } catch (err) {
+      console.error('[PatchDropdown] Offline render failed:', err)
+      toast({
+        title: 'Render failed',
+        description: err instanceof Error ? err.message : String(err),
+        variant: 'destructive',
+      })
+    } finally {
+      setIsRendering(false)
+    }
+  }
+
+  const handleCopyShareLink = async () => {
+    try {
+      const link = await createShareLink(getCurrentState())
+      await navigator.clipboard.writeText(link)
+      toast({
+        title: 'Share link copied',
+        description: `Anyone opening it gets this patch (${Math.ceil(link.length / 1024)} KB link).`,
+      })
+    } catch (err) {
+      console.error('[PatchDropdown] Share link failed:', err)
+      toast({
+        title: 'Could not copy share link',
+        description: err instanceof Error ? err.message : String(err),
+        variant: 'destructive',
+      })
+    }
+  }
+
   const copyToClipboard = (text: string) => {
     navigator.clipboard.writeText(text)
   }
@@ -141,6 +242,21 @@ export function PatchDropdown() {
             Save As...
           </DropdownMenuItem>
 
+          <DropdownMenuItem onClick={() => setRenderDialogOpen(true)}>
+            <FileAudio className="w-4 h-4 mr-2" />
+            Render to WAV...
+          </DropdownMenuItem>
+
+          <DropdownMenuItem onClick={() => setMidiDialogOpen(true)}>
+            <SlidersHorizontal className="w-4 h-4 mr-2" />
+            MIDI Mappings...
+          </DropdownMenuItem>
+
+          <DropdownMenuItem onClick={handleCopyShareLink}>
+            <Link className="w-4 h-4 mr-2" />
+            Copy Share Link
+          </DropdownMenuItem>
+
           <DropdownMenuItem onClick={() => setImportDialogOpen(true)}>
             <Upload className="w-4 h-4 mr-2" />
             Import Patch
@@ -177,6 +293,17 @@ export function PatchDropdown() {
                     >
                       <Download className="w-3 h-3" />
                     </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="w-6 h-6 p-0"
+                      onClick={(e) => {
+                        e.stopPropagation()
+                        setHistoryPatchName(patch.name)
+                      }}
+                    >
+                      <History className="w-3 h-3" />
+                    </Button>
                     <Button
                       variant="ghost"
                       size="sm"
@@ -280,6 +407,110 @@ export function PatchDropdown() {
         </DialogContent>
       </Dialog>
 
+      {/* Render to WAV Dialog */}
+      <Dialog
+        open={renderDialogOpen}
+        onOpenChange={(o) => !isRendering && setRenderDialogOpen(o)}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Render to WAV</DialogTitle>
+            <DialogDescription>
+              Bounce the current patch offline, faster than realtime.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-4 py-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="grid gap-2">
+                <Label htmlFor="render-length">Length</Label>
+                <Input
+                  id="render-length"
+                  type="number"
+                  min={1}
+                  value={renderLength}
+                  onChange={(e) => setRenderLength(e.target.value)}
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label>Unit</Label>
+                <Select
+                  value={renderUnit}
+                  onValueChange={(v) => setRenderUnit(v as 'seconds' | 'bars')}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="bars">Bars</SelectItem>
+                    <SelectItem value="seconds">Seconds</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            {renderUnit === 'bars' && (
+              <div className="grid gap-2">
+                <Label htmlFor="render-bpm">Tempo (BPM, 4/4)</Label>
+                <Input
+                  id="render-bpm"
+                  type="number"
+                  min={1}
+                  value={renderBpm}
+                  onChange={(e) => setRenderBpm(e.target.value)}
+                />
+              </div>
+            )}
+            <div className="grid grid-cols-2 gap-4">
+              <div className="grid gap-2">
+                <Label>Sample Rate</Label>
+                <Select
+                  value={renderSampleRate}
+                  onValueChange={setRenderSampleRate}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="44100">44.1 kHz</SelectItem>
+                    <SelectItem value="48000">48 kHz</SelectItem>
+                    <SelectItem value="96000">96 kHz</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid gap-2">
+                <Label>Bit Depth</Label>
+                <Select
+                  value={String(renderBitDepth)}
+                  onValueChange={(v) =>
+                    setRenderBitDepth(Number(v) as WavBitDepth)
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="16">16-bit</SelectItem>
+                    <SelectItem value="24">24-bit</SelectItem>
+                    <SelectItem value="32">32-bit float</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setRenderDialogOpen(false)}
+              disabled={isRendering}
+            >
+              Cancel
+            </Button>
+            <Button onClick={handleRender} disabled={isRendering}>
+              {isRendering ? 'Rendering...' : 'Render'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Import Patch Dialog */}
       <Dialog open={importDialogOpen} onOpenChange={setImportDialogOpen}>
         <DialogContent className="max-w-2xl">
@@ -295,11 +526,17 @@ export function PatchDropdown() {
               <Textarea
                 id="import-json"
                 value={importJson}
-                onChange={(e) => setImportJson(e.target.value)}
+                onChange={(e) => {
+                  setImportJson(e.target.value)
+                  setImportError(null)
+                }}
                 placeholder="Paste patch JSON here..."
                 rows={10}
                 className="font-mono text-sm"
               />
+              {importError && (
+                <p className="text-sm text-destructive">{importError}</p>
+              )}
             </div>
           </div>
           <DialogFooter>
@@ -316,6 +553,56 @@ export function PatchDropdown() {
         </DialogContent>
       </Dialog>
 
+      {/* Import Report Dialog */}
+      <Dialog
+        open={!!importReport}
+        onOpenChange={(o) => !o && setImportReport(null)}
+      >
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Import Report</DialogTitle>
+            <DialogDescription>
+              "{importReport?.name}" was loaded with{' '}
+              {importReport?.issues.length} change(s). Dropped items are not
+              part of the patch.
+            </DialogDescription>
+          </DialogHeader>
+          <ul className="grid gap-2 py-4 max-h-[50vh] overflow-y-auto text-sm">
+            {importReport?.issues.map((issue) => (
+              <li
+                key={`${issue.path}-${issue.message}`}
+                className="grid gap-0.5"
+              >
+                <span
+                  className={
+                    issue.severity === 'dropped'
+                      ? 'text-destructive'
+                      : 'text-muted-foreground'
+                  }
+                >
+                  {ISSUE_LABELS[issue.severity]}{' '}
+                  <code className="font-mono text-xs">{issue.path}</code>
+                </span>
+                <span>{issue.message}</span>
+              </li>
+            ))}
+          </ul>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() =>
+                copyToClipboard(
+                  importReport?.issues.map(formatIssue).join('\n') ?? '',
+                )
+              }
+            >
+              Copy Report
+            </Button>
+            <Button onClick={() => setImportReport(null)}>Close</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Export Patch Dialog */}
       <Dialog open={exportDialogOpen} onOpenChange={setExportDialogOpen}>
         <DialogContent className="max-w-2xl">
@@ -385,6 +672,16 @@ export function PatchDropdown() {
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      <PatchRevisionsDialog
+        patchName={historyPatchName}
+        onClose={() => setHistoryPatchName(null)}
+      />
+
+      <MidiMappingsDialog
+        open={midiDialogOpen}
+        onOpenChange={setMidiDialogOpen}
+      />
     </>
   )
 }
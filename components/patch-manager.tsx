@@ -7,66 +7,111 @@ import {
   useRef,
   useState,
 } from 'react'
+import { toast } from '@/hooks/use-toast'
+import { portIdOf } from '@/lib/connection-types'
 import { resetAudioContext } from '@/lib/helpers'
+import { macroHp } from '@/lib/macros'
+import { availableModules } from '@/lib/module-registry'
+import {
+  PATCH_SCHEMA_VERSION,
+  type Patch,
+  type PatchConnection,
+  type PatchIssue,
+  type PatchMacro,
+  type PatchModule,
+  type PatchView,
+  parsePatch,
+} from '@/lib/patch-schema'
+import {
+  deleteStoredPatch,
+  loadLegacyPatches,
+  loadRevisions,
+  loadStoredPatches,
+  type PatchRevision,
+  storePatch,
+} from '@/lib/patch-storage'
 import { useConnections } from './connection-manager'
+import { useHistory } from './history-context'
+import { useMidiLearn } from './midi-learn-context'
 
-// -------- Types aligned with the new connection system --------
-export interface PatchModule {
-  id: string
-  type: string
-  parameters: Record<string, any>
-  position?: {
-    x: number
-    y: number
-  }
-  rack?: number
-  x?: number
-}
-
-export interface PatchConnection {
-  id: string // uuid or any unique ID
-  from: string // source port id (output)
-  to: string // target port id (input)
-  kind: 'audio' | 'cv'
-  color?: string // wire color (optional for backward compatibility)
-}
+// Patch types live with the versioned schema; re-exported for existing imports
+export type { Patch, PatchConnection, PatchIssue, PatchModule, PatchView }
+export type { PatchRevision }
 
-export interface Patch {
-  name: string
-  version: string
-  modules: PatchModule[]
-  connections: PatchConnection[]
-  metadata?: {
-    created?: string
-    modified?: string
-    description?: string
-  }
-}
+export type PatchImportResult =
+  | { ok: true; patch: Patch; issues: PatchIssue[] }
+  | { ok: false; error: string }
 
 // Module registration callback types
 type ModuleSaveCallback = () => Record<string, any>
 type ModulePositionCallback = () => { x: number; y: number } | undefined
+// Pushes previously saved parameters back into the module's UI state
+type ModuleApplyCallback = (parameters: Record<string, any>) => void
+// Told a module's parameters whenever they change
+type ModuleParametersListener = (parameters: Record<string, any>) => void
+// Reads and moves the rack camera
+type ViewHandlers = {
+  get: () => PatchView
+  apply: (view: PatchView) => void
+}
 
 interface PatchContextType {
   currentPatch: Patch | null
   availablePatches: Patch[]
   savePatch: (name: string, description?: string) => void
   updateCurrentPatch: () => void
-  loadPatch: (patch: Patch) => void
+  // Resolves with everything that was dropped or repaired while loading
+  loadPatch: (patch: Patch) => Promise<PatchIssue[]>
   exportPatch: (patch: Patch) => string
-  importPatch: (jsonString: string) => Patch | null
+  importPatch: (jsonString: string) => PatchImportResult
   deletePatch: (patchName: string) => void
   getCurrentState: () => Patch
   createNewPatch: () => void
   duplicatePatch: (patch: Patch, newName: string) => Patch
+  // Every save of the named patch, newest first
+  getPatchRevisions: (patchName: string) => Promise<PatchRevision[]>
+  // Makes a revision the patch's latest save and loads it
+  restorePatchRevision: (revision: PatchRevision) => Promise<PatchIssue[]>
   loadDefaultPatch: () => void
+  // Recreates the AudioContext (with the saved audio settings) and reloads
+  // the current patch on it
+  restartAudioEngine: () => Promise<PatchIssue[]>
   registerModule: (
     moduleId: string,
     onSave: ModuleSaveCallback,
     onGetPosition?: ModulePositionCallback,
+    onApply?: ModuleApplyCallback,
   ) => void
   unregisterModule: (moduleId: string) => void
   getInitialParameters: (moduleId: string) => Record<string, any> | undefined
+  // Seed parameters for a module that is about to (re)mount, e.g. undoing a delete
+  primeModuleParameters: (
+    moduleId: string,
+    parameters: Record<string, any>,
+  ) => void
+  // Apply parameters to a mounted module (merged over its current ones).
+  // Returns false if the module cannot apply parameters.
+  applyModuleParameters: (
+    moduleId: string,
+    parameters: Record<string, any>,
+  ) => boolean
+  canApplyModuleParameters: (moduleId: string) => boolean
+  // What the module's save callback returns right now (undefined if unmounted)
+  getModuleParameters: (moduleId: string) => Record<string, any> | undefined
+  // Modules report every change of their parameters, from their own controls
+  // or applied from outside (undo, presets, MIDI, macro knobs)
+  reportModuleParameters: (
+    moduleId: string,
+    parameters: Record<string, any>,
+  ) => void
+  // Follows a module's parameters, also once it registers; returns the
+  // unsubscribe
+  subscribeModuleParameters: (
+    moduleId: string,
+    listener: ModuleParametersListener,
+  ) => () => void
+  // The rack view registers its camera so patches save and restore it
+  registerView: (handlers: ViewHandlers | null) => void
 }
 
 const PatchContext = createContext<PatchContextType | null>(null)
@@ -78,111 +123,148 @@ export function usePatchManager() {
   return context
 }
 
-// Hook for modules to register themselves and get initial parameters
+// Hook for modules to register themselves and get initial parameters.
+// Modules that pass `onApply` get undo/redo: they `record` the changes made
+// through their own controls, and changes applied from outside (presets,
+// macro knobs) are recorded here.
 export function useModulePatch(
   moduleId: string,
   onSave: ModuleSaveCallback,
-  onGetPosition?: ModulePositionCallback,
+  {
+    onGetPosition,
+    onApply,
+  }: {
+    onGetPosition?: ModulePositionCallback
+    onApply?: ModuleApplyCallback
+  } = {},
 ) {
-  const { registerModule, unregisterModule, getInitialParameters } =
-    usePatchManager()
+  const {
+    registerModule,
+    unregisterModule,
+    getInitialParameters,
+    reportModuleParameters,
+  } = usePatchManager()
+  const { push } = useHistory()
 
   // Get initial parameters (only once on mount)
   const [initialParameters] = useState(() => getInitialParameters(moduleId))
 
+  // ---- Parameter history ----
+  const onSaveRef = useRef(onSave)
+  onSaveRef.current = onSave
+  const onApplyRef = useRef(onApply)
+  onApplyRef.current = onApply
+  const hasApply = !!onApply
+
+  const apply = useCallback(
+    (parameters: Record<string, any>) => onApplyRef.current?.(parameters),
+    [],
+  )
+
+  const record = useCallback(
+    (before: Record<string, any>, after: Record<string, any>) => {
+      if (!onApplyRef.current) return
+      push({
+        label: 'Change parameter',
+        coalesceKey: `params:${moduleId}`,
+        undo: () => apply(before),
+        redo: () => apply(after),
+      })
+    },
+    [moduleId, push, apply],
+  )
+
+  const applyExternal = useCallback(
+    (parameters: Record<string, any>) => {
+      const before = onSaveRef.current()
+      apply(parameters)
+      record(before, parameters)
+    },
+    [apply, record],
+  )
+
+  // Call with the new parameters each time they change
+  const report = useCallback(
+    (parameters: Record<string, any>) =>
+      reportModuleParameters(moduleId, parameters),
+    [moduleId, reportModuleParameters],
+  )
+
   // Register on mount, unregister on unmount
   useEffect(() => {
-    registerModule(moduleId, onSave, onGetPosition)
+    registerModule(
+      moduleId,
+      onSave,
+      onGetPosition,
+      hasApply ? applyExternal : undefined,
+    )
     return () => unregisterModule(moduleId)
-  }, [moduleId, onSave, onGetPosition, registerModule, unregisterModule])
-
-  return { initialParameters }
+  }, [
+    moduleId,
+    onSave,
+    onGetPosition,
+    hasApply,
+    applyExternal,
+    registerModule,
+    unregisterModule,
+  ])
+
+  return { initialParameters, record, report }
 }
 
 const createDefaultPatch = (): Patch => ({
   name: 'example patch',
-  version: '2.0',
+  version: PATCH_SCHEMA_VERSION,
   modules: [],
   connections: [],
 })
 
+// What the provider needs to know about each module in the rack
+type RackModule = {
+  id: string
+  type: string
+  rack?: number
+  x?: number
+  hp?: number
+  macro?: PatchMacro
+}
+
 interface PatchProviderProps {
   children: ReactNode
-  modules: Array<{ id: string; type: string; rack?: number; x?: number }>
-  onModulesChange: (
-    modules: Array<{ id: string; type: string; rack?: number; x?: number }>,
-  ) => void
+  modules: RackModule[]
+  onModulesChange: (modules: RackModule[]) => void
   onParameterChange: (moduleId: string, parameter: string, value: any) => void
 }
 
-const STORAGE_KEY = 'synthesizer-patches'
-
-// --------- Persistence helpers (with legacy normalization) ----------
-const normalizeConnections = (conns: any[]): PatchConnection[] => {
-  if (!Array.isArray(conns)) return []
-  return conns.map((c) => {
-    // legacy -> new
-    if (c?.sourcePortId && c.targetPortId && c.audioType) {
-      return {
-        id: c.id || c.uuid || `${c.sourcePortId}->${c.targetPortId}`,
-        from: c.sourcePortId,
-        to: c.targetPortId,
-        kind: c.audioType,
-        ...(c.color && { color: c.color }),
-      }
-    }
-    // already new - preserve color if it exists
-    return {
-      id: c.id,
-      from: c.from,
-      to: c.to,
-      kind: c.kind,
-      ...(c.color && { color: c.color }),
+// --------- Persistence helpers (migrated + validated) ----------
+// Read lazily: the registry imports every module, and modules import this file
+const readStoredPatches = (stored: unknown[]): Patch[] =>
+  stored.flatMap((p) => {
+    try {
+      const { patch, issues } = parsePatch(p, availableModules)
+      if (issues.length > 0)
+        console.warn(`[patch-manager] "${patch.name}" repaired:`, issues)
+      return [patch]
+    } catch (err) {
+      console.warn('[patch-manager] Skipping unreadable stored patch:', err)
+      return []
     }
   })
-}
-
-const normalizePatch = (p: any): Patch | null => {
-  if (!p || typeof p !== 'object') return null
-  if (!Array.isArray(p.modules) || !Array.isArray(p.connections)) return null
-  return {
-    name: p.name || 'Untitled Patch',
-    version: p.version || '2.0',
-    modules: p.modules.map((m: any) => ({
-      id: m.id,
-      type: m.type,
-      parameters: m.parameters || {},
-      ...(m.position && { position: m.position }),
-      ...(m.x !== undefined &&
-        m.y !== undefined && { position: { x: m.x, y: m.y } }),
-      ...(m.rack !== undefined && { rack: m.rack }),
-      ...(m.x !== undefined && { x: m.x }),
-    })),
-    connections: normalizeConnections(p.connections),
-    metadata: p.metadata || {},
-  }
-}
 
-const loadPatchesFromStorage = (): Patch[] => {
-  try {
-    if (typeof window === 'undefined') return []
-    const stored = localStorage.getItem(STORAGE_KEY)
-    if (!stored) return []
-    const raw = JSON.parse(stored)
-    const patches = Array.isArray(raw)
-      ? (raw.map(normalizePatch).filter(Boolean) as Patch[])
-      : []
-    return patches
-  } catch {
-    return []
-  }
+// Storage runs in the background; failures must not pass silently
+const reportStorageError = (action: string, err: unknown) => {
+  console.error(`[patch-manager] Could not ${action}:`, err)
+  toast({
+    title: `Could not ${action}`,
+    description: err instanceof Error ? err.message : String(err),
+    variant: 'destructive',
+  })
 }
 
-const savePatchesToStorage = (patches: Patch[]) => {
-  try {
-    if (typeof window === 'undefined') return
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(patches))
-  } catch {}
+const persistPatch = (patch: Patch) => {
+  storePatch(patch).catch((err) =>
+    reportStorageError(`save "${patch.name}"`, err),
+  )
 }
 
 // -------------------- Provider --------------------
@@ -203,12 +285,24 @@ export function PatchProvider({
       {
         onSave: ModuleSaveCallback
         onGetPosition?: ModulePositionCallback
+        onApply?: ModuleApplyCallback
       }
     >
   >(new Map())
 
+  const parameterListenersRef = useRef<
+    Map<string, Set<ModuleParametersListener>>
+  >(new Map())
+
   // Temporary storage for initial parameters when loading a patch
   const initialParametersRef = useRef<Record<string, Record<string, any>>>({})
+  const viewRef = useRef<ViewHandlers | null>(null)
+
+  const registerView = useCallback((handlers: ViewHandlers | null) => {
+    viewRef.current = handlers
+  }, [])
+
+  const { clear: clearHistory } = useHistory()
 
   // NEW connection APIs
   const {
@@ -216,24 +310,48 @@ export function PatchProvider({
     exportPatch: exportPatchJSON,
     loadPatch: loadPatchJSON,
     clearAllConnections,
+    getPortMeta,
   } = useConnections()
 
+  const {
+    mappings: midiMappings,
+    setMappings: setMidiMappings,
+    retainModules: retainMidiMappings,
+  } = useMidiLearn()
+
+  // Forget MIDI mappings of removed modules
+  useEffect(() => {
+    retainMidiMappings(modules.map((m) => m.id))
+  }, [modules, retainMidiMappings])
+
   // Init: load storage + ensure default present
   useEffect(() => {
     if (isInitialized) return
-    const stored = loadPatchesFromStorage()
+    setIsInitialized(true)
     const defaultPatch = createDefaultPatch()
-    const hasDefault = stored.some((p) => p.name === 'example patch')
-    const all = hasDefault ? stored : [defaultPatch, ...stored]
-    setAvailablePatches(all)
+    setAvailablePatches([defaultPatch])
     setCurrentPatch(defaultPatch)
-    setIsInitialized(true)
-  }, [isInitialized])
 
-  // Persist to localStorage when list changes
-  useEffect(() => {
-    if (isInitialized) savePatchesToStorage(availablePatches)
-  }, [availablePatches, isInitialized])
+    loadStoredPatches()
+      .catch((err) => {
+        reportStorageError('open the patch library', err)
+        return loadLegacyPatches()
+      })
+      .then((raw) => {
+        const stored = readStoredPatches(raw)
+        // Keep anything saved while the library was still loading
+        setAvailablePatches((prev) => {
+          const saved = prev.filter((p) => p !== defaultPatch)
+          const merged = [
+            ...stored.filter((p) => !saved.some((q) => q.name === p.name)),
+            ...saved,
+          ]
+          return merged.some((p) => p.name === defaultPatch.name)
+            ? merged
+            : [defaultPatch, ...merged]
+        })
+      })
+  }, [isInitialized])
 
   // Get current state by calling all registered module callbacks
   const getCurrentState = useCallback((): Patch => {
@@ -250,13 +368,18 @@ export function PatchProvider({
         ...(position && { position }),
         ...(m.rack && { rack: m.rack }),
         ...(m.x !== undefined && { x: m.x }),
+        ...(m.macro && { macro: m.macro }),
       }
     })
 
     const { connections: edges } = exportPatchJSON(modulesForExport)
+    const mappings = midiMappings.filter((mm) =>
+      modules.some((m) => m.id === mm.moduleId),
+    )
+    const view = viewRef.current?.get()
     return {
       name: currentPatch?.name || 'Untitled Patch',
-      version: '2.0',
+      version: PATCH_SCHEMA_VERSION,
       modules: modulesForExport,
       connections: edges.map((e) => ({
         id: e.id,
@@ -264,10 +387,13 @@ export function PatchProvider({
         to: e.to,
         kind: e.kind,
         ...(e.color && { color: e.color }),
+        ...(e.feedback && { feedback: true }),
       })),
+      ...(mappings.length > 0 && { midiMappings: mappings }),
+      ...(view && { view }),
       metadata: { modified: new Date().toISOString() },
     }
-  }, [modules, currentPatch, exportPatchJSON])
+  }, [modules, currentPatch, exportPatchJSON, midiMappings])
 
   const savePatch = useCallback(
     (name: string, description?: string) => {
@@ -290,6 +416,7 @@ export function PatchProvider({
         return [...prev, patch]
       })
       setCurrentPatch(patch)
+      persistPatch(patch)
     },
     [getCurrentState],
   )
@@ -313,7 +440,9 @@ export function PatchProvider({
       return prev
     })
     setCurrentPatch(updated)
-  }, [currentPatch, getCurrentState])
+    if (availablePatches.some((p) => p.name === currentPatch.name))
+      persistPatch(updated)
+  }, [currentPatch, getCurrentState, availablePatches])
 
   // Wait until all modules in the patch have mounted and registered
   const waitForModuleRegistration = useCallback(
@@ -339,9 +468,15 @@ export function PatchProvider({
   )
 
   const loadPatch = useCallback(
-    async (patchLike: Patch) => {
-      const patch = normalizePatch(patchLike) as Patch
-      if (!patch) return
+    async (patchLike: Patch): Promise<PatchIssue[]> => {
+      let parsed: ReturnType<typeof parsePatch>
+      try {
+        parsed = parsePatch(patchLike, availableModules)
+      } catch (err) {
+        console.error('[patch-manager] Cannot load patch:', err)
+        return []
+      }
+      const { patch, issues } = parsed
 
       // 1) Store initial parameters for modules to retrieve
       initialParametersRef.current = {}
@@ -351,6 +486,8 @@ export function PatchProvider({
 
       // 2) Tear down previous graph completely
       clearAllConnections()
+      clearHistory()
+      setMidiMappings([])
       // Force unmount all modules before creating new graph
       onModulesChange([])
       // Destroy and reset the shared AudioContext so modules will create fresh nodes
@@ -368,14 +505,41 @@ export function PatchProvider({
           : m.position?.x !== undefined
             ? { x: m.position.x }
             : {}),
+        ...(m.macro && { macro: m.macro, hp: macroHp(m.macro) }),
       }))
       onModulesChange(moduleInstances)
 
       // 4) Wait until modules have mounted and registered so ports exist in the DOM
       await waitForModuleRegistration(patch.modules.map((m) => m.id))
+      if (patch.view) viewRef.current?.apply(patch.view)
+
+      // 5) Drop connections to ports the mounted modules do not have
+      const validConnections = patch.connections.filter((conn) => {
+        const fromId = portIdOf(conn.from)
+        const toId = portIdOf(conn.to)
+        const from = getPortMeta(fromId)
+        const to = getPortMeta(toId)
+        const problem = !from
+          ? `Port "${fromId}" does not exist`
+          : from.direction !== 'output'
+            ? `Port "${fromId}" is not an output`
+            : !to
+              ? `Port "${toId}" does not exist`
+              : to.direction !== 'input'
+                ? `Port "${toId}" is not an input`
+                : null
+        if (problem)
+          issues.push({
+            severity: 'dropped',
+            path: `connections[${conn.id}]`,
+            message: `${problem}; cable ${fromId} → ${toId} removed`,
+          })
+        return !problem
+      })
+      patch.connections = validConnections
 
-      // 5) Load connections via provider once ports become ready
-      const connectionsWithColors = patch.connections.map((conn) => ({
+      // 6) Load connections via provider once ports become ready
+      const connectionsWithColors = validConnections.map((conn) => ({
         ...conn,
         color: conn.color || '#888888',
       }))
@@ -383,13 +547,24 @@ export function PatchProvider({
         modules: patch.modules,
         connections: connectionsWithColors,
       })
+      setMidiMappings(patch.midiMappings ?? [])
       setCurrentPatch(patch)
+
+      if (issues.length > 0)
+        console.warn(
+          `[patch-manager] "${patch.name}" loaded with issues:`,
+          issues,
+        )
+      return issues
     },
     [
       onModulesChange,
       loadPatchJSON,
       waitForModuleRegistration,
       clearAllConnections,
+      clearHistory,
+      getPortMeta,
+      setMidiMappings,
     ],
   )
 
@@ -398,14 +573,24 @@ export function PatchProvider({
     [],
   )
 
-  const importPatch = useCallback((jsonString: string): Patch | null => {
+  const importPatch = useCallback((jsonString: string): PatchImportResult => {
+    let raw: unknown
     try {
-      const raw = JSON.parse(jsonString)
-      const norm = normalizePatch(raw)
-      if (!norm) return null
-      return norm
-    } catch {
-      return null
+      raw = JSON.parse(jsonString)
+    } catch (err) {
+      return {
+        ok: false,
+        error: `Invalid JSON: ${err instanceof Error ? err.message : err}`,
+      }
+    }
+    try {
+      const { patch, issues } = parsePatch(raw, availableModules)
+      return { ok: true, patch, issues }
+    } catch (err) {
+      return {
+        ok: false,
+        error: err instanceof Error ? err.message : String(err),
+      }
     }
   }, [])
 
@@ -413,15 +598,20 @@ export function PatchProvider({
     if (patchName === 'Default Patch') return
     setAvailablePatches((prev) => prev.filter((p) => p.name !== patchName))
     setCurrentPatch((cp) => (cp?.name === patchName ? null : cp))
+    deleteStoredPatch(patchName).catch((err) =>
+      reportStorageError(`delete "${patchName}"`, err),
+    )
   }, [])
 
   const createNewPatch = useCallback(() => {
     // Clear connections at the graph level before changing modules
     clearAllConnections()
+    clearHistory()
+    setMidiMappings([])
 
     const blank: Patch = {
       name: 'New Patch',
-      version: '1.0',
+      version: PATCH_SCHEMA_VERSION,
       modules: [],
       connections: [],
       metadata: {
@@ -431,12 +621,20 @@ export function PatchProvider({
       },
     }
     setCurrentPatch(blank)
-  }, [clearAllConnections, onModulesChange])
+  }, [clearAllConnections, clearHistory, onModulesChange, setMidiMappings])
 
   const loadDefaultPatch = useCallback(() => {
     loadPatch(createDefaultPatch())
   }, [loadPatch])
 
+  const restartAudioEngine = useCallback(() => {
+    const state = getCurrentState()
+    return loadPatch({
+      ...state,
+      metadata: { ...currentPatch?.metadata, ...state.metadata },
+    })
+  }, [getCurrentState, loadPatch, currentPatch])
+
   const duplicatePatch = useCallback((patch: Patch, newName: string) => {
     const dup: Patch = {
       ...patch,
@@ -449,17 +647,64 @@ export function PatchProvider({
       },
     }
     setAvailablePatches((prev) => [...prev, dup])
+    persistPatch(dup)
     return dup
   }, [])
 
+  const getPatchRevisions = useCallback(
+    (patchName: string) =>
+      loadRevisions(patchName).catch((err) => {
+        reportStorageError(`read the history of "${patchName}"`, err)
+        return []
+      }),
+    [],
+  )
+
+  const restorePatchRevision = useCallback(
+    async (revision: PatchRevision) => {
+      let patch: Patch
+      try {
+        patch = parsePatch(revision.patch, availableModules).patch
+      } catch (err) {
+        reportStorageError('restore this revision', err)
+        return []
+      }
+      patch.name = revision.patchName
+      patch.metadata = {
+        ...patch.metadata,
+        modified: new Date().toISOString(),
+      }
+      setAvailablePatches((prev) =>
+        prev.some((p) => p.name === patch.name)
+          ? prev.map((p) => (p.name === patch.name ? patch : p))
+          : [...prev, patch],
+      )
+      persistPatch(patch)
+      return loadPatch(patch)
+    },
+    [loadPatch],
+  )
+
   // Register a module with its save callback
   const registerModule = useCallback(
     (
       moduleId: string,
       onSave: ModuleSaveCallback,
       onGetPosition?: ModulePositionCallback,
+      onApply?: ModuleApplyCallback,
     ) => {
-      moduleCallbacksRef.current.set(moduleId, { onSave, onGetPosition })
+      const isNew = !moduleCallbacksRef.current.has(moduleId)
+      moduleCallbacksRef.current.set(moduleId, {
+        onSave,
+        onGetPosition,
+        onApply,
+      })
+      if (!isNew) return
+      const listeners = parameterListenersRef.current.get(moduleId)
+      if (listeners?.size) {
+        const parameters = onSave()
+        for (const listener of listeners) listener(parameters)
+      }
     },
     [],
   )
@@ -477,6 +722,56 @@ export function PatchProvider({
     [],
   )
 
+  const primeModuleParameters = useCallback(
+    (moduleId: string, parameters: Record<string, any>) => {
+      initialParametersRef.current[moduleId] = parameters
+    },
+    [],
+  )
+
+  // Goes through the module's onApply, so the change is recorded in history
+  const applyModuleParameters = useCallback(
+    (moduleId: string, parameters: Record<string, any>) => {
+      const callbacks = moduleCallbacksRef.current.get(moduleId)
+      if (!callbacks?.onApply) return false
+      callbacks.onApply({ ...callbacks.onSave(), ...parameters })
+      return true
+    },
+    [],
+  )
+
+  const canApplyModuleParameters = useCallback(
+    (moduleId: string) => !!moduleCallbacksRef.current.get(moduleId)?.onApply,
+    [],
+  )
+
+  const getModuleParameters = useCallback(
+    (moduleId: string) => moduleCallbacksRef.current.get(moduleId)?.onSave(),
+    [],
+  )
+
+  const reportModuleParameters = useCallback(
+    (moduleId: string, parameters: Record<string, any>) => {
+      const listeners = parameterListenersRef.current.get(moduleId)
+      for (const listener of listeners ?? []) listener(parameters)
+    },
+    [],
+  )
+
+  const subscribeModuleParameters = useCallback(
+    (moduleId: string, listener: ModuleParametersListener) => {
+      const all = parameterListenersRef.current
+      const listeners = all.get(moduleId) ?? new Set()
+      all.set(moduleId, listeners)
+      listeners.add(listener)
+      return () => {
+        listeners.delete(listener)
+        if (listeners.size === 0) all.delete(moduleId)
+      }
+    },
+    [],
+  )
+
   return (
     <PatchContext.Provider
       value={{
@@ -491,10 +786,113 @@ export function PatchProvider({
         getCurrentState,
         createNewPatch,
         duplicatePatch,
+        getPatchRevisions,
+        restorePatchRevision,
         loadDefaultPatch,
+        restartAudioEngine,
+        registerModule,
+        unregisterModule,
+        getInitialParameters,
+        primeModuleParameters,
+        applyModuleParameters,
+        canApplyModuleParameters,
+        getModuleParameters,
+        reportModuleParameters,
+        subscribeModuleParameters,
+        registerView,
+      }}
+    >
+      {children}
+    </PatchContext.Provider>
+  )
+}
+
+// -------------------- Snapshot provider --------------------
+// Serves a fixed patch's parameters to modules mounted outside the live rack
+// (e.g. the offline renderer). Library/storage operations are no-ops.
+export function PatchSnapshotProvider({
+  patch,
+  onModuleRegistered,
+  children,
+}: {
+  patch: Patch
+  onModuleRegistered?: (moduleId: string) => void
+  children: ReactNode
+}) {
+  const moduleCallbacksRef = useRef<Map<string, ModuleSaveCallback>>(new Map())
+  // Seeded by modules that mount others (macros)
+  const primedRef = useRef<Record<string, Record<string, any>>>({})
+
+  const getCurrentState = useCallback(
+    (): Patch => ({
+      ...patch,
+      modules: patch.modules.map((m) => ({
+        ...m,
+        parameters:
+          moduleCallbacksRef.current.get(m.id)?.() ?? m.parameters ?? {},
+      })),
+    }),
+    [patch],
+  )
+
+  const registerModule = useCallback(
+    (moduleId: string, onSave: ModuleSaveCallback) => {
+      const isNew = !moduleCallbacksRef.current.has(moduleId)
+      moduleCallbacksRef.current.set(moduleId, onSave)
+      if (isNew) onModuleRegistered?.(moduleId)
+    },
+    [onModuleRegistered],
+  )
+
+  const unregisterModule = useCallback((moduleId: string) => {
+    moduleCallbacksRef.current.delete(moduleId)
+  }, [])
+
+  const getInitialParameters = useCallback(
+    (moduleId: string) =>
+      primedRef.current[moduleId] ??
+      patch.modules.find((m) => m.id === moduleId)?.parameters,
+    [patch],
+  )
+
+  const primeModuleParameters = useCallback(
+    (moduleId: string, parameters: Record<string, any>) => {
+      primedRef.current[moduleId] = parameters
+    },
+    [],
+  )
+
+  const noop = useCallback(() => {}, [])
+
+  return (
+    <PatchContext.Provider
+      value={{
+        currentPatch: patch,
+        availablePatches: [],
+        savePatch: noop,
+        updateCurrentPatch: noop,
+        loadPatch: async () => [],
+        exportPatch: (p) => JSON.stringify(p, null, 2),
+        importPatch: () => ({ ok: false, error: 'Import is unavailable here' }),
+        deletePatch: noop,
+        getCurrentState,
+        createNewPatch: noop,
+        duplicatePatch: (p) => p,
+        getPatchRevisions: async () => [],
+        restorePatchRevision: async () => [],
+        loadDefaultPatch: noop,
+        restartAudioEngine: async () => [],
         registerModule,
         unregisterModule,
         getInitialParameters,
+        primeModuleParameters,
+        applyModuleParameters: () => false,
+        canApplyModuleParameters: () => false,
+        getModuleParameters: (moduleId) =>
+          moduleCallbacksRef.current.get(moduleId)?.(),
+        reportModuleParameters: noop,
+        subscribeModuleParameters: () => noop,
+        registerView: noop,
       }}
     >
       {children}
@@ -0,0 +1,120 @@
+'use client'
+
+import { RotateCcw } from 'lucide-react'
+import { useEffect, useState } from 'react'
+import { type PatchRevision, usePatchManager } from '@/components/patch-manager'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { useToast } from '@/hooks/use-toast'
+import { MAX_REVISIONS_PER_PATCH } from '@/lib/patch-storage'
+
+// Counts shown per revision; revisions are unvalidated, so read defensively
+const summarize = (patch: unknown) => {
+  const p = patch as { modules?: unknown; connections?: unknown } | null
+  const count = (v: unknown) => (Array.isArray(v) ? v.length : 0)
+  const modules = count(p?.modules)
+  const cables = count(p?.connections)
+  return `${modules} module${modules === 1 ? '' : 's'}, ${cables} cable${cables === 1 ? '' : 's'}`
+}
+
+export function PatchRevisionsDialog({
+  patchName,
+  onClose,
+}: {
+  // Patch whose history is shown; null closes the dialog
+  patchName: string | null
+  onClose: () => void
+}) {
+  const { getPatchRevisions, restorePatchRevision } = usePatchManager()
+  const { toast } = useToast()
+  const [revisions, setRevisions] = useState<PatchRevision[] | null>(null)
+
+  useEffect(() => {
+    setRevisions(null)
+    if (!patchName) return
+    let cancelled = false
+    getPatchRevisions(patchName).then((r) => {
+      if (!cancelled) setRevisions(r)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [patchName, getPatchRevisions])
+
+  const handleRestore = async (revision: PatchRevision) => {
+    onClose()
+    const issues = await restorePatchRevision(revision)
+    toast({
+      title: 'Revision restored',
+      description: `"${revision.patchName}" from ${new Date(revision.savedAt).toLocaleString()}${issues.length > 0 ? ` (${issues.length} repaired)` : ''}.`,
+    })
+  }
+
+  return (
+    <Dialog open={patchName !== null} onOpenChange={(o) => !o && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>History of "{patchName}"</DialogTitle>
+          <DialogDescription>
+            Every save is kept (the latest {MAX_REVISIONS_PER_PATCH}). Restoring
+            makes that version the current save and loads it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-80 overflow-y-auto border rounded-md divide-y">
+          {revisions === null && (
+            <div className="p-4 text-center text-sm text-muted-foreground">
+              Loading...
+            </div>
+          )}
+          {revisions?.length === 0 && (
+            <div className="p-4 text-center text-sm text-muted-foreground">
+              No saved revisions
+            </div>
+          )}
+          {revisions?.map((revision, i) => (
+            <div
+              key={revision.id}
+              className="flex items-center gap-2 px-3 py-2 text-sm"
+            >
+              <div className="flex-1">
+                <div>
+                  {new Date(revision.savedAt).toLocaleString()}
+                  {i === 0 && (
+                    <span className="ml-2 text-xs text-muted-foreground">
+                      (latest)
+                    </span>
+                  )}
+                </div>
+                <div className="text-xs text-muted-foreground">
+                  {summarize(revision.patch)}
+                </div>
+              </div>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => handleRestore(revision)}
+              >
+                <RotateCcw className="w-3 h-3 mr-1" />
+                Restore
+              </Button>
+            </div>
+          ))}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Close
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -2,18 +2,36 @@
 'use client'
 
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import { type AudioKind, portAddressIn } from '@/lib/connection-types'
 import { cn } from '@/lib/utils'
 import { useConnections } from './connection-manager'
+import { useModuleId } from './module-container'
 import { TextLabel } from './text-label'
 
-type PortKind = 'audio' | 'cv' | 'any'
+// Ring around the jack, so what a port carries shows before patching
+const KIND_RING_COLORS: Record<AudioKind, string> = {
+  audio: '#f59e0b',
+  cv: '#38bdf8',
+  pitch: '#a78bfa',
+  gate: '#4ade80',
+  trigger: '#f472b6',
+  any: 'transparent',
+}
 
 export interface PortProps {
+  // `${moduleId}-${portName}`
   id: string
+  // Module the jack is on; defaults to the panel it is rendered on
+  moduleId?: string
   type: 'input' | 'output'
   label?: string
-  audioType: 'audio' | 'cv' | 'gate' | 'trig' | 'any'
+  audioType: 'audio' | 'cv' | 'pitch' | 'gate' | 'trig' | 'trigger' | 'any'
   audioNode?: AudioNode
+  // Polyphonic channels on an output (1 = mono); cables from it follow
+  channels?: number
+  // Independent channel of the module the jack belongs to; cables between
+  // jacks of different sections never close a feedback loop
+  section?: string
   className?: string
   indicator?: boolean
 }
@@ -40,17 +58,23 @@ function voltageToColor(voltage: number, isGateOrTrigger?: boolean): string {
 
 export function Port({
   id,
+  moduleId: moduleIdProp,
   type,
   label,
   audioType,
   audioNode,
+  channels = 1,
+  section,
   className,
   indicator = true,
 }: PortProps) {
+  const panelModuleId = useModuleId()
+  const moduleId = moduleIdProp ?? panelModuleId
   const {
     registerPort,
     unregisterPort,
     registerAudioNode,
+    setPortChannels,
     beginDrag,
     updateDrag,
     endDrag,
@@ -78,20 +102,20 @@ export function Port({
     }
   }, [id, getConnectedWireColor, getDragColor, connections])
 
-  // ⬇️ map to connection-manager kind, treating "any" as "any"
-  const kind: PortKind = useMemo(() => {
-    if (audioType === 'any') return 'any'
-    return audioType === 'audio' ? 'audio' : 'cv' // gate/trig treated as cv
-  }, [audioType])
+  const kind: AudioKind = useMemo(
+    () => (audioType === 'trig' ? 'trigger' : audioType),
+    [audioType],
+  )
+  const isGateOrTrigger = kind === 'gate' || kind === 'trigger'
 
   // Register AudioNode (safe if undefined early)
   useEffect(() => {
-    if (audioNode) {
-      // If your registerAudioNode takes only (id, node), the extra arg is ignored
-      // If it takes (id, node, direction), this still works.
-      registerAudioNode(id, audioNode, type)
-    }
-  }, [id, type, audioNode, registerAudioNode])
+    if (audioNode) registerAudioNode(id, audioNode, type, kind)
+  }, [id, type, kind, audioNode, registerAudioNode])
+
+  useEffect(() => {
+    if (type === 'output') setPortChannels(id, channels)
+  }, [id, type, channels, setPortChannels])
 
   // Monitor signal value if indicator is enabled
   useEffect(() => {
@@ -133,8 +157,10 @@ export function Port({
       // For CV signals, use instantaneous; for audio, use RMS
       const value =
         audioType === 'cv' ||
+        audioType === 'pitch' ||
         audioType === 'gate' ||
         audioType === 'trig' ||
+        audioType === 'trigger' ||
         audioType === 'any' ||
         audioType === 'audio'
           ? instantValue
@@ -165,8 +191,6 @@ export function Port({
     (el: HTMLDivElement | null) => {
       if (el) {
         nodeRef.current = el
-        // NOTE: moduleId derivation: "<moduleId>-<port-name...>"
-        const moduleId = id.split('-').slice(0, -2).join('-') || id
         registerPort(
           // Some apps expect (meta, el); others expect (id, meta)
           // We pass (id, meta) here as per your current app usage.
@@ -174,8 +198,11 @@ export function Port({
           {
             el, // must be an Element for ResizeObserver
             direction: type, // "input" | "output"
-            kind, // "audio" | "cv" | "any"
-            moduleId,
+            kind,
+            address: moduleId
+              ? (portAddressIn(moduleId, id) ?? undefined)
+              : undefined,
+            section,
           },
         )
       } else {
@@ -183,7 +210,7 @@ export function Port({
         nodeRef.current = null
       }
     },
-    [id, type, kind, registerPort, unregisterPort],
+    [id, moduleId, type, kind, section, registerPort, unregisterPort],
   )
 
   const onPointerDown = (e: React.PointerEvent) => {
@@ -204,7 +231,14 @@ export function Port({
     const toId =
       elAtPoint?.closest('[data-port-id]')?.getAttribute('data-port-id') ||
       undefined
-    endDrag(toId)
+    // Rack space outside any panel; a miss on a panel is not empty space
+    const overEmptyRack =
+      !!elAtPoint?.closest('#racks-world') &&
+      !elAtPoint.closest('[data-module-wrapper-id]')
+    endDrag(
+      toId,
+      overEmptyRack ? { clientX: e.clientX, clientY: e.clientY } : undefined,
+    )
     try {
       ;(e.currentTarget as HTMLElement).releasePointerCapture(e.pointerId)
     } catch {}
@@ -226,6 +260,7 @@ export function Port({
         ref={setNodeRef}
         data-port-id={id}
         data-port-kind={kind}
+        data-port-label={label}
         className={cn(
           'relative size-[27px] shrink-0 rounded-full cursor-pointer select-none bg-port-jack-outer-ring border-red-500 shadow-[0_0_0_1px_rgba(0,0,0,0.4),0_3px_0_0_rgba(0,0,0,0.25)]',
         )}
@@ -233,6 +268,10 @@ export function Port({
         onPointerMove={onPointerMove}
         onPointerUp={onPointerUp}
       >
+        <div
+          className="pointer-events-none absolute -inset-[3px] rounded-full border-2"
+          style={{ borderColor: KIND_RING_COLORS[kind] }}
+        />
         <div
           className={`absolute inset-[3px] border border-black/50 rounded-full shadow-[inset_0_1px_0_0px_rgba(255,255,255,0.4),0_1px_0_0_rgba(0,0,0,0.5)] ${!wireColor ? 'dark:bg-port-jack-inner-ring' : 'bg-black'}`}
         />
@@ -241,14 +280,8 @@ export function Port({
           <div
             className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-2 h-2 rounded-full"
             style={{
-              backgroundColor: voltageToColor(
-                signalValue,
-                ['gate', 'trigger'].includes(audioType),
-              ),
-              boxShadow: `0 0 3px ${voltageToColor(
-                signalValue,
-                ['gate', 'trigger'].includes(audioType),
-              )}`,
+              backgroundColor: voltageToColor(signalValue, isGateOrTrigger),
+              boxShadow: `0 0 3px ${voltageToColor(signalValue, isGateOrTrigger)}`,
             }}
           />
         ) : (
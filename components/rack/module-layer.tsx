@@ -1,16 +1,45 @@
 'use client'
 
-import { Book, X } from 'lucide-react'
+import {
+  ArrowDownToLine,
+  ArrowUpToLine,
+  Book,
+  Boxes,
+  Copy,
+  Library,
+  RotateCcw,
+  Save,
+  SlidersHorizontal,
+  Unlink,
+  X,
+} from 'lucide-react'
 import * as React from 'react'
 import InfoSheet from '@/components/info-sheet'
 import { useLayout } from '@/components/layout-context'
+import {
+  type MidiLearnTarget,
+  useMidiLearn,
+} from '@/components/midi-learn-context'
+import { useModulePresets } from '@/components/module-presets-context'
+import { ModulePresetsDialog } from '@/components/module-presets-dialog'
+import { usePatchManager } from '@/components/patch-manager'
 import {
   ContextMenu,
+  ContextMenuCheckboxItem,
   ContextMenuContent,
   ContextMenuItem,
+  ContextMenuLabel,
+  ContextMenuSeparator,
+  ContextMenuSub,
+  ContextMenuSubContent,
+  ContextMenuSubTrigger,
   ContextMenuTrigger,
 } from '@/components/ui/context-menu'
+import type { AudioKind } from '@/lib/connection-types'
 import { toPx } from '@/lib/layout/pack'
+import { getDefaultParameters } from '@/lib/module-parameters'
+import { modulePortDrift } from '@/lib/module-ports'
+import type { ModulePreset } from '@/lib/module-presets'
 import { availableModules, type ModuleInstance } from '@/lib/module-registry'
 
 export function ModuleLayer({
@@ -18,6 +47,10 @@ export function ModuleLayer({
   getHpForTypeAction,
   onCommitAction,
   onRemoveModuleAction,
+  selectedIds,
+  onSelectModuleAction,
+  onDuplicateModuleAction,
+  onCollapseModuleAction,
 }: {
   modules: ModuleInstance[]
   getHpForTypeAction: (t: string) => number
@@ -25,6 +58,12 @@ export function ModuleLayer({
     updates: Array<{ id: string; rack: number; xHp: number }>,
   ) => void
   onRemoveModuleAction: (id: string) => void
+  selectedIds: string[]
+  // additive: Shift/Ctrl/Cmd-click toggles the module instead of replacing
+  onSelectModuleAction: (id: string, additive: boolean) => void
+  onDuplicateModuleAction: (id: string) => void
+  // Opens the collapse-into-macro dialog
+  onCollapseModuleAction: (id: string) => void
 }) {
   const { engineRef, beginGeometryRefresh, endGeometryRefresh } = useLayout()
   const containerRef = React.useRef<HTMLDivElement | null>(null)
@@ -75,6 +114,13 @@ export function ModuleLayer({
     const header = (e.target as HTMLElement).closest('.module-header')
     if (!header) return
     e.preventDefault()
+    if (e.shiftKey || e.ctrlKey || e.metaKey) {
+      onSelectModuleAction(m.id, true)
+      return
+    }
+    // Dragging a selected module moves the whole selection
+    const group = selectedIds.includes(m.id) ? selectedIds : [m.id]
+    if (group.length === 1) onSelectModuleAction(m.id, false)
     const targetEl = e.currentTarget as HTMLElement
     try {
       targetEl.setPointerCapture(e.pointerId)
@@ -82,9 +128,12 @@ export function ModuleLayer({
     const eng = engineRef.current
     if (!eng) return
     beginGeometryRefresh()
-    eng.beginDrag(m.id, e.pointerId, e.clientX, e.clientY)
+    eng.beginDrag(m.id, e.pointerId, e.clientX, e.clientY, group)
+    let moved = false
     const onMove = (ev: PointerEvent) => {
       if (ev.pointerId !== e.pointerId) return
+      if (Math.hypot(ev.clientX - e.clientX, ev.clientY - e.clientY) > 3)
+        moved = true
       eng.updateDrag(ev.clientX, ev.clientY)
     }
     const onUp = (ev: PointerEvent) => {
@@ -97,6 +146,8 @@ export function ModuleLayer({
       const res = eng.endDrag()
       if (res?.updates?.length) onCommitAction(res.updates)
       endGeometryRefresh()
+      // A click without dragging narrows the selection to this module
+      if (!moved && group.length > 1) onSelectModuleAction(m.id, false)
     }
     window.addEventListener('pointermove', onMove)
     window.addEventListener('pointerup', onUp)
@@ -119,9 +170,13 @@ export function ModuleLayer({
             module={m}
             moduleName={moduleName}
             onPointerDown={onPointerDown}
+            selected={selectedIds.includes(m.id)}
+            groupSize={selectedIds.includes(m.id) ? selectedIds.length : 1}
             onRemove={() => onRemoveModuleAction(m.id)}
+            onDuplicate={() => onDuplicateModuleAction(m.id)}
+            onCollapse={() => onCollapseModuleAction(m.id)}
           >
-            <Cmp moduleId={m.id} />
+            <Cmp moduleId={m.id} macro={m.macro} />
           </ModuleWrapper>
         )
       })}
@@ -133,38 +188,165 @@ function ModuleWrapper({
   module,
   moduleName,
   onPointerDown,
+  selected,
+  groupSize,
   onRemove,
+  onDuplicate,
+  onCollapse,
   children,
 }: {
   module: ModuleInstance
   moduleName: string
   onPointerDown: (e: React.PointerEvent, m: ModuleInstance) => void
+  selected: boolean
+  // Modules the remove/duplicate items act on
+  groupSize: number
   onRemove: () => void
+  onDuplicate: () => void
+  onCollapse: () => void
   children: React.ReactNode
 }) {
+  const entry = availableModules.find((x) => x.type === module.type)
+  const parameters = entry?.parameters
   const [infoOpen, setInfoOpen] = React.useState(false)
+  const [presetsOpen, setPresetsOpen] = React.useState(false)
+  const { applyModuleParameters, canApplyModuleParameters } = usePatchManager()
+  const { getPresets } = useModulePresets()
+  // Checked when the menu opens: modules register after mounting
+  const [canApply, setCanApply] = React.useState(false)
+  const canReset = canApply && !!parameters?.length
+
+  const onReset = () => {
+    if (!parameters) return
+    applyModuleParameters(module.id, getDefaultParameters(parameters))
+  }
+
+  const onLoadPreset = (preset: ModulePreset) => {
+    applyModuleParameters(module.id, preset.parameters)
+  }
+  const presets = canApply ? getPresets(module.type) : []
+
+  // Knob under the pointer when the menu opened (MIDI learn)
+  const [knobTarget, setKnobTarget] = React.useState<MidiLearnTarget | null>(
+    null,
+  )
+  // Auto-patching and patch validation go by the static port table; flag a
+  // module whose rendered jacks no longer match it
+  const wrapperRef = React.useRef<HTMLDivElement>(null)
+  React.useEffect(() => {
+    const listed = entry?.ports
+    if (process.env.NODE_ENV === 'production' || !listed?.length) return
+    const prefix = `${module.id}-`
+    const rendered = Array.from(
+      wrapperRef.current?.querySelectorAll<HTMLElement>('[data-port-id]') ?? [],
+      (el) => ({
+        id: el.dataset.portId ?? '',
+        kind: el.dataset.portKind as AudioKind,
+      }),
+    )
+      .filter((p) => p.id.startsWith(prefix))
+      .map((p) => ({ ...p, id: p.id.slice(prefix.length) }))
+    const drift = modulePortDrift(listed, rendered)
+    if (drift)
+      console.warn(
+        `[module-ports] ${module.type} jacks differ from its catalog ports:`,
+        drift,
+      )
+  }, [module.id, module.type])
+
+  const onContextMenuCapture = (e: React.MouseEvent) => {
+    const el = (e.target as HTMLElement).closest<HTMLElement>(
+      '[data-control-id]',
+    )
+    const controlId = el?.dataset.controlId
+    setKnobTarget(controlId ? { moduleId: module.id, controlId } : null)
+  }
+
   return (
     <div
+      ref={wrapperRef}
       data-module-wrapper-id={module.id}
-      className="absolute top-0 h-[520px]"
+      data-module-type={module.type}
+      className={`absolute top-0 h-[520px]${selected ? ' outline outline-2 outline-sky-400' : ''}`}
       style={{ pointerEvents: 'auto' }}
       onPointerDown={(e) => onPointerDown(e, module)}
     >
-      <ContextMenu>
+      <ContextMenu
+        onOpenChange={(open) =>
+          open && setCanApply(canApplyModuleParameters(module.id))
+        }
+      >
         <ContextMenuTrigger asChild>
-          <div className="h-full">{children}</div>
+          <div className="h-full" onContextMenuCapture={onContextMenuCapture}>
+            {children}
+          </div>
         </ContextMenuTrigger>
         <ContextMenuContent>
+          {knobTarget && <KnobMidiMenuItems target={knobTarget} />}
           <ContextMenuItem onClick={() => setInfoOpen(true)}>
             <Book className="w-3 h-3" />
             user manual
           </ContextMenuItem>
+          {canApply && (
+            <ContextMenuSub>
+              <ContextMenuSubTrigger className="flex items-center gap-2">
+                <Library className="w-3 h-3" />
+                presets
+              </ContextMenuSubTrigger>
+              <ContextMenuSubContent className="max-h-80 overflow-y-auto">
+                {presets.map((preset) => (
+                  <ContextMenuItem
+                    key={`${preset.factory ? 'f' : 'u'}:${preset.name}`}
+                    onClick={() => onLoadPreset(preset)}
+                  >
+                    {preset.name}
+                    {preset.factory && (
+                      <span className="ml-auto pl-4 text-xs text-muted-foreground">
+                        factory
+                      </span>
+                    )}
+                  </ContextMenuItem>
+                ))}
+                {presets.length > 0 && <ContextMenuSeparator />}
+                <ContextMenuItem
+                  onClick={() => setPresetsOpen(true)}
+                  className="flex items-center gap-2"
+                >
+                  <Save className="w-3 h-3" />
+                  save / manage...
+                </ContextMenuItem>
+              </ContextMenuSubContent>
+            </ContextMenuSub>
+          )}
+          {canReset && (
+            <ContextMenuItem
+              onClick={onReset}
+              className="flex items-center gap-2"
+            >
+              <RotateCcw className="w-3 h-3" />
+              reset to default
+            </ContextMenuItem>
+          )}
+          <ContextMenuItem
+            onClick={onDuplicate}
+            className="flex items-center gap-2"
+          >
+            <Copy className="w-3 h-3" />
+            {groupSize > 1 ? `duplicate ${groupSize} modules` : 'duplicate'}
+          </ContextMenuItem>
+          <ContextMenuItem
+            onClick={onCollapse}
+            className="flex items-center gap-2"
+          >
+            <Boxes className="w-3 h-3" />
+            collapse into macro...
+          </ContextMenuItem>
           <ContextMenuItem
             onClick={onRemove}
             className="flex items-center gap-2"
           >
             <X className="w-3 h-3" />
-            remove
+            {groupSize > 1 ? `remove ${groupSize} modules` : 'remove'}
           </ContextMenuItem>
         </ContextMenuContent>
       </ContextMenu>
@@ -175,6 +357,82 @@ function ModuleWrapper({
         moduleName={moduleName}
         moduleType={module.type}
       />
+      <ModulePresetsDialog
+        open={presetsOpen}
+        onOpenChange={setPresetsOpen}
+        moduleId={module.id}
+        moduleType={module.type}
+        moduleName={moduleName}
+        onLoad={onLoadPreset}
+      />
     </div>
   )
 }
+
+function KnobMidiMenuItems({ target }: { target: MidiLearnTarget }) {
+  const {
+    learning,
+    startLearn,
+    cancelLearn,
+    getControl,
+    getMapping,
+    updateMapping,
+    removeMapping,
+  } = useMidiLearn()
+  const mapping = getMapping(target)
+  const isLearning =
+    learning?.moduleId === target.moduleId &&
+    learning.controlId === target.controlId
+  // Knob position now, for setting the range ends
+  const current = () => getControl(target)?.getValue() ?? 0
+
+  return (
+    <>
+      <ContextMenuItem
+        onClick={() => (isLearning ? cancelLearn() : startLearn(target))}
+        className="flex items-center gap-2"
+      >
+        <SlidersHorizontal className="w-3 h-3" />
+        {isLearning ? 'cancel MIDI learn' : 'MIDI learn'}
+      </ContextMenuItem>
+      {mapping && (
+        <>
+          <ContextMenuLabel className="text-xs text-muted-foreground">
+            CC {mapping.cc} ·{' '}
+            {mapping.channel === 0 ? 'any channel' : `ch ${mapping.channel}`}
+          </ContextMenuLabel>
+          <ContextMenuCheckboxItem
+            checked={mapping.mode === 'pickup'}
+            onCheckedChange={(on) =>
+              updateMapping(target, { mode: on ? 'pickup' : 'jump' })
+            }
+          >
+            soft takeover
+          </ContextMenuCheckboxItem>
+          <ContextMenuItem
+            onClick={() => updateMapping(target, { min: current() })}
+            className="flex items-center gap-2"
+          >
+            <ArrowDownToLine className="w-3 h-3" />
+            set min to current
+          </ContextMenuItem>
+          <ContextMenuItem
+            onClick={() => updateMapping(target, { max: current() })}
+            className="flex items-center gap-2"
+          >
+            <ArrowUpToLine className="w-3 h-3" />
+            set max to current
+          </ContextMenuItem>
+          <ContextMenuItem
+            onClick={() => removeMapping(target)}
+            className="flex items-center gap-2"
+          >
+            <Unlink className="w-3 h-3" />
+            remove MIDI mapping
+          </ContextMenuItem>
+        </>
+      )}
+      <ContextMenuSeparator />
+    </>
+  )
+}
@@ -0,0 +1,147 @@
+'use client'
+
+import { Maximize, Scan } from 'lucide-react'
+import type * as React from 'react'
+import { useConnections } from '@/components/connection-manager'
+import { Button } from '@/components/ui/button'
+import type { PortAddress } from '@/lib/connection-types'
+import { toHp, toPx } from '@/lib/layout/pack'
+import type { ModuleInstance, ModuleType } from '@/lib/module-registry'
+
+// Minimap width in px; the height follows the world's aspect ratio
+const MINIMAP_WIDTH = 220
+
+/**
+ * Whole-world overview: modules, cables (straight, panel centre to panel
+ * centre) and the visible area. Clicking or dragging moves the view there.
+ * The view rectangle is drawn imperatively by the owner through
+ * `viewRectRef`, in world coordinates, so panning does not re-render.
+ */
+export function RackMinimap({
+  modules,
+  getModuleHp,
+  selectedIds,
+  worldWidth,
+  worldHeight,
+  rowHeightPx,
+  viewRectRef,
+  onJumpAction,
+  onFitAllAction,
+  onFitSelectionAction,
+}: {
+  modules: ModuleInstance[]
+  getModuleHp: (type: ModuleType) => number
+  selectedIds: string[]
+  worldWidth: number
+  worldHeight: number
+  rowHeightPx: number
+  viewRectRef: React.RefObject<SVGRectElement | null>
+  // Centre the view on a world point
+  onJumpAction: (x: number, y: number) => void
+  onFitAllAction: () => void
+  onFitSelectionAction: () => void
+}) {
+  const { connections } = useConnections()
+  const height = Math.round((MINIMAP_WIDTH * worldHeight) / worldWidth)
+
+  const boxes = new Map(
+    modules.map((m) => [
+      m.id,
+      {
+        x: toPx(m.xHp ?? toHp(m.x ?? 0)),
+        y: ((m.rack ?? 1) - 1) * rowHeightPx,
+        width: toPx(m.hp ?? getModuleHp(m.type)),
+        height: rowHeightPx,
+      },
+    ]),
+  )
+  const centreOf = (address: PortAddress) => {
+    const box = boxes.get(address.moduleId)
+    return box && { x: box.x + box.width / 2, y: box.y + box.height / 2 }
+  }
+
+  const jumpTo = (e: React.PointerEvent<SVGSVGElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect()
+    onJumpAction(
+      ((e.clientX - rect.left) / rect.width) * worldWidth,
+      ((e.clientY - rect.top) / rect.height) * worldHeight,
+    )
+  }
+
+  return (
+    <div className="absolute right-3 bottom-3 z-40 flex flex-col gap-1 rounded-md border border-white/20 bg-black/80 p-1">
+      <svg
+        width={MINIMAP_WIDTH}
+        height={height}
+        viewBox={`0 0 ${worldWidth} ${worldHeight}`}
+        preserveAspectRatio="none"
+        className="cursor-crosshair touch-none"
+        onPointerDown={(e) => {
+          e.currentTarget.setPointerCapture(e.pointerId)
+          jumpTo(e)
+        }}
+        onPointerMove={(e) => {
+          if (e.currentTarget.hasPointerCapture(e.pointerId)) jumpTo(e)
+        }}
+      >
+        <title>rack overview</title>
+        {[...boxes].map(([id, box]) => (
+          <rect
+            key={id}
+            {...box}
+            className={
+              selectedIds.includes(id) ? 'fill-sky-400' : 'fill-neutral-500'
+            }
+          />
+        ))}
+        {connections.map((c) => {
+          const a = centreOf(c.from)
+          const b = centreOf(c.to)
+          return (
+            a &&
+            b && (
+              <line
+                key={c.id}
+                x1={a.x}
+                y1={a.y}
+                x2={b.x}
+                y2={b.y}
+                stroke={c.color}
+                strokeWidth={1.5}
+                vectorEffect="non-scaling-stroke"
+              />
+            )
+          )
+        })}
+        <rect
+          ref={viewRectRef}
+          className="fill-white/10 stroke-white"
+          strokeWidth={1}
+          vectorEffect="non-scaling-stroke"
+        />
+      </svg>
+      <div className="flex justify-end gap-1">
+        <Button
+          size="icon"
+          variant="ghost"
+          className="size-6"
+          title="Zoom to selection (Shift+F)"
+          disabled={selectedIds.length === 0}
+          onClick={onFitSelectionAction}
+        >
+          <Scan className="size-3.5" />
+        </Button>
+        <Button
+          size="icon"
+          variant="ghost"
+          className="size-6"
+          title="Zoom to fit all modules (F)"
+          disabled={modules.length === 0}
+          onClick={onFitAllAction}
+        >
+          <Maximize className="size-3.5" />
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -1,32 +1,76 @@
 import { useCallback, useEffect, useRef, useState } from 'react'
-import { useConnections } from '@/components/connection-manager'
+import { type EmptyDrop, useConnections } from '@/components/connection-manager'
+import { useHistory } from '@/components/history-context'
 import { Header } from '@/components/layout/header'
 import { LayoutProvider, useLayout } from '@/components/layout-context'
+import { MacroDialog } from '@/components/macro-dialog'
+import { useMacroLibrary } from '@/components/macro-library-context'
+import { ModuleBrowser } from '@/components/module-browser'
 import { usePatchManager } from '@/components/patch-manager'
 import { ModuleLayer } from '@/components/rack/module-layer'
 import { RackGridLayer } from '@/components/rack/rack-grid-layer'
+import { RackMinimap } from '@/components/rack/rack-minimap'
 import { Button } from '@/components/ui/button'
 import {
   Dialog,
   DialogContent,
   DialogDescription,
+  DialogFooter,
   DialogHeader,
   DialogTitle,
 } from '@/components/ui/dialog'
 import { WireCanvas } from '@/components/wire-canvas'
+import { useSessionAutosave } from '@/hooks/use-session-autosave'
 import { useToast } from '@/hooks/use-toast'
+import {
+  type AudioKind,
+  cableKind,
+  type PortAddress,
+  type PortDirection,
+} from '@/lib/connection-types'
+import { toHp, toPx } from '@/lib/layout/pack'
+import {
+  macroClipboard,
+  macroHp,
+  type PatchMacro,
+  rewireToMacro,
+} from '@/lib/macros'
+import {
+  copyModules as copyModulesToClipboard,
+  type ModuleClipboard,
+  type PastePlan,
+  planPaste,
+} from '@/lib/module-clipboard'
+import { findMatchingPort } from '@/lib/module-ports'
 import {
   availableModules,
   type ModuleInstance,
   type ModuleType,
 } from '@/lib/module-registry'
+import {
+  MAX_VIEW_SCALE,
+  MIN_VIEW_SCALE,
+  type PatchView,
+} from '@/lib/patch-schema'
+import {
+  clearRecoverySnapshot,
+  type RecoverySnapshot,
+  readRecoverySnapshot,
+} from '@/lib/patch-storage'
 import { cn } from '@/lib/utils'
 
 interface RacksProps {
   modules: ModuleInstance[]
   setModules: React.Dispatch<React.SetStateAction<ModuleInstance[]>>
-  addModule: (type: ModuleType) => void
+  addModule: (
+    type: ModuleType,
+    at?: { rack: number; xHp: number },
+  ) => ModuleInstance
   removeModule: (moduleId: string) => void
+  // Ids not to give new modules, including those of removed ones
+  usedModuleIds?: ReadonlySet<string>
+  // Patch JSON to open instead of the example patch (e.g. from a share link)
+  getStartupPatch?: () => Promise<string | null>
 }
 
 export function Racks({
@@ -34,12 +78,33 @@ export function Racks({
   setModules,
   addModule,
   removeModule,
+  usedModuleIds,
+  getStartupPatch,
 }: RacksProps) {
-  const { loadDefaultPatch, currentPatch, updateCurrentPatch } =
-    usePatchManager()
-  const { connections, removeConnection } = useConnections()
+  const {
+    loadDefaultPatch,
+    loadPatch,
+    importPatch,
+    currentPatch,
+    updateCurrentPatch,
+    getCurrentState,
+    primeModuleParameters,
+  } = usePatchManager()
+  const {
+    connections,
+    addConnection,
+    removeConnection,
+    removeAllConnectionsForModule,
+    registerEmptyDropHandler,
+  } = useConnections()
+  const history = useHistory()
   const { toast } = useToast()
   const [isModuleDialogOpen, setIsModuleDialogOpen] = useState(false)
+  const [selectedIds, setSelectedIds] = useState<string[]>([])
+  // Modules the collapse-into-macro dialog is open for
+  const [macroSourceIds, setMacroSourceIds] = useState<string[] | null>(null)
+  const { macros, deleteMacro, saveMacro } = useMacroLibrary()
+  const clipboardRef = useRef<ModuleClipboard | null>(null)
 
   // Viewport/world for transform-based panning
   const WORLD_WIDTH = 10000
@@ -52,11 +117,113 @@ export function Racks({
     return entry?.hp ?? 9
   }
 
-  // Load the example patch once on initial mount
+  // World point under a client position, or under the viewport centre;
+  // set by RacksWorld
+  const worldPointRef = useRef<
+    (client?: { x: number; y: number }) => { x: number; y: number }
+  >(() => ({ x: 0, y: 0 }))
+
+  // Cable dropped on empty space; the browser lists modules it fits
+  const [pendingDrop, setPendingDrop] = useState<EmptyDrop | null>(null)
+
   useEffect(() => {
-    loadDefaultPatch()
+    registerEmptyDropHandler((drop) => {
+      setPendingDrop(drop)
+      setIsModuleDialogOpen(true)
+    })
+    return () => registerEmptyDropHandler(null)
+  }, [registerEmptyDropHandler])
+
+  const handleModuleBrowserOpenChange = (open: boolean) => {
+    setIsModuleDialogOpen(open)
+    if (!open) setPendingDrop(null)
+  }
+
+  // Slot for a module added from the browser: centred under the dropped
+  // cable's end, else in the view, in the rack row under that point
+  const browserSlot = (hp: number) => {
+    const { x, y } = worldPointRef.current(
+      pendingDrop
+        ? { x: pendingDrop.clientX, y: pendingDrop.clientY }
+        : undefined,
+    )
+    return {
+      rack: Math.min(NUM_ROWS, Math.max(1, Math.floor(y / ROW_HEIGHT_PX) + 1)),
+      xHp: Math.max(0, toHp(x) - Math.floor(hp / 2)),
+    }
+  }
+
+  const { markUnsaved } = useSessionAutosave(getCurrentState, currentPatch)
+  // Unsaved session found at startup, waiting for restore/discard
+  const [recovery, setRecovery] = useState<RecoverySnapshot | null>(null)
+
+  // Validates and loads patch JSON from outside the library; false if unusable
+  const openPatchJson = async (json: string, what: string) => {
+    const result = importPatch(json)
+    if (!result.ok) {
+      toast({
+        title: `Cannot open ${what}`,
+        description: result.error,
+        variant: 'destructive',
+      })
+      return false
+    }
+    const issues = [...result.issues, ...(await loadPatch(result.patch))]
+    toast({
+      title: `${what[0].toUpperCase()}${what.slice(1)} opened`,
+      description:
+        issues.length === 0
+          ? `"${result.patch.name}" loaded completely.`
+          : `"${result.patch.name}" loaded with ${issues.length} repair${issues.length === 1 ? '' : 's'}; see the console.`,
+    })
+    if (issues.length > 0) console.warn(`[Racks] ${what} issues:`, issues)
+    return true
+  }
+
+  // Startup: a shared link wins, then an unsaved session (after asking),
+  // then the example patch. Runs once on initial mount.
+  useEffect(() => {
+    const openStartupPatch = async () => {
+      try {
+        const json = await getStartupPatch?.()
+        if (json && (await openPatchJson(json, 'shared patch'))) return
+      } catch (err) {
+        toast({
+          title: 'Cannot open shared patch',
+          description: err instanceof Error ? err.message : String(err),
+          variant: 'destructive',
+        })
+      }
+      const snapshot = readRecoverySnapshot()
+      if (snapshot) setRecovery(snapshot)
+      else loadDefaultPatch()
+    }
+    openStartupPatch()
   }, [])
 
+  const restoreSession = async () => {
+    if (!recovery) return
+    setRecovery(null)
+    markUnsaved()
+    const opened = await openPatchJson(
+      JSON.stringify(recovery.patch),
+      'unsaved session',
+    )
+    if (!opened) loadDefaultPatch()
+  }
+
+  // Closing without choosing keeps the snapshot until this session edits
+  const dismissSession = () => {
+    setRecovery(null)
+    loadDefaultPatch()
+  }
+
+  const discardSession = () => {
+    setRecovery(null)
+    clearRecoverySnapshot()
+    loadDefaultPatch()
+  }
+
   useEffect(() => {
     const handleKeyDown = (event: KeyboardEvent) => {
       if (
@@ -75,6 +242,18 @@ export function Racks({
         }
         return
       }
+      // Undo: Ctrl/Cmd+Z, redo: Ctrl/Cmd+Shift+Z or Ctrl+Y
+      if (event.key.toLowerCase() === 'z' && (event.ctrlKey || event.metaKey)) {
+        event.preventDefault()
+        if (event.shiftKey) history.redo()
+        else history.undo()
+        return
+      }
+      if (event.key.toLowerCase() === 'y' && event.ctrlKey) {
+        event.preventDefault()
+        history.redo()
+        return
+      }
       if (
         event.key.toLowerCase() === 'm' &&
         !event.ctrlKey &&
@@ -89,34 +268,342 @@ export function Racks({
     return () => {
       window.removeEventListener('keydown', handleKeyDown)
     }
-  }, [currentPatch, updateCurrentPatch, toast])
+  }, [currentPatch, updateCurrentPatch, toast, history])
 
   // Wheel disabled; only pan when space is held (still prevent native scroll)
 
-  const handleDeleteModule = useCallback(
-    (moduleId: string) => {
-      connections.forEach((connection) => {
-        if (
-          connection.from.startsWith(moduleId) ||
-          connection.to.startsWith(moduleId)
-        ) {
-          removeConnection(connection.id)
+  // Current parameters of a mounted module, so it can be restored by undo/redo
+  const getModuleParameters = useCallback(
+    (moduleId: string) =>
+      getCurrentState().modules.find((m) => m.id === moduleId)?.parameters ??
+      {},
+    [getCurrentState],
+  )
+
+  const restoreModule = useCallback(
+    (instance: ModuleInstance, parameters: Record<string, any>) => {
+      primeModuleParameters(instance.id, parameters)
+      setModules((prev) => [...prev, instance])
+    },
+    [primeModuleParameters, setModules],
+  )
+
+  const handleDeleteModules = useCallback(
+    (moduleIds: string[]) => {
+      // Cable removals and the module removals undo as one step
+      history.beginBatch(
+        moduleIds.length > 1 ? 'Remove modules' : 'Remove module',
+      )
+      const removed = new Set<string>()
+      for (const moduleId of moduleIds) {
+        const instance = modules.find((m) => m.id === moduleId)
+        const parameters = getModuleParameters(moduleId)
+        connections.forEach((connection) => {
+          if (removed.has(connection.id)) return
+          if (
+            connection.from.moduleId === moduleId ||
+            connection.to.moduleId === moduleId
+          ) {
+            removed.add(connection.id)
+            removeConnection(connection.id)
+          }
+        })
+        removeModule(moduleId)
+        if (instance) {
+          history.push({
+            label: 'Remove module',
+            undo: () => restoreModule(instance, parameters),
+            redo: () => removeModule(moduleId),
+          })
         }
-      })
-      removeModule(moduleId)
+      }
+      history.endBatch()
+    },
+    [
+      modules,
+      connections,
+      history,
+      getModuleParameters,
+      restoreModule,
+      removeConnection,
+      removeModule,
+    ],
+  )
+
+  // Plugs a cable dropped on empty space into the first port it fits
+  const connectDrop = useCallback(
+    (
+      drop: EmptyDrop,
+      ports: ReadonlyArray<{
+        port: PortAddress
+        direction: PortDirection
+        kind: AudioKind
+      }>,
+    ) => {
+      const port = findMatchingPort(ports, drop)
+      if (!port) return
+      const [from, to] =
+        drop.direction === 'output' ? [drop, port] : [port, drop]
+      const kind = cableKind(from.kind, to.kind)
+      if (kind) addConnection(from.port, to.port, kind)
     },
-    [connections, removeConnection, removeModule],
+    [addConnection],
   )
 
   const handleModuleSelect = useCallback(
     (moduleType: ModuleType) => {
+      history.beginBatch('Add module')
       console.time('addModule')
-      addModule(moduleType)
+      const instance = addModule(
+        moduleType,
+        browserSlot(getModuleHp(moduleType)),
+      )
       console.timeEnd('addModule')
+
+      let parameters: Record<string, any> = {}
+      history.push({
+        label: 'Add module',
+        undo: () => {
+          parameters = getModuleParameters(instance.id)
+          removeAllConnectionsForModule(instance.id)
+          removeModule(instance.id)
+        },
+        redo: () => restoreModule(instance, parameters),
+      })
+      if (pendingDrop)
+        connectDrop(
+          pendingDrop,
+          (
+            availableModules.find((m) => m.type === moduleType)?.ports ?? []
+          ).map((p) => ({
+            ...p,
+            port: { moduleId: instance.id, portName: p.id },
+          })),
+        )
+      history.endBatch()
     },
-    [addModule],
+    [
+      addModule,
+      pendingDrop,
+      connectDrop,
+      history,
+      getModuleParameters,
+      removeAllConnectionsForModule,
+      removeModule,
+      restoreModule,
+    ],
   )
 
+  // Drop removed modules from the selection
+  useEffect(() => {
+    setSelectedIds((prev) => {
+      const next = prev.filter((id) => modules.some((m) => m.id === id))
+      return next.length === prev.length ? prev : next
+    })
+  }, [modules])
+
+  const handleSelectModule = useCallback(
+    (moduleId: string, additive: boolean) => {
+      setSelectedIds((prev) =>
+        !additive
+          ? [moduleId]
+          : prev.includes(moduleId)
+            ? prev.filter((id) => id !== moduleId)
+            : [...prev, moduleId],
+      )
+    },
+    [],
+  )
+
+  const handleSelectModules = useCallback(
+    (moduleIds: string[], additive: boolean) => {
+      setSelectedIds((prev) =>
+        additive ? [...new Set([...prev, ...moduleIds])] : moduleIds,
+      )
+    },
+    [],
+  )
+
+  const clearSelection = useCallback(() => setSelectedIds([]), [])
+
+  // Menu actions on a selected module apply to the whole selection
+  const targetsOf = useCallback(
+    (moduleId: string) =>
+      selectedIds.includes(moduleId) ? selectedIds : [moduleId],
+    [selectedIds],
+  )
+
+  const handleDeleteModule = useCallback(
+    (moduleId: string) => handleDeleteModules(targetsOf(moduleId)),
+    [handleDeleteModules, targetsOf],
+  )
+
+  const copyModules = useCallback(
+    (ids: string[]) =>
+      copyModulesToClipboard(ids, modules, getCurrentState(), getModuleHp),
+    [modules, getCurrentState],
+  )
+
+  // Adds planned modules and their cables as one undo step, then selects them
+  const placeModules = useCallback(
+    (plan: PastePlan, label: string) => {
+      history.beginBatch(label)
+      for (const instance of plan.instances) {
+        let parameters = plan.parameters[instance.id]
+        restoreModule(instance, parameters)
+        history.push({
+          label: 'Add module',
+          undo: () => {
+            parameters = getModuleParameters(instance.id)
+            removeAllConnectionsForModule(instance.id)
+            removeModule(instance.id)
+          },
+          redo: () => restoreModule(instance, parameters),
+        })
+      }
+      for (const c of plan.connections)
+        addConnection(c.from, c.to, c.kind, c.color)
+      history.endBatch()
+      setSelectedIds(plan.instances.map((m) => m.id))
+    },
+    [
+      history,
+      restoreModule,
+      getModuleParameters,
+      removeAllConnectionsForModule,
+      removeModule,
+      addConnection,
+    ],
+  )
+
+  // Clones modules with fresh ids and rewires their internal cables
+  const pasteModules = useCallback(
+    (clipboard: ModuleClipboard) =>
+      placeModules(
+        planPaste(clipboard, modules, getModuleHp, usedModuleIds),
+        'Paste modules',
+      ),
+    [modules, placeModules, usedModuleIds],
+  )
+
+  const handleAddMacro = useCallback(
+    (macro: PatchMacro) => {
+      const { rack, xHp } = browserSlot(macroHp(macro))
+      const plan = planPaste(
+        macroClipboard(macro, rack, xHp),
+        modules,
+        getModuleHp,
+        usedModuleIds,
+      )
+      history.beginBatch('Add macro')
+      placeModules(plan, 'Add macro')
+      const macroId = plan.instances[0].id
+      if (pendingDrop)
+        connectDrop(
+          pendingDrop,
+          macro.ports.map((p) => ({
+            ...p,
+            port: { moduleId: macroId, portName: p.id },
+          })),
+        )
+      history.endBatch()
+    },
+    [modules, usedModuleIds, history, placeModules, pendingDrop, connectDrop],
+  )
+
+  // Replaces the modules with a macro where the first of them was; cables
+  // from the rack move to the macro's exposed ports
+  const collapseToMacro = useCallback(
+    (ids: string[], macro: PatchMacro, saveToLibrary: boolean) => {
+      const first = copyModules(ids)?.modules[0]
+      if (!first) return
+      const state = getCurrentState()
+      const plan = planPaste(
+        macroClipboard(macro, first.rack, first.xHp),
+        modules.filter((m) => !ids.includes(m.id)),
+        getModuleHp,
+        usedModuleIds,
+      )
+      const cables = rewireToMacro(plan.instances[0].id, macro, ids, state)
+      history.beginBatch('Collapse into macro')
+      handleDeleteModules(ids)
+      placeModules({ ...plan, connections: cables }, 'Add macro')
+      history.endBatch()
+      if (saveToLibrary) saveMacro(macro)
+    },
+    [
+      copyModules,
+      getCurrentState,
+      modules,
+      usedModuleIds,
+      history,
+      handleDeleteModules,
+      placeModules,
+      saveMacro,
+    ],
+  )
+
+  const handleCollapseModule = useCallback(
+    (moduleId: string) => setMacroSourceIds(targetsOf(moduleId)),
+    [targetsOf],
+  )
+
+  const handleDuplicateModule = useCallback(
+    (moduleId: string) => {
+      const clipboard = copyModules(targetsOf(moduleId))
+      if (clipboard) pasteModules(clipboard)
+    },
+    [targetsOf, copyModules, pasteModules],
+  )
+
+  // Ctrl/Cmd+C, Ctrl/Cmd+V, Ctrl/Cmd+D and Delete on the selected modules
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      // The rack takes no focus, so keys meant for it arrive on the body;
+      // anything focused (fields, buttons, menus, knobs) keeps its keys
+      if (event.target !== document.body) return
+      if (event.key === 'Escape') {
+        clearSelection()
+        return
+      }
+      if (
+        (event.key === 'Delete' || event.key === 'Backspace') &&
+        selectedIds.length > 0
+      ) {
+        event.preventDefault()
+        handleDeleteModules(selectedIds)
+        return
+      }
+      if (!(event.ctrlKey || event.metaKey) || event.shiftKey || event.altKey)
+        return
+      const key = event.key.toLowerCase()
+      if (key === 'c' && selectedIds.length > 0) {
+        // Leave copying of selected page text alone
+        if (window.getSelection()?.toString()) return
+        clipboardRef.current = copyModules(selectedIds)
+        return
+      }
+      if (key === 'v' && clipboardRef.current) {
+        event.preventDefault()
+        pasteModules(clipboardRef.current)
+        return
+      }
+      if (key === 'd' && selectedIds.length > 0) {
+        event.preventDefault()
+        const clipboard = copyModules(selectedIds)
+        if (clipboard) pasteModules(clipboard)
+      }
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [
+    selectedIds,
+    copyModules,
+    pasteModules,
+    clearSelection,
+    handleDeleteModules,
+  ])
+
   console.log('rack')
 
   return (
@@ -136,7 +623,15 @@ export function Racks({
           }
           worldWidth={WORLD_WIDTH}
           worldHeight={WORLD_HEIGHT}
+          rowHeightPx={ROW_HEIGHT_PX}
           onRemoveModule={handleDeleteModule}
+          selectedIds={selectedIds}
+          onSelectModule={handleSelectModule}
+          onSelectModules={handleSelectModules}
+          onClearSelection={clearSelection}
+          onDuplicateModule={handleDuplicateModule}
+          onCollapseModule={handleCollapseModule}
+          worldPointRef={worldPointRef}
         />
       </LayoutProvider>
 
@@ -144,28 +639,45 @@ export function Racks({
 
       <RackDivider />
 
-      <Dialog open={isModuleDialogOpen} onOpenChange={setIsModuleDialogOpen}>
-        <DialogContent className="max-w-[70vw]! max-h-[80vh] overflow-y-auto">
+      <ModuleBrowser
+        open={isModuleDialogOpen}
+        onOpenChange={handleModuleBrowserOpenChange}
+        connectFrom={pendingDrop}
+        macros={macros}
+        onAddModule={handleModuleSelect}
+        onAddMacro={handleAddMacro}
+        onDeleteMacro={deleteMacro}
+      />
+
+      <MacroDialog
+        moduleIds={macroSourceIds}
+        onClose={() => setMacroSourceIds(null)}
+        onCreate={(macro, saveToLibrary) =>
+          macroSourceIds &&
+          collapseToMacro(macroSourceIds, macro, saveToLibrary)
+        }
+      />
+
+      <Dialog
+        open={recovery !== null}
+        onOpenChange={(o) => !o && dismissSession()}
+      >
+        <DialogContent>
           <DialogHeader>
-            <DialogTitle>add module</DialogTitle>
+            <DialogTitle>Restore unsaved session?</DialogTitle>
             <DialogDescription>
-              choose a module to add to your rack.
+              The last session ended with unsaved changes
+              {recovery &&
+                ` (autosaved ${new Date(recovery.savedAt).toLocaleString()})`}
+              . Discarding opens the example patch.
             </DialogDescription>
           </DialogHeader>
-          <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-3 gap-3 mt-4">
-            {availableModules.map((module) => (
-              <Button
-                key={module.type}
-                onClick={() => handleModuleSelect(module.type)}
-                className="h-auto p-4 flex flex-col items-start gap-2 text-left hover:bg-neutral-900/80 transition-colors whitespace-normal"
-              >
-                <div className="font-semibold text-sm">{module.name}</div>
-                <div className="text-xs text-muted-foreground leading-relaxed">
-                  {module.description}
-                </div>
-              </Button>
-            ))}
-          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={discardSession}>
+              Discard
+            </Button>
+            <Button onClick={restoreSession}>Restore</Button>
+          </DialogFooter>
         </DialogContent>
       </Dialog>
     </main>
@@ -185,18 +697,41 @@ function RacksWorld({
   getModuleHp,
   worldWidth,
   worldHeight,
+  rowHeightPx,
   onRemoveModule,
+  selectedIds,
+  onSelectModule,
+  onSelectModules,
+  onClearSelection,
+  onDuplicateModule,
+  onCollapseModule,
+  worldPointRef,
 }: {
   modules: ModuleInstance[]
   setModules: React.Dispatch<React.SetStateAction<ModuleInstance[]>>
-  addModule: (type: ModuleType) => void
+  addModule: (
+    type: ModuleType,
+    at?: { rack: number; xHp: number },
+  ) => ModuleInstance
   removeModule: (moduleId: string) => void
   getModuleHp: (type: ModuleType) => number
   worldWidth: number
   worldHeight: number
+  rowHeightPx: number
   onRemoveModule: (moduleId: string) => void
+  selectedIds: string[]
+  onSelectModule: (moduleId: string, additive: boolean) => void
+  onSelectModules: (moduleIds: string[], additive: boolean) => void
+  onClearSelection: () => void
+  onDuplicateModule: (moduleId: string) => void
+  onCollapseModule: (moduleId: string) => void
+  worldPointRef: React.MutableRefObject<
+    (client?: { x: number; y: number }) => { x: number; y: number }
+  >
 }) {
   const { registerViewport, registerWorld, setScaleRef } = useLayout()
+  const history = useHistory()
+  const { registerView } = usePatchManager()
 
   const viewportRef = useRef<HTMLDivElement>(null)
   const worldRef = useRef<HTMLDivElement>(null)
@@ -210,6 +745,15 @@ function RacksWorld({
   const cameraStartRef = useRef<{ x: number; y: number } | null>(null)
   const scaleRef = useRef<number>(1)
   const [_scale, _setScale] = useState<number>(1)
+  // Visible area on the minimap, kept in step by applyTransform
+  const minimapViewRef = useRef<SVGRectElement>(null)
+  // Rubber-band selection, in client coordinates
+  const [band, setBand] = useState<{
+    x0: number
+    y0: number
+    x1: number
+    y1: number
+  } | null>(null)
 
   const applyTransform = useCallback(() => {
     pendingApplyRef.current = false
@@ -224,6 +768,14 @@ function RacksWorld({
     const originY = viewportHeight / 2 - y
     el.style.transformOrigin = `${originX}px ${originY}px`
     el.style.transform = `translate3d(${x}px, ${y}px, 0) scale(${s})`
+    // The world point under the viewport centre is the transform origin
+    const view = minimapViewRef.current
+    if (view) {
+      view.setAttribute('x', String(originX - viewportWidth / s / 2))
+      view.setAttribute('y', String(originY - viewportHeight / s / 2))
+      view.setAttribute('width', String(viewportWidth / s))
+      view.setAttribute('height', String(viewportHeight / s))
+    }
   }, [])
 
   const scheduleApply = useCallback(() => {
@@ -266,20 +818,24 @@ function RacksWorld({
     [worldWidth, worldHeight],
   )
 
+  // Zooms about the viewport centre, or keeps the world point under
+  // `anchor` (client coordinates) in place
   const setScale = useCallback(
-    (next: number) => {
-      const minScale = 0.2
-      const maxScale = 3
+    (next: number, anchor?: { x: number; y: number }) => {
       const clamped = Math.min(
-        maxScale,
-        Math.max(minScale, Number.parseFloat(next.toFixed(3)) ?? 1),
+        MAX_VIEW_SCALE,
+        Math.max(MIN_VIEW_SCALE, Number.parseFloat(next.toFixed(3)) ?? 1),
       )
-      if (clamped === scaleRef.current) return
+      const prev = scaleRef.current
+      if (clamped === prev) return
       scaleRef.current = clamped
       _setScale(clamped)
+      const rect = viewportRef.current?.getBoundingClientRect()
+      const dx = anchor && rect ? anchor.x - rect.left - rect.width / 2 : 0
+      const dy = anchor && rect ? anchor.y - rect.top - rect.height / 2 : 0
       const { x, y } = clampCameraToBounds(
-        cameraRef.current.x,
-        cameraRef.current.y,
+        cameraRef.current.x + dx / clamped - dx / prev,
+        cameraRef.current.y + dy / clamped - dy / prev,
         clamped,
       )
       cameraRef.current = { x, y }
@@ -288,6 +844,68 @@ function RacksWorld({
     [clampCameraToBounds, scheduleApply],
   )
 
+  // World point under the viewport centre, and zoom
+  const getView = useCallback((): PatchView => {
+    const el = viewportRef.current
+    return {
+      x: (el?.clientWidth ?? 0) / 2 - cameraRef.current.x,
+      y: (el?.clientHeight ?? 0) / 2 - cameraRef.current.y,
+      scale: scaleRef.current,
+    }
+  }, [])
+
+  const lookAt = useCallback(
+    (view: PatchView) => {
+      const el = viewportRef.current
+      const scale = Math.min(
+        MAX_VIEW_SCALE,
+        Math.max(MIN_VIEW_SCALE, Number.parseFloat(view.scale.toFixed(3))),
+      )
+      scaleRef.current = scale
+      _setScale(scale)
+      cameraRef.current = clampCameraToBounds(
+        (el?.clientWidth ?? 0) / 2 - view.x,
+        (el?.clientHeight ?? 0) / 2 - view.y,
+        scale,
+      )
+      scheduleApply()
+    },
+    [clampCameraToBounds, scheduleApply],
+  )
+
+  // Zooms so the modules fill the view (all modules without ids)
+  const zoomToFit = useCallback(
+    (ids?: readonly string[]) => {
+      const el = viewportRef.current
+      const targets = ids ? modules.filter((m) => ids.includes(m.id)) : modules
+      if (!el || targets.length === 0) return
+      let left = Number.POSITIVE_INFINITY
+      let right = Number.NEGATIVE_INFINITY
+      let top = Number.POSITIVE_INFINITY
+      let bottom = Number.NEGATIVE_INFINITY
+      for (const m of targets) {
+        const x = toPx(m.xHp ?? toHp(m.x ?? 0))
+        const y = ((m.rack ?? 1) - 1) * rowHeightPx
+        left = Math.min(left, x)
+        right = Math.max(right, x + toPx(m.hp ?? getModuleHp(m.type)))
+        top = Math.min(top, y)
+        bottom = Math.max(bottom, y + rowHeightPx)
+      }
+      lookAt({
+        x: (left + right) / 2,
+        y: (top + bottom) / 2,
+        // A little margin around the panels
+        scale:
+          0.9 *
+          Math.min(
+            el.clientWidth / (right - left),
+            el.clientHeight / (bottom - top),
+          ),
+      })
+    },
+    [modules, getModuleHp, rowHeightPx, lookAt],
+  )
+
   const panBy = useCallback(
     (dx: number, dy: number) => {
       const wantedX = cameraRef.current.x + dx
@@ -303,6 +921,36 @@ function RacksWorld({
     setScaleRef(() => scaleRef.current)
   }, [setScaleRef])
 
+  // Draw the minimap's view rectangle before the first pan, and keep it
+  // right when the viewport changes size
+  useEffect(() => {
+    const el = viewportRef.current
+    if (!el) return
+    const observer = new ResizeObserver(() => scheduleApply())
+    observer.observe(el)
+    return () => observer.disconnect()
+  }, [scheduleApply])
+
+  useEffect(() => {
+    registerView({ get: getView, apply: lookAt })
+    return () => registerView(null)
+  }, [registerView, getView, lookAt])
+
+  // The transform origin follows the camera, so the world point under the
+  // viewport centre does not depend on the scale; offsets from it do
+  useEffect(() => {
+    worldPointRef.current = (client) => {
+      const rect = viewportRef.current?.getBoundingClientRect()
+      if (!rect) return { x: 0, y: 0 }
+      const dx = client ? client.x - rect.left - rect.width / 2 : 0
+      const dy = client ? client.y - rect.top - rect.height / 2 : 0
+      return {
+        x: rect.width / 2 - cameraRef.current.x + dx / scaleRef.current,
+        y: rect.height / 2 - cameraRef.current.y + dy / scaleRef.current,
+      }
+    }
+  }, [worldPointRef])
+
   useEffect(() => {
     const handleKeyDown = (event: KeyboardEvent) => {
       if (
@@ -328,6 +976,16 @@ function RacksWorld({
         setScale(scaleRef.current + 0.1)
         return
       }
+      // F: fit all modules, Shift+F: fit the selection
+      if (
+        event.code === 'KeyF' &&
+        !event.ctrlKey &&
+        !event.metaKey &&
+        !event.altKey
+      ) {
+        event.preventDefault()
+        zoomToFit(event.shiftKey ? selectedIds : undefined)
+      }
     }
     const handleKeyUp = (event: KeyboardEvent) => {
       if (event.code === 'Space') {
@@ -349,13 +1007,22 @@ function RacksWorld({
       window.removeEventListener('keyup', handleKeyUp)
       window.removeEventListener('blur', handleBlur)
     }
-  }, [setScale])
+  }, [setScale, zoomToFit, selectedIds])
 
   useEffect(() => {
     const el = viewportRef.current
     if (!el) return
     const onWheel = (e: WheelEvent) => {
       e.preventDefault()
+      // Ctrl+wheel (and trackpad pinch) zooms about the cursor
+      if (e.ctrlKey) {
+        const step = e.deltaMode === 1 ? e.deltaY * 16 : e.deltaY
+        setScale(scaleRef.current * Math.exp(-step * 0.002), {
+          x: e.clientX,
+          y: e.clientY,
+        })
+        return
+      }
       const s = e.deltaMode === 1 ? 16 : 1
       const dx = e.deltaX * s
       const dy = e.deltaY * s
@@ -365,15 +1032,13 @@ function RacksWorld({
     return () => {
       el.removeEventListener('wheel', onWheel)
     }
-  }, [panBy])
+  }, [panBy, setScale])
 
-  const handleCommitPositions = useCallback(
-    (updates: Array<{ id: string; rack: number; xHp: number }>) => {
-      const map = new Map<string, { rack: number; xHp: number }>()
-      for (const u of updates) map.set(u.id, { rack: u.rack, xHp: u.xHp })
+  const applyPositions = useCallback(
+    (positions: Map<string, { rack: number; xHp: number }>) => {
       setModules((prev) =>
         prev.map((m) => {
-          const u = map.get(m.id)
+          const u = positions.get(m.id)
           if (!u) return m
           return { ...m, rack: u.rack, xHp: u.xHp }
         }),
@@ -382,6 +1047,82 @@ function RacksWorld({
     [setModules],
   )
 
+  const handleCommitPositions = useCallback(
+    (updates: Array<{ id: string; rack: number; xHp: number }>) => {
+      const map = new Map<string, { rack: number; xHp: number }>()
+      for (const u of updates) map.set(u.id, { rack: u.rack, xHp: u.xHp })
+
+      // Positions before the drag, for undo
+      const before = new Map<string, { rack: number; xHp: number }>()
+      let moved = false
+      for (const m of modules) {
+        const u = map.get(m.id)
+        if (!u) continue
+        const prev = { rack: m.rack ?? 1, xHp: m.xHp ?? toHp(m.x ?? 0) }
+        before.set(m.id, prev)
+        if (prev.rack !== u.rack || prev.xHp !== u.xHp) moved = true
+      }
+
+      applyPositions(map)
+      if (moved) {
+        history.push({
+          label: 'Move module',
+          undo: () => applyPositions(before),
+          redo: () => applyPositions(map),
+        })
+      }
+    },
+    [modules, history, applyPositions],
+  )
+
+  // Dragging on empty rack space selects the modules the band touches;
+  // a plain click clears the selection, Shift/Ctrl/Cmd adds to it
+  const handleBandPointerDown = (e: React.PointerEvent) => {
+    if (e.button !== 0) return
+    if ((e.target as HTMLElement).closest('[data-module-wrapper-id]')) return
+    e.preventDefault()
+    const additive = e.shiftKey || e.ctrlKey || e.metaKey
+    if (!additive) onClearSelection()
+    const x0 = e.clientX
+    const y0 = e.clientY
+    const onMove = (ev: PointerEvent) => {
+      if (ev.pointerId !== e.pointerId) return
+      setBand({ x0, y0, x1: ev.clientX, y1: ev.clientY })
+    }
+    const onUp = (ev: PointerEvent) => {
+      if (ev.pointerId !== e.pointerId) return
+      window.removeEventListener('pointermove', onMove)
+      window.removeEventListener('pointerup', onUp)
+      setBand(null)
+      const left = Math.min(x0, ev.clientX)
+      const right = Math.max(x0, ev.clientX)
+      const top = Math.min(y0, ev.clientY)
+      const bottom = Math.max(y0, ev.clientY)
+      if (right - left < 4 && bottom - top < 4) return
+      const wrappers =
+        worldRef.current?.querySelectorAll<HTMLElement>(
+          '[data-module-wrapper-id]',
+        ) ?? []
+      const ids: string[] = []
+      for (const el of wrappers) {
+        const r = el.getBoundingClientRect()
+        if (
+          r.right > left &&
+          r.left < right &&
+          r.bottom > top &&
+          r.top < bottom &&
+          el.dataset.moduleWrapperId
+        )
+          ids.push(el.dataset.moduleWrapperId)
+      }
+      onSelectModules(ids, additive)
+    }
+    window.addEventListener('pointermove', onMove)
+    window.addEventListener('pointerup', onUp)
+  }
+
+  const viewportRect = band && viewportRef.current?.getBoundingClientRect()
+
   return (
     <div
       id="racks"
@@ -445,16 +1186,46 @@ function RacksWorld({
           height: worldHeight,
           willChange: 'transform',
         }}
+        onPointerDown={handleBandPointerDown}
       >
-        <RackGridLayer numRows={16} rowHeightPx={520} />
+        <RackGridLayer numRows={16} rowHeightPx={rowHeightPx} />
         <ModuleLayer
           modules={modules}
           getHpForTypeAction={(t: string) => getModuleHp(t as ModuleType)}
           onCommitAction={handleCommitPositions}
           onRemoveModuleAction={onRemoveModule}
+          selectedIds={selectedIds}
+          onSelectModuleAction={onSelectModule}
+          onDuplicateModuleAction={onDuplicateModule}
+          onCollapseModuleAction={onCollapseModule}
         />
         <WireCanvas />
       </div>
+
+      <RackMinimap
+        modules={modules}
+        getModuleHp={getModuleHp}
+        selectedIds={selectedIds}
+        worldWidth={worldWidth}
+        worldHeight={worldHeight}
+        rowHeightPx={rowHeightPx}
+        viewRectRef={minimapViewRef}
+        onJumpAction={(x, y) => lookAt({ x, y, scale: scaleRef.current })}
+        onFitAllAction={() => zoomToFit()}
+        onFitSelectionAction={() => zoomToFit(selectedIds)}
+      />
+
+      {band && viewportRect && (
+        <div
+          className="absolute z-50 pointer-events-none border border-sky-400 bg-sky-400/10"
+          style={{
+            left: Math.min(band.x0, band.x1) - viewportRect.left,
+            top: Math.min(band.y0, band.y1) - viewportRect.top,
+            width: Math.abs(band.x1 - band.x0),
+            height: Math.abs(band.y1 - band.y0),
+          }}
+        />
+      )}
     </div>
   )
 }
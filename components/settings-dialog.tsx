@@ -1,5 +1,6 @@
 "use client"
 
+import { AudioSettingsSection } from "@/components/audio-settings-section"
 import { useSettings } from "@/components/settings-context"
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog"
 import { Button } from "@/components/ui/button"
@@ -59,6 +60,8 @@ export function SettingsDialog() {
               <div className="w-10 text-right text-xs tabular-nums">{(Number(settings.wireThickness ?? 6)).toFixed(1)}</div>
             </div>
           </div>
+
+          <AudioSettingsSection />
         </div>
 
         <DialogFooter>
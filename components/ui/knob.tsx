@@ -1,6 +1,7 @@
 'use client'
 
 import * as React from 'react'
+import { useMidiLearn } from '@/components/midi-learn-context'
 import { TextLabel } from '@/components/text-label'
 import { cn } from '@/lib/utils'
 
@@ -17,6 +18,8 @@ interface KnobProps {
   showTicks?: boolean // Whether to show tick marks at all
   steps?: number // Number of discrete steps (e.g., steps=5 creates 0.0, 0.25, 0.5, 0.75, 1.0)
   turnSpeed?: 'slow' | 'medium' | 'fast' // Controls the default turn sensitivity
+  // Stable id within the module for MIDI learn (defaults to the knob's position)
+  controlId?: string
   ref?: React.RefObject<HTMLDivElement>
 }
 
@@ -34,6 +37,7 @@ export const Knob = React.memo(
     showTicks = true,
     steps,
     turnSpeed = 'medium',
+    controlId,
     ref,
     ...props
   }: KnobProps) => {
@@ -55,6 +59,59 @@ export const Knob = React.memo(
       currentValue = Math.round(currentValue * (steps - 1)) / (steps - 1)
     }
 
+    // ---- MIDI learn ----
+    // The knob registers under its module (found in the DOM) so mapped CCs
+    // can turn it
+    const { registerControl, learning } = useMidiLearn()
+    const containerRef = React.useRef<HTMLDivElement>(null)
+    const [learnId, setLearnId] = React.useState<string | null>(null)
+    const [learnModuleId, setLearnModuleId] = React.useState<string | null>(
+      null,
+    )
+    const latestRef = React.useRef({
+      onValueChange,
+      isControlled,
+      label,
+      steps,
+    })
+    latestRef.current = { onValueChange, isControlled, label, steps }
+
+    React.useEffect(() => {
+      const el = containerRef.current
+      const moduleEl = el?.closest<HTMLElement>('[data-module-id]')
+      const moduleId = moduleEl?.dataset.moduleId
+      if (!el || !moduleEl || !moduleId) return
+      const id =
+        controlId ??
+        `knob-${Array.from(moduleEl.querySelectorAll('[data-knob]')).indexOf(el)}`
+      setLearnId(id)
+      setLearnModuleId(moduleId)
+      return registerControl(
+        { moduleId, controlId: id },
+        {
+          get label() {
+            return latestRef.current.label
+          },
+          get steps() {
+            return latestRef.current.steps
+          },
+          getValue: () => currentValueRef.current,
+          setValue: (position) => {
+            const v = Math.max(0, Math.min(1, position))
+            const latest = latestRef.current
+            currentValueRef.current = v
+            if (!latest.isControlled) setInternalValue([v])
+            latest.onValueChange?.([v])
+          },
+        },
+      )
+    }, [controlId, registerControl])
+
+    const isLearning =
+      !!learning &&
+      learning.moduleId === learnModuleId &&
+      learning.controlId === learnId
+
     const sizeClasses = {
       xs: 'w-5 h-5',
       sm: 'w-7 h-7',
@@ -283,6 +340,9 @@ export const Knob = React.memo(
     console.log('knob', label)
     return (
       <div
+        ref={containerRef}
+        data-knob=""
+        data-control-id={learnId ?? undefined}
         className={cn(
           'flex flex-col items-center',
           padSizeClasses[size],
@@ -331,6 +391,7 @@ export const Knob = React.memo(
               sizeClasses[size],
               skirtSizeClass[size],
               disabled && 'opacity-50 cursor-not-allowed',
+              isLearning && 'ring-2 ring-yellow-400 animate-pulse',
             )}
             onMouseDown={handleMouseDown}
             tabIndex={0}
@@ -1,8 +1,15 @@
 'use client'
 
 import { useEffect, useMemo, useRef, useState } from 'react'
+import { createPortal } from 'react-dom'
+import { type CableEnd, CableInspector } from '@/components/cable-inspector'
 import { useSettings } from '@/components/settings-context'
-import type { ConnectionEdge } from '@/lib/connection-types'
+import {
+  type ConnectionEdge,
+  type PortAddress,
+  portIdOf,
+} from '@/lib/connection-types'
+import { availableModules } from '@/lib/module-registry'
 import { useConnections } from './connection-manager'
 
 const cssEscape = (s: string) => {
@@ -10,6 +17,33 @@ const cssEscape = (s: string) => {
   return s.replace(/[^a-zA-Z0-9_-]/g, '\\$&')
 }
 
+// Polyphonic cables (more than one channel) are drawn thicker
+const POLY_WIRE_SCALE = 1.75
+
+// Module and port a cable end is plugged into, read from the rendered panel
+const describeCableEnd = ({ moduleId, portName }: PortAddress): CableEnd => {
+  const el = document.querySelector<HTMLElement>(
+    `[data-port-id="${cssEscape(portIdOf({ moduleId, portName }))}"]`,
+  )
+  const type = el?.closest<HTMLElement>('[data-module-wrapper-id]')?.dataset
+    .moduleType
+  return {
+    moduleId,
+    moduleName: availableModules.find((m) => m.type === type)?.name ?? moduleId,
+    portName: el?.dataset.portLabel ?? portName,
+  }
+}
+
+// Cable under the pointer (or clicked, when pinned) with its ends described
+type InspectedCable = {
+  edgeId: string
+  from: CableEnd
+  to: CableEnd
+  x: number
+  y: number
+  pinned: boolean
+}
+
 // Unified wire physics calculation
 function calculateWirePhysics(
   dist: number,
@@ -195,6 +229,7 @@ export function WireCanvas() {
   const { connections, registerTempWireUpdater, getPortCenter } =
     useConnections()
   const [, forceRender] = useState(0)
+  const [inspected, setInspected] = useState<InspectedCable | null>(null)
 
   const svgRef = useRef<SVGSVGElement | null>(null)
   const staticRingLayerRef = useRef<SVGGElement | null>(null)
@@ -277,9 +312,17 @@ export function WireCanvas() {
     return edge.color
   }
 
+  const pickThickness = (edge: ConnectionEdge) =>
+    (edge.channels ?? 1) > 1
+      ? thicknessRef.current * POLY_WIRE_SCALE
+      : thicknessRef.current
+
   // Imperative temp-wire drawer
   useEffect(() => {
     registerTempWireUpdater((fromScreen, toScreen, color) => {
+      // Cables must not catch the drop meant for a port underneath them
+      const wireLayer = staticWireLayerRef.current
+      if (wireLayer) wireLayer.style.pointerEvents = toScreen ? 'none' : ''
       const pathEl = tempPathRef.current
       const shadowPathEl = tempShadowPathRef.current
       const startRing = tempStartRingRef.current
@@ -454,6 +497,7 @@ export function WireCanvas() {
     shadowPath.setAttribute('stroke-linecap', 'round')
     shadowPath.setAttribute('vector-effect', 'non-scaling-stroke')
     shadowPath.setAttribute('filter', 'url(#wireShadowBlur)')
+    shadowPath.setAttribute('pointer-events', 'none')
 
     const p = document.createElementNS('http://www.w3.org/2000/svg', 'path')
     p.setAttribute('fill', 'none')
@@ -461,6 +505,8 @@ export function WireCanvas() {
     p.setAttribute('stroke-opacity', String(opacityRef.current))
     p.setAttribute('stroke-linecap', 'round')
     p.setAttribute('vector-effect', 'non-scaling-stroke')
+    p.setAttribute('data-edge-id', edge.id)
+    p.setAttribute('class', 'cursor-pointer')
 
     // Ensure shadow behind wire within the wire layer
     wireLayer.appendChild(shadowPath)
@@ -504,8 +550,8 @@ export function WireCanvas() {
     const g = groupMap.current.get(edge.id)
     if (!p || !shadowPath || !startRing || !endRing || !g) return
 
-    const aScr = getScreenCenter(edge.from)
-    const bScr = getScreenCenter(edge.to)
+    const aScr = getScreenCenter(portIdOf(edge.from))
+    const bScr = getScreenCenter(portIdOf(edge.to))
     if (!aScr || !bScr) {
       p.setAttribute('d', '')
       shadowPath.setAttribute('d', '')
@@ -533,10 +579,11 @@ export function WireCanvas() {
     const shadowResult = shadowSagPath(a, b)
 
     const color = pickColor(edge)
+    const thickness = pickThickness(edge)
 
     // Set shadow path
     shadowPath.setAttribute('d', shadowResult.path)
-    shadowPath.setAttribute('stroke-width', String(thicknessRef.current)) // Same thickness as wire
+    shadowPath.setAttribute('stroke-width', String(thickness)) // Same thickness as wire
 
     // Set main wire path
     p.setAttribute('d', result.path)
@@ -544,7 +591,11 @@ export function WireCanvas() {
     const opacity = opacityRef.current
     p.setAttribute('stroke-opacity', String(opacity))
     shadowPath.setAttribute('stroke-opacity', String(0.15 * opacity))
-    p.setAttribute('stroke-width', String(thicknessRef.current))
+    p.setAttribute('stroke-width', String(thickness))
+    // Feedback cables (delayed by one block) are dashed
+    if (edge.feedback)
+      p.setAttribute('stroke-dasharray', `${thickness * 2} ${thickness * 1.5}`)
+    else p.removeAttribute('stroke-dasharray')
 
     // Position and style the triangular wire rings with rotation
     const startCircle = startRing.children[0] as SVGCircleElement
@@ -607,6 +658,48 @@ export function WireCanvas() {
     }
   }, [])
 
+  // Hovering a cable previews its signal; clicking pins the inspector
+  useEffect(() => {
+    const wireLayer = staticWireLayerRef.current
+    if (!wireLayer) return
+    const edgeIdOf = (e: Event) =>
+      (e.target as Element | null)?.getAttribute('data-edge-id') ?? null
+    const inspect = (e: PointerEvent | MouseEvent, pinned: boolean) => {
+      const edgeId = edgeIdOf(e)
+      const edge = connectionsRef.current.find((c) => c.id === edgeId)
+      if (!edge) return
+      setInspected((prev) =>
+        prev?.pinned && !pinned
+          ? prev
+          : {
+              edgeId: edge.id,
+              from: describeCableEnd(edge.from),
+              to: describeCableEnd(edge.to),
+              x: e.clientX,
+              y: e.clientY,
+              pinned,
+            },
+      )
+    }
+    const onOver = (e: PointerEvent) => inspect(e, false)
+    const onOut = (e: PointerEvent) => {
+      if (edgeIdOf(e)) setInspected((prev) => (prev?.pinned ? prev : null))
+    }
+    // Keep the rack from starting a selection band under the cable
+    const onDown = (e: PointerEvent) => e.stopPropagation()
+    const onClick = (e: MouseEvent) => inspect(e, true)
+    wireLayer.addEventListener('pointerover', onOver)
+    wireLayer.addEventListener('pointerout', onOut)
+    wireLayer.addEventListener('pointerdown', onDown)
+    wireLayer.addEventListener('click', onClick)
+    return () => {
+      wireLayer.removeEventListener('pointerover', onOver)
+      wireLayer.removeEventListener('pointerout', onOut)
+      wireLayer.removeEventListener('pointerdown', onDown)
+      wireLayer.removeEventListener('click', onClick)
+    }
+  }, [])
+
   // Build DOM for edges when list changes; update ref and start settle window
   useEffect(() => {
     connectionsRef.current = connections
@@ -655,99 +748,122 @@ export function WireCanvas() {
   }, [])
 
   const items = useMemo(() => connections, [connections])
+  const inspectedEdge =
+    inspected && connections.find((c) => c.id === inspected.edgeId)
+
+  // Close the inspector when its cable goes away
+  useEffect(() => {
+    if (inspected && !inspectedEdge) setInspected(null)
+  }, [inspected, inspectedEdge])
 
   return (
-    <svg
-      ref={svgRef}
-      className="pointer-events-none absolute top-0 left-0 w-full h-full z-40"
-      shapeRendering="geometricPrecision"
-    >
-      <defs>
-        <filter
-          id="wireShadowBlur"
-          x="-50%"
-          y="-50%"
-          width="200%"
-          height="200%"
-        >
-          <feGaussianBlur stdDeviation="0" />
-        </filter>
-      </defs>
-
-      {/* Temp wire with rings */}
-      <g>
-        {/* Temp wire shadow (rendered first) */}
-        <path
-          ref={tempShadowPathRef}
-          stroke="black"
-          strokeWidth={Math.max(
-            1,
-            Math.min(10, Number(settings.wireThickness ?? 6)),
-          )}
-          fill="none"
-          strokeOpacity={String(0.15 * opacityRef.current)}
-          strokeLinecap="round"
-          vectorEffect="non-scaling-stroke"
-          filter="url(#wireShadowBlur)"
-        />
-
-        {/* Temp start ring */}
-        <g ref={tempStartRingRef} style={{ display: 'none' }}>
-          <circle r="10" fill="none" strokeWidth="5" strokeOpacity={1} />
+    <>
+      <svg
+        ref={svgRef}
+        className="pointer-events-none absolute top-0 left-0 w-full h-full z-40"
+        shapeRendering="geometricPrecision"
+      >
+        <defs>
+          <filter
+            id="wireShadowBlur"
+            x="-50%"
+            y="-50%"
+            width="200%"
+            height="200%"
+          >
+            <feGaussianBlur stdDeviation="0" />
+          </filter>
+        </defs>
+
+        {/* Temp wire with rings */}
+        <g>
+          {/* Temp wire shadow (rendered first) */}
           <path
-            d="M 7,-7 L 14,-2 A 2,2 0 0,1 14,2 L 7,7"
-            fill="none"
-            strokeWidth="6"
-            strokeOpacity={1}
-          />
-          <circle
-            r="7"
+            ref={tempShadowPathRef}
+            stroke="black"
+            strokeWidth={Math.max(
+              1,
+              Math.min(10, Number(settings.wireThickness ?? 6)),
+            )}
             fill="none"
-            stroke="#fff"
-            strokeWidth="2"
+            strokeOpacity={String(0.15 * opacityRef.current)}
+            strokeLinecap="round"
             vectorEffect="non-scaling-stroke"
+            filter="url(#wireShadowBlur)"
           />
-        </g>
 
-        {/* Temp end ring */}
-        <g ref={tempEndRingRef} style={{ display: 'none' }}>
-          <circle r="10" fill="none" strokeWidth="5" strokeOpacity={1} />
+          {/* Temp start ring */}
+          <g ref={tempStartRingRef} style={{ display: 'none' }}>
+            <circle r="10" fill="none" strokeWidth="5" strokeOpacity={1} />
+            <path
+              d="M 7,-7 L 14,-2 A 2,2 0 0,1 14,2 L 7,7"
+              fill="none"
+              strokeWidth="6"
+              strokeOpacity={1}
+            />
+            <circle
+              r="7"
+              fill="none"
+              stroke="#fff"
+              strokeWidth="2"
+              vectorEffect="non-scaling-stroke"
+            />
+          </g>
+
+          {/* Temp end ring */}
+          <g ref={tempEndRingRef} style={{ display: 'none' }}>
+            <circle r="10" fill="none" strokeWidth="5" strokeOpacity={1} />
+            <path
+              d="M 7,-7 L 14,-2 A 2,2 0 0,1 14,2 L 7,7"
+              fill="none"
+              strokeWidth="6"
+              strokeOpacity={1}
+            />
+            <circle
+              r="7"
+              fill="none"
+              stroke="#fff"
+              strokeWidth="2"
+              vectorEffect="non-scaling-stroke"
+            />
+          </g>
+
+          {/* Temp wire path (must be above temp rings, so moved after rings) */}
           <path
-            d="M 7,-7 L 14,-2 A 2,2 0 0,1 14,2 L 7,7"
-            fill="none"
-            strokeWidth="6"
-            strokeOpacity={1}
-          />
-          <circle
-            r="7"
+            ref={tempPathRef}
+            stroke={tempColorRef.current}
+            strokeWidth={Math.max(
+              1,
+              Math.min(10, Number(settings.wireThickness ?? 6)),
+            )}
             fill="none"
-            stroke="#fff"
-            strokeWidth="2"
+            strokeOpacity={Number(settings.wireOpacity ?? 0.7)}
+            strokeLinecap="round"
             vectorEffect="non-scaling-stroke"
           />
         </g>
 
-        {/* Temp wire path (must be above temp rings, so moved after rings) */}
-        <path
-          ref={tempPathRef}
-          stroke={tempColorRef.current}
-          strokeWidth={Math.max(
-            1,
-            Math.min(10, Number(settings.wireThickness ?? 6)),
-          )}
-          fill="none"
-          strokeOpacity={Number(settings.wireOpacity ?? 0.7)}
-          strokeLinecap="round"
-          vectorEffect="non-scaling-stroke"
-        />
-      </g>
-
-      {/* Static layers: rings first, wires above */}
-      <g ref={staticRingLayerRef} />
-      <g ref={staticWireLayerRef} />
-
-      {/* Hidden keyed list keeps React aware of edges */}
-      {/* Hidden keyed list was causing re-render churn during drag; remove to keep DOM stable */}
-    </svg>
+        {/* Static layers: rings first, wires above */}
+        <g ref={staticRingLayerRef} />
+        <g ref={staticWireLayerRef} pointerEvents="stroke" />
+
+        {/* Hidden keyed list keeps React aware of edges */}
+        {/* Hidden keyed list was causing re-render churn during drag; remove to keep DOM stable */}
+      </svg>
+      {inspected &&
+        inspectedEdge &&
+        createPortal(
+          <CableInspector
+            edge={inspectedEdge}
+            from={inspected.from}
+            to={inspected.to}
+            x={inspected.x}
+            y={inspected.y}
+            pinned={inspected.pinned}
+            onCloseAction={() => setInspected(null)}
+          />,
+          document.body,
+        )}
+    </>
   )
 }
@@ -1,22 +1,32 @@
 import { useState, useRef, useEffect, useCallback } from "react"
+import { useAudioEngine } from "@/components/audio-engine-context"
+import { installDspTelemetry } from "@/lib/dsp-telemetry"
 
 /**
  * Hook for safely initializing audio modules with proper guards and automatic re-rendering
- * 
+ *
  * Setting isReady state triggers a re-render which causes Port components to pick up
  * the newly initialized audio nodes from their refs.
- * 
- * @param initFn - Async initialization function that sets up audio nodes
+ *
+ * The AudioContext is injected from the nearest AudioEngineProvider (the shared
+ * realtime context by default), so the same module can run inside an
+ * OfflineAudioContext for faster-than-realtime rendering.
+ *
+ * On a realtime context the DSP telemetry worklet is installed first, so the
+ * processors the module loads report their load.
+ *
+ * @param initFn - Async initialization function that sets up audio nodes on the given context
  * @param moduleName - Name for console logging (e.g., "VCO", "FILTER")
- * @returns 
+ * @returns
  * - isReady: boolean state that triggers re-render when initialization completes
  * - initError: any error that occurred during initialization
  * - retryInit: function to manually retry initialization after error
  */
 export function useModuleInit(
-  initFn: () => Promise<void>,
+  initFn: (ac: AudioContext) => Promise<void>,
   moduleName: string
 ) {
+  const { getContext, offline, trackInit } = useAudioEngine()
   const isInitializedRef = useRef(false)
   const [isReady, setIsReady] = useState(false)
   const [initError, setInitError] = useState<Error | null>(null)
@@ -32,8 +42,12 @@ export function useModuleInit(
 
     try {
       // Run the module's initialization function
-      await initFn()
-      
+      const ac = getContext()
+      const telemetry = offline ? Promise.resolve() : installDspTelemetry(ac)
+      const run = telemetry.then(() => initFn(ac))
+      trackInit?.(run)
+      await run
+
       // Success - trigger re-render by setting state
       // This causes Port components to re-render and pick up the initialized audio nodes
       setIsReady(true)
@@ -46,7 +60,7 @@ export function useModuleInit(
       setInitError(err as Error)
       setIsReady(false)
     }
-  }, [initFn, moduleName])
+  }, [initFn, moduleName, getContext, offline, trackInit])
 
   // Initialize on mount
   useEffect(() => {
@@ -68,4 +82,4 @@ export function useModuleInit(
     initError,
     retryInit
   }
-}
\ No newline at end of file
+}
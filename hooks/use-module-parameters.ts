@@ -0,0 +1,173 @@
+'use client'
+
+import { type RefObject, useCallback, useEffect, useRef, useState } from 'react'
+import { useModulePatch } from '@/components/patch-manager'
+import {
+  fromKnob,
+  getDefaultParameters,
+  isSteppedParameter,
+  knobSteps,
+  type ParameterDescriptor,
+  type ParameterValues,
+  sanitizeParameters,
+  toKnob,
+  toParamValue,
+} from '@/lib/module-parameters'
+
+type KnobBinding = {
+  value: number[]
+  onValueChange: (value: number[]) => void
+  steps?: number
+  // MIDI learn id, stable across layout changes
+  controlId: string
+}
+
+/**
+ * Binds a module's parameter descriptors to state, patch persistence,
+ * undo/redo and (optionally) the AudioParams of its worklet node.
+ *
+ * @param moduleId - Module instance id
+ * @param descriptors - Output of defineParameters
+ * @param options.node - Worklet whose `param`s follow the values
+ * @returns
+ * - values: current values keyed by descriptor id
+ * - set: update one value
+ * - knob: `value`/`onValueChange`/`steps`/`controlId` props for a Knob
+ *   (index for arrays)
+ * - reset: restore every default
+ * - applyToNode: set all AudioParams immediately (call after creating the node)
+ */
+export function useModuleParameters<
+  const D extends readonly ParameterDescriptor[],
+>(
+  moduleId: string,
+  descriptors: D,
+  {
+    node,
+    onGetPosition,
+  }: {
+    node?: RefObject<AudioWorkletNode | null>
+    onGetPosition?: () => { x: number; y: number } | undefined
+  } = {},
+) {
+  type Values = ParameterValues<D>
+
+  const { initialParameters, record, report } = useModulePatch(
+    moduleId,
+    () => values,
+    {
+      onGetPosition,
+      onApply: (p) => replace(sanitizeParameters(descriptors, p)),
+    },
+  )
+
+  const [values, setValues] = useState<Values>(() =>
+    sanitizeParameters(descriptors, initialParameters),
+  )
+  // Ahead of `values` until the next render, so several changes in one event
+  // build on each other
+  const valuesRef = useRef(values)
+
+  const replace = useCallback(
+    (next: Values) => {
+      valuesRef.current = next
+      setValues(next)
+      report(next)
+    },
+    [report],
+  )
+
+  // Changes made through the module's own controls are recorded for undo
+  const change = useCallback(
+    (next: Values) => {
+      const prev = valuesRef.current
+      replace(next)
+      record(prev, next)
+    },
+    [replace, record],
+  )
+
+  const set = useCallback(
+    <K extends keyof Values>(id: K, value: Values[K]) => {
+      const prev = valuesRef.current
+      if (Object.is(prev[id], value)) return
+      change({ ...prev, [id]: value })
+    },
+    [change],
+  )
+
+  const reset = useCallback(
+    () => change(getDefaultParameters(descriptors)),
+    [change, descriptors],
+  )
+
+  // ---- Knob bindings ----
+  // Handlers are cached per id/index so memoized knobs do not re-render
+  const handlersRef = useRef(new Map<string, (value: number[]) => void>())
+  const knob = (id: keyof Values & string, index?: number): KnobBinding => {
+    const p = descriptors.find((d) => d.id === id)
+    if (!p) throw new Error(`Unknown parameter "${id}"`)
+    const key = index === undefined ? id : `${id}:${index}`
+    let onValueChange = handlersRef.current.get(key)
+    if (!onValueChange) {
+      onValueChange = (v: number[]) => {
+        const next = fromKnob(p, v[0] ?? 0)
+        const prev = valuesRef.current
+        const cur = (prev as Record<string, any>)[id]
+        if (index === undefined) {
+          if (cur !== next) change({ ...prev, [id]: next })
+          return
+        }
+        if (cur[index] === next) return
+        const arr = [...cur]
+        arr[index] = next
+        change({ ...prev, [id]: arr })
+      }
+      handlersRef.current.set(key, onValueChange)
+    }
+    const cur = (values as Record<string, any>)[id]
+    return {
+      value: [toKnob(p, index === undefined ? cur : cur[index])],
+      onValueChange,
+      steps: knobSteps(p),
+      controlId: key,
+    }
+  }
+
+  // ---- AudioParam pushes ----
+  const pushedRef = useRef<Record<string, number>>({})
+
+  const push = useCallback(
+    (w: AudioWorkletNode, all: boolean) => {
+      const now = w.context.currentTime
+      const vals = valuesRef.current as Record<string, unknown>
+      for (const p of descriptors) {
+        if (!p.param) continue
+        const v = toParamValue(p, vals[p.id])
+        if (!all && pushedRef.current[p.id] === v) continue
+        pushedRef.current[p.id] = v
+        const ap = w.parameters.get(p.param)
+        if (!ap) continue
+        if (all || isSteppedParameter(p)) {
+          ap.cancelScheduledValues(now)
+          ap.setValueAtTime(v, now)
+        } else {
+          ap.setTargetAtTime(v, now, 0.01)
+        }
+      }
+    },
+    [descriptors],
+  )
+
+  const applyToNode = useCallback(
+    (w: AudioWorkletNode) => push(w, true),
+    [push],
+  )
+
+  useEffect(() => {
+    const w = node?.current
+    if (w) push(w, false)
+  }, [values, node, push])
+
+  return { values, set, knob, reset, applyToNode, initialParameters }
+}
@@ -0,0 +1,33 @@
+'use client'
+
+import { useCallback, useState } from 'react'
+import { setNodeChannels } from '@/lib/polyphony'
+
+/**
+ * Follows the voice count a poly worklet reports (`{ type: 'channels' }`
+ * messages) and trims its output nodes to it.
+ *
+ * @returns
+ * - channels: active voices; pass to the output `Port`s
+ * - bindPoly: call with the worklet and its output nodes after creating them
+ */
+export function usePolyChannels() {
+  const [channels, setChannels] = useState(1)
+
+  const bindPoly = useCallback(
+    (node: AudioWorkletNode, outputs: AudioNode[]) => {
+      const apply = (n: number) => {
+        setNodeChannels(outputs, n)
+        setChannels(n)
+      }
+      apply(1)
+      node.port.addEventListener('message', (e: MessageEvent) => {
+        if (e.data?.type === 'channels') apply(e.data.value)
+      })
+      node.port.start()
+    },
+    [],
+  )
+
+  return { channels, bindPoly }
+}
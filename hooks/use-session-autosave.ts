@@ -0,0 +1,98 @@
+import { useCallback, useEffect, useRef } from 'react'
+import type { Patch } from '@/lib/patch-schema'
+import {
+  clearRecoverySnapshot,
+  writeRecoverySnapshot,
+} from '@/lib/patch-storage'
+
+export const AUTOSAVE_INTERVAL_MS = 5000
+// Time for a freshly loaded or saved patch to mount before its state is
+// taken as the clean baseline
+const SETTLE_MS = 1000
+
+// Session content without volatile metadata (timestamps) or the camera, for
+// change checks: looking around is not unsaved work
+const contentKey = (patch: Patch) =>
+  JSON.stringify({ ...patch, metadata: undefined, view: undefined })
+
+/**
+ * Keeps the recovery slot in step with unsaved work. The session is
+ * snapshotted every few seconds, when the tab is hidden and on
+ * `beforeunload`, whenever it differs from the patch last loaded or saved.
+ * Returning to that state (saving, undoing) clears the slot again.
+ * @param getCurrentState - live session, from the patch manager
+ * @param currentPatch - replaced on every load and save
+ * @returns markUnsaved - call before loading a patch that is itself unsaved
+ * work (a recovered session), so it stays in the slot
+ */
+export function useSessionAutosave(
+  getCurrentState: () => Patch,
+  currentPatch: Patch | null,
+) {
+  const getStateRef = useRef(getCurrentState)
+  getStateRef.current = getCurrentState
+  // null while a load/save is settling
+  const baselineRef = useRef<string | null>(null)
+  // What this session last put in the slot (null: slot not ours)
+  const writtenRef = useRef<string | null>(null)
+  const failedRef = useRef(false)
+  const unsavedRef = useRef(false)
+
+  const snapshotRef = useRef(() => {
+    const baseline = baselineRef.current
+    if (baseline === null) return
+    const patch = getStateRef.current()
+    const key = contentKey(patch)
+    if (key === baseline) {
+      if (writtenRef.current !== null) clearRecoverySnapshot()
+      writtenRef.current = null
+      return
+    }
+    if (key === writtenRef.current) return
+    try {
+      writeRecoverySnapshot(patch)
+      writtenRef.current = key
+      failedRef.current = false
+    } catch (err) {
+      // Warn once per failure streak; the interval keeps retrying
+      if (!failedRef.current)
+        console.warn('[autosave] Could not write recovery snapshot:', err)
+      failedRef.current = true
+    }
+  })
+
+  useEffect(() => {
+    if (!currentPatch) return
+    baselineRef.current = null
+    const id = setTimeout(() => {
+      // '' never matches, so an unsaved load is snapshotted right away
+      baselineRef.current = unsavedRef.current
+        ? ''
+        : contentKey(getStateRef.current())
+      unsavedRef.current = false
+      snapshotRef.current()
+    }, SETTLE_MS)
+    return () => clearTimeout(id)
+  }, [currentPatch])
+
+  useEffect(() => {
+    const snapshot = () => snapshotRef.current()
+    const onVisibility = () => {
+      if (document.visibilityState === 'hidden') snapshot()
+    }
+    const id = setInterval(snapshot, AUTOSAVE_INTERVAL_MS)
+    window.addEventListener('beforeunload', snapshot)
+    document.addEventListener('visibilitychange', onVisibility)
+    return () => {
+      clearInterval(id)
+      window.removeEventListener('beforeunload', snapshot)
+      document.removeEventListener('visibilitychange', onVisibility)
+    }
+  }, [])
+
+  const markUnsaved = useCallback(() => {
+    unsavedRef.current = true
+  }, [])
+
+  return { markUnsaved }
+}
@@ -0,0 +1,63 @@
+// How the shared AudioContext is created. Read from storage each time the
+// context is (re)created, so saved settings apply before any module starts.
+
+export interface AudioSettings {
+  // Hz; null runs at the output device's rate
+  sampleRate: number | null
+  latencyHint: AudioContextLatencyCategory
+  // Output device; '' is the system default
+  sinkId: string
+}
+
+export const SAMPLE_RATES = [44100, 48000, 88200, 96000] as const
+export const LATENCY_HINTS: readonly AudioContextLatencyCategory[] = [
+  'interactive',
+  'balanced',
+  'playback',
+]
+
+export const DEFAULT_AUDIO_SETTINGS: AudioSettings = {
+  sampleRate: null,
+  latencyHint: 'interactive',
+  sinkId: '',
+}
+
+// AudioContext.setSinkId is not in every browser (nor in the DOM typings)
+export type SinkableAudioContext = AudioContext & {
+  setSinkId?: (sinkId: string) => Promise<void>
+}
+
+export const supportsOutputDevice = () =>
+  typeof AudioContext !== 'undefined' &&
+  typeof (AudioContext.prototype as SinkableAudioContext).setSinkId ===
+    'function'
+
+const STORAGE_KEY = 'synthesizer-audio-settings'
+
+export const loadAudioSettings = (): AudioSettings => {
+  try {
+    if (typeof window === 'undefined') return DEFAULT_AUDIO_SETTINGS
+    const raw = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}')
+    return {
+      sampleRate: SAMPLE_RATES.includes(raw?.sampleRate)
+        ? raw.sampleRate
+        : DEFAULT_AUDIO_SETTINGS.sampleRate,
+      latencyHint: LATENCY_HINTS.includes(raw?.latencyHint)
+        ? raw.latencyHint
+        : DEFAULT_AUDIO_SETTINGS.latencyHint,
+      sinkId:
+        typeof raw?.sinkId === 'string'
+          ? raw.sinkId
+          : DEFAULT_AUDIO_SETTINGS.sinkId,
+    }
+  } catch {
+    return DEFAULT_AUDIO_SETTINGS
+  }
+}
+
+export const saveAudioSettings = (settings: AudioSettings) => {
+  try {
+    if (typeof window === 'undefined') return
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings))
+  } catch {}
+}
@@ -1,6 +1,31 @@
-export type AudioKind = "audio" | "cv" | "any";
+// What a port carries: audio, modulation CV, 1V/oct pitch, gates or triggers
+export type SignalKind = "audio" | "cv" | "pitch" | "gate" | "trigger";
+export type AudioKind = SignalKind | "any";
+export const SIGNAL_KINDS: readonly SignalKind[] = ["audio", "cv", "pitch", "gate", "trigger"];
+// Rate a cable runs at; every control kind travels as CV
+export type CableKind = "audio" | "cv";
 export type PortDirection = "input" | "output";
 
+// Polyphonic cables carry up to this many channels (one per voice)
+export const POLY_MAX_CHANNELS = 16;
+
+
+// Where a port lives: its module and its name on that module's panel
+export interface PortAddress {
+moduleId: string;
+portName: string; // e.g. "audio-out", "freq-in", "gate-in"
+}
+
+// Id of the jack at an address, as used for `data-port-id` and registries
+export const portIdOf = (address: PortAddress) => `${address.moduleId}-${address.portName}`;
+
+export const samePort = (a: PortAddress, b: PortAddress) =>
+a.moduleId === b.moduleId && a.portName === b.portName;
+
+// Address of a jack id on module `moduleId`, null if the id is not on it
+export function portAddressIn(moduleId: string, portId: string): PortAddress | null {
+return portId.startsWith(`${moduleId}-`) ? { moduleId, portName: portId.slice(moduleId.length + 1) } : null;
+}
 
 export interface PortMeta {
 portId: string; // unique: `${moduleId}:${portName}` (no suffix parsing)
@@ -8,15 +33,18 @@ moduleId: string;
 portName: string; // e.g. "audio-out", "freq-in", "gate-in"
 direction: PortDirection;
 kind: AudioKind; // what this port carries; oscilloscope inputs can be "any"
+channels?: number; // channels on the port (1 = mono, up to POLY_MAX_CHANNELS)
 }
 
 
 export interface ConnectionEdge {
 id: string; // uuid
-from: string; // portId (must be direction: output)
-to: string; // portId (must be direction: input)
-kind: Exclude<AudioKind, "any">; // "audio" | "cv"
+from: PortAddress; // must be direction: output
+to: PortAddress; // must be direction: input
+kind: CableKind; // "audio" | "cv"
 color: string; // wire color from palette
+channels?: number; // channels carried, follows the source port (not saved)
+feedback?: boolean; // closes a loop, so it is bound through a one-block delay
 }
 
 
@@ -29,3 +57,63 @@ params?: Record<string, number | string | boolean>;
 }>;
 connections: ConnectionEdge[];
 }
+
+
+export type Compatibility = "allow" | "warn" | "block";
+
+// Output kind (rows) into input kind (columns). Only pairs that never worked
+// are blocked; the questionable ones connect with a warning.
+const COMPATIBILITY: Record<SignalKind, Record<SignalKind, Compatibility>> = {
+audio: { audio: "allow", cv: "warn", pitch: "warn", gate: "block", trigger: "block" },
+cv: { audio: "block", cv: "allow", pitch: "allow", gate: "warn", trigger: "warn" },
+pitch: { audio: "block", cv: "allow", pitch: "allow", gate: "warn", trigger: "warn" },
+gate: { audio: "block", cv: "allow", pitch: "warn", gate: "allow", trigger: "allow" },
+trigger: { audio: "block", cv: "allow", pitch: "warn", gate: "warn", trigger: "allow" },
+};
+
+const KIND_NAMES: Record<SignalKind, string> = {
+audio: "audio",
+cv: "CV",
+pitch: "1V/oct pitch",
+gate: "gate",
+trigger: "trigger",
+};
+
+// Why a warned pair is questionable, where there is more to say than the kinds
+const WARNINGS: Partial<Record<`${SignalKind}>${SignalKind}`, string>> = {
+"audio>cv": "it modulates at audio rate, far faster than the input expects",
+"audio>pitch": "the pitch will jump around at audio rate",
+"cv>gate": "the gate opens whenever the voltage crosses the threshold",
+"cv>trigger": "it fires whenever the voltage crosses the threshold",
+"pitch>gate": "the gate follows the pitch voltage, not the notes",
+"pitch>trigger": "it fires on the pitch voltage, not on the notes",
+"gate>pitch": "the pitch jumps between two notes",
+"trigger>pitch": "the pitch only blips on each trigger",
+"trigger>gate": "a trigger is too short to hold a gate open",
+};
+
+// How well an output drives an input; "any" ports take everything
+export function signalCompatibility(outKind: AudioKind, inKind: AudioKind): Compatibility {
+if (outKind === "any" || inKind === "any") return "allow";
+return COMPATIBILITY[outKind][inKind];
+}
+
+// What to tell the user about a warned or blocked pair, null if it is fine
+export function compatibilityMessage(outKind: AudioKind, inKind: AudioKind): string | null {
+if (outKind === "any" || inKind === "any") return null;
+const compatibility = COMPATIBILITY[outKind][inKind];
+if (compatibility === "allow") return null;
+const pair = `${KIND_NAMES[outKind]} output into a ${KIND_NAMES[inKind]} input`;
+if (compatibility === "block") return `A ${pair} cannot be connected.`;
+const sentence = `${pair[0].toUpperCase()}${pair.slice(1)}`;
+const reason = WARNINGS[`${outKind}>${inKind}`];
+return reason ? `${sentence}: ${reason}.` : `${sentence} may not behave as expected.`;
+}
+
+// Kind of a cable from an output to an input, null if they cannot connect
+// (audio when both ends take audio, CV otherwise)
+export function cableKind(outKind: AudioKind, inKind: AudioKind): CableKind | null {
+if (signalCompatibility(outKind, inKind) === "block") return null;
+const audioEnd = (k: AudioKind) => k === "audio" || k === "any";
+return audioEnd(outKind) && audioEnd(inKind) ? "audio" : "cv";
+}
@@ -0,0 +1,70 @@
+// DSP load of the running modules, measured in the audio worklet scope by
+// public/dsp-telemetry.js. Loads are fractions of the render budget: 1 means
+// processing took as long as the audio it produced, and the output crackles.
+
+export interface DspLoadReport {
+  // All modules together
+  total: number
+  // By module id; modules inside a macro report under their scoped ids
+  modules: Record<string, number>
+  // False when the worklet only has a millisecond clock: loads are then
+  // averaged over several seconds and only approximate
+  precise: boolean
+}
+
+type DspLoadListener = (report: DspLoadReport) => void
+
+const installs = new WeakMap<BaseAudioContext, Promise<void>>()
+const listeners = new Set<DspLoadListener>()
+
+/**
+ * Loads the telemetry worklet and starts its hub on `ac`, once per context.
+ * Must finish before any processor module is added, as it wraps their
+ * registration.
+ */
+export function installDspTelemetry(ac: AudioContext) {
+  let install = installs.get(ac)
+  if (!install) {
+    install = ac.audioWorklet.addModule('/dsp-telemetry.js').then(() => {
+      // No outputs, so the context pulls it without a connection
+      const hub = new AudioWorkletNode(ac, 'dsp-telemetry', {
+        numberOfInputs: 0,
+        numberOfOutputs: 0,
+      })
+      hub.port.onmessage = ({ data }) => {
+        if (data?.type !== 'load') return
+        const report: DspLoadReport = {
+          total: data.total,
+          modules: data.modules,
+          precise: data.precise === true,
+        }
+        for (const listener of listeners) listener(report)
+      }
+    })
+    // Modules run without telemetry if it cannot load
+    install = install.catch((err) => {
+      console.warn('[dsp-telemetry] Not available:', err)
+    })
+    installs.set(ac, install)
+  }
+  return install
+}
+
+/**
+ * Calls `listener` with every report, from whichever context is running
+ * @returns unsubscribe
+ */
+export function subscribeDspLoad(listener: DspLoadListener) {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+/** Load of a module, including the modules running inside it (a macro's) */
+export const moduleDspLoad = (report: DspLoadReport, moduleId: string) => {
+  let load = 0
+  for (const [id, value] of Object.entries(report.modules))
+    if (id === moduleId || id.startsWith(`${moduleId}/`)) load += value
+  return load
+}
@@ -0,0 +1,84 @@
+import {
+  type ConnectionEdge,
+  type PortAddress,
+  portIdOf,
+  samePort,
+} from '@/lib/connection-types'
+
+// Cycle detection over the jack graph. Within a module every input is taken
+// to reach every output, except that jacks of two different sections (the
+// independent channels of an attenuverter, say) do not reach each other.
+// A cable that lets an output come back to an input it depends on closes a
+// loop. Such feedback cables are bound through a one-block delay; the others
+// must stay acyclic.
+
+// Frames Web Audio renders per block; the delay on a feedback cable
+export const RENDER_QUANTUM = 128
+
+// Section of a jack, undefined for jacks the whole module shares
+export type SectionOf = (port: PortAddress) => string | undefined
+
+const noSections: SectionOf = () => undefined
+
+/**
+ * Whether a cable `from` → `to` would close a loop of cables without a delay
+ * @param edges - cables already patched; feedback ones do not count
+ * @param sectionOf - section of a jack; jacks without one reach everything
+ */
+export function closesFeedbackLoop(
+  edges: Iterable<Pick<ConnectionEdge, 'from' | 'to' | 'feedback'>>,
+  from: PortAddress,
+  to: PortAddress,
+  sectionOf: SectionOf = noSections,
+) {
+  // Cabled outputs per module, and the inputs each one feeds
+  const outputs = new Map<string, PortAddress[]>([[from.moduleId, [from]]])
+  const cables = new Map<string, PortAddress[]>()
+  for (const e of edges) {
+    if (e.feedback) continue
+    const source = portIdOf(e.from)
+    if (!cables.has(source)) {
+      cables.set(source, [])
+      const m = e.from.moduleId
+      outputs.set(m, [...(outputs.get(m) ?? []), e.from])
+    }
+    cables.get(source)?.push(e.to)
+  }
+  const reaches = (input: PortAddress, output: PortAddress) => {
+    const a = sectionOf(input)
+    const b = sectionOf(output)
+    return a === undefined || b === undefined || a === b
+  }
+  // Depth-first search from the input the new cable feeds
+  const seen = new Set<string>()
+  const stack = [to]
+  while (stack.length > 0) {
+    const input = stack.pop() as PortAddress
+    const id = portIdOf(input)
+    if (seen.has(id)) continue
+    seen.add(id)
+    for (const output of outputs.get(input.moduleId) ?? []) {
+      if (!reaches(input, output)) continue
+      if (samePort(output, from)) return true
+      stack.push(...(cables.get(portIdOf(output)) ?? []))
+    }
+  }
+  return false
+}
+
+/**
+ * Flags the cables of a loaded patch, in order: saved flags are kept and
+ * any other cable that would close a loop is flagged too, so a patch always
+ * comes back with the same cables delayed.
+ */
+export function markFeedbackEdges<
+  E extends Pick<ConnectionEdge, 'from' | 'to' | 'feedback'>,
+>(edges: readonly E[], sectionOf: SectionOf = noSections): E[] {
+  const marked: E[] = []
+  for (const e of edges) {
+    const feedback =
+      e.feedback || closesFeedbackLoop(marked, e.from, e.to, sectionOf)
+    marked.push(feedback ? { ...e, feedback: true } : e)
+  }
+  return marked
+}
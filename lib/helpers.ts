@@ -1,7 +1,44 @@
+import {
+  type AudioSettings,
+  DEFAULT_AUDIO_SETTINGS,
+  loadAudioSettings,
+  type SinkableAudioContext,
+} from '@/lib/audio-settings'
+
+// Settings the shared context was created with
+let engineSettings: AudioSettings | null = null
+
+/** Settings the running AudioContext was created with, null before one is */
+export const getEngineSettings = () => engineSettings
+
+// Context with the saved audio settings; the browser's defaults for any it
+// cannot honour (e.g. a sample rate the device does not support)
+function createAudioContext(): AudioContext {
+  const settings = loadAudioSettings()
+  const { sampleRate, latencyHint, sinkId } = settings
+  let ac: SinkableAudioContext
+  try {
+    ac = new window.AudioContext({
+      latencyHint,
+      ...(sampleRate !== null && { sampleRate }),
+    })
+    engineSettings = settings
+  } catch (err) {
+    console.warn('[audio] Saved settings not supported, using defaults:', err)
+    ac = new window.AudioContext()
+    engineSettings = { ...DEFAULT_AUDIO_SETTINGS, sinkId }
+  }
+  if (sinkId && ac.setSinkId)
+    ac.setSinkId(sinkId).catch((err) =>
+      console.warn('[audio] Cannot use the saved output device:', err),
+    )
+  return ac
+}
+
 // Helper to get shared AudioContext
 export function getAudioContext(): AudioContext {
   const w: Window & { __ac?: AudioContext } = window
-  if (!w.__ac) w.__ac = new window.AudioContext()
+  if (!w.__ac) w.__ac = createAudioContext()
   if (w.__ac.state === 'suspended') w.__ac.resume()
   return w.__ac as AudioContext
 }
@@ -44,6 +44,8 @@ export class LayoutEngine {
     startY: number
     w: number
     h: number
+    // Modules moving together, the dragged one first
+    group: string[]
   }
 
   constructor(private cfg: EngineConfig) {
@@ -60,6 +62,16 @@ export class LayoutEngine {
     const rack = initial.rack ?? 1
     const y = (rack - 1) * this.cfg.rowHeightPx
     const entry: ModuleEntry = { id, el, size, x, y, rack }
+    // Re-registering in another rack (commit, undo) moves it out of the old list
+    const prev = this.modules.get(id)
+    if (prev && prev.rack !== rack) {
+      const prevList = this.byRack.get(prev.rack)
+      if (prevList)
+        this.byRack.set(
+          prev.rack,
+          prevList.filter((x) => x !== id),
+        )
+    }
     this.modules.set(id, entry)
     const list = this.byRack.get(rack) ?? []
     if (!list.includes(id)) list.push(id)
@@ -123,11 +135,17 @@ export class LayoutEngine {
     return neighborIndex
   }
 
+  /**
+   * Starts dragging a module
+   * @param groupIds - other modules to move with it (a selection); they keep
+   * their offsets from the dragged module
+   */
   beginDrag(
     moduleId: string,
     pointerId: number,
     clientX: number,
     clientY: number,
+    groupIds: readonly string[] = [],
   ) {
     const m = this.modules.get(moduleId)
     if (!m) return
@@ -148,6 +166,10 @@ export class LayoutEngine {
       startY: m.y,
       w: m.size.w,
       h: m.size.h,
+      group: [
+        m.id,
+        ...groupIds.filter((id) => id !== m.id && this.modules.has(id)),
+      ],
     }
     // snapshot
     this.initialX.clear()
@@ -162,9 +184,13 @@ export class LayoutEngine {
       this.initialX.set(id, mx)
       this.currentX.set(id, mx)
     }
-    m.el.style.willChange = 'transform'
-    m.el.style.zIndex = '50'
-    m.el.style.filter = 'drop-shadow(2px 4px 6px black)'
+    for (const id of this.dragging.group) {
+      const el = this.modules.get(id)?.el
+      if (!el) continue
+      el.style.willChange = 'transform'
+      el.style.zIndex = '50'
+      el.style.filter = 'drop-shadow(2px 4px 6px black)'
+    }
   }
 
   updateDrag(clientX: number, clientY: number) {
@@ -192,6 +218,11 @@ export class LayoutEngine {
     let desiredLeftRaw = xInRack - d.pointerOffsetX
     if (!Number.isFinite(desiredLeftRaw)) desiredLeftRaw = 0
 
+    if (d.group.length > 1) {
+      this.updateGroupDrag(targetRack, desiredLeftRaw, rackRect.width / scale)
+      return
+    }
+
     const rowWidth = rackRect.width / scale
     const maxX = Math.max(0, rowWidth - d.w)
     let desiredLeft = Math.max(0, Math.min(maxX, desiredLeftRaw))
@@ -324,6 +355,73 @@ export class LayoutEngine {
     this.schedule()
   }
 
+  // Moves the group as one block per rack it lands in; the other modules in
+  // those racks make room via packWithVirtual, as for a cross-rack drag
+  private updateGroupDrag(
+    targetRack: number,
+    desiredLeftRaw: number,
+    rowWidth: number,
+  ) {
+    const d = this.dragging
+    const anchor = d && this.modules.get(d.id)
+    if (!d || !anchor) return
+    const scale = this.cfg.getScale()
+    const rowHeight = this.cfg.rowHeightPx
+    const members = d.group
+      .map((id) => this.modules.get(id))
+      .filter((m): m is ModuleEntry => !!m)
+    const inGroup = new Set(members.map((m) => m.id))
+
+    // Keep every member inside the rows and right of x = 0
+    const minRack = Math.min(...members.map((m) => m.rack))
+    const maxRack = Math.max(...members.map((m) => m.rack))
+    const rackDelta = Math.max(
+      1 - minRack,
+      Math.min(this.cfg.numRows - maxRack, targetRack - anchor.rack),
+    )
+    const minX = Math.min(...members.map((m) => m.x))
+    const xDelta = Math.max(
+      -minX,
+      Math.round((desiredLeftRaw - anchor.x) / HP_PX) * HP_PX,
+    )
+
+    const byTargetRack = new Map<number, ModuleEntry[]>()
+    for (const m of members) {
+      const rack = m.rack + rackDelta
+      byTargetRack.set(rack, [...(byTargetRack.get(rack) ?? []), m])
+    }
+
+    this.displaced.clear()
+    for (const [rack, landing] of byTargetRack) {
+      const left = Math.min(...landing.map((m) => m.x)) + xDelta
+      const right = Math.max(...landing.map((m) => m.x + m.size.w)) + xDelta
+      const existing: PackItem[] = (this.byRack.get(rack) ?? [])
+        .filter((id) => !inGroup.has(id))
+        .map((id) => {
+          const mm = this.modules.get(id)
+          return { id, x: mm ? mm.x : 0, w: mm ? mm.size.w : 0 }
+        })
+      const rackRect = this.cfg.getRackRect(rack)
+      const { updates, draggedX } = packWithVirtual(
+        existing,
+        { x: left, w: right - left },
+        rackRect ? rackRect.width / scale : rowWidth,
+      )
+      for (const u of updates) {
+        const m = this.modules.get(u.id)
+        if (!m || u.x === m.x) continue
+        this.displaced.set(u.id, { dx: u.x - m.x, dy: 0 })
+      }
+      for (const m of landing) {
+        this.displaced.set(m.id, {
+          dx: draggedX + (m.x + xDelta - left) - m.x,
+          dy: rackDelta * rowHeight,
+        })
+      }
+    }
+    this.schedule()
+  }
+
   endDrag(): {
     id: string
     rack: number
@@ -352,14 +450,19 @@ export class LayoutEngine {
       this.applyBaseTransform(m)
     }
     // Ensure dragged present
-    if (!updates.find((u) => u.id === d.id)) {
-      updates.push({ id: d.id, rack: dragged.rack, xHp: toHp(dragged.x) })
+    for (const id of d.group) {
+      const m = this.modules.get(id)
+      if (!m || updates.find((u) => u.id === id)) continue
+      updates.push({ id, rack: m.rack, xHp: toHp(m.x) })
     }
     // Clear drag state and styles
-    const dragEl = dragged.el
-    dragEl.style.willChange = ''
-    dragEl.style.zIndex = ''
-    dragEl.style.filter = ''
+    for (const id of d.group) {
+      const el = this.modules.get(id)?.el
+      if (!el) continue
+      el.style.willChange = ''
+      el.style.zIndex = ''
+      el.style.filter = ''
+    }
     this.displaced.clear()
     this.dragging = null
     return { id: dragged.id, rack: dragged.rack, xHp: toHp(dragged.x), updates }
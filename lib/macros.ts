@@ -0,0 +1,191 @@
+import { type PortAddress, samePort } from '@/lib/connection-types'
+import type { ModuleClipboard } from '@/lib/module-clipboard'
+import type { ModuleType } from '@/lib/module-registry'
+import {
+  PATCH_SCHEMA_VERSION,
+  type Patch,
+  type PatchConnection,
+  type PatchMacro,
+  type PatchMacroKnob,
+  type PatchMacroPort,
+  type PatchModuleSpec,
+  parseMacro,
+} from '@/lib/patch-schema'
+
+// Macro modules: a selection of modules collapsed into one panel. The inner
+// modules run inside the macro under ids scoped to it; the panel shows the
+// ports and knobs picked when the macro was made.
+
+export type { PatchMacro, PatchMacroKnob, PatchMacroPort }
+
+export const MACRO_TYPE: ModuleType = 'macro'
+export const MAX_MACRO_NAME_LENGTH = 80
+
+/** Id an inner module runs under inside macro `macroId` */
+export const scopedModuleId = (macroId: string, innerId: string) =>
+  `${macroId}/${innerId}`
+
+/** Address of an inner port inside macro `macroId` */
+export const scopedPortAddress = (
+  macroId: string,
+  address: PortAddress,
+): PortAddress => ({
+  ...address,
+  moduleId: scopedModuleId(macroId, address.moduleId),
+})
+
+/** Address inside macro `macroId` of the inner port an exposed port is for */
+export const innerPortAddress = (macroId: string, port: PatchMacroPort) =>
+  scopedPortAddress(macroId, port.port)
+
+/** The jack of an exposed port on the macro's panel */
+export const macroPortId = (macroId: string, port: PatchMacroPort) =>
+  `${macroId}-${port.id}`
+
+/** Inside the macro, the end of the cable that carries an exposed port */
+export const bridgePortAddress = (
+  macroId: string,
+  port: PatchMacroPort,
+): PortAddress => ({ moduleId: `${macroId}/bridge`, portName: port.id })
+
+// Knobs and jacks are laid out in a grid; enough columns to fit the panel
+export const macroColumns = (macro: PatchMacro) =>
+  Math.min(
+    6,
+    Math.max(2, Math.ceil((macro.ports.length + macro.knobs.length) / 6)),
+  )
+
+// Every control is 2 HP wide, plus a margin
+export const macroHp = (macro: PatchMacro) => macroColumns(macro) * 2 + 1
+
+// Inner parameters are saved flat on the macro instance as
+// `${innerId}.${parameter}`, so they pass patch validation as scalars
+const PARAMETER_SEPARATOR = '.'
+
+/**
+ * Flat macro parameters from the inner modules' current ones
+ * @param getParameters - saved parameters of an inner module, by inner id
+ */
+export function flattenMacroParameters(
+  macro: PatchMacro,
+  getParameters: (innerId: string) => Record<string, any> | undefined,
+) {
+  const flat: Record<string, any> = {}
+  for (const m of macro.patch.modules) {
+    const parameters = getParameters(m.id) ?? m.parameters
+    for (const [key, value] of Object.entries(parameters))
+      flat[`${m.id}${PARAMETER_SEPARATOR}${key}`] = value
+  }
+  return flat
+}
+
+/** Parameters of every inner module: the definition's, overridden by `flat` */
+export function innerMacroParameters(
+  macro: PatchMacro,
+  flat: Record<string, any> | undefined,
+) {
+  const byModule: Record<string, Record<string, any>> = {}
+  for (const m of macro.patch.modules) byModule[m.id] = { ...m.parameters }
+  for (const [key, value] of Object.entries(flat ?? {})) {
+    const at = key.indexOf(PARAMETER_SEPARATOR)
+    const inner = byModule[key.slice(0, at)]
+    if (at > 0 && inner) inner[key.slice(at + 1)] = value
+  }
+  return byModule
+}
+
+/** A new instance of `macro`, to be placed like a paste at or after `xHp` */
+export const macroClipboard = (
+  macro: PatchMacro,
+  rack: number,
+  xHp: number,
+): ModuleClipboard => ({
+  modules: [
+    {
+      id: MACRO_TYPE,
+      type: MACRO_TYPE,
+      parameters: {},
+      rack,
+      xHp,
+      hp: macroHp(macro),
+      macro,
+    },
+  ],
+  connections: [],
+})
+
+/**
+ * Builds a macro from modules in the rack
+ * @param ids - modules to collapse
+ * @param state - current patch state
+ * @param ports - inner ports to expose, in panel order
+ * @param knobs - inner parameters to expose, in panel order
+ */
+export function createMacro(
+  name: string,
+  ids: readonly string[],
+  state: Patch,
+  ports: PatchMacroPort[],
+  knobs: PatchMacroKnob[],
+): PatchMacro {
+  const inside = (address: PortAddress) => ids.includes(address.moduleId)
+  return {
+    name: name.trim().slice(0, MAX_MACRO_NAME_LENGTH) || 'Macro',
+    patch: {
+      name: name.trim() || 'Macro',
+      version: PATCH_SCHEMA_VERSION,
+      modules: state.modules
+        .filter((m) => ids.includes(m.id))
+        .map(({ id, type, parameters }) => ({
+          id,
+          type,
+          parameters: structuredClone(parameters),
+        })),
+      connections: state.connections.filter(
+        (c) => inside(c.from) && inside(c.to),
+      ),
+    },
+    ports,
+    knobs,
+  }
+}
+
+/**
+ * Cables between the rack and modules being collapsed, moved onto the
+ * macro's exposed ports. Cables to ports that are not exposed are dropped.
+ */
+export function rewireToMacro(
+  macroId: string,
+  macro: PatchMacro,
+  ids: readonly string[],
+  state: Patch,
+): Array<Omit<PatchConnection, 'id'>> {
+  const isInner = (address: PortAddress) => ids.includes(address.moduleId)
+  const exposed = (address: PortAddress): PortAddress | undefined => {
+    const port = macro.ports.find((p) => samePort(p.port, address))
+    return port && { moduleId: macroId, portName: port.id }
+  }
+  return state.connections.flatMap(({ id: _id, ...c }) => {
+    const fromInner = isInner(c.from)
+    const toInner = isInner(c.to)
+    if (fromInner === toInner) return []
+    const from = fromInner ? exposed(c.from) : c.from
+    const to = toInner ? exposed(c.to) : c.to
+    return from && to ? [{ ...c, from, to }] : []
+  })
+}
+
+// ---- Library ----
+// Macros saved for reuse from the add-module dialog, stored by
+// lib/patch-storage
+
+/** Stored macros that pass validation; unusable ones are skipped */
+export const readMacroLibrary = (
+  raw: readonly unknown[],
+  specs: readonly PatchModuleSpec[],
+): PatchMacro[] =>
+  raw.flatMap((m) => {
+    const { macro, issues } = parseMacro(m, specs)
+    if (!macro) console.warn('[macros] Skipping unusable stored macro:', issues)
+    return macro ?? []
+  })
@@ -0,0 +1,150 @@
+import type { MidiMessage } from '@/lib/midi'
+
+// MIDI clock runs at 24 PPQ; song position pointers count sixteenths
+export const MIDI_CLOCK_PPQ = 24
+export const CLOCKS_PER_SIXTEENTH = 6
+// Longer gaps (below ~5 BPM) restart the tempo estimate
+const MAX_CLOCK_GAP_MS = 500
+
+export interface ClockReference {
+  // MIDI clocks since song start
+  position: number
+  // Smoothed time of that clock (ms, performance.now() clock)
+  time: number
+  // null until two clocks have arrived
+  bpm: number | null
+}
+
+export type ClockEvent =
+  // Transport runs from `reference` (first clock after start/continue)
+  | { type: 'start'; reference: ClockReference }
+  | { type: 'tick'; reference: ClockReference }
+  | { type: 'stop' }
+
+/**
+ * Follows an incoming MIDI clock: transport, song position and tempo.
+ * Clock times go through an alpha-beta filter so the reference times and
+ * tempo track the source without its USB/driver jitter.
+ */
+export class MidiClockFollower {
+  private running = false
+  // Start/continue seen, waiting for the clock that begins playback
+  private pendingStart = false
+  // Position of the next clock
+  private position = 0
+
+  // Filter state (ms)
+  private lastTime: number | null = null
+  private predicted: number | null = null
+  private period: number | null = null
+
+  constructor(
+    // Phase and period gains; beta ≈ alpha² / (2 - alpha) is critically damped
+    private readonly alpha = 0.2,
+    private readonly beta = 0.022,
+  ) {}
+
+  get isRunning() {
+    return this.running
+  }
+
+  get bpm(): number | null {
+    return this.period ? 60000 / (this.period * MIDI_CLOCK_PPQ) : null
+  }
+
+  /** @param time - message timestamp (ms, performance.now() clock) */
+  handle(message: MidiMessage, time: number): ClockEvent | null {
+    switch (message.type) {
+      case 'start':
+        this.position = 0
+        this.pendingStart = true
+        return null
+      case 'continue':
+        this.pendingStart = true
+        return null
+      case 'stop':
+        this.pendingStart = false
+        if (!this.running) return null
+        this.running = false
+        return { type: 'stop' }
+      case 'songposition':
+        // Only valid while stopped
+        if (!this.running) this.position = message.beats * CLOCKS_PER_SIXTEENTH
+        return null
+      case 'clock':
+        return this.clock(time)
+      default:
+        return null
+    }
+  }
+
+  private clock(time: number): ClockEvent | null {
+    this.track(time)
+    const reference: ClockReference = {
+      position: this.position,
+      time: this.predicted ?? time,
+      bpm: this.bpm,
+    }
+
+    if (this.pendingStart) {
+      this.pendingStart = false
+      this.running = true
+      this.position++
+      return { type: 'start', reference }
+    }
+    // Clocks also arrive while stopped; they only refine the tempo
+    if (!this.running) return null
+    this.position++
+    return { type: 'tick', reference }
+  }
+
+  private track(time: number) {
+    const last = this.lastTime
+    this.lastTime = time
+    if (last === null || time - last > MAX_CLOCK_GAP_MS) {
+      this.predicted = time
+      this.period = null
+      return
+    }
+    if (this.period === null || this.predicted === null) {
+      this.predicted = time
+      this.period = time - last
+      return
+    }
+
+    const expected = this.predicted + this.period
+    const error = time - expected
+    // A tempo jump or dropped clock rather than jitter: start over
+    if (Math.abs(error) > this.period) {
+      this.predicted = time
+      this.period = time - last
+      return
+    }
+    this.predicted = expected + this.alpha * error
+    this.period = Math.max(1e-3, this.period + this.beta * error)
+  }
+}
+
+/**
+ * Maps between performance.now() (ms, MIDI timestamps) and AudioContext
+ * time (s) at the audible output, so MIDI events line up with what is
+ * heard. Offline and not yet started contexts map "now" to their current
+ * time.
+ */
+export function contextTimeMapping(ac: BaseAudioContext) {
+  let contextTime = ac.currentTime
+  let performanceTime = performance.now()
+  if ('getOutputTimestamp' in ac) {
+    const stamp = (ac as AudioContext).getOutputTimestamp()
+    // Zero until the output has started
+    if (stamp.performanceTime && stamp.contextTime !== undefined) {
+      contextTime = stamp.contextTime
+      performanceTime = stamp.performanceTime
+    }
+  }
+  return {
+    toContextTime: (ms: number) => contextTime + (ms - performanceTime) / 1000,
+    toPerformanceTime: (seconds: number) =>
+      performanceTime + (seconds - contextTime) * 1000,
+  }
+}
@@ -0,0 +1,30 @@
+import type { PatchMidiMapping } from '@/lib/patch-schema'
+
+// CC → knob mapping math for MIDI learn. Knob positions are 0..1.
+
+export type MidiMapping = PatchMidiMapping
+
+export const midiMappingKey = (m: { moduleId: string; controlId: string }) =>
+  `${m.moduleId}/${m.controlId}`
+
+/** Knob position for a CC value (0..127) through the mapping's range */
+export const ccToPosition = (m: MidiMapping, value: number) =>
+  m.min + (value / 127) * (m.max - m.min)
+
+/**
+ * Soft takeover: a control in pickup mode follows the controller only once
+ * the controller reaches the knob, or sweeps past it since the last CC.
+ * @param current - knob position now
+ * @param target - position the CC asks for
+ * @param previous - position the previous CC asked for (null if none)
+ * @param tolerance - how close counts as reached
+ */
+export function reachesKnob(
+  current: number,
+  target: number,
+  previous: number | null,
+  tolerance: number,
+): boolean {
+  if (Math.abs(target - current) <= tolerance) return true
+  return previous !== null && (previous - current) * (target - current) <= 0
+}
@@ -0,0 +1,129 @@
+// Web MIDI layer. Modules talk to these interfaces rather than the
+// browser API so a fake MIDIAccess can drive them (tests, offline renders).
+
+export interface MidiMessageEventLike {
+  data: Uint8Array | null
+  // DOMHighResTimeStamp (performance.now() clock) when the message arrived
+  timeStamp?: number
+}
+
+export interface MidiInputLike {
+  id: string
+  name?: string | null
+  manufacturer?: string | null
+  state?: 'connected' | 'disconnected'
+  addEventListener(
+    type: 'midimessage',
+    listener: (e: MidiMessageEventLike) => void,
+  ): void
+  removeEventListener(
+    type: 'midimessage',
+    listener: (e: MidiMessageEventLike) => void,
+  ): void
+}
+
+export interface MidiOutputLike {
+  id: string
+  name?: string | null
+  manufacturer?: string | null
+  state?: 'connected' | 'disconnected'
+  // timestamp: performance.now() time to send at (now when omitted)
+  send(data: number[], timestamp?: number): void
+}
+
+export interface MidiAccessLike {
+  inputs: { forEach(cb: (input: MidiInputLike) => void): void }
+  // Optional so input-only fakes stay small
+  outputs?: { forEach(cb: (output: MidiOutputLike) => void): void }
+  addEventListener(type: 'statechange', listener: () => void): void
+  removeEventListener(type: 'statechange', listener: () => void): void
+}
+
+export type MidiAccessProvider = () => Promise<MidiAccessLike>
+
+/**
+ * Requests the browser's MIDIAccess (no sysex)
+ * @throws Error if Web MIDI is unavailable or permission is denied
+ */
+export const requestBrowserMidiAccess: MidiAccessProvider = async () => {
+  if (typeof navigator === 'undefined' || !navigator.requestMIDIAccess)
+    throw new Error('Web MIDI is not supported in this browser')
+  const access = await navigator.requestMIDIAccess({ sysex: false })
+  return access as unknown as MidiAccessLike
+}
+
+// ---- Messages ----
+// Channels are 1..16; data values are normalized where noted
+
+export type MidiMessage =
+  | { type: 'noteon'; channel: number; note: number; velocity: number }
+  | { type: 'noteoff'; channel: number; note: number; velocity: number }
+  | { type: 'cc'; channel: number; controller: number; value: number }
+  // -1..1, 0 at center
+  | { type: 'pitchbend'; channel: number; value: number }
+  | { type: 'clock' }
+  | { type: 'start' }
+  | { type: 'continue' }
+  | { type: 'stop' }
+  // Position in MIDI beats (sixteenth notes)
+  | { type: 'songposition'; beats: number }
+
+// System status bytes for clock and transport (MIDI clock out)
+export const MIDI_CLOCK = 0xf8
+export const MIDI_START = 0xfa
+export const MIDI_CONTINUE = 0xfb
+export const MIDI_STOP = 0xfc
+export const MIDI_SONG_POSITION = 0xf2
+
+// Controllers the Keyboard CV (and MIDI learn) care about
+export const CC_MOD_WHEEL = 1
+export const CC_SUSTAIN = 64
+export const CC_ALL_NOTES_OFF = 123
+
+/** Decodes one MIDI message; unsupported messages give null */
+export function parseMidiMessage(
+  data: ArrayLike<number> | null,
+): MidiMessage | null {
+  if (!data || data.length === 0) return null
+  const status = data[0]
+
+  switch (status) {
+    case MIDI_CLOCK:
+      return { type: 'clock' }
+    case MIDI_START:
+      return { type: 'start' }
+    case MIDI_CONTINUE:
+      return { type: 'continue' }
+    case MIDI_STOP:
+      return { type: 'stop' }
+    case MIDI_SONG_POSITION:
+      if (data.length < 3) return null
+      return { type: 'songposition', beats: (data[2] << 7) | data[1] }
+  }
+
+  const channel = (status & 0x0f) + 1
+  const d1 = data[1] ?? 0
+  const d2 = data[2] ?? 0
+  switch (status & 0xf0) {
+    case 0x90:
+      // Note on with velocity 0 is a note off
+      return d2 > 0
+        ? { type: 'noteon', channel, note: d1, velocity: d2 }
+        : { type: 'noteoff', channel, note: d1, velocity: 0 }
+    case 0x80:
+      return { type: 'noteoff', channel, note: d1, velocity: d2 }
+    case 0xb0:
+      return { type: 'cc', channel, controller: d1, value: d2 }
+    case 0xe0:
+      return {
+        type: 'pitchbend',
+        channel,
+        value: Math.max(-1, (((d2 << 7) | d1) - 8192) / 8191),
+      }
+  }
+  return null
+}
+
+/** Display name of a port, falling back to its id */
+export const midiPortName = (port: MidiInputLike | MidiOutputLike) =>
+  port.name || port.manufacturer || port.id
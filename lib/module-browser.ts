@@ -0,0 +1,66 @@
+import type { ModuleType } from '@/lib/module-registry'
+
+// Favourite and recently added modules, for the module browser
+
+export interface ModuleBrowserHistory {
+  favourites: ModuleType[]
+  // Most recent first
+  recent: ModuleType[]
+}
+
+export const MAX_RECENT_MODULES = 5
+
+const STORAGE_KEY = 'synthesizer-module-browser'
+
+export const withRecentModule = (
+  recent: readonly ModuleType[],
+  type: ModuleType,
+): ModuleType[] =>
+  [type, ...recent.filter((t) => t !== type)].slice(0, MAX_RECENT_MODULES)
+
+export const toggleFavouriteModule = (
+  favourites: readonly ModuleType[],
+  type: ModuleType,
+): ModuleType[] =>
+  favourites.includes(type)
+    ? favourites.filter((t) => t !== type)
+    : [...favourites, type]
+
+/**
+ * Stored favourites and recents; types no longer in the catalog are dropped
+ * @param moduleTypes - types offered by the browser
+ */
+export const loadModuleBrowserHistory = (
+  moduleTypes: readonly string[],
+): ModuleBrowserHistory => {
+  const empty = { favourites: [], recent: [] }
+  try {
+    if (typeof window === 'undefined') return empty
+    const stored = localStorage.getItem(STORAGE_KEY)
+    const raw = stored ? JSON.parse(stored) : {}
+    const types = (list: unknown) =>
+      Array.isArray(list)
+        ? [
+            ...new Set(
+              list.filter(
+                (t): t is ModuleType =>
+                  typeof t === 'string' && moduleTypes.includes(t),
+              ),
+            ),
+          ]
+        : []
+    return {
+      favourites: types(raw?.favourites),
+      recent: types(raw?.recent).slice(0, MAX_RECENT_MODULES),
+    }
+  } catch {
+    return empty
+  }
+}
+
+export const saveModuleBrowserHistory = (history: ModuleBrowserHistory) => {
+  try {
+    if (typeof window === 'undefined') return
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(history))
+  } catch {}
+}
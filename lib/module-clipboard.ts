@@ -0,0 +1,150 @@
+import type { PortAddress } from '@/lib/connection-types'
+import { toHp } from '@/lib/layout/pack'
+import type { ModuleInstance, ModuleType } from '@/lib/module-registry'
+import type { Patch, PatchConnection, PatchMacro } from '@/lib/patch-schema'
+
+// Copy/paste of modules: parameters as their save callbacks return them,
+// plus the cables that run between the copied modules.
+
+export interface ClipboardModule {
+  id: string
+  type: ModuleType
+  parameters: Record<string, any>
+  rack: number
+  xHp: number
+  hp: number
+  macro?: PatchMacro
+}
+
+export interface ModuleClipboard {
+  // In rack order
+  modules: ClipboardModule[]
+  // Only cables with both ends on copied modules
+  connections: Array<Omit<PatchConnection, 'id'>>
+}
+
+export interface PastePlan {
+  instances: ModuleInstance[]
+  parameters: Record<string, Record<string, any>>
+  connections: Array<Omit<PatchConnection, 'id'>>
+}
+
+/** First `${type}-${n}` not in use */
+export function nextModuleId(type: string, taken: ReadonlySet<string>) {
+  let n = 1
+  while (taken.has(`${type}-${n}`)) n++
+  return `${type}-${n}`
+}
+
+const positionOf = (m: ModuleInstance) => ({
+  rack: m.rack ?? 1,
+  xHp: m.xHp ?? toHp(m.x ?? 0),
+})
+
+/**
+ * Snapshot of modules for the clipboard
+ * @param ids - modules to copy
+ * @param instances - modules in the rack
+ * @param state - current patch state (parameters and cables)
+ * @param getHp - width of a module type, for instances without `hp`
+ */
+export function copyModules(
+  ids: readonly string[],
+  instances: readonly ModuleInstance[],
+  state: Patch,
+  getHp: (type: ModuleType) => number,
+): ModuleClipboard | null {
+  const idSet = new Set(ids)
+  const modules = instances
+    .filter((m) => idSet.has(m.id))
+    .map((m) => ({
+      id: m.id,
+      type: m.type,
+      parameters: structuredClone(
+        state.modules.find((s) => s.id === m.id)?.parameters ?? {},
+      ),
+      hp: m.hp ?? getHp(m.type),
+      ...positionOf(m),
+      ...(m.macro && { macro: m.macro }),
+    }))
+    .sort((a, b) => a.rack - b.rack || a.xHp - b.xHp)
+  if (modules.length === 0) return null
+
+  const connections = state.connections
+    .filter((c) => idSet.has(c.from.moduleId) && idSet.has(c.to.moduleId))
+    .map(({ id: _id, ...c }) => c)
+  return { modules, connections }
+}
+
+/**
+ * First HP position at or after `fromHp` in `rack` with `widthHp` free
+ * @param occupied - modules already in the rack(s)
+ */
+export function findFreeSlot(
+  occupied: ReadonlyArray<{ rack: number; xHp: number; hp: number }>,
+  rack: number,
+  fromHp: number,
+  widthHp: number,
+) {
+  const spans = occupied
+    .filter((o) => o.rack === rack)
+    .sort((a, b) => a.xHp - b.xHp)
+  let cursor = fromHp
+  for (const { xHp, hp } of spans) {
+    if (xHp + hp <= cursor) continue
+    if (cursor + widthHp <= xHp) break
+    cursor = xHp + hp
+  }
+  return cursor
+}
+
+/**
+ * New instances for a clipboard: fresh ids, side by side in the rack of the
+ * first copied module at the next free slot to the right of it, and the
+ * internal cables rewired to the new ids.
+ * @param reserved - ids not to reuse besides those of `instances`
+ */
+export function planPaste(
+  clipboard: ModuleClipboard,
+  instances: readonly ModuleInstance[],
+  getHp: (type: ModuleType) => number,
+  reserved: Iterable<string> = [],
+): PastePlan {
+  const taken = new Set([...reserved, ...instances.map((m) => m.id)])
+  const occupied = instances.map((m) => ({
+    ...positionOf(m),
+    hp: m.hp ?? getHp(m.type),
+  }))
+  const first = clipboard.modules[0]
+  const totalHp = clipboard.modules.reduce((sum, m) => sum + m.hp, 0)
+  let xHp = findFreeSlot(occupied, first.rack, first.xHp, totalHp)
+
+  const idMap = new Map<string, string>()
+  const plan: PastePlan = { instances: [], parameters: {}, connections: [] }
+  for (const m of clipboard.modules) {
+    const id = nextModuleId(m.type, taken)
+    taken.add(id)
+    idMap.set(m.id, id)
+    plan.instances.push({
+      id,
+      type: m.type,
+      rack: first.rack,
+      xHp,
+      hp: m.hp,
+      ...(m.macro && { macro: m.macro }),
+    })
+    plan.parameters[id] = structuredClone(m.parameters)
+    xHp += m.hp
+  }
+
+  const remap = (address: PortAddress): PortAddress => ({
+    ...address,
+    moduleId: idMap.get(address.moduleId) ?? address.moduleId,
+  })
+  plan.connections = clipboard.connections.map((c) => ({
+    ...c,
+    from: remap(c.from),
+    to: remap(c.to),
+  }))
+  return plan
+}
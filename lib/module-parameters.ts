@@ -0,0 +1,206 @@
+import { mapExponential, mapLinear, mapLogarithmic } from '@/lib/utils'
+
+// Declarative description of what a module saves and exposes. Values are
+// stored in the descriptor's own units (Hz, cents, seconds, 0..1, ...);
+// knobs work on the 0..1 position derived through `curve`.
+
+export type ParameterCurve = 'linear' | 'exponential' | 'logarithmic'
+
+interface BaseParameter {
+  // Key in the saved module parameters
+  id: string
+  label?: string
+  // AudioWorklet parameter the value is pushed to
+  param?: string
+}
+
+export interface NumberParameter extends BaseParameter {
+  kind?: 'number'
+  min: number
+  max: number
+  // Per-element defaults are allowed for arrays
+  default: number | readonly number[]
+  // Knob position → value mapping (default 'linear')
+  curve?: ParameterCurve
+  // Quantize values to multiples of step (counted from min)
+  step?: number
+  unit?: string
+  // Saves an array of `count` values sharing this descriptor
+  count?: number
+}
+
+export interface ChoiceParameter extends BaseParameter {
+  kind: 'choice'
+  options: readonly (string | number)[]
+  default: string | number
+  unit?: string
+}
+
+export interface ToggleParameter extends BaseParameter {
+  kind: 'toggle'
+  default: boolean | readonly boolean[]
+  count?: number
+}
+
+// Free-form string, saved but never bound to a knob (device ids, names)
+export interface TextParameter extends BaseParameter {
+  kind: 'text'
+  default: string
+}
+
+export type ParameterDescriptor =
+  | NumberParameter
+  | ChoiceParameter
+  | ToggleParameter
+  | TextParameter
+
+export type ParameterValue<P extends ParameterDescriptor> =
+  P extends ToggleParameter
+    ? P extends { count: number }
+      ? boolean[]
+      : boolean
+    : P extends ChoiceParameter
+      ? P['options'][number]
+      : P extends TextParameter
+        ? string
+        : P extends { count: number }
+          ? number[]
+          : number
+
+export type ParameterValues<D extends readonly ParameterDescriptor[]> = {
+  [P in D[number] as P['id']]: ParameterValue<P>
+}
+
+// Keeps literal ids/options so values are typed per descriptor
+export const defineParameters = <
+  const D extends readonly ParameterDescriptor[],
+>(
+  descriptors: D,
+) => descriptors
+
+const clamp01 = (v: number) => Math.max(0, Math.min(1, v))
+
+const isNumberParameter = (p: ParameterDescriptor): p is NumberParameter =>
+  p.kind === undefined || p.kind === 'number'
+
+const quantize = (p: NumberParameter, value: number) => {
+  const v = p.step
+    ? p.min + Math.round((value - p.min) / p.step) * p.step
+    : value
+  return Math.max(p.min, Math.min(p.max, v))
+}
+
+/** Maps a 0..1 knob position to a parameter value */
+export function fromKnob(p: ParameterDescriptor, position: number): any {
+  const k = clamp01(position)
+  if (p.kind === 'text') return p.default
+  if (p.kind === 'toggle') return k >= 0.5
+  if (p.kind === 'choice')
+    return p.options[Math.round(k * (p.options.length - 1))]
+  switch (p.curve) {
+    case 'exponential':
+      return quantize(p, mapExponential(k, p.min, p.max))
+    case 'logarithmic':
+      return quantize(p, mapLogarithmic(k, p.min, p.max))
+    default:
+      return quantize(p, mapLinear(k, p.min, p.max))
+  }
+}
+
+/** Maps a parameter value to its 0..1 knob position */
+export function toKnob(p: ParameterDescriptor, value: unknown): number {
+  if (p.kind === 'text') return 0
+  if (p.kind === 'toggle') return value ? 1 : 0
+  if (p.kind === 'choice') {
+    const idx = p.options.indexOf(value as string | number)
+    return p.options.length > 1 ? Math.max(0, idx) / (p.options.length - 1) : 0
+  }
+  const v = value as number
+  if (p.max === p.min) return 0
+  switch (p.curve) {
+    case 'exponential':
+      return clamp01(Math.sqrt(clamp01((v - p.min) / (p.max - p.min))))
+    case 'logarithmic':
+      return clamp01(Math.log(v / p.min) / Math.log(p.max / p.min))
+    default:
+      return clamp01((v - p.min) / (p.max - p.min))
+  }
+}
+
+/** Knob steps for quantized/choice parameters (undefined for continuous) */
+export function knobSteps(p: ParameterDescriptor): number | undefined {
+  if (p.kind === 'text') return undefined
+  if (p.kind === 'toggle') return 2
+  if (p.kind === 'choice') return p.options.length
+  if (!p.step) return undefined
+  const n = Math.round((p.max - p.min) / p.step) + 1
+  return n <= 32 ? n : undefined
+}
+
+/** Number sent to the descriptor's AudioParam (choices by index) */
+export function toParamValue(p: ParameterDescriptor, value: unknown): number {
+  if (p.kind === 'text') return 0
+  if (p.kind === 'toggle') return value ? 1 : 0
+  if (p.kind === 'choice')
+    return Math.max(0, p.options.indexOf(value as string | number))
+  return value as number
+}
+
+// Discrete parameters jump; continuous ones are smoothed
+export const isSteppedParameter = (p: ParameterDescriptor) =>
+  !isNumberParameter(p) || !!p.step
+
+const defaultAt = (p: ParameterDescriptor, i: number): any =>
+  Array.isArray(p.default) ? p.default[i] : p.default
+
+export function getDefaultValue(p: ParameterDescriptor): any {
+  if (p.kind === 'choice' || p.kind === 'text' || p.count === undefined)
+    return defaultAt(p, 0)
+  return Array.from({ length: p.count }, (_, i) => defaultAt(p, i))
+}
+
+export function getDefaultParameters<D extends readonly ParameterDescriptor[]>(
+  descriptors: D,
+): ParameterValues<D> {
+  const out: Record<string, unknown> = {}
+  for (const p of descriptors) out[p.id] = getDefaultValue(p)
+  return out as ParameterValues<D>
+}
+
+const sanitizeScalar = (p: ParameterDescriptor, v: unknown, fallback: any) => {
+  if (p.kind === 'text') return typeof v === 'string' ? v : fallback
+  if (p.kind === 'toggle') return typeof v === 'boolean' ? v : fallback
+  if (p.kind === 'choice')
+    return p.options.includes(v as string | number) ? v : fallback
+  // Older saves wrapped knob values in a knob array ([v])
+  const n = Array.isArray(v) && v.length === 1 ? v[0] : v
+  return typeof n === 'number' && Number.isFinite(n) ? quantize(p, n) : fallback
+}
+
+/**
+ * Reads saved parameters against their descriptors: out-of-range numbers are
+ * clamped, unknown choices and wrong types fall back to defaults, arrays are
+ * padded/truncated to `count`. Keys without a descriptor are ignored.
+ */
+export function sanitizeParameters<D extends readonly ParameterDescriptor[]>(
+  descriptors: D,
+  saved: Record<string, any> | undefined,
+): ParameterValues<D> {
+  const out: Record<string, unknown> = {}
+  for (const p of descriptors) {
+    const raw = saved?.[p.id]
+    const count = p.kind === 'choice' || p.kind === 'text' ? undefined : p.count
+    if (count === undefined) {
+      out[p.id] = sanitizeScalar(p, raw, defaultAt(p, 0))
+      continue
+    }
+    out[p.id] = Array.from({ length: count }, (_, i) =>
+      sanitizeScalar(
+        p,
+        Array.isArray(raw) ? raw[i] : undefined,
+        defaultAt(p, i),
+      ),
+    )
+  }
+  return out as ParameterValues<D>
+}
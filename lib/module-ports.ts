@@ -0,0 +1,70 @@
+import {
+  type AudioKind,
+  type Compatibility,
+  type PortDirection,
+  signalCompatibility,
+} from '@/lib/connection-types'
+
+// Jacks of a module type, known before an instance mounts. Each module file
+// lists its own next to the `Port`s it renders, and the catalog entry carries
+// the list. Ids are the part after `${moduleId}-`; kinds match the `Port`s.
+// The main jack of each direction comes first, as that is the one cables get
+// patched to.
+
+export interface ModulePortDescriptor {
+  id: string
+  direction: PortDirection
+  kind: AudioKind
+}
+
+export const input = (id: string, kind: AudioKind): ModulePortDescriptor => ({
+  id,
+  direction: 'input',
+  kind,
+})
+export const output = (id: string, kind: AudioKind): ModulePortDescriptor => ({
+  id,
+  direction: 'output',
+  kind,
+})
+export const numbered = (
+  count: number,
+  port: (n: number) => ModulePortDescriptor,
+  from = 1,
+) => Array.from({ length: count }, (_, i) => port(i + from))
+
+/**
+ * How the jacks a mounted module renders differ from the ones its catalog
+ * entry lists, or null if they match. Run in development, where a module
+ * whose jacks were changed without the list shows up as a warning.
+ * @param rendered - port ids without the `${moduleId}-` prefix
+ */
+export function modulePortDrift(
+  listed: readonly ModulePortDescriptor[],
+  rendered: readonly { id: string; kind: AudioKind }[],
+) {
+  const unlisted = rendered
+    .filter((p) => !listed.some((l) => l.id === p.id && l.kind === p.kind))
+    .map((p) => p.id)
+  const missing = listed
+    .filter((l) => !rendered.some((p) => p.id === l.id))
+    .map((l) => l.id)
+  return unlisted.length || missing.length ? { unlisted, missing } : null
+}
+
+/**
+ * First port a cable from `from` can be plugged into: opposite direction,
+ * compatible kind. Ports it suits without a warning are preferred.
+ */
+export function findMatchingPort<
+  P extends { direction: PortDirection; kind: AudioKind },
+>(ports: readonly P[], from: { direction: PortDirection; kind: AudioKind }) {
+  const fits = (p: P, compatibility: Compatibility) =>
+    p.direction !== from.direction &&
+    (from.direction === 'output'
+      ? signalCompatibility(from.kind, p.kind)
+      : signalCompatibility(p.kind, from.kind)) === compatibility
+  return (
+    ports.find((p) => fits(p, 'allow')) ?? ports.find((p) => fits(p, 'warn'))
+  )
+}
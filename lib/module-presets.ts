@@ -0,0 +1,126 @@
+// Presets for a single module: a named copy of what the module's save
+// callback returns, filed under its module type.
+
+export interface ModulePreset {
+  name: string
+  parameters: Record<string, any>
+  // Shipped with the module; cannot be renamed or deleted
+  factory?: boolean
+}
+
+/** Factory presets as declared next to a module's parameters */
+export type FactoryPreset = Omit<ModulePreset, 'factory'>
+
+// User presets by module type
+export type ModulePresetLibrary = Record<string, ModulePreset[]>
+
+/** JSON file written by preset export */
+export interface ModulePresetFile {
+  format: typeof PRESET_FILE_FORMAT
+  version: 1
+  moduleType: string
+  presets: Array<{ name: string; parameters: Record<string, any> }>
+}
+
+export const PRESET_FILE_FORMAT = 'module-presets'
+export const MAX_PRESET_NAME_LENGTH = 80
+
+const STORAGE_KEY = 'synthesizer-module-presets'
+
+const isRecord = (v: unknown): v is Record<string, any> =>
+  typeof v === 'object' && v !== null && !Array.isArray(v)
+
+const readPreset = (raw: unknown): ModulePreset | null => {
+  if (!isRecord(raw) || !isRecord(raw.parameters)) return null
+  const name = typeof raw.name === 'string' ? raw.name.trim() : ''
+  if (!name) return null
+  return {
+    name: name.slice(0, MAX_PRESET_NAME_LENGTH),
+    parameters: raw.parameters,
+  }
+}
+
+export const loadPresetLibrary = (): ModulePresetLibrary => {
+  try {
+    if (typeof window === 'undefined') return {}
+    const stored = localStorage.getItem(STORAGE_KEY)
+    if (!stored) return {}
+    const raw = JSON.parse(stored)
+    if (!isRecord(raw)) return {}
+    const library: ModulePresetLibrary = {}
+    for (const [type, list] of Object.entries(raw)) {
+      if (!Array.isArray(list)) continue
+      library[type] = list.flatMap((p) => readPreset(p) ?? [])
+    }
+    return library
+  } catch {
+    return {}
+  }
+}
+
+export const savePresetLibrary = (library: ModulePresetLibrary) => {
+  try {
+    if (typeof window === 'undefined') return
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(library))
+  } catch {}
+}
+
+/**
+ * First free name based on `name` ("Name", "Name 2", "Name 3", ...)
+ * @param name - wanted name
+ * @param taken - names already in use
+ */
+export function uniquePresetName(name: string, taken: readonly string[]) {
+  const base = name.trim().slice(0, MAX_PRESET_NAME_LENGTH) || 'Preset'
+  if (!taken.includes(base)) return base
+  let n = 2
+  while (taken.includes(`${base} ${n}`)) n++
+  return `${base} ${n}`
+}
+
+export function createPresetFile(
+  moduleType: string,
+  presets: readonly ModulePreset[],
+): ModulePresetFile {
+  return {
+    format: PRESET_FILE_FORMAT,
+    version: 1,
+    moduleType,
+    presets: presets.map(({ name, parameters }) => ({ name, parameters })),
+  }
+}
+
+/**
+ * Reads an exported preset file. A single bare preset
+ * (`{ name, parameters }`) is accepted too.
+ * @param moduleType - type the presets are imported into
+ * @throws if the JSON is not a preset file for `moduleType`
+ */
+export function parsePresetFile(
+  json: string,
+  moduleType: string,
+): ModulePreset[] {
+  let raw: unknown
+  try {
+    raw = JSON.parse(json)
+  } catch (err) {
+    throw new Error(
+      `Invalid JSON: ${err instanceof Error ? err.message : String(err)}`,
+    )
+  }
+  if (!isRecord(raw)) throw new Error('Not a preset file')
+
+  if (raw.format !== PRESET_FILE_FORMAT) {
+    const single = readPreset(raw)
+    if (!single) throw new Error('Not a preset file')
+    return [single]
+  }
+  if (raw.moduleType !== moduleType)
+    throw new Error(
+      `These presets are for "${raw.moduleType}", not "${moduleType}"`,
+    )
+  if (!Array.isArray(raw.presets)) throw new Error('Preset file has no presets')
+  const presets = raw.presets.flatMap((p) => readPreset(p) ?? [])
+  if (presets.length === 0) throw new Error('Preset file has no valid presets')
+  return presets
+}
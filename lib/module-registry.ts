@@ -1,25 +1,113 @@
 import type { ComponentType } from 'react'
-import { ADSRModule } from '@/components/modules/adsr-module'
-import { AttenuverterModule } from '@/components/modules/attenuverter-module'
-import { ClockModule } from '@/components/modules/clock-module'
-import { DelayModule } from '@/components/modules/delay-module'
-import { EuclidModule } from '@/components/modules/euclid-module'
-import { KeyboardCVModule } from '@/components/modules/keyboard-cv-module'
-import { KickModule } from '@/components/modules/kick-module'
-import { LFOModule } from '@/components/modules/lfo-module'
+import {
+  ADSRModule,
+  adsrParameters,
+  adsrPorts,
+} from '@/components/modules/adsr-module'
+import {
+  AttenuverterModule,
+  attenuverterParameters,
+  attenuverterPorts,
+} from '@/components/modules/attenuverter-module'
+import {
+  ClockModule,
+  clockParameters,
+  clockPorts,
+} from '@/components/modules/clock-module'
+import {
+  DelayModule,
+  delayParameters,
+  delayPorts,
+  delayPresets,
+} from '@/components/modules/delay-module'
+import {
+  EuclidModule,
+  euclidParameters,
+  euclidPorts,
+} from '@/components/modules/euclid-module'
+import {
+  KeyboardCVModule,
+  keyboardCvParameters,
+  keyboardCvPorts,
+} from '@/components/modules/keyboard-cv-module'
+import {
+  KickModule,
+  kickParameters,
+  kickPorts,
+  kickPresets,
+} from '@/components/modules/kick-module'
+import {
+  LFOModule,
+  lfoParameters,
+  lfoPorts,
+} from '@/components/modules/lfo-module'
 import { LowPassFilterModule } from '@/components/modules/lowpass-filter-module'
-import { MixerVCAModule } from '@/components/modules/mixer-vca-module'
-import { OscillatorModule } from '@/components/modules/oscillator-module'
-import { OutputModule } from '@/components/modules/output-module'
-import { ProcessModule } from '@/components/modules/process-module'
-import { QuantizerModule } from '@/components/modules/quantizer-module'
-import { RandomModule } from '@/components/modules/random-module'
-import { ReverbModule } from '@/components/modules/reverb-module'
-import { ScopeModule } from '@/components/modules/scope-module'
-import { SequencerModule } from '@/components/modules/sequencer-module'
-import { StereoMixerModule } from '@/components/modules/stereo-mixer-module'
-import { SVFFilterModule } from '@/components/modules/svf-filter-module'
-import { VCAModule } from '@/components/modules/vca-module'
+import { MacroModule } from '@/components/modules/macro-module'
+import {
+  MixerVCAModule,
+  mixerVcaParameters,
+  mixerVcaPorts,
+} from '@/components/modules/mixer-vca-module'
+import {
+  OscillatorModule,
+  oscillatorParameters,
+  oscillatorPorts,
+} from '@/components/modules/oscillator-module'
+import {
+  OutputModule,
+  outputParameters,
+  outputPorts,
+} from '@/components/modules/output-module'
+import {
+  ProcessModule,
+  processParameters,
+  processPorts,
+} from '@/components/modules/process-module'
+import {
+  QuantizerModule,
+  quantizerParameters,
+  quantizerPorts,
+} from '@/components/modules/quantizer-module'
+import {
+  RandomModule,
+  randomParameters,
+  randomPorts,
+} from '@/components/modules/random-module'
+import {
+  ReverbModule,
+  reverbParameters,
+  reverbPorts,
+  reverbPresets,
+} from '@/components/modules/reverb-module'
+import {
+  ScopeModule,
+  scopeParameters,
+  scopePorts,
+} from '@/components/modules/scope-module'
+import {
+  SequencerModule,
+  sequencerParameters,
+  sequencerPorts,
+} from '@/components/modules/sequencer-module'
+import {
+  StereoMixerModule,
+  stereoMixerParameters,
+  stereoMixerPorts,
+} from '@/components/modules/stereo-mixer-module'
+import {
+  SVFFilterModule,
+  svfFilterParameters,
+  svfFilterPorts,
+} from '@/components/modules/svf-filter-module'
+import {
+  VCAModule,
+  vcaParameters,
+  vcaPorts,
+} from '@/components/modules/vca-module'
+import type { ParameterDescriptor } from '@/lib/module-parameters'
+import type { ModulePortDescriptor } from '@/lib/module-ports'
+import type { FactoryPreset } from '@/lib/module-presets'
+import type { PatchMacro } from '@/lib/patch-schema'
 
 export type ModuleType =
   | 'oscillator'
@@ -43,6 +131,25 @@ export type ModuleType =
   | 'attenuverter'
   | 'process'
   | 'kick'
+  | 'macro'
+
+export type ModuleCategory =
+  | 'sources'
+  | 'filters'
+  | 'modulation'
+  | 'sequencing'
+  | 'effects'
+  | 'utilities'
+
+// In the order the module browser lists them
+export const moduleCategories: readonly ModuleCategory[] = [
+  'sources',
+  'filters',
+  'modulation',
+  'sequencing',
+  'effects',
+  'utilities',
+]
 
 export interface ModuleInstance {
   id: string
@@ -52,16 +159,33 @@ export interface ModuleInstance {
   x?: number
   xHp?: number
   hp?: number
+  // Definition of a macro module
+  macro?: PatchMacro
 }
 
-export type ModuleComponent = ComponentType<{ moduleId: string }>
+export type ModuleComponent = ComponentType<{
+  moduleId: string
+  macro?: PatchMacro
+}>
 
 export interface ModuleCatalogEntry {
   type: ModuleType
   name: string
   description: string
+  category: ModuleCategory
+  // Extra words the module browser matches
+  tags?: readonly string[]
   component: ModuleComponent
+  // What the module saves and exposes; drives reset-to-default
+  parameters: readonly ParameterDescriptor[]
+  // Jacks, as the component renders them; macros list theirs on the
+  // definition
+  ports: readonly ModulePortDescriptor[]
+  // Shipped presets, listed before the user's own
+  presets?: readonly FactoryPreset[]
   hp: number
+  // Not offered in the add-module dialog
+  hidden?: boolean
 }
 
 export const availableModules: ModuleCatalogEntry[] = [
@@ -69,42 +193,67 @@ export const availableModules: ModuleCatalogEntry[] = [
     type: 'adsr' as ModuleType,
     name: 'ADSR',
     description: '4-stage envelope generator',
+    category: 'modulation',
+    tags: ['envelope', 'eg', 'gate'],
     component: ADSRModule,
+    parameters: adsrParameters,
+    ports: adsrPorts,
     hp: 7,
   },
   {
     type: 'clock' as ModuleType,
     name: 'Clock',
     description: 'Timing and trigger generator',
+    category: 'sequencing',
+    tags: ['tempo', 'bpm', 'trigger', 'gate'],
     component: ClockModule,
+    parameters: clockParameters,
+    ports: clockPorts,
     hp: 7,
   },
   {
     type: 'delay' as ModuleType,
     name: 'Delay',
     description: 'Delay effect module',
+    category: 'effects',
+    tags: ['echo', 'feedback'],
     component: DelayModule,
+    parameters: delayParameters,
+    ports: delayPorts,
+    presets: delayPresets,
     hp: 9,
   },
   {
     type: 'euclid' as ModuleType,
     name: 'Euclid',
     description: 'Euclidean rhythm sequencer',
+    category: 'sequencing',
+    tags: ['rhythm', 'trigger', 'drum'],
     component: EuclidModule,
+    parameters: euclidParameters,
+    ports: euclidPorts,
     hp: 9,
   },
   {
     type: 'keyboard-cv' as ModuleType,
     name: 'Keyboard CV',
     description: 'MIDI keyboard to CV converter',
+    category: 'sequencing',
+    tags: ['midi', 'pitch', 'gate', 'controller'],
     component: KeyboardCVModule,
+    parameters: keyboardCvParameters,
+    ports: keyboardCvPorts,
     hp: 7,
   },
   {
     type: 'lfo' as ModuleType,
     name: 'LFO',
     description: 'Low-frequency oscillator',
+    category: 'modulation',
+    tags: ['cv', 'wobble'],
     component: LFOModule,
+    parameters: lfoParameters,
+    ports: lfoPorts,
     hp: 9,
   },
   // {
@@ -112,104 +261,176 @@ export const availableModules: ModuleCatalogEntry[] = [
   //   name: 'Lowpass Filter',
   //   description: '24db ladder filter',
   //   component: LowPassFilterModule,
+  //   parameters: lowPassFilterParameters,
+  //   ports: lowPassFilterPorts,
   //   hp: 9,
   // },
   {
     type: 'filter' as ModuleType,
     name: 'Filter',
     description: 'State-variable filter with LP/HP outs',
+    category: 'filters',
+    tags: ['lowpass', 'highpass', 'svf', 'resonance'],
     component: SVFFilterModule,
+    parameters: svfFilterParameters,
+    ports: svfFilterPorts,
     hp: 7,
   },
   {
     type: 'oscillator' as ModuleType,
     name: 'VCO',
     description: 'Voltage-controlled oscillator',
+    category: 'sources',
+    tags: ['vco', 'waveform', 'saw', 'square', 'sine'],
     component: OscillatorModule,
+    parameters: oscillatorParameters,
+    ports: oscillatorPorts,
     hp: 7,
   },
   {
     type: 'output' as ModuleType,
     name: 'Output',
     description: 'Stereo audio output',
+    category: 'utilities',
+    tags: ['speakers', 'master', 'audio out'],
     component: OutputModule,
+    parameters: outputParameters,
+    ports: outputPorts,
     hp: 5,
   },
   {
     type: 'quantizer' as ModuleType,
     name: 'Quantizer',
     description: 'Pitch CV quantizer',
+    category: 'utilities',
+    tags: ['pitch', 'scale', 'notes'],
     component: QuantizerModule,
+    parameters: quantizerParameters,
+    ports: quantizerPorts,
     hp: 7,
   },
   {
     type: 'random' as ModuleType,
     name: 'Random',
     description: 'Random voltage generator',
+    category: 'modulation',
+    tags: ['noise', 'sample and hold', 'chance'],
     component: RandomModule,
+    parameters: randomParameters,
+    ports: randomPorts,
     hp: 5,
   },
   {
     type: 'reverb' as ModuleType,
     name: 'Reverb',
     description: 'Stereo reverb effect',
+    category: 'effects',
+    tags: ['space', 'room', 'hall'],
     component: ReverbModule,
+    parameters: reverbParameters,
+    ports: reverbPorts,
+    presets: reverbPresets,
     hp: 9,
   },
   {
     type: 'scope' as ModuleType,
     name: 'Scope',
     description: 'Single-channel oscilloscope',
+    category: 'utilities',
+    tags: ['oscilloscope', 'monitor', 'visualize'],
     component: ScopeModule,
+    parameters: scopeParameters,
+    ports: scopePorts,
     hp: 15,
   },
   {
     type: 'sequencer' as ModuleType,
     name: 'Sequencer',
     description: 'Step sequencer for patterns',
+    category: 'sequencing',
+    tags: ['steps', 'pattern', 'melody'],
     component: SequencerModule,
+    parameters: sequencerParameters,
+    ports: sequencerPorts,
     hp: 9,
   },
   {
     type: 'vca' as ModuleType,
     name: 'VCA',
     description: 'Voltage-controlled amplifier',
+    category: 'utilities',
+    tags: ['amplifier', 'volume', 'gain'],
     component: VCAModule,
+    parameters: vcaParameters,
+    ports: vcaPorts,
     hp: 3,
   },
   {
     type: 'mixer-vca' as ModuleType,
     name: 'Mixer VCA',
     description: '4-channel mixer with per-channel VCAs and master VCA',
+    category: 'utilities',
+    tags: ['mix', 'gain', 'volume'],
     component: MixerVCAModule,
+    parameters: mixerVcaParameters,
+    ports: mixerVcaPorts,
     hp: 9,
   },
   {
     type: 'stereo-mixer' as ModuleType,
     name: 'Stereo Mixer',
     description: '6-ch stereo mixer, 2 sends/returns, VCAs',
+    category: 'utilities',
+    tags: ['mix', 'pan', 'send', 'return'],
     component: StereoMixerModule,
+    parameters: stereoMixerParameters,
+    ports: stereoMixerPorts,
     hp: 40,
   },
   {
     type: 'attenuverter' as ModuleType,
     name: 'Attenuverter',
     description: '6-channel attenuverter with normalized inputs',
+    category: 'utilities',
+    tags: ['scale', 'invert', 'offset', 'cv'],
     component: AttenuverterModule,
+    parameters: attenuverterParameters,
+    ports: attenuverterPorts,
     hp: 7,
   },
   {
     type: 'process' as ModuleType,
     name: 'Process',
     description: 'CV utilities: S&H, T&H, H&T, Slew, Glide',
+    category: 'modulation',
+    tags: ['slew', 'glide', 'sample and hold', 'track and hold'],
     component: ProcessModule,
+    parameters: processParameters,
+    ports: processPorts,
     hp: 5,
   },
   {
     type: 'kick' as ModuleType,
     name: 'Kick',
     description: 'Analog 808/909 kick drum',
+    category: 'sources',
+    tags: ['drum', '808', '909', 'bass drum'],
     component: KickModule,
+    parameters: kickParameters,
+    ports: kickPorts,
+    presets: kickPresets,
     hp: 9,
   },
+  {
+    type: 'macro' as ModuleType,
+    name: 'Macro',
+    description: 'Modules collapsed into one panel',
+    category: 'utilities',
+    component: MacroModule,
+    parameters: [],
+    ports: [],
+    hp: 5,
+    // Added from the macro library, which holds the definition
+    hidden: true,
+  },
 ]
@@ -0,0 +1,165 @@
+// Turns note on/off events into per-voice pitch/gate updates. Pure state so
+// the keyboard, MIDI input and tests can share it.
+
+export type NotePriority = 'last' | 'low' | 'high'
+
+export interface VoiceUpdate {
+  voice: number
+  // MIDI note number
+  note: number
+  // 1..127
+  velocity: number
+  gate: boolean
+  // Gate must drop before rising again (stolen or replayed voice)
+  retrigger: boolean
+}
+
+export class NoteAllocator {
+  // Mono note choice among the held (and sustained) notes
+  priority: NotePriority = 'last'
+
+  private voices = 1
+  // Held and sustained notes, oldest first
+  private active: number[] = []
+  private velocities = new Map<number, number>()
+  private held = new Set<number>()
+  private sustain = false
+
+  // Mono: note currently sounding
+  private monoNote: number | null = null
+  // Poly: note on each voice, voices oldest first, round-robin start
+  private voiceNotes: (number | null)[] = []
+  private voiceOrder: number[] = []
+  private nextVoice = 0
+
+  get voiceCount() {
+    return this.voices
+  }
+
+  /** Changes the voice count; every note is dropped */
+  setVoices(voices: number) {
+    this.voices = Math.max(1, Math.floor(voices))
+    this.reset()
+  }
+
+  /** Drops every note without producing updates */
+  reset() {
+    this.active = []
+    this.velocities.clear()
+    this.held.clear()
+    this.monoNote = null
+    this.voiceNotes = []
+    this.voiceOrder = []
+    this.nextVoice = 0
+  }
+
+  /** Notes held or sustained, oldest first */
+  activeNotes(): readonly number[] {
+    return this.active
+  }
+
+  noteOn(note: number, velocity: number): VoiceUpdate[] {
+    this.active = [...this.active.filter((n) => n !== note), note]
+    this.velocities.set(note, velocity)
+    this.held.add(note)
+    return this.voices === 1 ? this.updateMono() : this.allocate(note)
+  }
+
+  noteOff(note: number): VoiceUpdate[] {
+    if (!this.held.delete(note)) return []
+    // The sustain pedal keeps released notes sounding
+    if (this.sustain) return []
+    return this.release([note])
+  }
+
+  setSustain(on: boolean): VoiceUpdate[] {
+    this.sustain = on
+    if (on) return []
+    return this.release(this.active.filter((n) => !this.held.has(n)))
+  }
+
+  private release(notes: number[]): VoiceUpdate[] {
+    if (notes.length === 0) return []
+    this.active = this.active.filter((n) => !notes.includes(n))
+    for (const n of notes) this.velocities.delete(n)
+    if (this.voices === 1) return this.updateMono()
+
+    const updates: VoiceUpdate[] = []
+    for (const note of notes) {
+      const voice = this.voiceNotes.indexOf(note)
+      if (voice < 0) continue // stolen by a newer note
+      this.voiceNotes[voice] = null
+      this.voiceOrder = this.voiceOrder.filter((v) => v !== voice)
+      updates.push({ voice, note, velocity: 0, gate: false, retrigger: false })
+    }
+    return updates
+  }
+
+  private pickMono(): number | null {
+    if (this.active.length === 0) return null
+    switch (this.priority) {
+      case 'low':
+        return Math.min(...this.active)
+      case 'high':
+        return Math.max(...this.active)
+      default:
+        return this.active[this.active.length - 1]
+    }
+  }
+
+  // Legato: the gate stays high while any note is held
+  private updateMono(): VoiceUpdate[] {
+    const prev = this.monoNote
+    const note = this.pickMono()
+    this.monoNote = note
+    if (note === null)
+      return prev === null
+        ? []
+        : [{ voice: 0, note: prev, velocity: 0, gate: false, retrigger: false }]
+    if (note === prev) return []
+    return [
+      {
+        voice: 0,
+        note,
+        velocity: this.velocities.get(note) ?? 127,
+        gate: true,
+        retrigger: false,
+      },
+    ]
+  }
+
+  // Next free voice round-robin, otherwise the oldest one is stolen
+  private allocate(note: number): VoiceUpdate[] {
+    const n = this.voices
+    let voice = this.voiceNotes.indexOf(note)
+    // Replaying a sustained note reuses its voice
+    let retrigger = voice >= 0
+    for (let i = 0; voice < 0 && i < n; i++) {
+      const v = (this.nextVoice + i) % n
+      if (this.voiceNotes[v] == null) voice = v
+    }
+    if (voice < 0) {
+      voice = this.voiceOrder[0] ?? 0
+      retrigger = true
+      const stolen = this.voiceNotes[voice]
+      // A stolen sustained note is gone for good
+      if (stolen != null && !this.held.has(stolen)) {
+        this.active = this.active.filter((x) => x !== stolen)
+        this.velocities.delete(stolen)
+      }
+    }
+
+    this.voiceNotes[voice] = note
+    this.voiceOrder = [...this.voiceOrder.filter((v) => v !== voice), voice]
+    this.nextVoice = (voice + 1) % n
+    return [
+      {
+        voice,
+        note,
+        velocity: this.velocities.get(note) ?? 127,
+        gate: true,
+        retrigger,
+      },
+    ]
+  }
+}
@@ -0,0 +1,761 @@
+import { v4 as uuid } from 'uuid'
+import {
+  type PortAddress,
+  portIdOf,
+  SIGNAL_KINDS,
+  type SignalKind,
+  samePort,
+} from '@/lib/connection-types'
+
+// Versioned patch schema: typed shape, migrations from older formats and
+// validation with a report of everything that was dropped or repaired.
+
+export const PATCH_SCHEMA_VERSION = 5
+
+// Limits for untrusted (imported) patches
+const MAX_MODULES = 256
+const MAX_CONNECTIONS = 2048
+const MAX_PARAM_ARRAY = 256
+const MAX_PARAM_DEPTH = 2
+const MAX_STRING = 1024
+const MAX_MIDI_MAPPINGS = 512
+// Exposed ports, and exposed knobs, per macro
+export const MAX_MACRO_CONTROLS = 32
+// Zoom range of the rack view
+export const MIN_VIEW_SCALE = 0.2
+export const MAX_VIEW_SCALE = 3
+
+// Whatever a module's onSave returns: JSON scalars and (nested) arrays
+export type PatchParameterValue =
+  | number
+  | string
+  | boolean
+  | PatchParameterValue[]
+
+export interface PatchModule {
+  id: string
+  type: string
+  parameters: Record<string, PatchParameterValue>
+  position?: {
+    x: number
+    y: number
+  }
+  rack?: number
+  x?: number
+  // Definition of a 'macro' module (a collapsed sub-patch)
+  macro?: PatchMacro
+}
+
+// A port of an inner module, exposed on the macro's panel
+export interface PatchMacroPort {
+  // Panel port id: the jack is `${macroId}-${id}`
+  id: string
+  label: string
+  // Inner port it stands for
+  port: PortAddress
+  direction: 'input' | 'output'
+  kind: SignalKind
+}
+
+// A parameter of an inner module, exposed as a knob on the macro's panel
+export interface PatchMacroKnob {
+  // MIDI learn control id
+  id: string
+  label: string
+  moduleId: string
+  parameter: string
+}
+
+export interface PatchMacro {
+  name: string
+  // Inner modules and the cables between them. A macro instance saves its
+  // inner parameters in its own `parameters`, overriding the ones here.
+  patch: Patch
+  ports: PatchMacroPort[]
+  knobs: PatchMacroKnob[]
+}
+
+export interface PatchConnection {
+  id: string // uuid or any unique ID
+  from: PortAddress // source port (output)
+  to: PortAddress // target port (input)
+  kind: 'audio' | 'cv'
+  color?: string // wire color (optional for backward compatibility)
+  feedback?: boolean // closes a loop; bound through a one-block delay
+}
+
+// A hardware controller CC bound to a knob (MIDI learn)
+export interface PatchMidiMapping {
+  moduleId: string
+  // Knob within the module: its parameter id, or `knob-{n}` by position
+  controlId: string
+  // 1..16, 0 = any channel
+  channel: number
+  cc: number
+  // Knob positions (0..1) at CC 0 and CC 127; min > max inverts
+  min: number
+  max: number
+  // 'pickup' waits until the controller reaches the knob (soft takeover)
+  mode: 'jump' | 'pickup'
+}
+
+// Rack camera: the world point (px) at the centre of the view, and zoom
+export interface PatchView {
+  x: number
+  y: number
+  scale: number
+}
+
+export interface Patch {
+  name: string
+  version: number
+  modules: PatchModule[]
+  connections: PatchConnection[]
+  midiMappings?: PatchMidiMapping[]
+  view?: PatchView
+  metadata?: {
+    created?: string
+    modified?: string
+    description?: string
+  }
+}
+
+export interface PatchIssue {
+  // 'dropped': removed from the patch, 'fixed': repaired in place,
+  // 'warning': kept as it was but looks wrong
+  severity: 'dropped' | 'fixed' | 'warning'
+  // Location in the source JSON, e.g. `modules[2].parameters.steps`
+  path: string
+  message: string
+}
+
+export interface PatchParseResult {
+  patch: Patch
+  issues: PatchIssue[]
+  // Version the source was written in (before migration)
+  sourceVersion: number
+}
+
+// ---- Migrations ----
+// MIGRATIONS[n] upgrades a version-n patch to version n + 1
+const MIGRATIONS: Record<number, (p: any) => any> = {
+  // 0 → 1: legacy connections used sourcePortId/targetPortId/audioType
+  0: (p) => ({
+    ...p,
+    connections: p.connections.map((c: any) =>
+      c?.sourcePortId && c.targetPortId
+        ? {
+            id: c.id || c.uuid || `${c.sourcePortId}->${c.targetPortId}`,
+            from: c.sourcePortId,
+            to: c.targetPortId,
+            kind: c.audioType,
+            ...(c.color && { color: c.color }),
+          }
+        : c,
+    ),
+  }),
+  // 1 → 2: module positions moved from top-level x/y into `position`
+  1: (p) => ({
+    ...p,
+    modules: p.modules.map((m: any) =>
+      m && !m.position && m.x !== undefined && m.y !== undefined
+        ? { ...m, position: { x: m.x, y: m.y } }
+        : m,
+    ),
+  }),
+  // 2 → 3: version becomes a number; shape is otherwise unchanged
+  2: (p) => p,
+  // 3 → 4: VCO tune/octave saved in cents/octaves instead of knob positions
+  3: (p) => ({
+    ...p,
+    modules: p.modules.map((m: any) => {
+      if (m?.type !== 'oscillator' || !m.parameters) return m
+      const { tune, octave } = m.parameters
+      return {
+        ...m,
+        parameters: {
+          ...m.parameters,
+          ...(typeof tune === 'number' && { tune: -600 + tune * 1200 }),
+          ...(typeof octave === 'number' && {
+            octave: Math.round(-4 + octave * 8),
+          }),
+        },
+      }
+    }),
+  }),
+  // 4 → 5: cable ends and macro ports are { moduleId, portName } instead of
+  // port id strings
+  4: (p) => {
+    const moduleIds = idsOf(p.modules)
+    return {
+      ...p,
+      modules: p.modules.map((m: any) =>
+        m?.macro ? { ...m, macro: addressMacroPorts(m.macro) } : m,
+      ),
+      connections: p.connections.map((c: any) =>
+        c && typeof c === 'object'
+          ? {
+              ...c,
+              from: addressOf(c.from, moduleIds),
+              to: addressOf(c.to, moduleIds),
+            }
+          : c,
+      ),
+    }
+  },
+}
+
+const idsOf = (modules: unknown): string[] =>
+  Array.isArray(modules)
+    ? modules.flatMap((m: any) => (typeof m?.id === 'string' ? [m.id] : []))
+    : []
+
+// Address of a version-4 port id; ids no module owns stay strings, which
+// validation drops
+const addressOf = (portId: unknown, moduleIds: readonly string[]) => {
+  if (typeof portId !== 'string') return portId
+  const owner = ownerOf(portId, moduleIds)
+  return owner
+    ? { moduleId: owner, portName: portId.slice(owner.length + 1) }
+    : portId
+}
+
+// Macro ports named their inner port by id string before version 5. Also run
+// on library macros, which are stored without a patch version.
+const addressMacroPorts = (macro: any) => {
+  if (!macro || typeof macro !== 'object' || !Array.isArray(macro.ports))
+    return macro
+  const innerIds = idsOf(macro.patch?.modules)
+  return {
+    ...macro,
+    ports: macro.ports.map((p: any) => {
+      if (typeof p?.portId !== 'string') return p
+      const { portId, ...port } = p
+      return { ...port, port: addressOf(portId, innerIds) }
+    }),
+  }
+}
+
+// '1.0'/'2.0' strings and unversioned saves predate the numeric version
+const detectVersion = (p: any): number => {
+  if (typeof p.version === 'number') return p.version
+  if (p.connections.some((c: any) => c?.sourcePortId)) return 0
+  if (p.version === '1.0') return 1
+  return 2
+}
+
+/**
+ * Upgrades raw patch JSON to the current schema version
+ * @throws Error if the input is not a patch or is from a newer version
+ */
+export function migratePatch(raw: unknown): { data: any; from: number } {
+  const p = raw as any
+  if (!p || typeof p !== 'object')
+    throw new Error('Patch must be a JSON object')
+  if (!Array.isArray(p.modules) || !Array.isArray(p.connections))
+    throw new Error('Patch must have "modules" and "connections" arrays')
+
+  const from = detectVersion(p)
+  if (!Number.isInteger(from) || from < 0)
+    throw new Error(`Invalid patch version: ${JSON.stringify(p.version)}`)
+  if (from > PATCH_SCHEMA_VERSION)
+    throw new Error(
+      `Patch version ${from} is newer than supported (${PATCH_SCHEMA_VERSION})`,
+    )
+
+  let data = p
+  for (let v = from; v < PATCH_SCHEMA_VERSION; v++) data = MIGRATIONS[v](data)
+  return { data: { ...data, version: PATCH_SCHEMA_VERSION }, from }
+}
+
+// ---- Validation ----
+const isFiniteNumber = (v: unknown): v is number =>
+  typeof v === 'number' && Number.isFinite(v)
+
+const isPlainObject = (v: unknown): v is Record<string, unknown> =>
+  !!v && typeof v === 'object' && !Array.isArray(v)
+
+// Returns why a parameter value is rejected, or null if it is valid
+const checkParameter = (v: unknown, depth = 0): string | null => {
+  if (typeof v === 'number')
+    return Number.isFinite(v) ? null : 'is not a finite number'
+  if (typeof v === 'boolean') return null
+  if (typeof v === 'string')
+    return v.length <= MAX_STRING
+      ? null
+      : `string of ${v.length} chars exceeds ${MAX_STRING}`
+  if (Array.isArray(v)) {
+    if (v.length > MAX_PARAM_ARRAY)
+      return `array of ${v.length} items exceeds ${MAX_PARAM_ARRAY}`
+    if (depth >= MAX_PARAM_DEPTH) return 'arrays are nested too deeply'
+    for (const x of v) {
+      const err = checkParameter(x, depth + 1)
+      if (err) return `array item ${err}`
+    }
+    return null
+  }
+  return `has unsupported type ${v === null ? 'null' : typeof v}`
+}
+
+// Port ids are `${moduleId}-{name}`; module ids themselves contain dashes,
+// so the longest matching id wins
+function ownerOf(portId: string, moduleIds: readonly string[]) {
+  let best: string | undefined
+  for (const id of moduleIds)
+    if (portId.startsWith(`${id}-`) && id.length > (best?.length ?? 0))
+      best = id
+  return best
+}
+
+const isPortAddress = (v: unknown): v is PortAddress =>
+  isPlainObject(v) &&
+  typeof v.moduleId === 'string' &&
+  !!v.moduleId &&
+  typeof v.portName === 'string' &&
+  !!v.portName
+
+const inferKind = (portName: string): PatchConnection['kind'] =>
+  /cv|gate|trig/i.test(portName) ? 'cv' : 'audio'
+
+const MACRO_TYPE = 'macro'
+
+// A module type the app can instantiate, as far as validation needs it (the
+// module catalog entries fit)
+export interface PatchModuleSpec {
+  type: string
+  // Jacks by name; macros list theirs on the definition instead
+  ports: readonly { id: string }[]
+}
+
+// Jack names a module has, undefined when they are not known
+const portNamesOf = (m: PatchModule, specs: readonly PatchModuleSpec[]) => {
+  if (m.type === MACRO_TYPE) return m.macro?.ports.map((p) => p.id)
+  const ports = specs.find((s) => s.type === m.type)?.ports
+  return ports?.length ? ports.map((p) => p.id) : undefined
+}
+
+// Validates a macro definition; null when it is unusable
+const validateMacro = (
+  source: unknown,
+  path: string,
+  specs: readonly PatchModuleSpec[],
+  issues: PatchIssue[],
+): PatchMacro | null => {
+  const drop = (at: string, message: string) => {
+    issues.push({ severity: 'dropped', path: at, message })
+  }
+  const warn = (at: string, message: string) => {
+    issues.push({ severity: 'warning', path: at, message })
+  }
+  const raw = addressMacroPorts(source)
+  if (!isPlainObject(raw) || typeof raw.name !== 'string') {
+    drop(path, 'Macro has no definition')
+    return null
+  }
+  let inner: { patch: Patch; issues: PatchIssue[] }
+  try {
+    // Macros do not nest
+    inner = validatePatch(
+      migratePatch(raw.patch).data,
+      specs.filter((s) => s.type !== MACRO_TYPE),
+    )
+  } catch (err) {
+    drop(
+      `${path}.patch`,
+      `Macro patch is unreadable: ${err instanceof Error ? err.message : err}`,
+    )
+    return null
+  }
+  for (const issue of inner.issues)
+    issues.push({ ...issue, path: `${path}.patch.${issue.path}` })
+  const innerIds = inner.patch.modules.map((m) => m.id)
+  const innerPorts = new Map(
+    inner.patch.modules.map((m) => [m.id, portNamesOf(m, specs)]),
+  )
+
+  const ports: PatchMacroPort[] = []
+  const rawPorts = Array.isArray(raw.ports) ? raw.ports : []
+  for (const [i, p] of rawPorts.slice(0, MAX_MACRO_CONTROLS).entries()) {
+    if (
+      !isPlainObject(p) ||
+      typeof p.id !== 'string' ||
+      !p.id ||
+      (p.direction !== 'input' && p.direction !== 'output') ||
+      !SIGNAL_KINDS.includes(p.kind as SignalKind)
+    ) {
+      drop(`${path}.ports[${i}]`, 'Invalid exposed port')
+      continue
+    }
+    if (typeof p.port === 'string') {
+      drop(`${path}.ports[${i}]`, `Port "${p.port}" belongs to no inner module`)
+      continue
+    }
+    if (!isPortAddress(p.port)) {
+      drop(`${path}.ports[${i}]`, 'Exposed port has no inner port')
+      continue
+    }
+    const port = { moduleId: p.port.moduleId, portName: p.port.portName }
+    if (!innerIds.includes(port.moduleId) || ports.some((x) => x.id === p.id)) {
+      drop(
+        `${path}.ports[${i}]`,
+        `Exposed port "${portIdOf(port)}" is not usable`,
+      )
+      continue
+    }
+    if (innerPorts.get(port.moduleId)?.includes(port.portName) === false)
+      warn(
+        `${path}.ports[${i}]`,
+        `Exposed port "${portIdOf(port)}" is not a jack its module lists`,
+      )
+    ports.push({
+      id: p.id,
+      label: typeof p.label === 'string' ? p.label.slice(0, MAX_STRING) : '',
+      port,
+      direction: p.direction,
+      kind: p.kind as SignalKind,
+    })
+  }
+
+  const knobs: PatchMacroKnob[] = []
+  const rawKnobs = Array.isArray(raw.knobs) ? raw.knobs : []
+  for (const [i, k] of rawKnobs.slice(0, MAX_MACRO_CONTROLS).entries()) {
+    if (
+      !isPlainObject(k) ||
+      typeof k.id !== 'string' ||
+      !k.id ||
+      typeof k.moduleId !== 'string' ||
+      typeof k.parameter !== 'string' ||
+      !innerIds.includes(k.moduleId) ||
+      knobs.some((x) => x.id === k.id)
+    ) {
+      drop(`${path}.knobs[${i}]`, 'Invalid exposed knob')
+      continue
+    }
+    knobs.push({
+      id: k.id,
+      label: typeof k.label === 'string' ? k.label.slice(0, MAX_STRING) : '',
+      moduleId: k.moduleId,
+      parameter: k.parameter,
+    })
+  }
+
+  return {
+    name: raw.name.slice(0, MAX_STRING) || 'Macro',
+    patch: inner.patch,
+    ports,
+    knobs,
+  }
+}
+
+/**
+ * Validates a migrated patch against the current schema. Invalid modules,
+ * parameters and connections are dropped; recoverable problems are fixed.
+ * Every change is listed in `issues`.
+ * @param data - Output of migratePatch
+ * @param specs - Module types the app can instantiate
+ */
+export function validatePatch(
+  data: any,
+  specs: readonly PatchModuleSpec[],
+): { patch: Patch; issues: PatchIssue[] } {
+  const issues: PatchIssue[] = []
+  const drop = (path: string, message: string) => {
+    issues.push({ severity: 'dropped', path, message })
+  }
+  const fix = (path: string, message: string) => {
+    issues.push({ severity: 'fixed', path, message })
+  }
+  const warn = (path: string, message: string) => {
+    issues.push({ severity: 'warning', path, message })
+  }
+  const moduleTypes = specs.map((s) => s.type)
+
+  // Modules
+  const modules: PatchModule[] = []
+  const rawModules: unknown[] = data.modules
+  if (rawModules.length > MAX_MODULES)
+    drop(
+      `modules[${MAX_MODULES}..]`,
+      `${rawModules.length - MAX_MODULES} modules over the limit of ${MAX_MODULES}`,
+    )
+  for (const [i, m] of rawModules.slice(0, MAX_MODULES).entries()) {
+    const path = `modules[${i}]`
+    if (!isPlainObject(m)) {
+      drop(path, 'Module is not an object')
+      continue
+    }
+    if (typeof m.id !== 'string' || !m.id) {
+      drop(path, 'Module has no id')
+      continue
+    }
+    if (modules.some((x) => x.id === m.id)) {
+      drop(path, `Duplicate module id "${m.id}"`)
+      continue
+    }
+    if (typeof m.type !== 'string' || !moduleTypes.includes(m.type)) {
+      drop(path, `Unknown module type "${String(m.type)}" (${m.id})`)
+      continue
+    }
+
+    const parameters: Record<string, PatchParameterValue> = {}
+    if (m.parameters !== undefined && !isPlainObject(m.parameters)) {
+      fix(`${path}.parameters`, 'Parameters are not an object; reset to {}')
+    } else if (m.parameters) {
+      for (const [key, value] of Object.entries(m.parameters)) {
+        if (value === undefined) continue
+        const err = checkParameter(value)
+        if (err) drop(`${path}.parameters.${key}`, `Parameter ${err}`)
+        else parameters[key] = value as PatchParameterValue
+      }
+    }
+
+    const mod: PatchModule = { id: m.id, type: m.type, parameters }
+    if (m.type === MACRO_TYPE) {
+      const macro = validateMacro(m.macro, `${path}.macro`, specs, issues)
+      if (!macro) {
+        drop(path, `Macro module "${m.id}" has no usable definition`)
+        continue
+      }
+      mod.macro = macro
+    }
+    if (m.rack !== undefined) {
+      if (Number.isInteger(m.rack) && (m.rack as number) >= 1)
+        mod.rack = m.rack as number
+      else fix(`${path}.rack`, 'Invalid rack index removed')
+    }
+    if (m.x !== undefined) {
+      if (isFiniteNumber(m.x)) mod.x = m.x
+      else fix(`${path}.x`, 'Invalid x position removed')
+    }
+    if (m.position !== undefined) {
+      const pos = m.position as any
+      if (isPlainObject(pos) && isFiniteNumber(pos.x) && isFiniteNumber(pos.y))
+        mod.position = { x: pos.x, y: pos.y }
+      else fix(`${path}.position`, 'Invalid position removed')
+    }
+    modules.push(mod)
+  }
+
+  // Connections
+  const moduleIds = modules.map((m) => m.id)
+  const portNames = new Map(modules.map((m) => [m.id, portNamesOf(m, specs)]))
+  const missingPort = (port: PortAddress) =>
+    portNames.get(port.moduleId)?.includes(port.portName) === false
+  const connections: PatchConnection[] = []
+  const rawConnections: unknown[] = data.connections
+  if (rawConnections.length > MAX_CONNECTIONS)
+    drop(
+      `connections[${MAX_CONNECTIONS}..]`,
+      `${rawConnections.length - MAX_CONNECTIONS} connections over the limit of ${MAX_CONNECTIONS}`,
+    )
+  for (const [i, c] of rawConnections.slice(0, MAX_CONNECTIONS).entries()) {
+    const path = `connections[${i}]`
+    if (!isPlainObject(c)) {
+      drop(path, 'Connection is not an object')
+      continue
+    }
+    // Port ids the migration could not place on a module
+    const unowned = [c.from, c.to].find((p) => typeof p === 'string')
+    if (unowned !== undefined) {
+      drop(path, `Port "${unowned}" belongs to no module`)
+      continue
+    }
+    if (!isPortAddress(c.from) || !isPortAddress(c.to)) {
+      drop(path, 'Connection is missing "from"/"to" ports')
+      continue
+    }
+    const from = { moduleId: c.from.moduleId, portName: c.from.portName }
+    const to = { moduleId: c.to.moduleId, portName: c.to.portName }
+    if (!moduleIds.includes(from.moduleId)) {
+      drop(path, `Source module "${from.moduleId}" does not exist`)
+      continue
+    }
+    if (!moduleIds.includes(to.moduleId)) {
+      drop(path, `Target module "${to.moduleId}" does not exist`)
+      continue
+    }
+    // The lists can lag behind a module's jacks, so the cable is kept
+    const missing = [from, to].find(missingPort)
+    if (missing)
+      warn(path, `Port "${portIdOf(missing)}" is not a jack its module lists`)
+    if (connections.some((x) => samePort(x.from, from) && samePort(x.to, to))) {
+      drop(path, `Duplicate connection ${portIdOf(from)} → ${portIdOf(to)}`)
+      continue
+    }
+    const taken = connections.find((x) => samePort(x.to, to))
+    if (taken) {
+      drop(
+        path,
+        `Input "${portIdOf(to)}" is already fed by "${portIdOf(taken.from)}"`,
+      )
+      continue
+    }
+
+    let kind = c.kind as PatchConnection['kind']
+    if (kind !== 'audio' && kind !== 'cv') {
+      kind = inferKind(`${from.portName} ${to.portName}`)
+      fix(
+        `${path}.kind`,
+        `Invalid kind ${JSON.stringify(c.kind)}; using "${kind}"`,
+      )
+    }
+    let id = c.id as string
+    if (typeof id !== 'string' || !id || connections.some((x) => x.id === id)) {
+      id = uuid()
+      fix(`${path}.id`, 'Missing or duplicate id regenerated')
+    }
+    const conn: PatchConnection = { id, from, to, kind }
+    if (typeof c.color === 'string') conn.color = c.color
+    else if (c.color !== undefined)
+      fix(`${path}.color`, 'Invalid color removed')
+    if (c.feedback === true) conn.feedback = true
+    else if (c.feedback !== undefined && c.feedback !== false)
+      fix(`${path}.feedback`, 'Invalid feedback flag removed')
+    connections.push(conn)
+  }
+
+  // MIDI mappings (optional)
+  const midiMappings: PatchMidiMapping[] = []
+  const rawMappings: unknown[] = Array.isArray(data.midiMappings)
+    ? data.midiMappings
+    : []
+  if (data.midiMappings !== undefined && !Array.isArray(data.midiMappings))
+    drop('midiMappings', 'MIDI mappings are not an array')
+  if (rawMappings.length > MAX_MIDI_MAPPINGS)
+    drop(
+      `midiMappings[${MAX_MIDI_MAPPINGS}..]`,
+      `${rawMappings.length - MAX_MIDI_MAPPINGS} MIDI mappings over the limit of ${MAX_MIDI_MAPPINGS}`,
+    )
+  for (const [i, m] of rawMappings.slice(0, MAX_MIDI_MAPPINGS).entries()) {
+    const path = `midiMappings[${i}]`
+    if (
+      !isPlainObject(m) ||
+      typeof m.moduleId !== 'string' ||
+      typeof m.controlId !== 'string' ||
+      !m.controlId ||
+      m.controlId.length > MAX_STRING
+    ) {
+      drop(path, 'MIDI mapping has no module/control id')
+      continue
+    }
+    if (!moduleIds.includes(m.moduleId)) {
+      drop(path, `MIDI mapping for missing module "${m.moduleId}"`)
+      continue
+    }
+    const isMidiByte = (v: unknown, max: number) =>
+      Number.isInteger(v) && (v as number) >= 0 && (v as number) <= max
+    if (!isMidiByte(m.cc, 127) || !isMidiByte(m.channel, 16)) {
+      drop(path, 'MIDI mapping has an invalid CC or channel')
+      continue
+    }
+    if (
+      midiMappings.some(
+        (x) => x.moduleId === m.moduleId && x.controlId === m.controlId,
+      )
+    ) {
+      drop(path, `Duplicate MIDI mapping for ${m.moduleId}/${m.controlId}`)
+      continue
+    }
+    const position = (v: unknown, fallback: number, key: string) => {
+      if (isFiniteNumber(v) && v >= 0 && v <= 1) return v
+      fix(
+        `${path}.${key}`,
+        `Invalid range ${JSON.stringify(v)}; using ${fallback}`,
+      )
+      return fallback
+    }
+    let mode = m.mode as PatchMidiMapping['mode']
+    if (mode !== 'jump' && mode !== 'pickup') {
+      mode = 'jump'
+      fix(
+        `${path}.mode`,
+        `Invalid mode ${JSON.stringify(m.mode)}; using "jump"`,
+      )
+    }
+    midiMappings.push({
+      moduleId: m.moduleId,
+      controlId: m.controlId,
+      channel: m.channel as number,
+      cc: m.cc as number,
+      min: position(m.min, 0, 'min'),
+      max: position(m.max, 1, 'max'),
+      mode,
+    })
+  }
+
+  // View (optional); a missing one leaves the camera where it is
+  let view: PatchView | undefined
+  if (data.view !== undefined) {
+    const v = data.view
+    if (isPlainObject(v) && isFiniteNumber(v.x) && isFiniteNumber(v.y)) {
+      let scale = isFiniteNumber(v.scale) ? v.scale : 1
+      if (scale < MIN_VIEW_SCALE || scale > MAX_VIEW_SCALE) {
+        scale = Math.min(MAX_VIEW_SCALE, Math.max(MIN_VIEW_SCALE, scale))
+        fix(
+          'view.scale',
+          `Zoom ${String(v.scale)} out of range; using ${scale}`,
+        )
+      }
+      view = { x: v.x, y: v.y, scale }
+    } else {
+      drop('view', 'View has no position')
+    }
+  }
+
+  const name =
+    typeof data.name === 'string' && data.name.trim()
+      ? data.name.slice(0, MAX_STRING)
+      : 'Untitled Patch'
+  const metadata = isPlainObject(data.metadata)
+    ? {
+        ...(typeof data.metadata.created === 'string' && {
+          created: data.metadata.created,
+        }),
+        ...(typeof data.metadata.modified === 'string' && {
+          modified: data.metadata.modified,
+        }),
+        ...(typeof data.metadata.description === 'string' && {
+          description: data.metadata.description,
+        }),
+      }
+    : {}
+
+  return {
+    patch: {
+      name,
+      version: PATCH_SCHEMA_VERSION,
+      modules,
+      connections,
+      ...(midiMappings.length > 0 && { midiMappings }),
+      ...(view && { view }),
+      metadata,
+    },
+    issues,
+  }
+}
+
+/**
+ * Migrates and validates raw patch JSON (parsed object) in one step
+ * @throws Error if the input is not a patch at all
+ */
+export function parsePatch(
+  raw: unknown,
+  specs: readonly PatchModuleSpec[],
+): PatchParseResult {
+  const { data, from } = migratePatch(raw)
+  const { patch, issues } = validatePatch(data, specs)
+  return { patch, issues, sourceVersion: from }
+}
+
+/**
+ * Validates a macro definition stored outside a patch (the macro library)
+ * @returns the macro, or null when it is unusable, plus what was repaired
+ */
+export function parseMacro(
+  raw: unknown,
+  specs: readonly PatchModuleSpec[],
+): { macro: PatchMacro | null; issues: PatchIssue[] } {
+  const issues: PatchIssue[] = []
+  const macro = validateMacro(raw, 'macro', specs, issues)
+  return { macro, issues }
+}
@@ -0,0 +1,313 @@
+import type { Patch, PatchMacro } from '@/lib/patch-schema'
+
+// Patch library in IndexedDB: one record per patch, plus a revision for
+// every save so earlier versions can be restored. The macro library lives in
+// the same database. Records are stored as saved; callers validate them with
+// the patch schema after reading.
+
+const DB_NAME = 'synthesizer'
+const DB_VERSION = 2
+const PATCHES = 'patches'
+const REVISIONS = 'revisions'
+const BY_PATCH = 'by-patch'
+// Added in version 2
+const MACROS = 'macros'
+
+// Oldest revisions beyond this are pruned on save
+export const MAX_REVISIONS_PER_PATCH = 50
+
+// Where the library lived before IndexedDB; migrated once, then removed
+const LEGACY_STORAGE_KEY = 'synthesizer-patches'
+
+interface PatchRecord {
+  name: string
+  patch: unknown
+  savedAt: string
+}
+
+export interface PatchRevision {
+  id: number
+  patchName: string
+  savedAt: string
+  // Unvalidated, as stored
+  patch: unknown
+}
+
+// Promise wrappers for the callback-based IndexedDB API
+const request = <T>(req: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result)
+    req.onerror = () => reject(req.error)
+  })
+
+const done = (tx: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve()
+    tx.onerror = () => reject(tx.error)
+    tx.onabort = () => reject(tx.error ?? new Error('Transaction aborted'))
+  })
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise
+  if (typeof indexedDB === 'undefined')
+    return Promise.reject(new Error('IndexedDB is not available'))
+  const req = indexedDB.open(DB_NAME, DB_VERSION)
+  req.onupgradeneeded = () => {
+    const db = req.result
+    if (!db.objectStoreNames.contains(PATCHES))
+      db.createObjectStore(PATCHES, { keyPath: 'name' })
+    if (!db.objectStoreNames.contains(REVISIONS))
+      db.createObjectStore(REVISIONS, {
+        keyPath: 'id',
+        autoIncrement: true,
+      }).createIndex(BY_PATCH, 'patchName')
+    if (!db.objectStoreNames.contains(MACROS))
+      db.createObjectStore(MACROS, { keyPath: 'name' })
+  }
+  dbPromise = request(req).catch((err) => {
+    dbPromise = null
+    throw err
+  })
+  return dbPromise
+}
+
+const patchName = (patch: unknown) =>
+  typeof patch === 'object' &&
+  patch !== null &&
+  typeof (patch as Patch).name === 'string'
+    ? (patch as Patch).name
+    : null
+
+// Writes the record and a revision of it, inside `tx`
+const writePatch = (tx: IDBTransaction, name: string, patch: unknown) => {
+  const savedAt = new Date().toISOString()
+  const record: PatchRecord = { name, patch, savedAt }
+  tx.objectStore(PATCHES).put(record)
+  tx.objectStore(REVISIONS).add({ patchName: name, savedAt, patch })
+}
+
+async function pruneRevisions(db: IDBDatabase, name: string) {
+  const tx = db.transaction(REVISIONS, 'readwrite')
+  const index = tx.objectStore(REVISIONS).index(BY_PATCH)
+  const keys = await request(index.getAllKeys(name))
+  // Keys are auto-incremented, so the lowest are the oldest
+  const excess = keys.length - MAX_REVISIONS_PER_PATCH
+  for (let i = 0; i < excess; i++) tx.objectStore(REVISIONS).delete(keys[i])
+  await done(tx)
+}
+
+// Moves the legacy localStorage library into IndexedDB. Patches already in
+// the database win; the legacy key is only removed once the copy committed.
+async function migrateLegacyStorage(db: IDBDatabase) {
+  if (typeof localStorage === 'undefined') return
+  const stored = localStorage.getItem(LEGACY_STORAGE_KEY)
+  if (stored === null) return
+
+  let legacy: unknown
+  try {
+    legacy = JSON.parse(stored)
+  } catch {
+    console.warn('[patch-storage] Legacy patch library is not JSON; left as is')
+    return
+  }
+  const patches = Array.isArray(legacy) ? legacy : []
+
+  const tx = db.transaction([PATCHES, REVISIONS], 'readwrite')
+  const existing = new Set(
+    (await request(tx.objectStore(PATCHES).getAllKeys())).map(String),
+  )
+  for (const patch of patches) {
+    const name = patchName(patch)
+    if (name === null || existing.has(name)) continue
+    existing.add(name)
+    writePatch(tx, name, patch)
+  }
+  await done(tx)
+  localStorage.removeItem(LEGACY_STORAGE_KEY)
+}
+
+/** Every stored patch (unvalidated), after migrating legacy storage */
+export async function loadStoredPatches(): Promise<unknown[]> {
+  const db = await openDatabase()
+  await migrateLegacyStorage(db)
+  const tx = db.transaction(PATCHES, 'readonly')
+  const records = await request<PatchRecord[]>(tx.objectStore(PATCHES).getAll())
+  return records
+    .sort((a, b) => a.savedAt.localeCompare(b.savedAt))
+    .map((r) => r.patch)
+}
+
+/**
+ * Legacy library, read-only. Used when IndexedDB cannot be opened so saved
+ * patches stay visible.
+ */
+export function loadLegacyPatches(): unknown[] {
+  try {
+    if (typeof localStorage === 'undefined') return []
+    const raw = JSON.parse(localStorage.getItem(LEGACY_STORAGE_KEY) ?? '[]')
+    return Array.isArray(raw) ? raw : []
+  } catch {
+    return []
+  }
+}
+
+/** Saves a patch under its name and records a revision */
+export async function storePatch(patch: Patch): Promise<void> {
+  const db = await openDatabase()
+  const tx = db.transaction([PATCHES, REVISIONS], 'readwrite')
+  writePatch(tx, patch.name, patch)
+  await done(tx)
+  await pruneRevisions(db, patch.name)
+}
+
+/** Deletes a patch and its revisions */
+export async function deleteStoredPatch(name: string): Promise<void> {
+  const db = await openDatabase()
+  const tx = db.transaction([PATCHES, REVISIONS], 'readwrite')
+  tx.objectStore(PATCHES).delete(name)
+  const index = tx.objectStore(REVISIONS).index(BY_PATCH)
+  for (const key of await request(index.getAllKeys(name)))
+    tx.objectStore(REVISIONS).delete(key)
+  await done(tx)
+}
+
+/** Revisions of a patch, newest first */
+export async function loadRevisions(name: string): Promise<PatchRevision[]> {
+  const db = await openDatabase()
+  const tx = db.transaction(REVISIONS, 'readonly')
+  const revisions = await request<PatchRevision[]>(
+    tx.objectStore(REVISIONS).index(BY_PATCH).getAll(name),
+  )
+  return revisions.sort((a, b) => b.id - a.id)
+}
+
+// ---- Macro library ----
+// Macros are keyed by name, which the library keeps unique
+
+// Where macros lived before IndexedDB; migrated once, then removed
+const LEGACY_MACROS_STORAGE_KEY = 'synthesizer-macros'
+
+interface MacroRecord {
+  name: string
+  macro: unknown
+  savedAt: string
+}
+
+const readLegacyMacros = (): unknown[] | null => {
+  const stored = localStorage.getItem(LEGACY_MACROS_STORAGE_KEY)
+  if (stored === null) return null
+  const raw = JSON.parse(stored)
+  return Array.isArray(raw) ? raw : []
+}
+
+// Same rules as the patch library: stored macros win, and the legacy key is
+// only removed once the copy committed
+async function migrateLegacyMacros(db: IDBDatabase) {
+  if (typeof localStorage === 'undefined') return
+  let legacy: unknown[] | null
+  try {
+    legacy = readLegacyMacros()
+  } catch {
+    console.warn('[patch-storage] Legacy macro library is not JSON; left as is')
+    return
+  }
+  if (legacy === null) return
+
+  const tx = db.transaction(MACROS, 'readwrite')
+  const existing = new Set(
+    (await request(tx.objectStore(MACROS).getAllKeys())).map(String),
+  )
+  const savedAt = new Date().toISOString()
+  for (const macro of legacy) {
+    const name = patchName(macro)
+    if (name === null || existing.has(name)) continue
+    existing.add(name)
+    const record: MacroRecord = { name, macro, savedAt }
+    tx.objectStore(MACROS).put(record)
+  }
+  await done(tx)
+  localStorage.removeItem(LEGACY_MACROS_STORAGE_KEY)
+}
+
+/** Every stored macro (unvalidated), after migrating legacy storage */
+export async function loadStoredMacros(): Promise<unknown[]> {
+  const db = await openDatabase()
+  await migrateLegacyMacros(db)
+  const tx = db.transaction(MACROS, 'readonly')
+  const records = await request<MacroRecord[]>(tx.objectStore(MACROS).getAll())
+  return records
+    .sort((a, b) => a.savedAt.localeCompare(b.savedAt))
+    .map((r) => r.macro)
+}
+
+/** Legacy macro library, read-only, for when IndexedDB cannot be opened */
+export function loadLegacyMacros(): unknown[] {
+  try {
+    if (typeof localStorage === 'undefined') return []
+    return readLegacyMacros() ?? []
+  } catch {
+    return []
+  }
+}
+
+/** Saves a macro under its name */
+export async function storeMacro(macro: PatchMacro): Promise<void> {
+  const db = await openDatabase()
+  const tx = db.transaction(MACROS, 'readwrite')
+  const record: MacroRecord = {
+    name: macro.name,
+    macro,
+    savedAt: new Date().toISOString(),
+  }
+  tx.objectStore(MACROS).put(record)
+  await done(tx)
+}
+
+export async function deleteStoredMacro(name: string): Promise<void> {
+  const db = await openDatabase()
+  const tx = db.transaction(MACROS, 'readwrite')
+  tx.objectStore(MACROS).delete(name)
+  await done(tx)
+}
+
+// ---- Recovery slot ----
+// The last unsaved session. Kept in localStorage because it is written from
+// `beforeunload`, where only synchronous storage is reliable.
+
+const RECOVERY_STORAGE_KEY = 'synthesizer-recovery'
+
+export interface RecoverySnapshot {
+  savedAt: string
+  // Unvalidated, as stored
+  patch: unknown
+}
+
+/** Writes the recovery slot; throws when storage is full or unavailable */
+export function writeRecoverySnapshot(patch: Patch) {
+  const snapshot: RecoverySnapshot = {
+    savedAt: new Date().toISOString(),
+    patch,
+  }
+  localStorage.setItem(RECOVERY_STORAGE_KEY, JSON.stringify(snapshot))
+}
+
+export function readRecoverySnapshot(): RecoverySnapshot | null {
+  try {
+    if (typeof localStorage === 'undefined') return null
+    const stored = localStorage.getItem(RECOVERY_STORAGE_KEY)
+    if (!stored) return null
+    const raw = JSON.parse(stored)
+    if (typeof raw?.savedAt !== 'string' || !raw.patch) return null
+    return raw
+  } catch {
+    return null
+  }
+}
+
+export function clearRecoverySnapshot() {
+  try {
+    localStorage.removeItem(RECOVERY_STORAGE_KEY)
+  } catch {}
+}
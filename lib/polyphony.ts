@@ -0,0 +1,41 @@
+import { POLY_MAX_CHANNELS } from '@/lib/connection-types'
+
+// Polyphonic cables carry one channel per voice. Poly worklets size their
+// voices from their widest input and report the count back; outputs are
+// allocated for every voice and trimmed to the active ones.
+
+/** AudioWorkletNode options for a processor that runs one voice per channel */
+export const polyWorkletOptions = (
+  numberOfInputs: number,
+  numberOfOutputs: number,
+): AudioWorkletNodeOptions => ({
+  numberOfInputs,
+  numberOfOutputs,
+  outputChannelCount: Array(numberOfOutputs).fill(POLY_MAX_CHANNELS),
+  // Inputs take the channel count of their cables, never up/down-mixed
+  channelCountMode: 'max',
+  channelInterpretation: 'discrete',
+})
+
+/** Trims nodes to the first `channels` channels of their input */
+export function setNodeChannels(nodes: AudioNode[], channels: number) {
+  for (const node of nodes) {
+    node.channelCount = channels
+    node.channelCountMode = 'explicit'
+    node.channelInterpretation = 'discrete'
+  }
+}
+
+/**
+ * Connects `from` to `to` with all channels summed to mono, so a poly
+ * cable into a mono destination plays every voice instead of the first.
+ */
+export function connectPolySum(
+  ac: BaseAudioContext,
+  from: AudioNode,
+  to: AudioNode,
+) {
+  const splitter = ac.createChannelSplitter(POLY_MAX_CHANNELS)
+  from.connect(splitter)
+  for (let c = 0; c < POLY_MAX_CHANNELS; c++) splitter.connect(to, c)
+}
@@ -0,0 +1,75 @@
+import type { Patch } from '@/lib/patch-schema'
+
+// Patches travel in the URL hash as `#patch=<codec><base64url>`. The codec
+// character is 'z' for deflate-compressed JSON, 'j' for plain JSON (browsers
+// without CompressionStream). The hash never reaches the server.
+
+const HASH_KEY = 'patch'
+
+const toBase64Url = (bytes: Uint8Array) => {
+  let binary = ''
+  // Chunked: String.fromCharCode overflows the stack on large arrays
+  for (let i = 0; i < bytes.length; i += 0x8000)
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000))
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+const fromBase64Url = (text: string) => {
+  const base64 = text.replace(/-/g, '+').replace(/_/g, '/')
+  const binary = atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, '='))
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i)
+  return bytes
+}
+
+const pipeBytes = async (
+  bytes: Uint8Array<ArrayBuffer>,
+  transform: GenericTransformStream,
+) =>
+  new Uint8Array(
+    await new Response(
+      new Blob([bytes]).stream().pipeThrough(transform),
+    ).arrayBuffer(),
+  )
+
+const canCompress = () =>
+  typeof CompressionStream !== 'undefined' &&
+  typeof DecompressionStream !== 'undefined'
+
+/** Patch → URL-safe text for the hash */
+export async function encodePatch(patch: Patch): Promise<string> {
+  const json = new TextEncoder().encode(JSON.stringify(patch))
+  if (!canCompress()) return `j${toBase64Url(json)}`
+  const packed = await pipeBytes(json, new CompressionStream('deflate-raw'))
+  return `z${toBase64Url(packed)}`
+}
+
+/**
+ * URL-safe text → patch JSON. The JSON is unvalidated: import it like a
+ * pasted patch before loading.
+ * @throws if the text is truncated or not an encoded patch
+ */
+export async function decodePatch(encoded: string): Promise<string> {
+  const codec = encoded[0]
+  const bytes = fromBase64Url(encoded.slice(1))
+  let json: Uint8Array
+  if (codec === 'j') json = bytes
+  else if (codec === 'z') {
+    if (!canCompress())
+      throw new Error('This browser cannot open compressed share links')
+    json = await pipeBytes(bytes, new DecompressionStream('deflate-raw'))
+  } else throw new Error('Unknown share link format')
+  return new TextDecoder().decode(json)
+}
+
+/** The encoded patch in a location hash, if there is one */
+export function readShareHash(hash: string): string | null {
+  const params = new URLSearchParams(hash.replace(/^#/, ''))
+  return params.get(HASH_KEY) || null
+}
+
+/** Full link to this page that opens `patch` */
+export async function createShareLink(patch: Patch): Promise<string> {
+  const { origin, pathname, search } = window.location
+  return `${origin}${pathname}${search}#${HASH_KEY}=${await encodePatch(patch)}`
+}
@@ -12,8 +12,8 @@ export function usePort(meta: PortMeta, opts?: { audioNode?: AudioNode }) {
 
   useEffect(() => {
     const el = ref.current; if (!el) return;
-    registerPort(meta.portId, { el, direction: meta.direction, kind: meta.kind, moduleId: meta.portId.split("-").slice(0, -2).join("-") || meta.portId });
-    if (opts?.audioNode) registerAudioNode(meta.portId, opts.audioNode as any, meta.direction);
+    registerPort(meta.portId, { el, direction: meta.direction, kind: meta.kind, address: { moduleId: meta.moduleId, portName: meta.portName } });
+    if (opts?.audioNode) registerAudioNode(meta.portId, opts.audioNode as any, meta.direction, meta.kind);
     return () => unregisterPort(meta.portId);
   }, [meta.portId]);
 
@@ -53,8 +53,8 @@ export function usePort(meta: PortMeta, opts?: { audioNode?: AudioNode }) {
   }, [meta.portId]);
 
   useEffect(() => {
-    if (opts?.audioNode) registerAudioNode(meta.portId, opts.audioNode as any, meta.direction)
-  }, [opts?.audioNode, meta.portId, meta.direction, registerAudioNode])
+    if (opts?.audioNode) registerAudioNode(meta.portId, opts.audioNode as any, meta.direction, meta.kind)
+  }, [opts?.audioNode, meta.portId, meta.direction, meta.kind, registerAudioNode])
 
 
   return {
@@ -0,0 +1,85 @@
+export type WavBitDepth = 16 | 24 | 32
+
+/**
+ * Encodes planar float channel data as a RIFF/WAVE file
+ * @param channels - One Float32Array per channel, all the same length
+ * @param sampleRate - Sample rate in Hz
+ * @param bitDepth - 16/24-bit integer PCM or 32-bit IEEE float
+ * @returns WAV file as a Blob (audio/wav)
+ */
+export function encodeWav(
+  channels: Float32Array[],
+  sampleRate: number,
+  bitDepth: WavBitDepth = 24,
+): Blob {
+  const numChannels = Math.max(1, channels.length)
+  const numFrames = channels[0]?.length ?? 0
+  const bytesPerSample = bitDepth / 8
+  const blockAlign = numChannels * bytesPerSample
+  const dataSize = numFrames * blockAlign
+  const buffer = new ArrayBuffer(44 + dataSize)
+  const view = new DataView(buffer)
+
+  const writeString = (offset: number, str: string) => {
+    for (let i = 0; i < str.length; i++)
+      view.setUint8(offset + i, str.charCodeAt(i))
+  }
+
+  // RIFF header
+  writeString(0, 'RIFF')
+  view.setUint32(4, 36 + dataSize, true)
+  writeString(8, 'WAVE')
+
+  // fmt chunk (1 = PCM, 3 = IEEE float)
+  writeString(12, 'fmt ')
+  view.setUint32(16, 16, true)
+  view.setUint16(20, bitDepth === 32 ? 3 : 1, true)
+  view.setUint16(22, numChannels, true)
+  view.setUint32(24, sampleRate, true)
+  view.setUint32(28, sampleRate * blockAlign, true)
+  view.setUint16(32, blockAlign, true)
+  view.setUint16(34, bitDepth, true)
+
+  // data chunk (interleaved)
+  writeString(36, 'data')
+  view.setUint32(40, dataSize, true)
+
+  let offset = 44
+  for (let i = 0; i < numFrames; i++) {
+    for (let c = 0; c < numChannels; c++) {
+      const x = channels[c]?.[i] ?? 0
+      if (bitDepth === 32) {
+        view.setFloat32(offset, x, true)
+      } else {
+        const s = Math.max(-1, Math.min(1, x))
+        if (bitDepth === 16) {
+          view.setInt16(offset, s < 0 ? s * 0x8000 : s * 0x7fff, true)
+        } else {
+          const v = Math.round(s < 0 ? s * 0x800000 : s * 0x7fffff)
+          view.setUint8(offset, v & 0xff)
+          view.setUint8(offset + 1, (v >> 8) & 0xff)
+          view.setUint8(offset + 2, (v >> 16) & 0xff)
+        }
+      }
+      offset += bytesPerSample
+    }
+  }
+
+  return new Blob([buffer], { type: 'audio/wav' })
+}
+
+/**
+ * Triggers a browser download for a Blob
+ * @param blob - File contents
+ * @param filename - Suggested file name
+ */
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob)
+  const a = document.createElement('a')
+  a.href = url
+  a.download = filename
+  document.body.appendChild(a)
+  a.click()
+  a.remove()
+  setTimeout(() => URL.revokeObjectURL(url), 1000)
+}
@@ -1,5 +1,13 @@
 // /worklets/adsr-processor.js
 // Gate in (0..5V). ENV out (0..10V). Sample-accurate ADSR with Schmitt-trigger gate.
+// Inputs: [0] gate, [1] manual gate (mono, applies to every voice).
+// Polyphonic: one voice per input channel (widest input, up to 16); mono inputs feed every voice.
+
+// Channel of a poly input for voice v (a mono cable applies to all voices)
+const voiceChannel = (input, v) => {
+  if (!input || input.length === 0) return null
+  return input.length === 1 ? input[0] : input[v] || null
+}
 
 class ADSRProcessor extends AudioWorkletProcessor {
   static get parameterDescriptors() {
@@ -79,28 +87,50 @@ class ADSRProcessor extends AudioWorkletProcessor {
 
   constructor() {
     super()
-    this.env = 0.0
-    this.state = 0 // 0 idle, 1 attack, 2 decay, 3 sustain, 4 release
-    this.gate = 0 // 0/1 after Schmitt
-    this.lastGate = 0
-    this.deadUntil = -1 // edge deglitch (samples)
-
     // precompute to avoid denormals
     this.FLOOR = 0.001 // minimum env value for exp-like segments
     this.MAXV = 10.0 // 10V envelope ceiling
 
-    // Linear segment tracking
-    this.segTarget = 0.0
-    this.segSlope = 0.0 // volts per sample
-    this.segSamplesLeft = 0
-
-    // Exponential segment tracking and calibration
+    // Exponential segment calibration
     // EPSILON defines the fraction of the initial step remaining at the end of a stage
     // We calibrate time constants so that a duration of T seconds reaches within EPSILON of the target
     this.EPSILON = 0.001
     this.LN_1_OVER_EPS = Math.log(1 / this.EPSILON)
-    this.expTarget = 0.0
-    this.expInitialDelta = 0.0
+
+    this.voices = [this.newVoice()]
+    this.channels = 1
+  }
+
+  newVoice() {
+    return {
+      env: 0.0,
+      state: 0, // 0 idle, 1 attack, 2 decay, 3 sustain, 4 release
+      gate: 0, // 0/1 after Schmitt
+      deadUntil: -1, // edge deglitch (samples)
+
+      // Linear segment tracking
+      segTarget: 0.0,
+      segSlope: 0.0, // volts per sample
+      segSamplesLeft: 0,
+
+      // Exponential segment tracking
+      expTarget: 0.0,
+      expInitialDelta: 0.0,
+    }
+  }
+
+  // Voice count follows the widest input; reported so the UI can trim outputs
+  updateVoices(inputs, max) {
+    let n = 1
+    for (const input of inputs) if (input.length > n) n = input.length
+    n = Math.min(n, max)
+    while (this.voices.length < n) this.voices.push(this.newVoice())
+    this.voices.length = n
+    if (n !== this.channels) {
+      this.channels = n
+      this.port.postMessage({ type: 'channels', value: n })
+    }
+    return n
   }
 
   // per-sample one-pole approach-to-target with time constant tau (seconds)
@@ -111,10 +141,10 @@ class ADSRProcessor extends AudioWorkletProcessor {
   }
 
   process(inputs, outputs, parameters) {
-    const gateIn = inputs[0]?.[0] ? inputs[0][0] : null
-    const out0 = outputs[0]?.[0] ? outputs[0][0] : null // ENV
-    const out1 = outputs[1]?.[0] ? outputs[1][0] : null // INV
-    const n = out0 || out1 ? (out0 ? out0.length : out1.length) : 128
+    const envBus = outputs[0] // ENV
+    const invBus = outputs[1] // INV
+    const n = envBus?.[0] ? envBus[0].length : 128
+    const voices = this.updateVoices(inputs, envBus?.length || 1)
 
     const atk = parameters.attack[0]
     const dec = parameters.decay[0]
@@ -146,132 +176,136 @@ class ADSRProcessor extends AudioWorkletProcessor {
     const tauRel = REL / this.LN_1_OVER_EPS
     const SUS = Math.min(1, Math.max(0, sus)) * MAXV
 
-    const startExpSeg = (target, seconds) => {
-      this.expTarget = target
-      this.expInitialDelta = Math.abs(target - this.env)
+    const startExpSeg = (st, target, seconds) => {
+      st.expTarget = target
+      st.expInitialDelta = Math.abs(target - st.env)
     }
-    const startLinearSeg = (target, seconds) => {
+    const startLinearSeg = (st, target, seconds) => {
       const samples = Math.max(1, Math.floor(seconds * sampleRate))
-      this.segTarget = target
-      this.segSamplesLeft = samples
-      this.segSlope = (target - this.env) / samples // volts per sample
+      st.segTarget = target
+      st.segSamplesLeft = samples
+      st.segSlope = (target - st.env) / samples // volts per sample
     }
 
-    for (let i = 0; i < n; i++) {
-      // --- Schmitt-trigger gate with 0.5 ms deglitch ---
-      if (gateIn) {
-        const v = gateIn[i] // expects 0..5V on audio buffer
-        if (this.deadUntil < currentFrame + i) {
-          if (this.gate === 0 && v >= hiT) {
-            this.gate = 1
-            this.deadUntil = currentFrame + i + Math.floor(sampleRate * 0.0005)
-            // rising edge: attack or retrig
-            if (retrig) this.env = 0.0 // hard retrig
-            this.state = 1 // attack
-            // Initialize stage tracking for both shapes to support mid-stage shape switching
-            startExpSeg(MAXV, ATK)
-            if (shapeLinear) startLinearSeg(MAXV, ATK)
-          } else if (this.gate === 1 && v <= loT) {
-            this.gate = 0
-            this.deadUntil = currentFrame + i + Math.floor(sampleRate * 0.0005)
-            // falling edge: release
-            this.state = 4 // release
-            // Initialize stage tracking for both shapes to support mid-stage shape switching
-            startExpSeg(0.0, REL)
-            if (shapeLinear) startLinearSeg(0.0, REL)
-          }
-        }
-      }
+    const manualIn = inputs[1]?.[0] || null
 
-      // --- Envelope state machine (1V/oct safe; 0..10V out) ---
-      switch (this.state) {
-        case 0: // idle
-          this.env = 0.0
-          break
+    for (let ch = 0; ch < voices; ch++) {
+      const st = this.voices[ch]
+      const gateIn = voiceChannel(inputs[0], ch)
+      const out0 = envBus?.[ch] || null
+      const out1 = invBus?.[ch] || null
 
-        case 1: // attack -> MAXV
-          if (shapeLinear) {
-            if (this.segSamplesLeft > 0) {
-              this.env += this.segSlope
-              this.segSamplesLeft--
-            }
-            if (this.segSamplesLeft <= 0 || this.env >= MAXV) {
-              this.env = MAXV
-              this.state = 2
-              // Initialize next stage for both shapes
-              startExpSeg(SUS, DEC)
-              startLinearSeg(SUS, DEC)
-            }
-          } else {
-            this.env = this.stepToward(this.env, MAXV, tauAtk)
-            if (
-              Math.abs(this.env - MAXV) <=
-              this.EPSILON * this.expInitialDelta
-            ) {
-              this.env = MAXV
-              this.state = 2 // decay
-              // Prepare decay stage boundaries
-              startExpSeg(SUS, DEC)
+      for (let i = 0; i < n; i++) {
+        // --- Schmitt-trigger gate with 0.5 ms deglitch ---
+        if (gateIn || manualIn) {
+          // expects 0..5V on audio buffer; the manual gate adds to the input
+          const v = (gateIn ? gateIn[i] : 0) + (manualIn ? manualIn[i] : 0)
+          if (st.deadUntil < currentFrame + i) {
+            if (st.gate === 0 && v >= hiT) {
+              st.gate = 1
+              st.deadUntil = currentFrame + i + Math.floor(sampleRate * 0.0005)
+              // rising edge: attack or retrig
+              if (retrig) st.env = 0.0 // hard retrig
+              st.state = 1 // attack
+              // Initialize stage tracking for both shapes to support mid-stage shape switching
+              startExpSeg(st, MAXV, ATK)
+              if (shapeLinear) startLinearSeg(st, MAXV, ATK)
+            } else if (st.gate === 1 && v <= loT) {
+              st.gate = 0
+              st.deadUntil = currentFrame + i + Math.floor(sampleRate * 0.0005)
+              // falling edge: release
+              st.state = 4 // release
+              // Initialize stage tracking for both shapes to support mid-stage shape switching
+              startExpSeg(st, 0.0, REL)
+              if (shapeLinear) startLinearSeg(st, 0.0, REL)
             }
           }
-          break
+        }
 
-        case 2: // decay -> SUS
-          if (shapeLinear) {
-            if (this.segSamplesLeft > 0) {
-              this.env += this.segSlope
-              this.segSamplesLeft--
-            }
-            if (this.segSamplesLeft <= 0 || this.env <= SUS) {
-              this.env = SUS
-              this.state = 3
+        // --- Envelope state machine (1V/oct safe; 0..10V out) ---
+        switch (st.state) {
+          case 0: // idle
+            st.env = 0.0
+            break
+
+          case 1: // attack -> MAXV
+            if (shapeLinear) {
+              if (st.segSamplesLeft > 0) {
+                st.env += st.segSlope
+                st.segSamplesLeft--
+              }
+              if (st.segSamplesLeft <= 0 || st.env >= MAXV) {
+                st.env = MAXV
+                st.state = 2
+                // Initialize next stage for both shapes
+                startExpSeg(st, SUS, DEC)
+                startLinearSeg(st, SUS, DEC)
+              }
+            } else {
+              st.env = this.stepToward(st.env, MAXV, tauAtk)
+              if (
+                Math.abs(st.env - MAXV) <=
+                this.EPSILON * st.expInitialDelta
+              ) {
+                st.env = MAXV
+                st.state = 2 // decay
+                // Prepare decay stage boundaries
+                startExpSeg(st, SUS, DEC)
+              }
             }
-          } else {
-            this.env = this.stepToward(
-              this.env,
-              Math.max(this.FLOOR, SUS),
-              tauDec,
-            )
-            if (
-              Math.abs(this.env - SUS) <=
-              this.EPSILON * this.expInitialDelta
-            ) {
-              this.env = SUS
-              this.state = 3 // sustain
+            break
+
+          case 2: // decay -> SUS
+            if (shapeLinear) {
+              if (st.segSamplesLeft > 0) {
+                st.env += st.segSlope
+                st.segSamplesLeft--
+              }
+              if (st.segSamplesLeft <= 0 || st.env <= SUS) {
+                st.env = SUS
+                st.state = 3
+              }
+            } else {
+              st.env = this.stepToward(
+                st.env,
+                Math.max(this.FLOOR, SUS),
+                tauDec,
+              )
+              if (Math.abs(st.env - SUS) <= this.EPSILON * st.expInitialDelta) {
+                st.env = SUS
+                st.state = 3 // sustain
+              }
             }
-          }
-          break
+            break
 
-        case 3: // sustain (hold at SUS while gate=1; if gate already 0, go release)
-          if (this.gate === 0) this.state = 4
-          this.env = SUS
-          break
+          case 3: // sustain (hold at SUS while gate=1; if gate already 0, go release)
+            if (st.gate === 0) st.state = 4
+            st.env = SUS
+            break
 
-        case 4: // release -> 0 (then idle)
-          if (shapeLinear) {
-            if (this.segSamplesLeft > 0) {
-              this.env += this.segSlope
-              this.segSamplesLeft--
-            }
-            if (this.segSamplesLeft <= 0 || this.env <= 0.0) {
-              this.env = 0.0
-              this.state = 0
+          case 4: // release -> 0 (then idle)
+            if (shapeLinear) {
+              if (st.segSamplesLeft > 0) {
+                st.env += st.segSlope
+                st.segSamplesLeft--
+              }
+              if (st.segSamplesLeft <= 0 || st.env <= 0.0) {
+                st.env = 0.0
+                st.state = 0
+              }
+            } else {
+              st.env = this.stepToward(st.env, 0.0, tauRel)
+              if (Math.abs(st.env - 0.0) <= this.EPSILON * st.expInitialDelta) {
+                st.env = 0.0
+                st.state = 0
+              }
             }
-          } else {
-            this.env = this.stepToward(this.env, 0.0, tauRel)
-            if (
-              Math.abs(this.env - 0.0) <=
-              this.EPSILON * this.expInitialDelta
-            ) {
-              this.env = 0.0
-              this.state = 0
-            }
-          }
-          break
-      }
+            break
+        }
 
-      if (out0) out0[i] = this.env
-      if (out1) out1[i] = -this.env
+        if (out0) out0[i] = st.env
+        if (out1) out1[i] = -st.env
+      }
     }
 
     return true
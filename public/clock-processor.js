@@ -7,6 +7,18 @@
 //   - AudioParam 'div3' (k-rate, selector 0..8)
 //   - AudioParam 'div4' (k-rate, selector 0..8)
 //   - port messages: { type:'running', value:boolean }, { type:'reset' }
+// External sync (MIDI clock):
+//   - { type:'external', value:boolean } follow sync references instead of 'bpm'
+//   - { type:'sync', position, time, bpm, start? } position (48 PPQ ticks) at
+//     context time `time`; `start` begins playback from there. Between
+//     references the phase error is pulled in smoothly; large errors jump.
+//   - { type:'clockOut', value:boolean } post { type:'clock', time } on every
+//     24 PPQ tick (MIDI clock out)
+
+// Phase errors beyond this many ticks jump instead of slewing
+const RESYNC_TICKS = 6
+// Time constant (s) for pulling in the phase error
+const SLEW_SECONDS = 0.25
 
 class ClockProcessor extends AudioWorkletProcessor {
   static get parameterDescriptors() {
@@ -54,9 +66,13 @@ class ClockProcessor extends AudioWorkletProcessor {
     this.running = false
     this.high = 5.0
 
-    // phases/counters
-    this.p = 0 // 48ppq phase in samples (0..ppqInt-1)
-    this.ppqTick = 0 // running count of 48ppq ticks since start/reset
+    // Position in 48ppq ticks since start/reset and the next tick to emit
+    this.pos = 0
+    this.nextTick = 0
+
+    this.external = false
+    this.syncRef = null
+    this.clockOut = false
 
     // gate countdowns in samples
     this.ppqGate = 0
@@ -80,13 +96,40 @@ class ClockProcessor extends AudioWorkletProcessor {
         this._reset()
         // emit a reset pulse on request; if currently stopped, this will fire once running resumes
         this.pendingResetPulse = true
+      } else if (type === 'external') {
+        this.external = !!value
+        this.syncRef = null
+        this.running = false
+      } else if (type === 'sync') {
+        this._sync(e.data)
+      } else if (type === 'clockOut') {
+        this.clockOut = !!value
       }
     }
   }
 
+  _sync({ position, time, bpm, start }) {
+    if (!this.external) return
+    this.syncRef = { position, time, bpm }
+    if (!start) return
+    this._reset()
+    // The message arrives late: catch up, emitting the tick just passed
+    const pos = this._syncTarget(this.syncRef, this.lastBpm)
+    this.pos = Math.max(position, pos)
+    this.nextTick = Math.max(position, Math.ceil(this.pos) - 1)
+    if (position === 0) this.pendingResetPulse = true
+    this.running = true
+  }
+
+  // Where the reference says we should be now, in 48ppq ticks
+  _syncTarget(ref, bpm) {
+    const b = ref.bpm > 0 ? ref.bpm : bpm
+    return ref.position + (currentTime - ref.time) * ((b * 48) / 60)
+  }
+
   _reset() {
-    this.p = 0
-    this.ppqTick = 0
+    this.pos = 0
+    this.nextTick = 0
     this.ppqGate = 0
     this.divGates[0] =
       this.divGates[1] =
@@ -166,7 +209,28 @@ class ClockProcessor extends AudioWorkletProcessor {
       this._clamp(Math.round(parameters.div4[0]), 0, 8),
     ]
 
-    const { beat, ppqInt, ppqW } = this._durations(bpm)
+    // Ticks per sample; an external reference sets the tempo and slews the
+    // phase towards it
+    let rate = (bpm * 48) / 60 / sampleRate
+    const ref = this.external ? this.syncRef : null
+    if (ref) {
+      if (ref.bpm > 0) bpm = ref.bpm
+      const base = (bpm * 48) / 60 / sampleRate
+      const error = this._syncTarget(ref, bpm) - this.pos
+      if (Math.abs(error) > RESYNC_TICKS) {
+        this.pos += error
+        this.nextTick = Math.ceil(this.pos)
+        rate = base
+      } else {
+        rate = this._clamp(
+          base + error / (SLEW_SECONDS * sampleRate),
+          base * 0.5,
+          base * 1.5,
+        )
+      }
+    }
+
+    const { ppqInt, ppqW } = this._durations(bpm)
 
     // tick intervals (in 48ppq ticks) and corresponding sample intervals
     const tickIntervals = [
@@ -181,8 +245,8 @@ class ClockProcessor extends AudioWorkletProcessor {
     )
 
     // local state
-    let p = this.p
-    let tick = this.ppqTick
+    let pos = this.pos
+    let nextTick = this.nextTick
     let ppqGate = this.ppqGate
     const divGates = this.divGates
     const hi = this.high
@@ -197,16 +261,23 @@ class ClockProcessor extends AudioWorkletProcessor {
 
     for (let i = 0; i < n; i++) {
       // 48 PPQ: trigger at start of each tick
-      if (p === 0) {
+      if (pos >= nextTick) {
+        const tick = nextTick++
         ppqGate = ppqW
-        tick++
 
-        // Divider pulses on tick boundaries
+        // Divider pulses on tick boundaries, aligned with tick 0 (reset)
         for (let k = 0; k < 4; k++) {
           if (tickIntervals[k] > 0 && tick % tickIntervals[k] === 0) {
             divGates[k] = gateWidths[k]
           }
         }
+
+        if (this.clockOut && tick % 2 === 0) {
+          this.port.postMessage({
+            type: 'clock',
+            time: currentTime + i / sampleRate,
+          })
+        }
       }
 
       // write outputs
@@ -222,14 +293,12 @@ class ClockProcessor extends AudioWorkletProcessor {
       for (let k = 0; k < 4; k++) if (divGates[k] > 0) divGates[k]--
       if (resetGate > 0) resetGate--
 
-      // advance ppq sample phase
-      p++
-      if (p >= ppqInt) p = 0
+      pos += rate
     }
 
     // persist
-    this.p = p
-    this.ppqTick = tick
+    this.pos = pos
+    this.nextTick = nextTick
     this.ppqGate = ppqGate
     this.divGates[0] = divGates[0]
     this.divGates[1] = divGates[1]
@@ -0,0 +1,75 @@
+// DSP load telemetry, shared by every processor in the context.
+// Loaded before any other worklet module: it wraps registerProcessor so each
+// processor's process() is timed and charged to the module in its
+// processorOptions.moduleId. The 'dsp-telemetry' hub node posts the time
+// spent per module over each window, as a fraction of the audio rendered.
+//
+// The worklet scope may not have performance.now(). Date.now() only ticks
+// every millisecond, so a block shorter than that reads as 0 or 1 ms: right
+// on average, but only over many blocks. Without a precise clock the hub
+// averages over a much longer window and flags its reports as imprecise.
+
+const precise =
+  typeof performance !== 'undefined' && typeof performance.now === 'function'
+const now = precise ? () => performance.now() : () => Date.now()
+
+// Window the hub reports over (seconds of audio)
+const WINDOW_SECONDS = precise ? 0.5 : 5
+// Frames per process() call
+const RENDER_QUANTUM = 128
+
+// moduleId -> ms spent in process() this window
+const spent = new Map()
+
+const register = registerProcessor
+globalThis.registerProcessor = (name, Processor) =>
+  register(
+    name,
+    class extends Processor {
+      constructor(options) {
+        super(options)
+        this.telemetryId = options?.processorOptions?.moduleId ?? name
+      }
+
+      process(inputs, outputs, parameters) {
+        const start = now()
+        const alive = super.process(inputs, outputs, parameters)
+        spent.set(
+          this.telemetryId,
+          (spent.get(this.telemetryId) ?? 0) + now() - start,
+        )
+        return alive
+      }
+    },
+  )
+
+class DspTelemetryHub extends AudioWorkletProcessor {
+  constructor() {
+    super()
+    this.frames = 0
+  }
+
+  process() {
+    this.frames += RENDER_QUANTUM
+    if (this.frames < WINDOW_SECONDS * sampleRate) return true
+
+    const budgetMs = (this.frames / sampleRate) * 1000
+    const modules = {}
+    let total = 0
+    for (const [id, ms] of spent) {
+      modules[id] = ms / budgetMs
+      total += ms
+    }
+    this.port.postMessage({
+      type: 'load',
+      total: total / budgetMs,
+      modules,
+      precise,
+    })
+    spent.clear()
+    this.frames = 0
+    return true
+  }
+}
+
+register('dsp-telemetry', DspTelemetryHub)
@@ -1,9 +1,16 @@
 // oscillator-processor.js
 // v6: Add Morph CV input (inputs[4]) + morphCvAmt parameter.
 // Waves: sine, square, saw, triangle. PolyBLEP on saw/square. Instant waveform switching.
+// Polyphonic: one voice per input channel (widest input, up to 16); mono inputs feed every voice.
 
 const TWO_PI = Math.PI * 2
 
+// Channel of a poly input for voice v (a mono cable applies to all voices)
+const voiceChannel = (input, v) => {
+  if (!input || input.length === 0) return null
+  return input.length === 1 ? input[0] : input[v] || null
+}
+
 class OscillatorProcessor extends AudioWorkletProcessor {
   static get parameterDescriptors() {
     return [
@@ -25,11 +32,27 @@ class OscillatorProcessor extends AudioWorkletProcessor {
 
   constructor(options) {
     super(options)
-    this.phase = 0
-    this.syncPhase = 0
     this.sampleRate = sampleRate
-    this.lastSyncInput = 0
-    this.syncTriggered = false
+    this.voices = [this.newVoice()]
+    this.channels = 1
+  }
+
+  newVoice() {
+    return { phase: 0, syncPhase: 0, lastSyncInput: 0, syncTriggered: false }
+  }
+
+  // Voice count follows the widest input; reported so the UI can trim outputs
+  updateVoices(inputs, max) {
+    let n = 1
+    for (const input of inputs) if (input.length > n) n = input.length
+    n = Math.min(n, max)
+    while (this.voices.length < n) this.voices.push(this.newVoice())
+    this.voices.length = n
+    if (n !== this.channels) {
+      this.channels = n
+      this.port.postMessage({ type: 'channels', value: n })
+    }
+    return n
   }
 
   polyBLEP(t, dt) {
@@ -119,83 +142,88 @@ class OscillatorProcessor extends AudioWorkletProcessor {
     const output = outputs[0]
     if (!output || output.length === 0) return true
 
-    const numChannels = output.length
     const blockSize = output[0].length
-
-    const noteBus = inputs[0]?.[0] || null // 1V/Oct
-    const syncBus = inputs[1]?.[0] || null // audio/gate
-    const pwmBus = inputs[2]?.[0] || null // -1..1
-    const fmBus = inputs[3]?.[0] || null // -1..1 (exp FM)
-    const morphBus = inputs[4]?.[0] || null // -1..1  NEW
-
-    for (let i = 0; i < blockSize; i++) {
-      const baseFreq = this.readParam(parameters.frequency, i, 440)
-      const waveform = this.readParam(parameters.waveform, i, 1)
-      const phaseOffset = this.readParam(parameters.phase, i, 0)
-      const tune = this.readParam(parameters.tune, i, 0)
-      const octave = this.readParam(parameters.octave, i, 0)
-      const pulseWidth = this.readParam(parameters.pulseWidth, i, 0.5)
-      const gain = this.readParam(parameters.gain, i, 5)
-      const syncAmount = this.readParam(parameters.syncAmount, i, 0)
-      const morphBase = this.readParam(parameters.waveformMorph, i, 0)
-      const fmAmount = this.readParam(parameters.fmAmount, i, 0)
-      const pwmCvAmt = this.readParam(parameters.pwmCvAmt, i, 0)
-      const morphCvAmt = this.readParam(parameters.morphCvAmt, i, 0) // NEW
-
-      const vOct = noteBus ? (noteBus[i] ?? 0) : 0
-      const syncIn = syncBus ? (syncBus[i] ?? 0) : 0
-      const pwmCv = pwmBus ? (pwmBus[i] ?? 0) : 0
-      const fmCv = fmBus ? (fmBus[i] ?? 0) : 0
-      const morphCv = morphBus ? (morphBus[i] ?? 0) : 0
-
-      // Frequency (1V/Oct + exponential FM input scaled by fmAmount)
-      let frequency = baseFreq
-      frequency *= 2 ** octave
-      frequency *= 2 ** (tune / 1200)
-      frequency *= 2 ** vOct // Note CV
-      if (fmAmount !== 0 && fmCv !== 0) {
-        frequency *= 2 ** (fmCv * fmAmount) // FM CV
-      }
-      frequency = Math.max(0.1, Math.min(frequency, this.sampleRate / 2))
-
-      // Hard sync
-      if (syncAmount > 0) {
-        if (syncIn > 0.5 && this.lastSyncInput <= 0.5) {
-          this.syncPhase = this.phase * syncAmount
-          this.syncTriggered = true
+    const voices = this.updateVoices(inputs, output.length)
+
+    for (let v = 0; v < voices; v++) {
+      const voice = this.voices[v]
+      const out = output[v]
+
+      const noteBus = voiceChannel(inputs[0], v) // 1V/Oct
+      const syncBus = voiceChannel(inputs[1], v) // audio/gate
+      const pwmBus = voiceChannel(inputs[2], v) // -1..1
+      const fmBus = voiceChannel(inputs[3], v) // -1..1 (exp FM)
+      const morphBus = voiceChannel(inputs[4], v) // -1..1  NEW
+
+      for (let i = 0; i < blockSize; i++) {
+        const baseFreq = this.readParam(parameters.frequency, i, 440)
+        const waveform = this.readParam(parameters.waveform, i, 1)
+        const phaseOffset = this.readParam(parameters.phase, i, 0)
+        const tune = this.readParam(parameters.tune, i, 0)
+        const octave = this.readParam(parameters.octave, i, 0)
+        const pulseWidth = this.readParam(parameters.pulseWidth, i, 0.5)
+        const gain = this.readParam(parameters.gain, i, 5)
+        const syncAmount = this.readParam(parameters.syncAmount, i, 0)
+        const morphBase = this.readParam(parameters.waveformMorph, i, 0)
+        const fmAmount = this.readParam(parameters.fmAmount, i, 0)
+        const pwmCvAmt = this.readParam(parameters.pwmCvAmt, i, 0)
+        const morphCvAmt = this.readParam(parameters.morphCvAmt, i, 0) // NEW
+
+        const vOct = noteBus ? (noteBus[i] ?? 0) : 0
+        const syncIn = syncBus ? (syncBus[i] ?? 0) : 0
+        const pwmCv = pwmBus ? (pwmBus[i] ?? 0) : 0
+        const fmCv = fmBus ? (fmBus[i] ?? 0) : 0
+        const morphCv = morphBus ? (morphBus[i] ?? 0) : 0
+
+        // Frequency (1V/Oct + exponential FM input scaled by fmAmount)
+        let frequency = baseFreq
+        frequency *= 2 ** octave
+        frequency *= 2 ** (tune / 1200)
+        frequency *= 2 ** vOct // Note CV
+        if (fmAmount !== 0 && fmCv !== 0) {
+          frequency *= 2 ** (fmCv * fmAmount) // FM CV
+        }
+        frequency = Math.max(0.1, Math.min(frequency, this.sampleRate / 2))
+
+        // Hard sync
+        if (syncAmount > 0) {
+          if (syncIn > 0.5 && voice.lastSyncInput <= 0.5) {
+            voice.syncPhase = voice.phase * syncAmount
+            voice.syncTriggered = true
+          }
+          voice.lastSyncInput = syncIn
         }
-        this.lastSyncInput = syncIn
-      }
 
-      // PWM with CV depth (±0.5 range scaled by pwmCvAmt), clamp to 0.01..0.99
-      let pwEff = pulseWidth + pwmCv * (0.5 * pwmCvAmt)
-      if (pwEff < 0.01) pwEff = 0.01
-      else if (pwEff > 0.99) pwEff = 0.99
-
-      // Morph CV: add ±0.5 * morphCvAmt, clamp 0..1
-      let morphEff = morphBase + morphCv * (0.5 * morphCvAmt)
-      if (morphEff < 0) morphEff = 0
-      else if (morphEff > 1) morphEff = 1
-
-      const currentPhase =
-        this.phase + phaseOffset - (this.syncTriggered ? this.syncPhase : 0)
-
-      const s =
-        this.generateWaveform(
-          waveform,
-          currentPhase,
-          frequency,
-          pwEff,
-          morphEff,
-        ) * gain // ±5V
-
-      for (let ch = 0; ch < numChannels; ch++) output[ch][i] = s
-
-      // advance phase
-      this.phase += (TWO_PI * frequency) / this.sampleRate
-      if (this.phase >= TWO_PI) {
-        this.phase -= TWO_PI
-        this.syncTriggered = false
+        // PWM with CV depth (±0.5 range scaled by pwmCvAmt), clamp to 0.01..0.99
+        let pwEff = pulseWidth + pwmCv * (0.5 * pwmCvAmt)
+        if (pwEff < 0.01) pwEff = 0.01
+        else if (pwEff > 0.99) pwEff = 0.99
+
+        // Morph CV: add ±0.5 * morphCvAmt, clamp 0..1
+        let morphEff = morphBase + morphCv * (0.5 * morphCvAmt)
+        if (morphEff < 0) morphEff = 0
+        else if (morphEff > 1) morphEff = 1
+
+        const currentPhase =
+          voice.phase +
+          phaseOffset -
+          (voice.syncTriggered ? voice.syncPhase : 0)
+
+        out[i] =
+          this.generateWaveform(
+            waveform,
+            currentPhase,
+            frequency,
+            pwEff,
+            morphEff,
+          ) * gain // ±5V
+
+        // advance phase
+        voice.phase += (TWO_PI * frequency) / this.sampleRate
+        if (voice.phase >= TWO_PI) {
+          voice.phase -= TWO_PI
+          voice.syncTriggered = false
+        }
       }
     }
 
@@ -0,0 +1,107 @@
+// recorder-processor.js
+// Captures a stereo bus in realtime and streams it to the UI in chunks.
+// Inputs:
+//   [0] stereo audio to record
+//   [1] trigger (rising edge > 2.5V starts an armed recording, sample-accurate)
+// Port messages in:
+//   { type:'start', armed:boolean } – start now, or wait for the next trigger edge
+//   { type:'stop' }                 – flush the partial chunk and stop
+// Port messages out:
+//   { type:'started', frame }       – absolute frame the recording began on
+//   { type:'chunk', left, right }   – Float32Array chunks (transferred)
+//   { type:'stopped' }              – all chunks have been posted
+class RecorderProcessor extends AudioWorkletProcessor {
+  constructor() {
+    super()
+    this.state = 'idle' // 'idle' | 'armed' | 'recording'
+    this.chunkSize = 8192
+    this._allocChunk()
+    this.prevTrig = 0
+
+    this.port.onmessage = (e) => {
+      const { type, armed } = e.data || {}
+      if (type === 'start') {
+        this._allocChunk()
+        if (armed) {
+          this.state = 'armed'
+        } else {
+          this.state = 'recording'
+          this.port.postMessage({ type: 'started', frame: currentFrame })
+        }
+      } else if (type === 'stop') {
+        if (this.state === 'recording') this._flush()
+        this.state = 'idle'
+        this.port.postMessage({ type: 'stopped' })
+      }
+    }
+  }
+
+  _allocChunk() {
+    this.left = new Float32Array(this.chunkSize)
+    this.right = new Float32Array(this.chunkSize)
+    this.fill = 0
+  }
+
+  _flush() {
+    if (this.fill === 0) return
+    const left = this.left.slice(0, this.fill)
+    const right = this.right.slice(0, this.fill)
+    this.port.postMessage({ type: 'chunk', left, right }, [
+      left.buffer,
+      right.buffer,
+    ])
+    this.fill = 0
+  }
+
+  process(inputs) {
+    const input = inputs[0]
+    const trig = inputs[1]?.[0]
+    const L = input?.[0]
+    const R = input?.[1] || L
+    const N = L?.length || trig?.length || 128
+
+    let i = 0
+
+    // Armed: scan the trigger input for a rising edge
+    if (this.state === 'armed') {
+      if (!trig) {
+        this.prevTrig = 0
+        return true
+      }
+      let edge = -1
+      let prev = this.prevTrig
+      for (let j = 0; j < N; j++) {
+        const t = trig[j]
+        if (prev <= 2.5 && t > 2.5) {
+          edge = j
+          break
+        }
+        prev = t
+      }
+      this.prevTrig = trig[N - 1]
+      if (edge < 0) return true
+      this.state = 'recording'
+      this.port.postMessage({ type: 'started', frame: currentFrame + edge })
+      i = edge
+    } else if (trig) {
+      this.prevTrig = trig[N - 1]
+    }
+
+    if (this.state !== 'recording') return true
+
+    for (; i < N; i++) {
+      this.left[this.fill] = L ? L[i] : 0
+      this.right[this.fill] = R ? R[i] : 0
+      this.fill++
+      if (this.fill === this.chunkSize) {
+        this.port.postMessage(
+          { type: 'chunk', left: this.left, right: this.right },
+          [this.left.buffer, this.right.buffer],
+        )
+        this._allocChunk()
+      }
+    }
+    return true
+  }
+}
+registerProcessor('recorder-processor', RecorderProcessor)
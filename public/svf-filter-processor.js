@@ -2,6 +2,13 @@
 // - Inputs: [0] audio, [1] cutoff CV (V/Oct), [2] resonance CV (bipolar -10..+10 V), [3] drive CV (bipolar)
 // - Outputs: [0] lowpass, [1] highpass
 // Domain: 1.0 == 1 V; typical audio ±5 V, CV ±10 V
+// Polyphonic: one voice per input channel (widest input, up to 16); mono inputs feed every voice.
+
+// Channel of a poly input for voice v (a mono cable applies to all voices)
+const voiceChannel = (input, v) => {
+  if (!input || input.length === 0) return null
+  return input.length === 1 ? input[0] : input[v] || null
+}
 
 // (Oversampling removed for stability; simple 1x TPT SVF)
 
@@ -58,10 +65,6 @@ class SVFFilterProcessor extends AudioWorkletProcessor {
     this.fs = sampleRate
     this.ny = this.fs * 0.5
 
-    // TPT state variables
-    this.s1 = 0 // integrator 1 state (bandpass memory)
-    this.s2 = 0 // integrator 2 state (lowpass memory)
-
     // Lightweight output limiting (allow headroom; limit near ±10 V)
     this.softKnee = 9
     this.hard = 10
@@ -70,9 +73,35 @@ class SVFFilterProcessor extends AudioWorkletProcessor {
     const smoothTau = 0.003
     this.smoothA = Math.exp(-1 / (this.fs * smoothTau))
     this.smoothB = 1 - this.smoothA
-    this.cutSm = 1000
-    this.resSm = 0
-    this.drvSm = 0
+
+    this.voices = [this.newVoice()]
+    this.channels = 1
+  }
+
+  newVoice() {
+    return {
+      // TPT state variables
+      s1: 0, // integrator 1 state (bandpass memory)
+      s2: 0, // integrator 2 state (lowpass memory)
+      // Smoothed parameters
+      cutSm: 1000,
+      resSm: 0,
+      drvSm: 0,
+    }
+  }
+
+  // Voice count follows the widest input; reported so the UI can trim outputs
+  updateVoices(inputs, max) {
+    let n = 1
+    for (const input of inputs) if (input.length > n) n = input.length
+    n = Math.min(n, max)
+    while (this.voices.length < n) this.voices.push(this.newVoice())
+    this.voices.length = n
+    if (n !== this.channels) {
+      this.channels = n
+      this.port.postMessage({ type: 'channels', value: n })
+    }
+    return n
   }
 
   _clamp01(x) {
@@ -124,24 +153,24 @@ class SVFFilterProcessor extends AudioWorkletProcessor {
     return saturated * 5
   }
 
-  _processSVFStep(x, g, R, driveNorm) {
+  _processSVFStep(st, x, g, R, driveNorm) {
     // Apply drive saturation consistently
     const xIn = this._driveSat(x, driveNorm)
 
     // Standard Zavalishin TPT SVF equations
     const denom = 1 + R * g + g * g
-    const hp = (xIn - R * this.s1 - this.s2) / denom
-    const bp = this.s1 + g * hp
-    const lp = this.s2 + g * bp
+    const hp = (xIn - R * st.s1 - st.s2) / denom
+    const bp = st.s1 + g * hp
+    const lp = st.s2 + g * bp
 
     // Update integrator states
-    this.s1 = bp + g * hp
-    this.s2 = lp + g * bp
+    st.s1 = bp + g * hp
+    st.s2 = lp + g * bp
 
     // Conservative state limiting for stability
     const stateLimit = 15
-    this.s1 = this._clamp(this.s1, -stateLimit, stateLimit)
-    this.s2 = this._clamp(this.s2, -stateLimit, stateLimit)
+    st.s1 = this._clamp(st.s1, -stateLimit, stateLimit)
+    st.s2 = this._clamp(st.s2, -stateLimit, stateLimit)
 
     return { hp, bp, lp }
   }
@@ -149,22 +178,12 @@ class SVFFilterProcessor extends AudioWorkletProcessor {
   // No decimator/upsampler in the 1x path
 
   process(inputs, outputs, params) {
-    const xIn = inputs[0]?.[0] || null
-    const cutoffCv = inputs[1]?.[0] || null
-    const resCv = inputs[2]?.[0] || null
-    const driveCv = inputs[3]?.[0] || null
-
-    const lpOut = outputs[0]?.[0]
-    const hpOut = outputs[1]?.[0]
-    const n = lpOut ? lpOut.length : 0
-
-    if (!lpOut || !hpOut) return true
+    const lpBus = outputs[0]
+    const hpBus = outputs[1]
+    if (!lpBus?.[0] || !hpBus?.[0]) return true
 
-    if (!xIn) {
-      lpOut.fill(0)
-      hpOut.fill(0)
-      return true
-    }
+    const n = lpBus[0].length
+    const voices = this.updateVoices(inputs, lpBus.length)
 
     const cutP = params.cutoff
     const resP = params.resonance
@@ -173,134 +192,156 @@ class SVFFilterProcessor extends AudioWorkletProcessor {
     const resAmtP = params.resCvAmt
     const drvAmtP = params.driveCvAmt
 
-    for (let i = 0; i < n; i++) {
-      // Per-sample params (a-rate for cutoff/resonance)
-      // Cutoff parameter is already in Hz from the UI's logarithmic mapping
-      let fc = Math.max(
-        10,
-        Math.min(this.fs * 0.49, cutP.length > 1 ? cutP[i] : cutP[0]),
-      )
-      let rNorm = this._clamp01(resP.length > 1 ? resP[i] : resP[0])
-      let dNorm = this._clamp01(drvP.length > 1 ? drvP[i] : drvP[0])
-      const cutAmt = this._clamp01(cutAmtP.length > 1 ? cutAmtP[i] : cutAmtP[0])
-      const resAmt = this._clamp01(resAmtP.length > 1 ? resAmtP[i] : resAmtP[0])
-      const drvAmt = this._clamp01(drvAmtP.length > 1 ? drvAmtP[i] : drvAmtP[0])
-
-      // CV: cutoff 1V/oct, resonance/drive bipolar (-10..+10 V)
-      if (cutoffCv) {
-        const cv = Math.max(-10, Math.min(10, cutoffCv[i] || 0))
-        const oct = cv * cutAmt
-        fc = fc * 2 ** oct
-        fc = Math.max(20, Math.min(8000, fc))
+    for (let v = 0; v < voices; v++) {
+      const st = this.voices[v]
+      const xIn = voiceChannel(inputs[0], v)
+      const cutoffCv = voiceChannel(inputs[1], v)
+      const resCv = voiceChannel(inputs[2], v)
+      const driveCv = voiceChannel(inputs[3], v)
+      const lpOut = lpBus[v]
+      const hpOut = hpBus[v]
+
+      if (!xIn) {
+        lpOut.fill(0)
+        hpOut.fill(0)
+        continue
       }
 
-      if (resCv) {
-        const v = Math.max(-10, Math.min(10, resCv[i] || 0))
-        rNorm = this._clamp01(rNorm + (v / 10) * resAmt)
-      }
+      for (let i = 0; i < n; i++) {
+        // Per-sample params (a-rate for cutoff/resonance)
+        // Cutoff parameter is already in Hz from the UI's logarithmic mapping
+        let fc = Math.max(
+          10,
+          Math.min(this.fs * 0.49, cutP.length > 1 ? cutP[i] : cutP[0]),
+        )
+        let rNorm = this._clamp01(resP.length > 1 ? resP[i] : resP[0])
+        let dNorm = this._clamp01(drvP.length > 1 ? drvP[i] : drvP[0])
+        const cutAmt = this._clamp01(
+          cutAmtP.length > 1 ? cutAmtP[i] : cutAmtP[0],
+        )
+        const resAmt = this._clamp01(
+          resAmtP.length > 1 ? resAmtP[i] : resAmtP[0],
+        )
+        const drvAmt = this._clamp01(
+          drvAmtP.length > 1 ? drvAmtP[i] : drvAmtP[0],
+        )
+
+        // CV: cutoff 1V/oct, resonance/drive bipolar (-10..+10 V)
+        if (cutoffCv) {
+          const cv = Math.max(-10, Math.min(10, cutoffCv[i] || 0))
+          const oct = cv * cutAmt
+          fc = fc * 2 ** oct
+          fc = Math.max(20, Math.min(8000, fc))
+        }
 
-      if (driveCv) {
-        const v = Math.max(-10, Math.min(10, driveCv[i] || 0))
-        dNorm = this._clamp01(dNorm + (v / 10) * drvAmt)
-      }
+        if (resCv) {
+          const v = Math.max(-10, Math.min(10, resCv[i] || 0))
+          rNorm = this._clamp01(rNorm + (v / 10) * resAmt)
+        }
 
-      // Smooth parameter updates
-      this.cutSm = this.smoothA * this.cutSm + this.smoothB * fc
-      this.resSm = this.smoothA * this.resSm + this.smoothB * rNorm
-      this.drvSm = this.smoothA * this.drvSm + this.smoothB * dNorm
+        if (driveCv) {
+          const v = Math.max(-10, Math.min(10, driveCv[i] || 0))
+          dNorm = this._clamp01(dNorm + (v / 10) * drvAmt)
+        }
 
-      // Compute filter coefficient from smoothed cutoff (moved up for Q calculation)
-      const g = Math.tan((Math.PI * this.cutSm) / this.fs)
+        // Smooth parameter updates
+        st.cutSm = this.smoothA * st.cutSm + this.smoothB * fc
+        st.resSm = this.smoothA * st.resSm + this.smoothB * rNorm
+        st.drvSm = this.smoothA * st.drvSm + this.smoothB * dNorm
 
-      // Simple, stable resonance curve
-      // At res=0: Q=0.5 (no resonance)
-      // At res=1: Q~5 (controlled resonance)
-      const minQ = 0.5
-      const maxQ = 5
+        // Compute filter coefficient from smoothed cutoff (moved up for Q calculation)
+        const g = Math.tan((Math.PI * st.cutSm) / this.fs)
 
-      // Use smoothed resonance for consistency
-      let Q = minQ + this.resSm ** 1.8 * (maxQ - minQ)
+        // Simple, stable resonance curve
+        // At res=0: Q=0.5 (no resonance)
+        // At res=1: Q~5 (controlled resonance)
+        const minQ = 0.5
+        const maxQ = 5
 
-      // Frequency-dependent Q reduction to prevent instability at both ends
-      const freqNorm = this.cutSm / this.ny
+        // Use smoothed resonance for consistency
+        let Q = minQ + st.resSm ** 1.8 * (maxQ - minQ)
 
-      // Low-frequency instability prevention
-      if (freqNorm < 0.02) {
-        // Below ~200 Hz at 48kHz
-        // Exponential reduction for smoother transition
-        const lfScale = (freqNorm / 0.02) ** 1.5
-        Q = minQ + (Q - minQ) * lfScale
-      }
+        // Frequency-dependent Q reduction to prevent instability at both ends
+        const freqNorm = st.cutSm / this.ny
 
-      // High-frequency instability prevention - very aggressive
-      // Start reducing Q much earlier to prevent any instability
-      if (g > 0.3) {
-        // Start reducing Q around 2 kHz at 48 kHz (much earlier)
-        // Exponential reduction for more aggressive control
-        const normalizedG = (g - 0.3) / (1 - 0.3) // 0 to 1 range from g=0.3 to g=1
-        const hfScale = Math.max(0.1, (1 - normalizedG) ** 2) // Quadratic falloff
-        Q = minQ + (Q - minQ) * hfScale
-      }
+        // Low-frequency instability prevention
+        if (freqNorm < 0.02) {
+          // Below ~200 Hz at 48kHz
+          // Exponential reduction for smoother transition
+          const lfScale = (freqNorm / 0.02) ** 1.5
+          Q = minQ + (Q - minQ) * lfScale
+        }
 
-      const R = 1 / Q
+        // High-frequency instability prevention - very aggressive
+        // Start reducing Q much earlier to prevent any instability
+        if (g > 0.3) {
+          // Start reducing Q around 2 kHz at 48 kHz (much earlier)
+          // Exponential reduction for more aggressive control
+          const normalizedG = (g - 0.3) / (1 - 0.3) // 0 to 1 range from g=0.3 to g=1
+          const hfScale = Math.max(0.1, (1 - normalizedG) ** 2) // Quadratic falloff
+          Q = minQ + (Q - minQ) * hfScale
+        }
 
-      // Input sample (expect ±5 V program level)
-      const xin = Math.max(-5, Math.min(5, xIn[i] || 0))
+        const R = 1 / Q
 
-      // Simple SVF step without complex saturation
-      const s = this._processSVFStep(xin, g, R, this.drvSm)
+        // Input sample (expect ±5 V program level)
+        const xin = Math.max(-5, Math.min(5, xIn[i] || 0))
 
-      // Aggressive gain compensation to prevent resonant peaks from exceeding ±5V
-      // The resonance gain at the cutoff frequency is approximately Q
-      // We need to compensate for this gain increase
-      let gainComp = 1
+        // Simple SVF step without complex saturation
+        const s = this._processSVFStep(st, xin, g, R, st.drvSm)
 
-      // Always apply compensation when there's any resonance
-      if (Q > minQ) {
-        // The peak gain of a resonant filter is approximately Q at the cutoff frequency
-        // We want to keep the output roughly the same amplitude as the input
-        const resonanceGain = Q / minQ // How much louder than flat response
+        // Aggressive gain compensation to prevent resonant peaks from exceeding ±5V
+        // The resonance gain at the cutoff frequency is approximately Q
+        // We need to compensate for this gain increase
+        let gainComp = 1
 
-        // Extra aggressive compensation at very low frequencies
-        let compStrength = 0.8
-        if (freqNorm < 0.02) {
-          // Below 200 Hz, increase compensation strength exponentially
-          compStrength = 0.8 + 0.15 * (1 - freqNorm / 0.02) ** 2
-        }
+        // Always apply compensation when there's any resonance
+        if (Q > minQ) {
+          // The peak gain of a resonant filter is approximately Q at the cutoff frequency
+          // We want to keep the output roughly the same amplitude as the input
+          const resonanceGain = Q / minQ // How much louder than flat response
 
-        // More aggressive compensation at low frequencies where resonance is strongest
-        const freqFactor = Math.max(0.2, Math.min(1, freqNorm * 3))
+          // Extra aggressive compensation at very low frequencies
+          let compStrength = 0.8
+          if (freqNorm < 0.02) {
+            // Below 200 Hz, increase compensation strength exponentially
+            compStrength = 0.8 + 0.15 * (1 - freqNorm / 0.02) ** 2
+          }
 
-        // Calculate compensation to keep peaks under control
-        // At maximum Q and low frequency, we want very significant gain reduction
-        gainComp = 1 / (1 + (resonanceGain - 1) * compStrength * freqFactor)
-      }
+          // More aggressive compensation at low frequencies where resonance is strongest
+          const freqFactor = Math.max(0.2, Math.min(1, freqNorm * 3))
 
-      // Additional low-cutoff gain compensation for LOWPASS only
-      // At very low cutoff frequencies, reduce lowpass signal level
-      // to simulate natural filter roll-off behavior
-      let lpCutoffComp = 1
-      if (this.cutSm < 200) {
-        // Below 200 Hz, apply progressive gain reduction
-        // At 20 Hz: 0% (complete silence)
-        // At 200 Hz: full level
-        const cutoffRatio = (this.cutSm - 20) / (200 - 20) // 0 to 1 from 20Hz to 200Hz
-        const normalizedRatio = Math.max(0, cutoffRatio) // Ensure no negative values
-        // Use a gentler curve: square root gives more usable range at low end
-        lpCutoffComp = Math.sqrt(normalizedRatio)
-      }
+          // Calculate compensation to keep peaks under control
+          // At maximum Q and low frequency, we want very significant gain reduction
+          gainComp = 1 / (1 + (resonanceGain - 1) * compStrength * freqFactor)
+        }
 
-      // Apply appropriate gain compensation to each output
-      // Lowpass gets both resonance and cutoff compensation
-      const lpGainComp = gainComp * lpCutoffComp
-      // Highpass only gets resonance compensation (no cutoff silencing)
-      const hpGainComp = gainComp
-
-      // Apply gain compensation and soft limit
-      const lp = this._limit(s.lp * lpGainComp)
-      const hp = this._limit(s.hp * hpGainComp)
-      lpOut[i] = Number.isFinite(lp) ? lp : 0
-      hpOut[i] = Number.isFinite(hp) ? hp : 0
+        // Additional low-cutoff gain compensation for LOWPASS only
+        // At very low cutoff frequencies, reduce lowpass signal level
+        // to simulate natural filter roll-off behavior
+        let lpCutoffComp = 1
+        if (st.cutSm < 200) {
+          // Below 200 Hz, apply progressive gain reduction
+          // At 20 Hz: 0% (complete silence)
+          // At 200 Hz: full level
+          const cutoffRatio = (st.cutSm - 20) / (200 - 20) // 0 to 1 from 20Hz to 200Hz
+          const normalizedRatio = Math.max(0, cutoffRatio) // Ensure no negative values
+          // Use a gentler curve: square root gives more usable range at low end
+          lpCutoffComp = Math.sqrt(normalizedRatio)
+        }
+
+        // Apply appropriate gain compensation to each output
+        // Lowpass gets both resonance and cutoff compensation
+        const lpGainComp = gainComp * lpCutoffComp
+        // Highpass only gets resonance compensation (no cutoff silencing)
+        const hpGainComp = gainComp
+
+        // Apply gain compensation and soft limit
+        const lp = this._limit(s.lp * lpGainComp)
+        const hp = this._limit(s.hp * hpGainComp)
+        lpOut[i] = Number.isFinite(lp) ? lp : 0
+        hpOut[i] = Number.isFinite(hp) ? hp : 0
+      }
     }
 
     return true
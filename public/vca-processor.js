@@ -4,6 +4,13 @@
 //   gTarget = clamp01( offset + cvAmount * (max(cv, 0) / 10) )
 //
 // No inversion, purely attenuating CV. Hard mute below -90 dB to prevent bleed.
+// Polyphonic: one voice per input channel (widest input, up to 16); mono inputs feed every voice.
+
+// Channel of a poly input for voice v (a mono cable applies to all voices)
+const voiceChannel = (input, v) => {
+  if (!input || input.length === 0) return null
+  return input.length === 1 ? input[0] : input[v] || null
+}
 
 class VCAProcessor extends AudioWorkletProcessor {
   static get parameterDescriptors() {
@@ -62,17 +69,37 @@ class VCAProcessor extends AudioWorkletProcessor {
 
   constructor() {
     super()
-    this.g = 0 // smoothed gain
-    this.prevX = 0 // DC-block memory
-    this.prevY = 0
-    this.gated = true // start muted
+    this.voices = [this.newVoice()]
+    this.channels = 1
+  }
+
+  newVoice() {
+    return {
+      g: 0, // smoothed gain
+      prevX: 0, // DC-block memory
+      prevY: 0,
+      gated: true, // start muted
+    }
+  }
+
+  // Voice count follows the widest input; reported so the UI can trim outputs
+  updateVoices(inputs, max) {
+    let n = 1
+    for (const input of inputs) if (input.length > n) n = input.length
+    n = Math.min(n, max)
+    while (this.voices.length < n) this.voices.push(this.newVoice())
+    this.voices.length = n
+    if (n !== this.channels) {
+      this.channels = n
+      this.port.postMessage({ type: 'channels', value: n })
+    }
+    return n
   }
 
   process(inputs, outputs, p) {
-    const inA = inputs[0]?.[0] ? inputs[0][0] : null
-    const inCV = inputs[1]?.[0] ? inputs[1][0] : null
-    const out = outputs[0][0]
-    const n = out.length
+    const output = outputs[0]
+    const voices = this.updateVoices(inputs, output.length)
+    const n = output[0].length
 
     const offset = p.offset[0] // 0..1 (direct base gain)
     const amount = p.cvAmount[0] // 0..1 (attenuator, no inversion)
@@ -91,49 +118,56 @@ class VCAProcessor extends AudioWorkletProcessor {
     const thHi = thLin * 2 // 6 dB hysteresis
     const thLo = thLin
 
-    for (let i = 0; i < n; i++) {
-      const x = inA ? inA[i] : 0
-      const cv = inCV ? inCV[i] : 0
-
-      // CV is volts; negative CV does not invert—clamp to 0
-      const cvPos = cv > 0 ? cv : 0
-
-      // 10 V at cvAmount=1.0 => +1.0 gain contribution
-      let gTarget = offset + amount * (cvPos / 10)
-
-      // clamp to 0..1
-      gTarget = gTarget < 0 ? 0 : gTarget > 1 ? 1 : gTarget
-
-      // hard gate with hysteresis to kill bleed
-      if (this.gated) {
-        if (gTarget >= thHi) this.gated = false
-      } else {
-        if (gTarget <= thLo) this.gated = true
+    for (let v = 0; v < voices; v++) {
+      const voice = this.voices[v]
+      const inA = voiceChannel(inputs[0], v)
+      const inCV = voiceChannel(inputs[1], v)
+      const out = output[v]
+
+      for (let i = 0; i < n; i++) {
+        const x = inA ? inA[i] : 0
+        const cv = inCV ? inCV[i] : 0
+
+        // CV is volts; negative CV does not invert—clamp to 0
+        const cvPos = cv > 0 ? cv : 0
+
+        // 10 V at cvAmount=1.0 => +1.0 gain contribution
+        let gTarget = offset + amount * (cvPos / 10)
+
+        // clamp to 0..1
+        gTarget = gTarget < 0 ? 0 : gTarget > 1 ? 1 : gTarget
+
+        // hard gate with hysteresis to kill bleed
+        if (voice.gated) {
+          if (gTarget >= thHi) voice.gated = false
+        } else {
+          if (gTarget <= thLo) voice.gated = true
+        }
+        if (voice.gated) gTarget = 0
+
+        // smooth for clickless changes
+        voice.g = slewA === 0 ? gTarget : gTarget + (voice.g - gTarget) * slewA
+
+        // apply gain
+        let y = x * voice.g
+
+        // optional soft limiter (defaults to 0/off)
+        if (satMix > 0) {
+          const k = 2.5
+          const sat = Math.tanh(k * y) / Math.tanh(k)
+          y = y * (1 - satMix) + sat * satMix
+        }
+
+        // DC-block to keep path pristine
+        if (dcBlock) {
+          const hp = y - voice.prevX + r * voice.prevY
+          voice.prevX = y
+          voice.prevY = hp
+          y = hp
+        }
+
+        out[i] = y
       }
-      if (this.gated) gTarget = 0
-
-      // smooth for clickless changes
-      this.g = slewA === 0 ? gTarget : gTarget + (this.g - gTarget) * slewA
-
-      // apply gain
-      let y = x * this.g
-
-      // optional soft limiter (defaults to 0/off)
-      if (satMix > 0) {
-        const k = 2.5
-        const sat = Math.tanh(k * y) / Math.tanh(k)
-        y = y * (1 - satMix) + sat * satMix
-      }
-
-      // DC-block to keep path pristine
-      if (dcBlock) {
-        const hp = y - this.prevX + r * this.prevY
-        this.prevX = y
-        this.prevY = hp
-        y = hp
-      }
-
-      out[i] = y
     }
     return true
   }